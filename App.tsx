@@ -4,6 +4,7 @@ import MarkdownInput from './components/MarkdownInput';
 import ResultPreview from './components/ResultPreview';
 import SlideDeckBuilder from './components/SlideDeckBuilder';
 import { generateVisualContent, GeneratedImageResult, GenerationMode } from './services/geminiService';
+import { DocumentCorpus, DocumentGroundingMode } from './services/ingest/documentIngest';
 import { Key, ArrowRight, ExternalLink, Presentation, LayoutTemplate, Box, FileCode, Sticker } from 'lucide-react';
 
 const DEFAULT_MARKDOWN = `## Cloud Computing Architecture
@@ -19,6 +20,8 @@ Running multiple isolated operating systems on one physical server.`;
 
 const App: React.FC = () => {
   const [markdown, setMarkdown] = useState<string>(DEFAULT_MARKDOWN);
+  const [corpus, setCorpus] = useState<DocumentCorpus | null>(null);
+  const [groundingMode, setGroundingMode] = useState<DocumentGroundingMode>('documents-first');
   
   const [resultsHistory, setResultsHistory] = useState<Record<GenerationMode, GeneratedImageResult[]>>({
     'infographic': [],
@@ -165,6 +168,10 @@ const App: React.FC = () => {
                   isGenerating={isGenerating} 
                   onGenerate={handleGenerate}
                   mode={mode}
+                  corpus={corpus}
+                  onCorpusChange={setCorpus}
+                  groundingMode={groundingMode}
+                  onGroundingModeChange={setGroundingMode}
                 />
               </div>
               <div className="h-full min-h-[500px]">
@@ -180,7 +187,10 @@ const App: React.FC = () => {
             </div>
           </div>
         ) : (
-          <SlideDeckBuilder onBack={() => setView('quick')} />
+          <SlideDeckBuilder
+            onBack={() => setView('quick')}
+            documents={corpus?.facts.length ? { facts: corpus.facts, mode: groundingMode } : undefined}
+          />
         )}
       </main>
     </div>
@@ -0,0 +1,494 @@
+/**
+ * Headless Deck Generator (CLI)
+ *
+ * Runs the agentic pipeline from Node (scripts, cron jobs, CI) and writes:
+ *   - <name>.pptx          the exported deck (same exporter as the UI's "Export PPTX")
+ *   - <name>.deck.json     the EditableSlideDeck
+ *   - <name>.iqproj.json   a project file that can be reopened in the builder ("Open Project")
+ *   - <name>.compat.json   features the export target degraded (only with --target other than powerpoint)
+ *   - <name>.metrics.json  a metrics report (cost, timings, warnings per slide)
+ *   - <name>.html          a self-contained HTML presentation with presenter view (only with --html)
+ *   - <name>.handout.pdf   a printable handout (only with --handout)
+ *   - <name>-slides/       one PNG per slide, 1920×1080 at 16:9 (only with --png)
+ *   - <name>.<lang>.pptx / .deck.json / .iqproj.json   the deck translated (only with --translate)
+ *
+ * Usage:
+ *   npm run deck:generate -- --topic "AI in logistics" [options]
+ *   npm run deck:generate -- --file outline.md [options]
+ *
+ * Options:
+ *   --topic <text>       Topic / prompt for the deck
+ *   --file <path>        Markdown or text file used as the prompt (an outline keeps its slides, see README "Outline Mode")
+ *   --style <mode>       corporate | professional | serendipitous (default: professional)
+ *   --audience <who>     executives | engineers | investors | students, or a JSON file with a custom
+ *                        AudienceProfile (readingLevel, jargonTolerance, preferredSlideCount, callToAction)
+ *   --slide-size <size>  16:9 | 4:3 | a4-portrait | 1:1 | 9:16 (default: 16:9)
+ *   --template <path>    Build on a corporate .potx / .pptx master: its logo, footer, fonts, colours,
+ *                        layouts and page size (replaces --slide-size)
+ *   --brand-kit <path>   Constrain the deck to a brand kit JSON file: approved colours, fonts, logos,
+ *                        banned decorations and card styles (logo "data" may be a path next to the file)
+ *   --mode <mode>        Director mode: fast | balanced | premium (omit to use the legacy pipeline)
+ *   --out <dir>          Output directory (default: ./output)
+ *   --name <basename>    Base file name (default: slug of the deck title)
+ *   --citations <style>  Citation footers / Sources slide: numeric | author-date | url-only (default: numeric)
+ *   --search <provider>  Research search backend: searxng:<url> | elasticsearch:<index url> | local:<file>
+ *                        (default: SEARCH_PROVIDER from the environment, else the model's own knowledge)
+ *   --doc <path>         Ground research in a PDF, DOCX, Markdown or HTML document (repeatable)
+ *   --docs-only          Research from the --doc documents only, no web research
+ *   --data <path>        Chart a CSV, TSV, XLSX or JSON table from its own rows (repeatable)
+ *   --refresh-research   Research again instead of reusing cached facts from earlier runs
+ *   --translate <lang>   Also write a translated copy, e.g. de, ja, ar (repeatable; numbers and citations are kept)
+ *   --target <app>       Export profile: powerpoint | google-slides | keynote (default: powerpoint)
+ *   --html               Also write an offline HTML presentation
+ *   --handout <n>        Also write a PDF handout with 1, 2 or 3 slides per page
+ *   --no-notes           Handout without speaker notes (ruled lines instead)
+ *   --png                Also write one PNG per slide
+ *   --record <dir>       Record every LLM response into fixture files under <dir>
+ *   --replay <dir>       Replay LLM responses from <dir> (offline, no API key needed)
+ *
+ * Handouts and PNGs need Playwright's Chromium (npx playwright install chromium).
+ *
+ * Environment: GEMINI_API_KEY (or API_KEY), optional DASHSCOPE_API_KEY / QWEN_API_KEY,
+ * SEARCH_PROVIDER, ELASTICSEARCH_API_KEY, and RESEARCH_CACHE=off / RESEARCH_CACHE_TTL_HOURS /
+ * RESEARCH_CACHE_DIR for the research cache (default: .cache/research, one week).
+ * Replays take the same Qwen path as the recording only if the Qwen key was set for both.
+ * Variables are read from .env via dotenv, mirroring vite.config.ts.
+ */
+
+import 'dotenv/config';
+import { parseArgs } from 'node:util';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { AUDIENCE_PROFILES, AudiencePresetSchema, AudienceProfile, AudienceProfileSchema, BrandKit, CitationStyle, CitationStyleSchema, EditableSlideDeck, GlobalStyleGuide, SlideSize, SlideSizeSchema, StyleMode, StyleModeSchema } from '../types/slideTypes';
+import { PROJECT_FILE_EXTENSION } from '../types/projectTypes';
+import { EXPORT_TARGETS, ExportTarget } from '../services/export/exportProfiles';
+import type { DirectorMode } from '../services/DirectorAgent';
+import type { HandoutSlidesPerPage } from '../services/export/handoutExporter';
+import { configureSearchProvider, createSearchProvider, parseSearchProviderSpec, SearchProviderSpec } from '../services/search/searchProvider';
+import { DocumentCorpus, ingestDocuments } from '../services/ingest/documentIngest';
+import { DataTable, importDataFiles } from '../services/data/tableImport';
+import { DeckLanguage, resolveDeckLanguage } from '../services/translation/languages';
+import { importPptxTemplate } from '../services/import/templateImporter';
+import { IMAGE_MIME_TYPES } from '../services/import/ooxml';
+import { parseBrandKit } from '../services/brand/brandKit';
+
+const DIRECTOR_MODES: DirectorMode[] = ['fast', 'balanced', 'premium'];
+const HANDOUT_LAYOUTS: HandoutSlidesPerPage[] = [1, 2, 3];
+
+const USAGE = `Usage: npm run deck:generate -- (--topic <text> | --file <path>) [--style corporate|professional|serendipitous] [--audience <preset>|<file.json>] [--slide-size 16:9|4:3|a4-portrait|1:1|9:16 | --template <file.potx>] [--brand-kit <kit.json>] [--mode fast|balanced|premium] [--out <dir>] [--name <basename>] [--citations numeric|author-date|url-only] [--search <kind>:<target>] [--doc <path>... [--docs-only]] [--data <path>...] [--refresh-research] [--translate <lang>...] [--target powerpoint|google-slides|keynote] [--html] [--handout 1|2|3 [--no-notes]] [--png] [--record <dir> | --replay <dir>]`;
+
+// Vite injects API_KEY from GEMINI_API_KEY for the browser build; do the same here
+if (!process.env.API_KEY && process.env.GEMINI_API_KEY) {
+    process.env.API_KEY = process.env.GEMINI_API_KEY;
+}
+
+interface CliOptions {
+    prompt: string;
+    source: string;
+    styleMode: StyleMode;
+    audience?: AudienceProfile;
+    slideSize: SlideSize;
+    template?: GlobalStyleGuide;
+    brandKit?: BrandKit;
+    directorMode?: DirectorMode;
+    outDir: string;
+    baseName?: string;
+    citationStyle: CitationStyle;
+    search?: SearchProviderSpec;
+    documents?: { corpus: DocumentCorpus; docsOnly: boolean };
+    dataTables: DataTable[];
+    refreshResearch: boolean;
+    translations: DeckLanguage[];
+    target: ExportTarget;
+    html: boolean;
+    handout?: { slidesPerPage: HandoutSlidesPerPage; includeNotes: boolean };
+    png: boolean;
+    replay?: { mode: 'record' | 'replay'; fixtureDir: string };
+}
+
+class CliUsageError extends Error { }
+
+async function parseCliOptions(argv: string[]): Promise<CliOptions> {
+    const { values } = parseArgs({
+        args: argv,
+        options: {
+            topic: { type: 'string' },
+            file: { type: 'string' },
+            style: { type: 'string', default: 'professional' },
+            audience: { type: 'string' },
+            'slide-size': { type: 'string' },
+            template: { type: 'string' },
+            'brand-kit': { type: 'string' },
+            mode: { type: 'string' },
+            out: { type: 'string', default: 'output' },
+            name: { type: 'string' },
+            citations: { type: 'string', default: 'numeric' },
+            search: { type: 'string' },
+            doc: { type: 'string', multiple: true },
+            'docs-only': { type: 'boolean', default: false },
+            data: { type: 'string', multiple: true },
+            'refresh-research': { type: 'boolean', default: false },
+            translate: { type: 'string', multiple: true },
+            target: { type: 'string', default: 'powerpoint' },
+            html: { type: 'boolean', default: false },
+            handout: { type: 'string' },
+            'no-notes': { type: 'boolean', default: false },
+            png: { type: 'boolean', default: false },
+            record: { type: 'string' },
+            replay: { type: 'string' },
+            help: { type: 'boolean', short: 'h' }
+        },
+        strict: true
+    });
+
+    if (values.help) throw new CliUsageError('');
+    if (!values.topic && !values.file) throw new CliUsageError('Provide --topic or --file.');
+    if (values.topic && values.file) throw new CliUsageError('Use either --topic or --file, not both.');
+
+    const style = StyleModeSchema.safeParse(values.style);
+    if (!style.success) throw new CliUsageError(`Unknown style "${values.style}". Expected one of: ${StyleModeSchema.options.join(', ')}.`);
+
+    let audience: AudienceProfile | undefined;
+    if (values.audience?.endsWith('.json')) {
+        try {
+            audience = AudienceProfileSchema.parse({
+                label: 'Custom',
+                ...JSON.parse(await readFile(values.audience, 'utf8')),
+                preset: 'custom'
+            });
+        } catch (e: any) {
+            const detail = e.issues ? e.issues.map((i: any) => `${i.path.join('.')}: ${i.message}`).join('; ') : e.message;
+            throw new CliUsageError(`Invalid audience profile in ${values.audience}: ${detail}`);
+        }
+    } else if (values.audience) {
+        const presets = AudiencePresetSchema.options.filter(p => p !== 'custom');
+        if (!presets.includes(values.audience as any)) {
+            throw new CliUsageError(`Unknown audience "${values.audience}". Expected one of: ${presets.join(', ')}, or a .json profile.`);
+        }
+        audience = AUDIENCE_PROFILES[values.audience as keyof typeof AUDIENCE_PROFILES];
+    }
+
+    const slideSize = SlideSizeSchema.safeParse(values['slide-size'] ?? '16:9');
+    if (!slideSize.success) throw new CliUsageError(`Unknown slide size "${values['slide-size']}". Expected one of: ${SlideSizeSchema.options.join(', ')}.`);
+
+    let template: GlobalStyleGuide | undefined;
+    if (values.template) {
+        if (values['slide-size']) throw new CliUsageError('Use either --slide-size or --template (the template sets the page size), not both.');
+        try {
+            const imported = await importPptxTemplate(new Uint8Array(await readFile(values.template)), { fileName: path.basename(values.template) });
+            imported.warnings.forEach(warning => console.warn(`[CLI] Template: ${warning}`));
+            template = imported.styleGuide;
+        } catch (e: any) {
+            throw new CliUsageError(`Could not read template ${values.template}: ${e.message}`);
+        }
+    }
+
+    let brandKit: BrandKit | undefined;
+    if (values['brand-kit']) {
+        try {
+            brandKit = await readBrandKit(values['brand-kit']);
+        } catch (e: any) {
+            throw new CliUsageError(`Could not read brand kit ${values['brand-kit']}: ${e.message}`);
+        }
+    }
+
+    if (values.mode && !DIRECTOR_MODES.includes(values.mode as DirectorMode)) {
+        throw new CliUsageError(`Unknown director mode "${values.mode}". Expected one of: ${DIRECTOR_MODES.join(', ')}.`);
+    }
+
+    const citationStyle = CitationStyleSchema.safeParse(values.citations);
+    if (!citationStyle.success) throw new CliUsageError(`Unknown citation style "${values.citations}". Expected one of: ${CitationStyleSchema.options.join(', ')}.`);
+
+    let search: SearchProviderSpec | undefined;
+    if (values.search) {
+        try {
+            search = parseSearchProviderSpec(values.search);
+        } catch (e: any) {
+            throw new CliUsageError(e.message);
+        }
+    }
+
+    if (values['docs-only'] && !values.doc?.length) throw new CliUsageError('--docs-only needs at least one --doc.');
+    let documents: CliOptions['documents'];
+    if (values.doc?.length) {
+        const files = await Promise.all(values.doc.map(async file => ({ name: path.basename(file), data: new Uint8Array(await readFile(file)) })));
+        const corpus = await ingestDocuments(files);
+        if (corpus.failures.length > 0) {
+            throw new CliUsageError(corpus.failures.map(f => `Could not read ${f.fileName}: ${f.message}`).join('\n'));
+        }
+        documents = { corpus, docsOnly: !!values['docs-only'] };
+    }
+
+    let dataTables: DataTable[] = [];
+    if (values.data?.length) {
+        const files = await Promise.all(values.data.map(async file => ({ name: path.basename(file), data: new Uint8Array(await readFile(file)) })));
+        const imported = await importDataFiles(files);
+        if (imported.failures.length > 0) {
+            throw new CliUsageError(imported.failures.map(f => `Could not read ${f.message}`).join('\n'));
+        }
+        dataTables = imported.tables;
+    }
+
+    let translations: DeckLanguage[] = [];
+    try {
+        translations = (values.translate || []).flatMap(tag => tag.split(',')).filter(Boolean).map(resolveDeckLanguage);
+    } catch (e: any) {
+        throw new CliUsageError(e.message);
+    }
+
+    if (!EXPORT_TARGETS.includes(values.target as ExportTarget)) {
+        throw new CliUsageError(`Unknown export target "${values.target}". Expected one of: ${EXPORT_TARGETS.join(', ')}.`);
+    }
+    const slidesPerPage = values.handout !== undefined ? Number(values.handout) as HandoutSlidesPerPage : undefined;
+    if (slidesPerPage !== undefined && !HANDOUT_LAYOUTS.includes(slidesPerPage)) {
+        throw new CliUsageError(`Unknown handout layout "${values.handout}". Expected slides per page: ${HANDOUT_LAYOUTS.join(', ')}.`);
+    }
+    if (values['no-notes'] && slidesPerPage === undefined) throw new CliUsageError('--no-notes only applies to --handout.');
+    if (values.record && values.replay) throw new CliUsageError('Use either --record or --replay, not both.');
+
+    let prompt = values.topic?.trim() || '';
+    let source = 'topic';
+    if (values.file) {
+        prompt = (await readFile(values.file, 'utf8')).trim();
+        source = path.resolve(values.file);
+    }
+    if (!prompt) throw new CliUsageError('The prompt is empty.');
+
+    return {
+        prompt,
+        source,
+        styleMode: style.data,
+        audience,
+        slideSize: template?.slideSize || slideSize.data,
+        template,
+        brandKit,
+        directorMode: values.mode as DirectorMode | undefined,
+        outDir: path.resolve(values.out!),
+        baseName: values.name,
+        citationStyle: citationStyle.data,
+        search,
+        documents,
+        dataTables,
+        refreshResearch: !!values['refresh-research'],
+        translations,
+        target: values.target as ExportTarget,
+        html: !!values.html,
+        handout: slidesPerPage ? { slidesPerPage, includeNotes: !values['no-notes'] } : undefined,
+        png: !!values.png,
+        replay: values.record ? { mode: 'record', fixtureDir: path.resolve(values.record) }
+            : values.replay ? { mode: 'replay', fixtureDir: path.resolve(values.replay) }
+            : undefined
+    };
+}
+
+/**
+ * Brand kit JSON; logo "data" that is not a data URL is read as an image file
+ * relative to the kit.
+ */
+async function readBrandKit(kitPath: string): Promise<BrandKit> {
+    const raw = JSON.parse(await readFile(kitPath, 'utf8'));
+    for (const logo of Array.isArray(raw?.logos) ? raw.logos : []) {
+        if (typeof logo?.data !== 'string' || logo.data.startsWith('data:')) continue;
+        const logoPath = path.resolve(path.dirname(kitPath), logo.data);
+        const mimeType = IMAGE_MIME_TYPES[path.extname(logoPath).slice(1).toLowerCase()];
+        if (!mimeType) throw new Error(`Unsupported logo image ${logo.data}`);
+        logo.data = `data:${mimeType};base64,${(await readFile(logoPath)).toString('base64')}`;
+    }
+    return parseBrandKit(raw);
+}
+
+const slugify = (value: string): string =>
+    value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'deck';
+
+/**
+ * Metrics report: deck-level DeckMetrics plus a per-slide quality summary.
+ */
+function buildMetricsReport(deck: EditableSlideDeck, options: CliOptions, durationMs: number) {
+    const slides = deck.slides.map(slide => ({
+        order: slide.order,
+        title: slide.title,
+        type: slide.type,
+        layoutVariant: slide.routerConfig?.layoutVariant,
+        components: (slide.layoutPlan?.components || []).map(c => c.type),
+        citations: slide.citations?.length || 0,
+        warnings: slide.warnings || []
+    }));
+
+    return {
+        generatedAt: new Date().toISOString(),
+        source: options.source,
+        topic: deck.topic,
+        title: deck.meta.title,
+        styleMode: options.styleMode,
+        audience: options.audience?.label,
+        slideSize: options.slideSize,
+        template: options.template?.themeName,
+        brandKit: options.brandKit?.name,
+        pipeline: options.directorMode ? `director:${options.directorMode}` : 'legacy',
+        durationMs,
+        slideCount: deck.slides.length,
+        factCount: deck.meta.knowledgeSheet?.length || 0,
+        warningCount: slides.reduce((sum, s) => sum + s.warnings.length, 0),
+        metrics: { ...deck.metrics, totalDurationMs: deck.metrics.totalDurationMs || durationMs },
+        slides
+    };
+}
+
+async function main() {
+    let options: CliOptions;
+    try {
+        options = await parseCliOptions(process.argv.slice(2));
+    } catch (e: any) {
+        if (e instanceof CliUsageError || e?.code?.startsWith?.('ERR_PARSE_ARGS')) {
+            if (e.message) console.error(`[CLI] ${e.message}`);
+            console.error(USAGE);
+            process.exit(e.message ? 1 : 0);
+        }
+        throw e;
+    }
+
+    if (options.replay) {
+        const { configureLlmReplay } = await import('../services/replay/llmReplay');
+        configureLlmReplay(options.replay);
+    }
+
+    if (options.search) {
+        configureSearchProvider(createSearchProvider(options.search));
+    }
+
+    if (options.documents) {
+        const { corpus } = options.documents;
+        corpus.documents.forEach(doc => {
+            console.log(`[CLI] Document ${doc.fileName}: ${doc.pageCount} page(s), ${doc.factCount} fact(s)`);
+            doc.warnings.forEach(warning => console.warn(`[CLI]    ⚠️ ${warning}`));
+        });
+    }
+
+    if (!process.env.API_KEY && options.replay?.mode !== 'replay') {
+        console.error('[CLI] Missing GEMINI_API_KEY (or API_KEY) in the environment.');
+        process.exit(1);
+    }
+
+    // Imported lazily so env vars are in place before service modules read them
+    const { generateAgenticDeck } = await import('../services/slideAgentService');
+    const { buildDeckPresentation } = await import('../services/export/pptxExporter');
+    const { serializeProject } = await import('../services/project/projectFile');
+
+    console.log(`[CLI] Generating deck (style: ${options.styleMode}${options.audience ? `, audience: ${options.audience.label}` : ''}${options.slideSize !== '16:9' ? `, slide size: ${options.slideSize}` : ''}${options.template ? `, template: ${options.template.themeName}` : ''}${options.brandKit ? `, brand kit: ${options.brandKit.name}` : ''}, pipeline: ${options.directorMode ? `director/${options.directorMode}` : 'legacy'})...`);
+    const startTime = Date.now();
+
+    const deck = await generateAgenticDeck(
+        options.prompt,
+        (status, percent) => console.log(`[CLI] ${percent !== undefined ? `${String(percent).padStart(3)}% ` : ''}${status}`),
+        {
+            styleMode: options.styleMode,
+            audience: options.audience,
+            slideSize: options.slideSize,
+            templateStyleGuide: options.template,
+            brandKit: options.brandKit,
+            directorMode: options.directorMode,
+            citationStyle: options.citationStyle,
+            documents: options.documents && {
+                facts: options.documents.corpus.facts,
+                mode: options.documents.docsOnly ? 'documents-only' : 'documents-first'
+            },
+            dataTables: options.dataTables.length ? options.dataTables : undefined,
+            refreshResearch: options.refreshResearch
+        }
+    );
+    const durationMs = Date.now() - startTime;
+
+    if (options.replay?.mode === 'replay') {
+        const { getLlmReplayMisses } = await import('../services/replay/llmReplay');
+        const misses = getLlmReplayMisses();
+        if (misses.length > 0) {
+            console.error(`[CLI] Replay incomplete: ${misses.length} request(s) had no fixture in ${options.replay.fixtureDir}:`);
+            misses.slice(0, 10).forEach(miss => console.error(`[CLI]    ${miss.channel}-${miss.fingerprint}`));
+            process.exit(1);
+        }
+    }
+
+    await mkdir(options.outDir, { recursive: true });
+    const baseName = options.baseName || slugify(deck.meta.title || deck.topic);
+    const pptxPath = path.join(options.outDir, `${baseName}.pptx`);
+    const deckPath = path.join(options.outDir, `${baseName}.deck.json`);
+    const metricsPath = path.join(options.outDir, `${baseName}.metrics.json`);
+    const projectPath = path.join(options.outDir, `${baseName}${PROJECT_FILE_EXTENSION}`);
+
+    const { pres, report } = await buildDeckPresentation(deck, options.target);
+    const buffer = await pres.write({ outputType: 'nodebuffer' }) as Buffer;
+    await writeFile(pptxPath, buffer);
+    await writeFile(deckPath, JSON.stringify(deck, null, 2));
+    await writeFile(metricsPath, JSON.stringify(buildMetricsReport(deck, options, durationMs), null, 2));
+    await writeFile(projectPath, serializeProject(deck, { styleMode: options.styleMode }));
+    const compatPath = options.target !== 'powerpoint' ? path.join(options.outDir, `${baseName}.compat.json`) : undefined;
+    if (compatPath) {
+        await writeFile(compatPath, JSON.stringify(report, null, 2));
+    }
+
+    const translatedPaths: string[] = [];
+    if (options.translations.length > 0) {
+        const { translateDeck } = await import('../services/translation/deckTranslator');
+        const { CostTracker } = await import('../services/interactionsClient');
+        for (const language of options.translations) {
+            console.log(`[CLI] Translating to ${language.name}...`);
+            const costTracker = new CostTracker();
+            const { deck: translated, keptOriginal, refittedSlides } = await translateDeck(deck, language.code, { costTracker });
+            const localizedName = `${baseName}.${language.code}`;
+            const localizedPptx = path.join(options.outDir, `${localizedName}.pptx`);
+            const { pres: localizedPres } = await buildDeckPresentation(translated, options.target);
+            await writeFile(localizedPptx, await localizedPres.write({ outputType: 'nodebuffer' }) as Buffer);
+            await writeFile(path.join(options.outDir, `${localizedName}.deck.json`), JSON.stringify(translated, null, 2));
+            await writeFile(path.join(options.outDir, `${localizedName}${PROJECT_FILE_EXTENSION}`), serializeProject(translated, { styleMode: options.styleMode }));
+            translatedPaths.push(`${localizedPptx} (${language.name}; ${keptOriginal.length} text(s) untranslated, ${refittedSlides.length} title(s) shortened, cost $${costTracker.getSummary().totalCost.toFixed(4)})`);
+        }
+    }
+
+    let htmlPath: string | undefined;
+    if (options.html) {
+        const { buildDeckHtml } = await import('../services/export/htmlExporter');
+        htmlPath = path.join(options.outDir, `${baseName}.html`);
+        await writeFile(htmlPath, await buildDeckHtml(deck));
+    }
+
+    let handoutPath: string | undefined;
+    let pngDir: string | undefined;
+    if (options.handout || options.png) {
+        const { exportDeckPdf, exportDeckPngs } = await import('../services/export/handoutExporter');
+        const { getBrowserRenderer } = await import('../services/BrowserRenderer');
+        try {
+            const slidePngs = options.png ? await exportDeckPngs(deck) : undefined;
+            if (slidePngs) {
+                pngDir = path.join(options.outDir, `${baseName}-slides`);
+                await mkdir(pngDir, { recursive: true });
+                for (const slide of slidePngs) {
+                    await writeFile(path.join(pngDir, slide.fileName), slide.png);
+                }
+            }
+            if (options.handout) {
+                handoutPath = path.join(options.outDir, `${baseName}.handout.pdf`);
+                await writeFile(handoutPath, await exportDeckPdf(deck, options.handout, undefined, slidePngs));
+            }
+        } finally {
+            await getBrowserRenderer().close();
+        }
+    }
+
+    console.log(`[CLI] ✅ ${deck.slides.length} slides in ${(durationMs / 1000).toFixed(1)}s, cost $${(deck.metrics.totalCost || 0).toFixed(4)}`);
+    console.log(`[CLI]    ${pptxPath}`);
+    console.log(`[CLI]    ${deckPath}`);
+    console.log(`[CLI]    ${metricsPath}`);
+    console.log(`[CLI]    ${projectPath}`);
+    if (compatPath) {
+        console.log(`[CLI]    ${compatPath} (${report.issues.length} degraded feature(s) for ${report.label})`);
+    }
+    translatedPaths.forEach(p => console.log(`[CLI]    ${p}`));
+    if (htmlPath) console.log(`[CLI]    ${htmlPath}`);
+    if (handoutPath) console.log(`[CLI]    ${handoutPath}`);
+    if (pngDir) console.log(`[CLI]    ${pngDir}/ (${deck.slides.length} PNG)`);
+}
+
+main().catch(e => {
+    console.error('[CLI] Generation failed:', e?.message || e);
+    process.exit(1);
+});
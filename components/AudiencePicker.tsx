@@ -0,0 +1,92 @@
+
+import React from 'react';
+import { AudiencePreset, AudiencePresetSchema, AudienceProfile, AUDIENCE_PROFILES, getAudienceProfile, JargonTolerance, JargonToleranceSchema } from '../types/slideTypes';
+import { Target } from 'lucide-react';
+
+const JARGON_LABELS: Record<JargonTolerance, string> = {
+    none: 'No jargon',
+    low: 'Light jargon',
+    medium: 'Field terms',
+    high: 'Full technical'
+};
+
+interface AudiencePickerProps {
+    /** null: no audience steering */
+    audience: AudienceProfile | null;
+    onChange: (audience: AudienceProfile | null) => void;
+    disabled?: boolean;
+}
+
+/**
+ * Audience profile for generation: a preset, or a custom profile with its own
+ * reading level, jargon tolerance, slide count and call to action.
+ */
+const AudiencePicker: React.FC<AudiencePickerProps> = ({ audience, onChange, disabled }) => {
+    const update = (patch: Partial<AudienceProfile>) => audience && onChange({ ...audience, ...patch });
+
+    const inputClass = 'w-full bg-black/40 text-slate-200 px-3 py-2 rounded-xl border border-white/10 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 disabled:opacity-50';
+
+    return (
+        <div className="space-y-3">
+            <label className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+                <Target className="w-3.5 h-3.5" /> Audience
+            </label>
+            <select
+                value={audience?.preset || ''}
+                onChange={(e) => onChange(e.target.value ? getAudienceProfile(e.target.value as AudiencePreset) : null)}
+                disabled={disabled}
+                className={inputClass}
+            >
+                <option value="">General (no audience profile)</option>
+                {AudiencePresetSchema.options.map(preset => (
+                    <option key={preset} value={preset}>
+                        {preset === 'custom' ? 'Custom…' : `${AUDIENCE_PROFILES[preset].label} · grade ${AUDIENCE_PROFILES[preset].readingLevel} · ${AUDIENCE_PROFILES[preset].preferredSlideCount} slides`}
+                    </option>
+                ))}
+            </select>
+
+            {audience?.preset === 'custom' && (
+                <div className="grid grid-cols-3 gap-2">
+                    <input value={audience.label} onChange={(e) => update({ label: e.target.value })} disabled={disabled} placeholder="Audience name" className={inputClass} aria-label="Audience name" />
+                    <input
+                        type="number" min={4} max={20}
+                        value={audience.readingLevel}
+                        onChange={(e) => update({ readingLevel: Math.min(20, Math.max(4, Number(e.target.value) || 4)) })}
+                        disabled={disabled}
+                        title="Reading level (US school grade)"
+                        aria-label="Reading level"
+                        className={inputClass}
+                    />
+                    <input
+                        type="number" min={4} max={12}
+                        value={audience.preferredSlideCount}
+                        onChange={(e) => update({ preferredSlideCount: Math.min(12, Math.max(4, Number(e.target.value) || 4)) })}
+                        disabled={disabled}
+                        title="Preferred slide count"
+                        aria-label="Preferred slide count"
+                        className={inputClass}
+                    />
+                    <select
+                        value={audience.jargonTolerance}
+                        onChange={(e) => update({ jargonTolerance: e.target.value as JargonTolerance })}
+                        disabled={disabled}
+                        aria-label="Jargon tolerance"
+                        className={inputClass}
+                    >
+                        {JargonToleranceSchema.options.map(level => <option key={level} value={level}>{JARGON_LABELS[level]}</option>)}
+                    </select>
+                    <input
+                        value={audience.callToAction}
+                        onChange={(e) => update({ callToAction: e.target.value })}
+                        disabled={disabled}
+                        placeholder="Call to action for the closing slide"
+                        aria-label="Call to action"
+                        className={`${inputClass} col-span-2`}
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AudiencePicker;
@@ -1,21 +1,26 @@
 
 import React, { useRef, useEffect, useState } from 'react';
-import { SlideNode, GlobalStyleGuide } from '../types/slideTypes';
+import { SlideNode, GlobalStyleGuide, CitationStyle, getSlideDimensions } from '../types/slideTypes';
 import { InfographicRenderer } from '../services/infographicRenderer';
+import { buildChartSvg } from '../services/visual/chartGeometry';
+import { buildTableSvg } from '../services/visual/tableGeometry';
 import { RefreshCw, Shuffle, Image as ImageIcon, Cpu } from 'lucide-react';
 
 interface BuilderCanvasProps {
     slide: SlideNode;
     styleGuide: GlobalStyleGuide;
+    citationStyle?: CitationStyle;
     onRegenerateVisual: () => void;
     isRegeneratingVisual: boolean;
 }
 
-const BuilderCanvas: React.FC<BuilderCanvasProps> = ({ slide, styleGuide, onRegenerateVisual, isRegeneratingVisual }) => {
+const BuilderCanvas: React.FC<BuilderCanvasProps> = ({ slide, styleGuide, citationStyle, onRegenerateVisual, isRegeneratingVisual }) => {
     const containerRef = useRef<HTMLDivElement>(null);
     const [scale, setScale] = useState(1);
-    const BASE_WIDTH = 960;
-    const BASE_HEIGHT = 540;
+    // 96px per slide inch: 960×540 for 16:9, other slide sizes keep the scale
+    const dims = getSlideDimensions(styleGuide?.slideSize);
+    const BASE_WIDTH = Math.round(dims.width * 96);
+    const BASE_HEIGHT = Math.round(dims.height * 96);
 
     useEffect(() => {
         if (!containerRef.current) return;
@@ -27,15 +32,15 @@ const BuilderCanvas: React.FC<BuilderCanvasProps> = ({ slide, styleGuide, onRege
         });
         observer.observe(containerRef.current);
         return () => observer.disconnect();
-    }, [slide]);
+    }, [slide, BASE_WIDTH, BASE_HEIGHT]);
 
     const renderCanvas = () => {
-        const renderer = new InfographicRenderer();
+        const renderer = new InfographicRenderer({ citationStyle });
         const elements = renderer.compileSlide(slide, styleGuide);
         const bgHex = (styleGuide?.colorPalette?.background || "#0f172a").replace('#','');
 
-        const toPxX = (val: number) => (val / 10) * BASE_WIDTH;
-        const toPxY = (val: number) => (val / 5.625) * BASE_HEIGHT;
+        const toPxX = (val: number) => (val / dims.width) * BASE_WIDTH;
+        const toPxY = (val: number) => (val / dims.height) * BASE_HEIGHT;
         const toPxFont = (pt: number) => Math.max(8, pt * 1.33);
 
         return (
@@ -77,6 +82,7 @@ const BuilderCanvas: React.FC<BuilderCanvasProps> = ({ slide, styleGuide, onRege
                                     fontWeight: el.bold ? 'bold' : 'normal',
                                     fontStyle: el.italic ? 'italic' : 'normal',
                                     textAlign: el.align || 'left',
+                                    direction: el.rtl ? 'rtl' : undefined,
                                     transform: el.rotation ? `rotate(${el.rotation}deg)` : 'none',
                                     zIndex: el.zIndex
                                 }}>
@@ -98,6 +104,30 @@ const BuilderCanvas: React.FC<BuilderCanvasProps> = ({ slide, styleGuide, onRege
                                 }} 
                             />
                         );
+                    } else if (el.type === 'chart') {
+                        // Vector equivalent of the native PPTX chart
+                        return (
+                            <div key={i} className="absolute transition-all"
+                                style={{
+                                    left: toPxX(el.x), top: toPxY(el.y),
+                                    width: toPxX(el.w), height: toPxY(el.h),
+                                    zIndex: el.zIndex
+                                }}
+                                dangerouslySetInnerHTML={{ __html: buildChartSvg(el) }}
+                            />
+                        );
+                    } else if (el.type === 'table') {
+                        // Vector equivalent of the native PPTX table
+                        return (
+                            <div key={i} className="absolute transition-all"
+                                style={{
+                                    left: toPxX(el.x), top: toPxY(el.y),
+                                    width: toPxX(el.w), height: toPxY(el.h),
+                                    zIndex: el.zIndex
+                                }}
+                                dangerouslySetInnerHTML={{ __html: buildTableSvg(el) }}
+                            />
+                        );
                     }
                     return null;
                 })}
@@ -120,8 +150,9 @@ const BuilderCanvas: React.FC<BuilderCanvasProps> = ({ slide, styleGuide, onRege
                 <label className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase">
                     <ImageIcon className="w-3 h-3" /> Visual Preview
                 </label>
-                <button onClick={onRegenerateVisual} disabled={isRegeneratingVisual} 
-                    className="text-[10px] bg-white/5 px-2 py-1 rounded hover:bg-white/10 text-slate-400 flex items-center gap-1">
+                <button onClick={onRegenerateVisual} disabled={isRegeneratingVisual || !!styleGuide?.template}
+                    title={styleGuide?.template ? 'The template master is the background' : undefined}
+                    className="text-[10px] bg-white/5 px-2 py-1 rounded hover:bg-white/10 text-slate-400 flex items-center gap-1 disabled:opacity-50">
                     <RefreshCw className={`w-3 h-3 ${isRegeneratingVisual ? 'animate-spin' : ''}`} /> Remix Visual
                 </button>
             </div>
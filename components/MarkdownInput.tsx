@@ -1,6 +1,9 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { FileText, Upload, X, Command } from 'lucide-react';
+import { FileText, Upload, X, Command, AlertTriangle } from 'lucide-react';
 import { GenerationMode } from '../services/geminiService';
+import {
+  DocumentCorpus, DocumentGroundingMode, DOCUMENT_FILE_EXTENSIONS, DOCUMENT_GROUNDING_LABELS, ingestDocuments
+} from '../services/ingest/documentIngest';
 
 interface MarkdownInputProps {
   value: string;
@@ -8,10 +11,19 @@ interface MarkdownInputProps {
   isGenerating: boolean;
   onGenerate: () => void;
   mode: GenerationMode;
+  /** Documents that ground agentic decks (PDF, DOCX, Markdown, HTML) */
+  corpus: DocumentCorpus | null;
+  onCorpusChange: (corpus: DocumentCorpus | null) => void;
+  groundingMode: DocumentGroundingMode;
+  onGroundingModeChange: (mode: DocumentGroundingMode) => void;
 }
 
-const MarkdownInput: React.FC<MarkdownInputProps> = ({ value, onChange, isGenerating, onGenerate, mode }) => {
+const MarkdownInput: React.FC<MarkdownInputProps> = ({
+  value, onChange, isGenerating, onGenerate, mode, corpus, onCorpusChange, groundingMode, onGroundingModeChange
+}) => {
   const [activeTab, setActiveTab] = useState<'write' | 'upload'>('write');
+  const [isIngesting, setIsIngesting] = useState(false);
+  const [ingestError, setIngestError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const readFile = (file: File) => {
@@ -26,6 +38,27 @@ const MarkdownInput: React.FC<MarkdownInputProps> = ({ value, onChange, isGenera
     reader.readAsText(file);
   };
 
+  // A single Markdown / text file still goes to the editor; anything else
+  // (or several files) is ingested into the grounding corpus
+  const handleFiles = async (fileList: FileList) => {
+    const files = Array.from(fileList);
+    if (files.length === 1 && /\.(md|txt)$/i.test(files[0].name) && !corpus) {
+      readFile(files[0]);
+      return;
+    }
+    setIsIngesting(true);
+    setIngestError(null);
+    try {
+      const documents = await Promise.all(files.map(async file => ({ name: file.name, data: new Uint8Array(await file.arrayBuffer()) })));
+      onCorpusChange(await ingestDocuments(documents, corpus || undefined));
+    } catch (err: any) {
+      console.error("Failed to read documents", err);
+      setIngestError(`Could not read ${files.length === 1 ? files[0].name : `${files.length} files`}: ${err?.message || err}`);
+    } finally {
+      setIsIngesting(false);
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if ((e.metaKey || e.ctrlKey) && e.key === 'Enter') {
       onGenerate();
@@ -64,13 +97,64 @@ const MarkdownInput: React.FC<MarkdownInputProps> = ({ value, onChange, isGenera
         </div>
 
         {activeTab === 'upload' ? (
-           <div className="h-full min-h-[440px] border-2 border-dashed border-white/5 rounded-3xl flex flex-col items-center justify-center gap-6 hover:bg-white/[0.02] transition-all cursor-pointer" onClick={() => fileInputRef.current?.click()}>
+          <div className="h-full min-h-[440px] flex flex-col gap-4">
+           <div className={`flex-1 min-h-[200px] border-2 border-dashed border-white/5 rounded-3xl flex flex-col items-center justify-center gap-6 hover:bg-white/[0.02] transition-all cursor-pointer ${isIngesting ? 'opacity-50 pointer-events-none' : ''}`} onClick={() => fileInputRef.current?.click()}>
              <div className={`p-6 bg-white/5 rounded-full border border-white/10 ${getAccentClass().split(' ')[0]}`}>
                <Upload className="w-10 h-10 opacity-50" />
              </div>
-             <p className="text-slate-400 text-sm font-medium">Drop markdown files here</p>
-             <input ref={fileInputRef} type="file" accept=".md,.txt" className="hidden" onChange={(e) => e.target.files?.[0] && readFile(e.target.files[0])} />
+             <p className="text-slate-400 text-sm font-medium">{isIngesting ? 'Reading documents...' : 'Drop markdown files or reports (PDF, DOCX, HTML) here'}</p>
+             <input
+               ref={fileInputRef} type="file" multiple accept={DOCUMENT_FILE_EXTENSIONS.join(',')} className="hidden"
+               onChange={(e) => { if (e.target.files?.length) handleFiles(e.target.files); e.target.value = ''; }}
+             />
            </div>
+
+           {ingestError && (
+             <div className="text-xs text-red-400 flex items-center gap-2 bg-red-500/5 border border-red-500/20 rounded-2xl px-4 py-3">
+               <AlertTriangle className="w-3 h-3 shrink-0" />
+               <span className="flex-1">{ingestError}</span>
+               <button onClick={() => setIngestError(null)} className="p-1 text-red-400/60 hover:text-red-300 transition-all" title="Dismiss">
+                 <X className="w-3 h-3" />
+               </button>
+             </div>
+           )}
+
+           {corpus && (
+             <div className="bg-black/30 border border-white/5 rounded-2xl p-4 space-y-3">
+               <div className="flex items-center justify-between">
+                 <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Grounding Documents · {corpus.facts.length} facts</span>
+                 <button onClick={() => onCorpusChange(null)} className="p-1 text-slate-500 hover:text-white transition-all" title="Remove all documents">
+                   <X className="w-4 h-4" />
+                 </button>
+               </div>
+               <ul className="space-y-1 max-h-32 overflow-y-auto">
+                 {corpus.documents.map(doc => (
+                   <li key={doc.id} className="text-xs text-slate-300 flex items-center gap-2">
+                     <FileText className="w-3 h-3 text-slate-500 shrink-0" />
+                     <span className="truncate">{doc.fileName}</span>
+                     <span className="text-slate-600 shrink-0">{doc.pageCount} p. · {doc.factCount} facts</span>
+                     {doc.warnings.length > 0 && <span title={doc.warnings.join('\n')}><AlertTriangle className="w-3 h-3 text-amber-500" /></span>}
+                   </li>
+                 ))}
+                 {corpus.failures.map(failure => (
+                   <li key={failure.fileName} className="text-xs text-red-400 flex items-center gap-2" title={failure.message}>
+                     <AlertTriangle className="w-3 h-3 shrink-0" />
+                     <span className="truncate">{failure.fileName}: {failure.message}</span>
+                   </li>
+                 ))}
+               </ul>
+               <select
+                 value={groundingMode}
+                 onChange={(e) => onGroundingModeChange(e.target.value as DocumentGroundingMode)}
+                 className="w-full bg-black/40 text-slate-300 text-xs rounded-lg px-3 py-2 border border-white/10 focus:outline-none"
+               >
+                 {(Object.keys(DOCUMENT_GROUNDING_LABELS) as DocumentGroundingMode[]).map(m => (
+                   <option key={m} value={m}>{DOCUMENT_GROUNDING_LABELS[m]}</option>
+                 ))}
+               </select>
+             </div>
+           )}
+          </div>
         ) : (
           <div className="relative flex-1">
              <textarea
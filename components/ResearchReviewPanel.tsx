@@ -0,0 +1,168 @@
+
+import React, { useState } from 'react';
+import { FactWeight, FactWeightSchema, ResearchFact } from '../types/slideTypes';
+import { FACT_WEIGHT_LABELS, MIN_REVIEW_SLIDES, newReviewFactId, ResearchReview } from '../services/review/researchReview';
+import { AlertTriangle, ArrowRight, ChevronDown, ChevronUp, ListChecks, Plus, Trash2, X } from 'lucide-react';
+
+// Confidence from corroboration (services/research/corroboration.ts)
+const CONFIDENCE_CLASS: Record<ResearchFact['confidence'], string> = {
+    high: 'text-emerald-400',
+    medium: 'text-slate-400',
+    low: 'text-amber-400'
+};
+
+interface ResearchReviewPanelProps {
+    review: ResearchReview;
+    onContinue: (review: ResearchReview) => void;
+    onCancel: () => void;
+}
+
+/**
+ * Checkpoint between research and per-slide planning: edit, reweight, delete
+ * or add facts and reorder or retitle slides, then resume generation.
+ */
+const ResearchReviewPanel: React.FC<ResearchReviewPanelProps> = ({ review, onContinue, onCancel }) => {
+    const [facts, setFacts] = useState<ResearchFact[]>(review.knowledgeSheet);
+    const [outline, setOutline] = useState(review.outline);
+
+    const updateFact = (id: string, patch: Partial<ResearchFact>) =>
+        setFacts(prev => prev.map(f => f.id === id ? { ...f, ...patch } : f));
+
+    const addFact = () =>
+        setFacts(prev => [...prev, { id: newReviewFactId(prev), category: 'Reviewer', claim: '', confidence: 'high', weight: 'high' }]);
+
+    const updateSlide = (index: number, patch: { title?: string; purpose?: string }) =>
+        setOutline(prev => prev.map((s, i) => i === index ? { ...s, ...patch } : s));
+
+    const moveSlide = (index: number, delta: number) =>
+        setOutline(prev => {
+            const target = index + delta;
+            if (target < 0 || target >= prev.length) return prev;
+            const next = [...prev];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+
+    const inputClass = 'w-full bg-black/40 text-slate-200 px-3 py-2 rounded-xl border border-white/10 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50';
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6">
+            <div className="bg-[#12141c] rounded-[2rem] border border-white/10 shadow-2xl w-full max-w-6xl max-h-full flex flex-col overflow-hidden">
+                <div className="px-8 py-6 border-b border-white/5 flex items-center justify-between">
+                    <div>
+                        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+                            <ListChecks className="w-5 h-5 text-blue-400" /> Review research before planning
+                        </h2>
+                        <p className="text-sm text-slate-400 mt-1">
+                            {facts.length} facts · {outline.length} slides · "{review.topic}"
+                        </p>
+                    </div>
+                    <button type="button" onClick={onCancel} className="text-slate-400 hover:text-white" aria-label="Cancel generation">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-hidden grid grid-cols-1 lg:grid-cols-2 gap-6 p-8">
+                    {/* KNOWLEDGE SHEET */}
+                    <div className="flex flex-col min-h-0">
+                        <div className="flex items-center justify-between mb-3">
+                            <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">Knowledge Sheet</label>
+                            <button type="button" onClick={addFact} className="flex items-center gap-1 text-xs font-semibold text-blue-300 hover:text-blue-200">
+                                <Plus className="w-3.5 h-3.5" /> Add fact
+                            </button>
+                        </div>
+                        <div className="flex-1 overflow-y-auto space-y-3 pr-2">
+                            {facts.map(fact => (
+                                <div key={fact.id} className="bg-white/5 border border-white/5 rounded-2xl p-3 space-y-2">
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-[10px] font-mono text-slate-500">{fact.id}</span>
+                                        <span className="text-[10px] uppercase font-bold text-slate-500 truncate flex-1">{fact.category}</span>
+                                        <span className={`text-[10px] uppercase font-bold ${CONFIDENCE_CLASS[fact.confidence]}`} title={fact.corroboration?.sources.join('\n')}>
+                                            {fact.confidence}{fact.corroboration ? ` · ${fact.corroboration.sources.length} source${fact.corroboration.sources.length === 1 ? '' : 's'}` : ''}
+                                        </span>
+                                        <select
+                                            value={fact.weight || 'normal'}
+                                            onChange={(e) => updateFact(fact.id, { weight: e.target.value as FactWeight })}
+                                            className="bg-black/40 text-slate-300 text-xs rounded-lg border border-white/10 px-2 py-1"
+                                            aria-label={`Weight of ${fact.id}`}
+                                        >
+                                            {FactWeightSchema.options.map(w => <option key={w} value={w}>{FACT_WEIGHT_LABELS[w]}</option>)}
+                                        </select>
+                                        <button type="button" onClick={() => setFacts(prev => prev.filter(f => f.id !== fact.id))} className="text-slate-500 hover:text-red-400" aria-label={`Delete ${fact.id}`}>
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                    {fact.corroboration?.conflictsWith?.length ? (
+                                        <div className="flex items-center gap-1.5 text-[11px] text-amber-300">
+                                            <AlertTriangle className="w-3.5 h-3.5" />
+                                            Different figure in {fact.corroboration.conflictsWith.join(', ')}
+                                        </div>
+                                    ) : null}
+                                    <textarea
+                                        value={fact.claim}
+                                        onChange={(e) => updateFact(fact.id, { claim: e.target.value })}
+                                        placeholder="Claim"
+                                        rows={2}
+                                        className={`${inputClass} resize-none`}
+                                    />
+                                    <div className="grid grid-cols-2 gap-2">
+                                        <input value={fact.value || ''} onChange={(e) => updateFact(fact.id, { value: e.target.value })} placeholder="Value" className={inputClass} />
+                                        <input value={fact.source || ''} onChange={(e) => updateFact(fact.id, { source: e.target.value })} placeholder="Source" className={inputClass} />
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* OUTLINE */}
+                    <div className="flex flex-col min-h-0">
+                        <label className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">Outline</label>
+                        <div className="flex-1 overflow-y-auto space-y-3 pr-2">
+                            {outline.map((slide, index) => (
+                                <div key={`${slide.order}-${index}`} className="bg-white/5 border border-white/5 rounded-2xl p-3 flex gap-3">
+                                    <div className="flex flex-col items-center gap-1 pt-1">
+                                        <button type="button" onClick={() => moveSlide(index, -1)} disabled={index === 0} className="text-slate-500 hover:text-white disabled:opacity-30" aria-label="Move up">
+                                            <ChevronUp className="w-4 h-4" />
+                                        </button>
+                                        <span className="text-xs font-bold text-slate-400">{index + 1}</span>
+                                        <button type="button" onClick={() => moveSlide(index, 1)} disabled={index === outline.length - 1} className="text-slate-500 hover:text-white disabled:opacity-30" aria-label="Move down">
+                                            <ChevronDown className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                    <div className="flex-1 space-y-2">
+                                        <input value={slide.title} onChange={(e) => updateSlide(index, { title: e.target.value })} placeholder="Slide title" className={`${inputClass} font-semibold`} />
+                                        <input value={slide.purpose} onChange={(e) => updateSlide(index, { purpose: e.target.value })} placeholder="Purpose" className={inputClass} />
+                                    </div>
+                                    <button
+                                        type="button"
+                                        onClick={() => setOutline(prev => prev.filter((_, i) => i !== index))}
+                                        disabled={outline.length <= MIN_REVIEW_SLIDES}
+                                        className="text-slate-500 hover:text-red-400 disabled:opacity-30 self-start pt-1"
+                                        aria-label={`Delete slide ${index + 1}`}
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
+                <div className="px-8 py-5 border-t border-white/5 flex justify-end gap-3">
+                    <button type="button" onClick={onCancel} className="px-5 py-3 bg-[#1e222d] border border-white/5 text-slate-300 hover:text-white font-bold rounded-2xl text-sm">
+                        Cancel
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => onContinue({ ...review, knowledgeSheet: facts, outline })}
+                        className="px-6 py-3 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 text-white font-bold rounded-2xl flex items-center gap-2 text-sm"
+                    >
+                        Continue planning <ArrowRight className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ResearchReviewPanel;
@@ -1,13 +1,27 @@
 
-import React, { useState } from 'react';
-import { EditableSlideDeck, StyleMode } from '../types/slideTypes';
+import React, { useRef, useState } from 'react';
+import { EditableSlideDeck, StyleMode, CitationStyle, CitationStyleSchema, AudienceProfile, SlideSize, SlideSizeSchema, SLIDE_SIZES, GlobalStyleGuide, BrandKit } from '../types/slideTypes';
 import { generateAgenticDeck, regenerateSingleSlide } from '../services/slideAgentService';
-import { generateImageFromPrompt } from '../services/geminiService';
-import { InfographicRenderer, normalizeColor } from '../services/infographicRenderer';
-import { Bot, Download, Play, Clock, ShieldCheck, Sparkles, BrainCircuit, AlertTriangle, ArrowRight, DollarSign, RefreshCw, AlertOctagon, Briefcase, Users, Zap } from 'lucide-react';
-import pptxgen from 'pptxgenjs';
+import { generateImageFromPrompt, imageAspectRatioFor } from '../services/geminiService';
+import { buildDeckPresentation, getDeckFileName } from '../services/export/pptxExporter';
+import { buildDeckHtml } from '../services/export/htmlExporter';
+import { EXPORT_PROFILES, EXPORT_TARGETS, ExportTarget, CompatibilityReport } from '../services/export/exportProfiles';
+import { serializeProject, parseProjectFile, getProjectFileName } from '../services/project/projectFile';
+import { PROJECT_FILE_EXTENSION } from '../types/projectTypes';
+import { importPptxDeck } from '../services/import/pptxImporter';
+import { importPptxTemplate } from '../services/import/templateImporter';
+import { parseBrandKit } from '../services/brand/brandKit';
+import { DocumentGrounding, DOCUMENT_GROUNDING_LABELS } from '../services/ingest/documentIngest';
+import { DataTable, DATA_FILE_EXTENSIONS, importDataFiles } from '../services/data/tableImport';
+import { ResearchReview, ResearchReviewCancelledError } from '../services/review/researchReview';
+import { applyCitations, CITATION_STYLE_LABELS, DEFAULT_CITATION_STYLE } from '../services/citations/citationRenderer';
+import { translateDeck } from '../services/translation/deckTranslator';
+import { DECK_LANGUAGES, findDeckLanguage } from '../services/translation/languages';
+import { Bot, Download, Play, Clock, ShieldCheck, Sparkles, BrainCircuit, AlertTriangle, ArrowRight, DollarSign, RefreshCw, AlertOctagon, Briefcase, Users, Zap, Save, FolderOpen, FileUp, Globe, FileText, Sheet, X, ListChecks, Ratio, Building2, Palette } from 'lucide-react';
 import ActivityFeed, { ActivityLogItem } from './ActivityFeed';
 import BuilderCanvas from './BuilderCanvas';
+import ResearchReviewPanel from './ResearchReviewPanel';
+import AudiencePicker from './AudiencePicker';
 
 /**
  * Style mode configuration for UI display
@@ -44,11 +58,19 @@ const STYLE_MODE_CONFIG: Record<StyleMode, {
 
 interface SlideDeckBuilderProps {
     onBack: () => void;
+    /** Facts from uploaded documents (Import tab) that ground the research */
+    documents?: DocumentGrounding;
 }
 
-const SlideDeckBuilder: React.FC<SlideDeckBuilderProps> = ({ onBack }) => {
+const SlideDeckBuilder: React.FC<SlideDeckBuilderProps> = ({ onBack, documents }) => {
     const [topic, setTopic] = useState("");
     const [styleMode, setStyleMode] = useState<StyleMode>('professional');
+    const [audience, setAudience] = useState<AudienceProfile | null>(null);
+    const [slideSize, setSlideSize] = useState<SlideSize>('16:9');
+    // Locked style guide from an imported corporate template; its page size replaces slideSize
+    const [templateStyleGuide, setTemplateStyleGuide] = useState<GlobalStyleGuide | null>(null);
+    // Approved colours, fonts and logos; applied on top of the generated or template style guide
+    const [brandKit, setBrandKit] = useState<BrandKit | null>(null);
     const [isBuilding, setIsBuilding] = useState(false);
     const [progressVal, setProgressVal] = useState(0);
     const [deck, setDeck] = useState<EditableSlideDeck | null>(null);
@@ -56,6 +78,23 @@ const SlideDeckBuilder: React.FC<SlideDeckBuilderProps> = ({ onBack }) => {
     const [activityLog, setActivityLog] = useState<ActivityLogItem[]>([]);
     const [visRegen, setVisRegen] = useState(false);
     const [contentRegen, setContentRegen] = useState(false);
+    const [isTranslating, setIsTranslating] = useState(false);
+    const projectInputRef = useRef<HTMLInputElement>(null);
+    const pptxInputRef = useRef<HTMLInputElement>(null);
+    const templateInputRef = useRef<HTMLInputElement>(null);
+    const brandKitInputRef = useRef<HTMLInputElement>(null);
+    const dataInputRef = useRef<HTMLInputElement>(null);
+    const [dataTables, setDataTables] = useState<DataTable[]>([]);
+    const [refreshResearch, setRefreshResearch] = useState(false);
+    const [reviewBeforePlanning, setReviewBeforePlanning] = useState(false);
+    // Set while generation waits on the research review panel
+    const [pendingReview, setPendingReview] = useState<{
+        review: ResearchReview;
+        resolve: (review: ResearchReview) => void;
+        reject: (err: Error) => void;
+    } | null>(null);
+    const [exportTarget, setExportTarget] = useState<ExportTarget>('powerpoint');
+    const [compatReport, setCompatReport] = useState<CompatibilityReport | null>(null);
 
     // --- ACTIONS ---
 
@@ -66,7 +105,7 @@ const SlideDeckBuilder: React.FC<SlideDeckBuilderProps> = ({ onBack }) => {
         setProgressVal(0);
         setActivityLog([{ 
             id: 'init', 
-            message: `Initializing RLM Agent Loop (Style: ${STYLE_MODE_CONFIG[styleMode].label})...`, 
+            message: `Initializing RLM Agent Loop (Style: ${STYLE_MODE_CONFIG[styleMode].label}${audience ? `, Audience: ${audience.label}` : ''})...`, 
             timestamp: new Date(), 
             type: 'info' 
         }]);
@@ -85,12 +124,27 @@ const SlideDeckBuilder: React.FC<SlideDeckBuilderProps> = ({ onBack }) => {
                         { id: crypto.randomUUID(), message: status, timestamp: new Date(), type, agentName: status.split(':')[0] }
                     ]);
                 },
-                { styleMode } // Pass style mode to generation
+                {
+                    // Pass style mode, document grounding, imported tables and cache bypass to generation
+                    styleMode, documents, dataTables: dataTables.length ? dataTables : undefined, refreshResearch,
+                    audience: audience || undefined,
+                    slideSize,
+                    templateStyleGuide: templateStyleGuide || undefined,
+                    brandKit: brandKit || undefined,
+                    // Optional checkpoint: generation waits until the review panel continues or cancels
+                    reviewResearch: reviewBeforePlanning
+                        ? (review) => new Promise((resolve, reject) => setPendingReview({ review, resolve, reject }))
+                        : undefined
+                }
             );
             setDeck(newDeck);
             setActiveSlideIndex(0);
             setActivityLog(prev => [...prev, { id: 'done', message: 'Generation Complete.', timestamp: new Date(), type: 'success' }]);
         } catch (e: any) {
+            if (e instanceof ResearchReviewCancelledError) {
+                setActivityLog(prev => [...prev, { id: 'cancelled', message: e.message, timestamp: new Date(), type: 'info' }]);
+                return;
+            }
             // Log the full error to console for debugging
             console.error('[SLIDE DECK BUILDER] Generation failed:', e);
             console.error('[SLIDE DECK BUILDER] Error stack:', e.stack);
@@ -100,14 +154,28 @@ const SlideDeckBuilder: React.FC<SlideDeckBuilderProps> = ({ onBack }) => {
         }
     };
 
+    const handleAttachData = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (!e.target.files?.length) return;
+        const files: File[] = Array.from(e.target.files);
+        e.target.value = '';
+
+        const { tables, failures } = await importDataFiles(
+            await Promise.all(files.map(async f => ({ name: f.name, data: await f.arrayBuffer() })))
+        );
+        // Re-number so ids stay unique across several attach rounds
+        setDataTables(prev => [...prev, ...tables.map((t, i) => ({ ...t, id: `table${prev.length + i + 1}` }))]);
+        if (failures.length > 0) alert(`Could not import:\n${failures.map(f => f.message).join('\n')}`);
+    };
+
     const handleRegenerateVisual = async () => {
         if (!deck || visRegen) return;
         const slide = deck.slides[activeSlideIndex];
-        if (!slide.visualPrompt) return;
+        // A corporate master supplies the background, as in generation
+        if (!slide.visualPrompt || deck.meta.styleGuide?.template) return;
 
         setVisRegen(true);
         try {
-            const result = await generateImageFromPrompt(slide.visualPrompt, "16:9");
+            const result = await generateImageFromPrompt(slide.visualPrompt, imageAspectRatioFor(deck.meta.styleGuide?.slideSize));
             if (result && result.imageUrl) {
                 const newSlides = [...deck.slides];
                 newSlides[activeSlideIndex] = { ...slide, backgroundImageUrl: result.imageUrl };
@@ -131,10 +199,15 @@ const SlideDeckBuilder: React.FC<SlideDeckBuilderProps> = ({ onBack }) => {
         setContentRegen(true);
         try {
             // Use the new exposed service function
+            // The deck's style guide keeps the slide on its palette, page size, template and brand kit
             const newSlideNode = await regenerateSingleSlide(
                 meta,
                 currentSlide,
-                deck.meta.knowledgeSheet
+                deck.meta.knowledgeSheet,
+                deck.meta.factClusters,
+                styleMode,
+                deck.meta.styleGuide,
+                deck.meta.audience
             );
 
             // Preserve background if the new one doesn't have one (though usually we want new visuals if content changes)
@@ -147,7 +220,8 @@ const SlideDeckBuilder: React.FC<SlideDeckBuilderProps> = ({ onBack }) => {
 
             const newSlides = [...deck.slides];
             newSlides[slideIndex] = newSlideNode;
-            setDeck({ ...deck, slides: newSlides });
+            // Renumber footnotes and rebuild the Sources slide for the new content
+            setDeck(applyCitations({ ...deck, slides: newSlides }));
 
         } catch (e: any) {
             console.error("Failed to regenerate slide content", e);
@@ -157,38 +231,163 @@ const SlideDeckBuilder: React.FC<SlideDeckBuilderProps> = ({ onBack }) => {
         }
     };
 
+    const handleTranslate = async (languageCode: string) => {
+        if (!deck || isTranslating || !languageCode) return;
+        setIsTranslating(true);
+        try {
+            const { deck: translated, language, keptOriginal, refittedSlides } = await translateDeck(deck, languageCode);
+            setDeck(translated);
+            if (keptOriginal.length > 0 || refittedSlides.length > 0) {
+                alert(`Translated to ${language.name}. ${keptOriginal.length} text(s) kept in the original language, ${refittedSlides.length} title(s) shortened to fit.`);
+            }
+        } catch (e: any) {
+            console.error("Failed to translate deck", e);
+            alert("Translation failed: " + e.message);
+        } finally {
+            setIsTranslating(false);
+        }
+    };
+
     const handleExport = async () => {
         if (!deck) return;
-        const pres = new pptxgen();
-        const renderer = new InfographicRenderer();
-        pres.title = deck.meta.title;
-
-        pres.defineSlideMaster({
-            title: "MASTER",
-            background: {
-                color: normalizeColor(deck.meta.styleGuide?.colorPalette?.background, "0F172A")
-            }
-        });
-
-        await renderer.prepareIconsForDeck(deck.slides, deck.meta.styleGuide.colorPalette);
-        await renderer.prepareDiagramsForDeck(deck.slides, deck.meta.styleGuide);
-
-        for (const slide of deck.slides) {
-            const pSlide = pres.addSlide({ masterName: "MASTER" });
-            if (slide.backgroundImageUrl) {
-                // FIX: Explicit dimensions in inches (standard 16:9 PPTX) to avoid 100% bug
-                pSlide.addImage({
-                    data: slide.backgroundImageUrl,
-                    x: 0, y: 0, w: 10, h: 5.625,
-                    transparency: 15  // Reduced from 60 to show background properly (85% opacity)
-                });
-            }
-            await renderer.renderSlideFromPlan({ slide, styleGuide: deck.meta.styleGuide, pptSlide: pSlide, pres });
-            // Notes handled within renderer to account for new array format
+        const { pres, report } = await buildDeckPresentation(deck, exportTarget);
+        setCompatReport(report);
+        pres.writeFile({ fileName: getDeckFileName(deck) });
+    };
+
+    const handleExportHtml = async () => {
+        if (!deck) return;
+        try {
+            const blob = new Blob([await buildDeckHtml(deck)], { type: 'text/html' });
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = getDeckFileName(deck, 'html');
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (e: any) {
+            console.error("Failed to export HTML", e);
+            alert("HTML export failed: " + e.message);
+        }
+    };
+
+    const handleSaveProject = () => {
+        if (!deck) return;
+        try {
+            const blob = new Blob([serializeProject(deck, { styleMode })], { type: 'application/json' });
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = getProjectFileName(deck);
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (e: any) {
+            console.error("Failed to save project", e);
+            alert("Save failed: " + e.message);
+        }
+    };
+
+    const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // allow re-opening the same file
+        if (!file) return;
+
+        try {
+            const { deck: openedDeck, project, migratedFrom } = parseProjectFile(await file.text());
+            setDeck(openedDeck);
+            setActiveSlideIndex(0);
+            if (project.generation.styleMode) setStyleMode(project.generation.styleMode);
+            setAudience(openedDeck.meta.audience || null);
+            setSlideSize(openedDeck.meta.styleGuide?.slideSize || '16:9');
+            setBrandKit(openedDeck.meta.styleGuide?.brandKit || null);
+            // A branded deck's template also carries the kit's logos, so only a plain corporate template is restored
+            setTemplateStyleGuide(openedDeck.meta.styleGuide?.template && !openedDeck.meta.styleGuide.brandKit ? openedDeck.meta.styleGuide : null);
+            setActivityLog(prev => [...prev, {
+                id: `open-${Date.now()}`,
+                message: `Opened project "${openedDeck.meta.title}"${migratedFrom ? ` (migrated from v${migratedFrom})` : ''}.`,
+                timestamp: new Date(),
+                type: 'success'
+            }]);
+        } catch (err: any) {
+            console.error("Failed to open project", err);
+            setActivityLog(prev => [...prev, { id: `open-err-${Date.now()}`, message: err.message, timestamp: new Date(), type: 'error' }]);
+            alert("Could not open project: " + err.message);
+        }
+    };
+
+    const handleImportPptx = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const importedDeck = await importPptxDeck(await file.arrayBuffer(), { fileName: file.name });
+            setDeck(importedDeck);
+            setActiveSlideIndex(0);
+            setActivityLog(prev => [...prev, {
+                id: `import-${Date.now()}`,
+                message: `Imported ${importedDeck.slides.length} slides from "${file.name}". Use Regenerate to restyle individual slides.`,
+                timestamp: new Date(),
+                type: 'success'
+            }]);
+        } catch (err: any) {
+            console.error("Failed to import PPTX", err);
+            setActivityLog(prev => [...prev, { id: `import-err-${Date.now()}`, message: err.message, timestamp: new Date(), type: 'error' }]);
+            alert("Could not import PPTX: " + err.message);
+        }
+    };
+
+    const handleImportTemplate = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const { styleGuide, warnings } = await importPptxTemplate(await file.arrayBuffer(), { fileName: file.name });
+            setTemplateStyleGuide(styleGuide);
+            if (styleGuide.slideSize) setSlideSize(styleGuide.slideSize);
+            setActivityLog(prev => [
+                ...prev,
+                {
+                    id: `template-${Date.now()}`,
+                    message: `Using template "${styleGuide.themeName}" (${styleGuide.template?.layouts.length || 0} layouts). New decks keep its master, fonts and colours.`,
+                    timestamp: new Date(),
+                    type: 'success'
+                },
+                ...warnings.map((warning, i) => ({ id: `template-warn-${Date.now()}-${i}`, message: warning, timestamp: new Date(), type: 'info' as const }))
+            ]);
+        } catch (err: any) {
+            console.error("Failed to import template", err);
+            setActivityLog(prev => [...prev, { id: `template-err-${Date.now()}`, message: err.message, timestamp: new Date(), type: 'error' }]);
+            alert("Could not import template: " + err.message);
+        }
+    };
+
+    const handleImportBrandKit = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const kit = parseBrandKit(await file.text());
+            setBrandKit(kit);
+            setActivityLog(prev => [...prev, {
+                id: `brand-${Date.now()}`,
+                message: `Using brand kit "${kit.name}" (${kit.colors.length} colours, ${kit.logos?.length || 0} logos). New decks keep to its colours, fonts and decorations.`,
+                timestamp: new Date(),
+                type: 'success'
+            }]);
+        } catch (err: any) {
+            console.error("Failed to import brand kit", err);
+            setActivityLog(prev => [...prev, { id: `brand-err-${Date.now()}`, message: err.message, timestamp: new Date(), type: 'error' }]);
+            alert("Could not import brand kit: " + err.message);
         }
-        pres.writeFile({ fileName: `InfographIQ-${deck.meta.title}.pptx` });
     };
 
+    const projectInput = (
+        <input ref={projectInputRef} type="file" accept={`${PROJECT_FILE_EXTENSION},.json,application/json`} onChange={handleOpenProject} className="hidden" />
+    );
+
     // --- RENDER START SCREEN ---
 
     if (!deck) {
@@ -226,6 +425,59 @@ const SlideDeckBuilder: React.FC<SlideDeckBuilderProps> = ({ onBack }) => {
                                 )}
                             </div>
 
+                            {documents && (
+                                <div className="flex items-center gap-2 text-xs text-emerald-300 bg-emerald-500/10 border border-emerald-500/20 rounded-xl px-3 py-2">
+                                    <FileText className="w-4 h-4" />
+                                    Grounded in {documents.facts.length} facts from your documents · {DOCUMENT_GROUNDING_LABELS[documents.mode]}
+                                </div>
+                            )}
+
+                            {/* DATA TABLES: charted from their own rows */}
+                            <div className="flex flex-wrap items-center gap-2">
+                                <input ref={dataInputRef} type="file" multiple accept={DATA_FILE_EXTENSIONS.join(',')} onChange={handleAttachData} className="hidden" />
+                                <button
+                                    type="button"
+                                    onClick={() => dataInputRef.current?.click()}
+                                    disabled={isBuilding}
+                                    className="flex items-center gap-2 text-xs font-semibold text-slate-300 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl px-3 py-2 transition-colors disabled:opacity-50"
+                                >
+                                    <Sheet className="w-4 h-4" />
+                                    Attach data (CSV, XLSX, JSON)
+                                </button>
+                                {dataTables.map(table => (
+                                    <span key={table.id} className="flex items-center gap-1.5 text-xs text-sky-300 bg-sky-500/10 border border-sky-500/20 rounded-xl px-2.5 py-1.5">
+                                        {table.name} · {table.rows.length} rows
+                                        <button type="button" onClick={() => setDataTables(prev => prev.filter(t => t.id !== table.id))} disabled={isBuilding} aria-label={`Remove ${table.name}`}>
+                                            <X className="w-3 h-3" />
+                                        </button>
+                                    </span>
+                                ))}
+                            </div>
+
+                            {/* RESEARCH CACHE: facts from earlier runs are reused unless refreshed */}
+                            <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer select-none w-fit">
+                                <input
+                                    type="checkbox"
+                                    checked={refreshResearch}
+                                    onChange={(e) => setRefreshResearch(e.target.checked)}
+                                    disabled={isBuilding}
+                                    className="accent-blue-500"
+                                />
+                                <RefreshCw className="w-3.5 h-3.5" />
+                                Refresh research (ignore cached facts from earlier runs)
+                            </label>
+                            <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer select-none w-fit">
+                                <input
+                                    type="checkbox"
+                                    checked={reviewBeforePlanning}
+                                    onChange={(e) => setReviewBeforePlanning(e.target.checked)}
+                                    disabled={isBuilding}
+                                    className="accent-blue-500"
+                                />
+                                <ListChecks className="w-3.5 h-3.5" />
+                                Review facts and outline before slides are planned
+                            </label>
+
                             {/* STYLE MODE SELECTOR */}
                             <div className="space-y-3">
                                 <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">
@@ -276,6 +528,68 @@ const SlideDeckBuilder: React.FC<SlideDeckBuilderProps> = ({ onBack }) => {
                                 </div>
                             </div>
 
+                            <AudiencePicker audience={audience} onChange={setAudience} disabled={isBuilding} />
+
+                            <div className="space-y-3">
+                                <label className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+                                    <Ratio className="w-3.5 h-3.5" /> Slide Size
+                                </label>
+                                <select
+                                    value={slideSize}
+                                    onChange={(e) => setSlideSize(e.target.value as SlideSize)}
+                                    disabled={isBuilding || !!templateStyleGuide}
+                                    title={templateStyleGuide ? 'Set by the corporate template' : undefined}
+                                    className="w-full bg-black/40 text-slate-200 px-3 py-2 rounded-xl border border-white/10 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 disabled:opacity-50"
+                                >
+                                    {SlideSizeSchema.options.map(size => (
+                                        <option key={size} value={size}>{SLIDE_SIZES[size].label} · {SLIDE_SIZES[size].width} × {SLIDE_SIZES[size].height} in</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="space-y-3">
+                                <label className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+                                    <Building2 className="w-3.5 h-3.5" /> Corporate Template
+                                </label>
+                                {templateStyleGuide ? (
+                                    <div className="flex items-center justify-between bg-black/40 px-3 py-2 rounded-xl border border-white/10 text-sm text-slate-200">
+                                        <span className="truncate">{templateStyleGuide.themeName} · {templateStyleGuide.fontFamilyTitle} / {templateStyleGuide.fontFamilyBody}</span>
+                                        <button onClick={() => setTemplateStyleGuide(null)} disabled={isBuilding} title="Stop using this template" className="text-slate-500 hover:text-white disabled:opacity-50">
+                                            <X className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <button onClick={() => templateInputRef.current?.click()} disabled={isBuilding} className="w-full py-2 bg-black/40 border border-white/10 text-slate-300 hover:text-white disabled:opacity-50 rounded-xl text-sm flex items-center justify-center gap-2 transition-all">
+                                        <FileUp className="w-4 h-4" /> Import Template (.potx / .pptx)
+                                    </button>
+                                )}
+                                <input ref={templateInputRef} type="file" accept=".potx,.pptx,application/vnd.openxmlformats-officedocument.presentationml.template,application/vnd.openxmlformats-officedocument.presentationml.presentation" onChange={handleImportTemplate} className="hidden" />
+                            </div>
+
+                            <div className="space-y-3">
+                                <label className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-2">
+                                    <Palette className="w-3.5 h-3.5" /> Brand Kit
+                                </label>
+                                {brandKit ? (
+                                    <div className="flex items-center justify-between gap-3 bg-black/40 px-3 py-2 rounded-xl border border-white/10 text-sm text-slate-200">
+                                        <span className="truncate">{brandKit.name} · {brandKit.fonts.title} / {brandKit.fonts.body}</span>
+                                        <span className="flex items-center gap-1 shrink-0">
+                                            {brandKit.colors.map(color => (
+                                                <span key={`${color.role}-${color.hex}`} title={`${color.name || color.role} ${color.hex}`} className="w-3 h-3 rounded-full border border-white/20" style={{ backgroundColor: color.hex }} />
+                                            ))}
+                                        </span>
+                                        <button onClick={() => setBrandKit(null)} disabled={isBuilding} title="Stop using this brand kit" className="text-slate-500 hover:text-white disabled:opacity-50">
+                                            <X className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <button onClick={() => brandKitInputRef.current?.click()} disabled={isBuilding} className="w-full py-2 bg-black/40 border border-white/10 text-slate-300 hover:text-white disabled:opacity-50 rounded-xl text-sm flex items-center justify-center gap-2 transition-all">
+                                        <FileUp className="w-4 h-4" /> Import Brand Kit (.json)
+                                    </button>
+                                )}
+                                <input ref={brandKitInputRef} type="file" accept=".json,application/json" onChange={handleImportBrandKit} className="hidden" />
+                            </div>
+
                             <button onClick={handleBuild} disabled={isBuilding || !topic} className="w-full py-5 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white text-lg font-bold rounded-2xl flex items-center justify-center gap-3 shadow-xl transition-all hover:scale-[1.01] active:scale-[0.99]">
                                 {isBuilding ? (
                                     <>
@@ -287,6 +601,17 @@ const SlideDeckBuilder: React.FC<SlideDeckBuilderProps> = ({ onBack }) => {
                                     </>
                                 )}
                             </button>
+
+                            <div className="grid grid-cols-2 gap-3">
+                                <button onClick={() => projectInputRef.current?.click()} disabled={isBuilding} className="py-3 bg-[#1e222d] border border-white/5 text-slate-300 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed font-bold rounded-2xl flex items-center justify-center gap-2 transition-all text-sm">
+                                    <FolderOpen className="w-4 h-4" /> Open Project
+                                </button>
+                                <button onClick={() => pptxInputRef.current?.click()} disabled={isBuilding} className="py-3 bg-[#1e222d] border border-white/5 text-slate-300 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed font-bold rounded-2xl flex items-center justify-center gap-2 transition-all text-sm">
+                                    <FileUp className="w-4 h-4" /> Import PPTX
+                                </button>
+                            </div>
+                            {projectInput}
+                            <input ref={pptxInputRef} type="file" accept=".pptx,application/vnd.openxmlformats-officedocument.presentationml.presentation" onChange={handleImportPptx} className="hidden" />
                         </div>
                     </div>
                 </div>
@@ -295,6 +620,14 @@ const SlideDeckBuilder: React.FC<SlideDeckBuilderProps> = ({ onBack }) => {
                 <div className="lg:w-1/3 h-full min-h-[500px]">
                     <ActivityFeed logs={activityLog} progress={progressVal} />
                 </div>
+
+                {pendingReview && (
+                    <ResearchReviewPanel
+                        review={pendingReview.review}
+                        onContinue={(review) => { pendingReview.resolve(review); setPendingReview(null); }}
+                        onCancel={() => { pendingReview.reject(new ResearchReviewCancelledError()); setPendingReview(null); }}
+                    />
+                )}
             </div>
         );
     }
@@ -332,6 +665,48 @@ const SlideDeckBuilder: React.FC<SlideDeckBuilderProps> = ({ onBack }) => {
                     <button onClick={onBack} className="px-5 py-2.5 bg-[#1e222d] border border-white/5 text-slate-300 hover:text-white font-bold rounded-xl transition-all text-xs">
                         Start New
                     </button>
+                    <button onClick={() => projectInputRef.current?.click()} className="px-5 py-2.5 bg-[#1e222d] border border-white/5 text-slate-300 hover:text-white font-bold rounded-xl flex items-center gap-2 transition-all text-xs">
+                        <FolderOpen className="w-4 h-4" /> Open Project
+                    </button>
+                    <button onClick={handleSaveProject} className="px-5 py-2.5 bg-[#1e222d] border border-white/5 text-slate-300 hover:text-white font-bold rounded-xl flex items-center gap-2 transition-all text-xs">
+                        <Save className="w-4 h-4" /> Save Project
+                    </button>
+                    {projectInput}
+                    <select
+                        value={deck.meta.citationStyle || DEFAULT_CITATION_STYLE}
+                        onChange={(e) => setDeck(applyCitations(deck, e.target.value as CitationStyle))}
+                        title="Citation style for slide footers and the Sources slide"
+                        className="px-3 py-2.5 bg-[#1e222d] border border-white/5 text-slate-300 font-bold rounded-xl text-xs focus:outline-none"
+                    >
+                        {CitationStyleSchema.options.map(style => (
+                            <option key={style} value={style}>Citations: {CITATION_STYLE_LABELS[style]}</option>
+                        ))}
+                    </select>
+                    <select
+                        value=""
+                        onChange={(e) => handleTranslate(e.target.value)}
+                        disabled={isTranslating}
+                        title="Translate titles, slide text, chart labels and speaker notes (numbers and citations are kept)"
+                        className="px-3 py-2.5 bg-[#1e222d] border border-white/5 text-slate-300 font-bold rounded-xl text-xs focus:outline-none disabled:opacity-50"
+                    >
+                        <option value="">{isTranslating ? 'Translating...' : `Language: ${findDeckLanguage(deck.meta.language)?.name || deck.meta.language}`}</option>
+                        {DECK_LANGUAGES.filter(l => l.code !== findDeckLanguage(deck.meta.language)?.code).map(l => (
+                            <option key={l.code} value={l.code}>Translate to {l.name}</option>
+                        ))}
+                    </select>
+                    <button onClick={handleExportHtml} title="Self-contained HTML presentation with presenter view" className="px-5 py-2.5 bg-[#1e222d] border border-white/5 text-slate-300 hover:text-white font-bold rounded-xl flex items-center gap-2 transition-all text-xs">
+                        <Globe className="w-4 h-4" /> Export HTML
+                    </button>
+                    <select
+                        value={exportTarget}
+                        onChange={(e) => { setExportTarget(e.target.value as ExportTarget); setCompatReport(null); }}
+                        title="Export profile"
+                        className="px-3 py-2.5 bg-[#1e222d] border border-white/5 text-slate-300 font-bold rounded-xl text-xs focus:outline-none"
+                    >
+                        {EXPORT_TARGETS.map(target => (
+                            <option key={target} value={target}>For {EXPORT_PROFILES[target].label}</option>
+                        ))}
+                    </select>
                     <button onClick={handleExport} className="px-6 py-2.5 bg-emerald-500 text-black font-bold rounded-xl flex items-center gap-2 hover:bg-emerald-400 transition-all shadow-lg shadow-emerald-500/20 text-xs">
                         <Download className="w-4 h-4" /> Export PPTX
                     </button>
@@ -398,6 +773,18 @@ const SlideDeckBuilder: React.FC<SlideDeckBuilderProps> = ({ onBack }) => {
                                 </div>
                             </div>
 
+                            {/* EXPORT COMPATIBILITY (last export) */}
+                            {compatReport && compatReport.issues.length > 0 && (
+                                <div className="space-y-2">
+                                    <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{compatReport.label} Compatibility</label>
+                                    <ul className="bg-black/30 p-4 rounded-2xl border border-white/5 text-slate-300 text-[10px] space-y-1.5 list-disc pl-7">
+                                        {compatReport.issues.map(issue => (
+                                            <li key={issue.feature}>{issue.detail} <span className="text-slate-500">({issue.occurrences}x, slides {issue.slides.join(', ')})</span></li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+
                             {/* WARNINGS & ERROR HANDLING */}
                             {activeSlide.warnings && activeSlide.warnings.length > 0 && (
                                 <div className={`p-4 rounded-2xl border ${hasCriticalWarnings ? 'bg-red-500/10 border-red-500/30' : 'bg-amber-500/5 border-amber-500/20'}`}>
@@ -430,6 +817,7 @@ const SlideDeckBuilder: React.FC<SlideDeckBuilderProps> = ({ onBack }) => {
                         <BuilderCanvas
                             slide={activeSlide}
                             styleGuide={deck.meta.styleGuide}
+                            citationStyle={deck.meta.citationStyle}
                             onRegenerateVisual={handleRegenerateVisual}
                             isRegeneratingVisual={visRegen}
                         />
@@ -385,6 +385,44 @@ export class BrowserRenderer {
         return await this.page.screenshot({ type: 'png' });
     }
 
+    /**
+     * Render a complete HTML document and capture it as a PNG
+     * (viewport-sized: SLIDE_WIDTH x SLIDE_HEIGHT unless another slide size is given)
+     */
+    async renderHtmlToPng(html: string, size: { width: number; height: number } = { width: SLIDE_WIDTH, height: SLIDE_HEIGHT }): Promise<Buffer> {
+        if (!this.isInitialized || !this.page) {
+            await this.initialize();
+        }
+        const viewport = this.page!.viewportSize();
+        if (!viewport || viewport.width !== size.width || viewport.height !== size.height) {
+            await this.page!.setViewportSize(size);
+        }
+        await this.loadDocument(html);
+        return await this.page!.screenshot({ type: 'png', clip: { x: 0, y: 0, width: size.width, height: size.height } });
+    }
+
+    /**
+     * Render a complete HTML document and print it to PDF.
+     * Page size and margins come from the document's @page rule.
+     */
+    async renderHtmlToPdf(html: string): Promise<Buffer> {
+        if (!this.isInitialized || !this.page) {
+            await this.initialize();
+        }
+        await this.loadDocument(html);
+        return await this.page!.pdf({ preferCSSPageSize: true, printBackground: true });
+    }
+
+    private async loadDocument(html: string): Promise<void> {
+        await this.page!.setContent(html, { waitUntil: 'load' });
+        await this.page!.waitForFunction(() =>
+            (document as any).fonts?.ready?.then(() => true) ?? true,
+            { timeout: 5000 }
+        ).catch(() => {
+            console.warn('[BROWSER_RENDERER] Font loading timed out, continuing...');
+        });
+    }
+
     /**
      * Cleanup browser resources
      */
@@ -8,6 +8,7 @@
  * - THIN content → ENRICH (targeted re-research)
  * - FAT content → PRUNE/SUMMARIZE (condensation)
  * - Visual Gate → quickFitCheck (catches overflow that char counts miss)
+ * - Untraceable figures → REPLAN once, then STRIP (numbers must be in the knowledge sheet)
  * - Early Asset Extraction → Parallel image generation
  * 
  * Two-Tier Validation (IFR + VFR):
@@ -49,7 +50,14 @@
 
 import { z } from 'zod';
 import { CostTracker, MODEL_SIMPLE } from './interactionsClient';
-import type { ResearchFact, StyleMode } from '../types/slideTypes';
+import type { AudienceProfile, BrandKit, GlobalStyleGuide, ResearchFact, SlideSize, StyleMode } from '../types/slideTypes';
+import type { DocumentGrounding } from './ingest/documentIngest';
+import type { ResearchCacheOptions } from './agents/researcher';
+import { corroborateFacts, dropLowConfidenceDataPoints, withoutLowConfidence } from './research/corroboration';
+import { orderFactsByWeight, ResearchReviewCancelledError, runResearchReview, type OutlineSlide, type ResearchReviewHandler } from './review/researchReview';
+import { findUntraceableClaims, type NumericClaimSource, type UntraceableClaim } from './validators';
+import { SpatialLayoutEngine } from './spatialRenderer';
+import { applyTemplateStyleGuide } from './import/templateImporter';
 import { 
     quickFitCheck, 
     runThreeTierValidation,
@@ -266,6 +274,7 @@ const QUALITY_THRESHOLDS = {
     MIN_TOTAL_CHARS: 80,         // Minimum total content characters
     MAX_ENRICHMENT_ATTEMPTS: 2,  // Prevent infinite ENRICH loops
     MAX_PRUNE_ATTEMPTS: 2,       // Prevent infinite PRUNE loops
+    MAX_REPLAN_ATTEMPTS: 1,      // Re-plans for untraceable figures before they are stripped
     HERO_SLIDE_MIN_POINTS: 0,    // Hero slides can be just title + tagline (no bullets required)
     HERO_SLIDE_MAX_POINTS: 2,    // Hero slides should NOT have more than 2 points
     HERO_SLIDE_MAX_CHARS: 120    // Hero slides: short punchy text only
@@ -372,8 +381,38 @@ const LAYOUT_QUALITY_PROFILES: Record<string, LayoutQualityProfile> = {
     }
 };
 
-const getLayoutQualityProfile = (layoutId: string): LayoutQualityProfile => {
-    return LAYOUT_QUALITY_PROFILES[layoutId] || LAYOUT_QUALITY_PROFILES['standard-vertical'];
+// Page the slides are planned for: its size and any corporate template
+type PageStyle = Pick<GlobalStyleGuide, 'slideSize' | 'template'>;
+
+/**
+ * How much of a layout's 16:9 text room the page keeps, per direction.
+ * Profiles and constraints are authored at 16:9 and also cap how much a slide
+ * should say, so roomier pages keep them and only smaller ones tighten them.
+ */
+const pageTextScale = (layoutId: string, page?: PageStyle) => {
+    if ((!page?.slideSize || page.slideSize === '16:9') && !page?.template) return { titleWidth: 1, width: 1, height: 1 };
+    const scale = new SpatialLayoutEngine().getTextCapacityScale(layoutId, page.slideSize, page.template);
+    return { titleWidth: Math.min(1, scale.titleWidth), width: Math.min(1, scale.width), height: Math.min(1, scale.height) };
+};
+
+const scaleLimit = (limit: number, factor: number, floor: number = 1) => Math.max(floor, Math.floor(limit * factor));
+
+const getLayoutQualityProfile = (layoutId: string, page?: PageStyle): LayoutQualityProfile => {
+    const profile = LAYOUT_QUALITY_PROFILES[layoutId] || LAYOUT_QUALITY_PROFILES['standard-vertical'];
+    const scale = pageTextScale(layoutId, page);
+    if (scale.width === 1 && scale.height === 1) return profile;
+    const maxBullets = scaleLimit(profile.maxBullets, scale.height);
+    const maxTotalChars = scaleLimit(profile.maxTotalChars, scale.width * scale.height, 20);
+    const maxCharsPerPoint = scaleLimit(profile.maxCharsPerPoint, scale.width, 10);
+    return {
+        ...profile,
+        minBullets: Math.min(profile.minBullets, maxBullets),
+        maxBullets,
+        minTotalChars: Math.min(profile.minTotalChars, maxTotalChars),
+        maxTotalChars,
+        minCharsPerPoint: Math.min(profile.minCharsPerPoint, maxCharsPerPoint),
+        maxCharsPerPoint
+    };
 };
 
 // =============================================================================
@@ -397,16 +436,31 @@ export const LAYOUT_CONSTRAINTS: Record<string, {
     'metrics-rail': { maxTitleChars: 50, maxBullets: 3, maxCharsPerBullet: 60, minBullets: 1 }
 };
 
+/**
+ * LAYOUT_CONSTRAINTS for a layout on the deck's page (see pageTextScale).
+ */
+export function getLayoutConstraints(layoutId: string, page?: PageStyle): typeof LAYOUT_CONSTRAINTS[string] {
+    const constraints = LAYOUT_CONSTRAINTS[layoutId] || LAYOUT_CONSTRAINTS['standard-vertical'];
+    const scale = pageTextScale(layoutId, page);
+    const maxBullets = scaleLimit(constraints.maxBullets, scale.height);
+    return {
+        maxTitleChars: scaleLimit(constraints.maxTitleChars, scale.titleWidth, 10),
+        maxBullets,
+        maxCharsPerBullet: scaleLimit(constraints.maxCharsPerBullet, scale.width, 10),
+        minBullets: Math.min(constraints.minBullets, maxBullets)
+    };
+}
+
 // =============================================================================
 // CONTENT QUALITY EVALUATION (Bidirectional: THIN + FAT detection)
 // =============================================================================
 
 interface ContentQualityResult {
     passes: boolean;
-    reason?: 'thin_content' | 'too_generic' | 'missing_specifics' | 'overflow' | 'too_many_points' | 'too_verbose';
+    reason?: 'thin_content' | 'too_generic' | 'missing_specifics' | 'overflow' | 'too_many_points' | 'too_verbose' | 'untraceable_numbers';
     details?: string;
     suggestedQuery?: string;  // What to research if thin
-    suggestedAction?: 'enrich' | 'prune' | 'summarize' | 'pass';
+    suggestedAction?: 'enrich' | 'prune' | 'summarize' | 'replan' | 'pass';
     overflowAmount?: number;  // For FAT content detection
 }
 
@@ -423,9 +477,9 @@ function evaluateContentQuality(
     contentPlan: any,
     slideMeta: any,
     layoutId: string,
-    isHeroSlide: boolean
+    isHeroSlide: boolean,
+    profile: LayoutQualityProfile = getLayoutQualityProfile(layoutId)
 ): ContentQualityResult {
-    const profile = getLayoutQualityProfile(layoutId);
     const keyPoints = contentPlan?.keyPoints || [];
     
     // Calculate content metrics
@@ -538,12 +592,15 @@ function evaluateContentQuality(
 /**
  * Targeted research for a specific slide topic.
  * This is the KEY capability that makes Director non-linear.
- * Instead of re-running full research, we do a focused query.
+ * Instead of re-running full research, we do a focused query
+ * (cached per deck topic and query across runs, see services/research/factStore.ts).
  */
 async function targetedResearch(
     query: string,
     existingFacts: ResearchFact[],
-    costTracker: CostTracker
+    costTracker: CostTracker,
+    documents?: DocumentGrounding,
+    cache?: ResearchCacheOptions
 ): Promise<ResearchFact[]> {
     console.log(`[DIRECTOR] Targeted re-research: "${query}"`);
     
@@ -551,7 +608,15 @@ async function targetedResearch(
     
     try {
         // Run focused research on the specific query
-        const newFacts = await runResearcher(query, costTracker);
+        // (documents-only decks look for more document facts instead of going to the web)
+        let newFacts: ResearchFact[];
+        if (documents?.mode === 'documents-only') {
+            const { selectDocumentFacts } = await import('./ingest/documentIngest');
+            const usedIds = new Set(existingFacts.map(f => f.id));
+            newFacts = selectDocumentFacts(documents.facts.filter(f => !usedIds.has(f.id)), query, 6, { requireMatch: true });
+        } else {
+            newFacts = await runResearcher(query, costTracker, undefined, cache);
+        }
         
         // Merge with existing facts, avoiding duplicates
         const existingClaims = new Set(existingFacts.map(f => f.claim?.toLowerCase()));
@@ -695,7 +760,8 @@ function runVisualGateTier1(
     contentPlan: any,
     layoutId: string,
     slideTitle: string,
-    profile: LayoutQualityProfile
+    profile: LayoutQualityProfile,
+    page?: PageStyle
 ): LocalVisualValidationResult {
     const keyPoints = contentPlan?.keyPoints || [];
     
@@ -715,7 +781,7 @@ function runVisualGateTier1(
     }
 
     // Use VisualSensor's quickFitCheck for fast validation
-    const fitResult = quickFitCheck(keyPoints, layoutId, profile.maxCharsPerPoint);
+    const fitResult = quickFitCheck(keyPoints, layoutId, profile.maxCharsPerPoint, page);
 
     if (!fitResult.fits) {
         // Parse reason to determine structured failure code
@@ -749,9 +815,10 @@ function runVisualGate(
     contentPlan: any,
     layoutId: string,
     slideTitle: string,
-    profile: LayoutQualityProfile
+    profile: LayoutQualityProfile,
+    page?: PageStyle
 ): LocalVisualValidationResult {
-    return runVisualGateTier1(contentPlan, layoutId, slideTitle, profile);
+    return runVisualGateTier1(contentPlan, layoutId, slideTitle, profile, page);
 }
 
 /**
@@ -1058,7 +1125,8 @@ function extractAssetNeeds(
         const purpose = slide.purpose || 'Content';
         const contentId = generateContentId(title, purpose, slideType);
         
-        if (slideType === 'title-slide' || slideType === 'section-header') {
+        // A corporate master supplies the background (a full-bleed image would hide its logo and footer)
+        if ((slideType === 'title-slide' || slideType === 'section-header') && !outline.styleGuide?.template) {
             needs.imagePrompts.push({
                 slideIndex: idx,
                 contentId,
@@ -1139,7 +1207,8 @@ class Semaphore {
 async function generateAssetsParallel(
     assetNeeds: AssetNeeds,
     costTracker: CostTracker,
-    maxConcurrent: number = 3
+    maxConcurrent: number = 3,
+    slideSize?: SlideSize
 ): Promise<Map<number, GeneratedAsset>> {
     const results = new Map<number, GeneratedAsset>();
     
@@ -1151,13 +1220,14 @@ async function generateAssetsParallel(
     const semaphore = new Semaphore(maxConcurrent);
 
     try {
-        const { generateImageFromPrompt } = await import('./image/imageGeneration');
+        const { generateImageFromPrompt, imageAspectRatioFor } = await import('./image/imageGeneration');
+        const aspectRatio = imageAspectRatioFor(slideSize);
         
         const imagePromises = assetNeeds.imagePrompts.map(async (need) => {
             await semaphore.acquire();
             try {
                 console.log(`[DIRECTOR] Generating image for slide ${need.slideIndex} (contentId: ${need.contentId.slice(0, 30)}...)`);
-                const result = await generateImageFromPrompt(need.prompt, '16:9', costTracker);
+                const result = await generateImageFromPrompt(need.prompt, aspectRatio, costTracker);
                 return {
                     slideIndex: need.slideIndex,
                     asset: {
@@ -1220,6 +1290,15 @@ export interface DirectorOptions {
     stylePreference?: 'corporate' | 'creative' | 'minimal' | 'data-heavy';
     styleMode?: 'corporate' | 'professional' | 'serendipitous'; // NEW: StyleMode from slideTypes
     config?: Partial<DirectorConfig>;  // Allow override of defaults
+    documents?: DocumentGrounding;     // Ingested document facts (ahead of or instead of web research)
+    dataFacts?: ResearchFact[];        // Figures from imported data tables (always kept)
+    refreshResearch?: boolean;         // Bypass the cross-run research cache
+    reviewResearch?: ResearchReviewHandler; // Pause after ARCHITECT for knowledge sheet / outline edits
+    audience?: AudienceProfile;        // Steers architect, router and content planner
+    userOutline?: OutlineSlide[];      // Slides from a pasted outline; order, count and titles are kept
+    brandKit?: BrandKit;               // Locked palette and fonts for the architect's style guide
+    slideSize?: SlideSize;             // Page size the fit limits and images are planned for (default 16:9)
+    templateStyleGuide?: GlobalStyleGuide; // Corporate template: its zones, fonts and page size win
 }
 
 // =============================================================================
@@ -1250,6 +1329,8 @@ interface DirectorMetrics {
     enrichmentDetails: Array<{ slideIndex: number; reason: string; attempt: number }>;
     pruneDetails: Array<{ slideIndex: number; reason: string; attempt: number }>;
     slidePaths: Array<{ slideIndex: number; path: 'PASS' | 'ENRICH' | 'PRUNE' | 'SUMMARIZE' }>; // NEW: Path per slide
+    totalReplans: number;                     // Re-plans for figures not in the knowledge sheet
+    claimsStripped: number;                   // Untraceable figures removed after re-planning
     timings: PhaseTimings;                    // NEW: Per-phase breakdown
 }
 
@@ -1259,6 +1340,7 @@ interface DirectorMetrics {
  * Non-linear capabilities:
  * - THIN content → ENRICH loop (targeted re-research)
  * - FAT content → PRUNE/SUMMARIZE loop (content condensation)
+ * - Figures not in the knowledge sheet → one REPLAN, then stripped
  * - Layout-aware quality gates (hero slides have inverted rules)
  * - Visual Gate integration (quickFitCheck for overflow detection)
  * - Early asset extraction (parallel image generation)
@@ -1301,6 +1383,8 @@ export async function runDirector(
         enrichmentDetails: [],
         pruneDetails: [],
         slidePaths: [],
+        totalReplans: 0,
+        claimsStripped: 0,
         timings
     };
 
@@ -1309,7 +1393,7 @@ export async function runDirector(
     console.log(`[DIRECTOR] Config: mode=${config.mode}, Visual=${config.enableVisualValidation}, Assets=${config.enableEarlyAssetExtraction}`);
 
     // Import existing agents (demoted to tools)
-    const { runResearcher } = await import('./agents/researcher');
+    const { runGroundedResearch } = await import('./agents/researcher');
     const { runArchitect } = await import('./agents/architect');
     const { runRouter } = await import('./agents/router');
     const { runContentPlanner } = await import('./agents/contentPlanner');
@@ -1321,7 +1405,9 @@ export async function runDirector(
         phaseStart.research = Date.now();
         onProgress?.('Director: Researching topic...', 10);
         console.log(`[DIRECTOR] State: RESEARCH`);
-        let facts = await runResearcher(topic, costTracker);
+        const researchCache = { topic, refresh: options.refreshResearch };
+        let facts = await runGroundedResearch(topic, costTracker, options.documents, researchCache);
+        if (options.dataFacts?.length) facts = [...facts, ...options.dataFacts];
         timings.research = Date.now() - phaseStart.research;
         console.log(`[DIRECTOR] Initial research: ${facts.length} facts (${timings.research}ms)`);
 
@@ -1331,7 +1417,10 @@ export async function runDirector(
         phaseStart.architect = Date.now();
         onProgress?.('Director: Planning narrative structure...', 25);
         console.log(`[DIRECTOR] State: ARCHITECT`);
-        const outline = await runArchitect(topic, facts, costTracker);
+        let outline = await runArchitect(topic, facts, costTracker, options.audience, options.userOutline, options.brandKit);
+        // Fit limits, images and every exporter read the page size and template from the style guide
+        if (options.slideSize) outline = { ...outline, styleGuide: { ...(outline.styleGuide || getDefaultStyleGuide()), slideSize: options.slideSize } };
+        if (options.templateStyleGuide) outline = { ...outline, styleGuide: applyTemplateStyleGuide(outline.styleGuide || getDefaultStyleGuide(), options.templateStyleGuide) };
         timings.architect = Date.now() - phaseStart.architect;
         console.log(`[DIRECTOR] Planned ${outline.slides?.length || 0} slides (${timings.architect}ms)`);
 
@@ -1349,6 +1438,18 @@ export async function runDirector(
             }
         }
 
+        // =====================================================================
+        // STATE: REVIEW (Optional human checkpoint before planning)
+        // =====================================================================
+        if (options.reviewResearch) {
+            onProgress?.('Director: Waiting for research review...', 27);
+            console.log(`[DIRECTOR] State: REVIEW`);
+            const reviewed = await runResearchReview(options.reviewResearch, topic, facts, slidesToGenerate, outline.factClusters);
+            facts = reviewed.knowledgeSheet;
+            slidesToGenerate = reviewed.outline;
+            outline = { ...outline, knowledgeSheet: facts, factClusters: reviewed.factClusters, slides: slidesToGenerate };
+        }
+
         // =====================================================================
         // STATE: EARLY ASSET EXTRACTION (Phase 4 - Parallel Generation)
         // =====================================================================
@@ -1368,7 +1469,8 @@ export async function runDirector(
                 assetPromise = generateAssetsParallel(
                     extractedAssetNeeds,
                     costTracker,
-                    config.maxConcurrentImages
+                    config.maxConcurrentImages,
+                    outline.styleGuide?.slideSize
                 );
                 metrics.assetsGenerated = extractedAssetNeeds.imagePrompts.length + extractedAssetNeeds.chartSpecs.length;
             }
@@ -1397,13 +1499,13 @@ export async function runDirector(
             // -----------------------------------------------------------------
             let routerDecision;
             try {
-                routerDecision = await runRouter(slideMeta, costTracker, undefined, styleMode);
+                routerDecision = await runRouter(slideMeta, costTracker, undefined, styleMode, options.audience);
             } catch (routeErr: any) {
                 console.warn(`[DIRECTOR] Router failed for slide ${i + 1}:`, routeErr.message);
                 routerDecision = { layoutVariant: 'standard-vertical' };
             }
             const layoutId = routerDecision?.layoutVariant || 'standard-vertical';
-            const constraints = LAYOUT_CONSTRAINTS[layoutId] || LAYOUT_CONSTRAINTS['standard-vertical'];
+            const constraints = getLayoutConstraints(layoutId, outline.styleGuide);
 
             // -----------------------------------------------------------------
             // SUB-STATE: PLAN + EVALUATE + BIDIRECTIONAL LOOP
@@ -1414,18 +1516,20 @@ export async function runDirector(
             let contentPlan: any = null;
             let enrichmentAttempts = 0;
             let pruneAttempts = 0;
+            let replanAttempts = 0;
             let qualityResult: ContentQualityResult = { passes: false };
-            const profile = getLayoutQualityProfile(layoutId);
+            const profile = getLayoutQualityProfile(layoutId, outline.styleGuide);
 
             // Build style-aware content hint for content planner
-            const styleAwareHint = styleMode ? {
+            const styleAwareHint = styleMode || options.audience ? {
                 maxBullets: constraints.maxBullets,
                 maxCharsPerBullet: constraints.maxCharsPerBullet,
                 styleMode,
                 archetype: undefined, // Director doesn't have archetype inference yet
                 preferDiagram: styleMode === 'serendipitous',
                 preferMetrics: styleMode === 'corporate' && !isHeroSlide,
-                avoidBullets: styleMode === 'serendipitous' && isHeroSlide
+                avoidBullets: styleMode === 'serendipitous' && isHeroSlide,
+                audience: options.audience
             } : undefined;
 
             // BIDIRECTIONAL LOOP: Keep adjusting until quality passes or limits hit
@@ -1435,12 +1539,15 @@ export async function runDirector(
             while (totalAttempts < MAX_TOTAL_ATTEMPTS) {
                 totalAttempts++;
 
-                // PLAN: Generate content (only on first attempt or after enrichment)
-                if (!contentPlan || qualityResult.suggestedAction === 'enrich') {
+                // PLAN: Generate content (only on first attempt, after enrichment or for untraceable figures)
+                if (!contentPlan || qualityResult.suggestedAction === 'enrich' || qualityResult.suggestedAction === 'replan') {
+                    const planMeta = qualityResult.suggestedAction === 'replan'
+                        ? { ...slideMeta, purpose: `${slideMeta?.purpose || slideTitle}. Only use figures stated in the facts; do not estimate or invent numbers.` }
+                        : slideMeta;
                     try {
                         contentPlan = await runContentPlanner(
-                            slideMeta,
-                            factsToContext(facts, slideMeta),
+                            planMeta,
+                            factsToContext(isHeroSlide ? withoutLowConfidence(facts) : facts, slideMeta),
                             costTracker,
                             [],
                             { maxBullets: constraints.maxBullets, maxCharsPerBullet: constraints.maxCharsPerBullet },
@@ -1453,13 +1560,13 @@ export async function runDirector(
                 }
 
                 // EVALUATE: Check content quality (bidirectional)
-                qualityResult = evaluateContentQuality(contentPlan, slideMeta, layoutId, isHeroSlide);
+                qualityResult = evaluateContentQuality(contentPlan, slideMeta, layoutId, isHeroSlide, profile);
 
                 // VISUAL GATE: Risk-based visual validation
                 // HIGH RISK layouts always validated; MEDIUM uses sampling; LOW skipped unless long title
                 if (qualityResult.passes && shouldValidateVisually(i, totalSlides, layoutId, slideTitle, config)) {
                     metrics.visualValidations++;
-                    const visualResult = runVisualGate(contentPlan, layoutId, slideTitle, profile);
+                    const visualResult = runVisualGate(contentPlan, layoutId, slideTitle, profile, outline.styleGuide);
                     
                     if (!visualResult.fits) {
                         console.log(`[DIRECTOR] Slide ${i + 1} FAILED Visual Gate: ${visualResult.failureCode} - ${visualResult.reason}`);
@@ -1493,6 +1600,19 @@ export async function runDirector(
                     }
                 }
 
+                // TRACE: Every figure must come from the knowledge sheet (hallucination guard)
+                if (qualityResult.passes && replanAttempts < QUALITY_THRESHOLDS.MAX_REPLAN_ATTEMPTS && facts.length > 0) {
+                    const untraceable = findUntraceableClaims(contentPlanClaimSources(contentPlan), facts);
+                    if (untraceable.length > 0) {
+                        qualityResult = {
+                            passes: false,
+                            reason: 'untraceable_numbers',
+                            details: `Figures not in research facts: ${untraceable.map(c => c.text).join(', ')}`,
+                            suggestedAction: 'replan'
+                        };
+                    }
+                }
+
                 if (qualityResult.passes) {
                     console.log(`[DIRECTOR] Slide ${i + 1} content PASSES all quality gates`);
                     break; // Exit loop - content is good
@@ -1511,11 +1631,13 @@ export async function runDirector(
                     const newFacts = await targetedResearch(
                         qualityResult.suggestedQuery || slideTitle,
                         facts,
-                        costTracker
+                        costTracker,
+                        options.documents,
+                        researchCache
                     );
                     
                     if (newFacts.length > 0) {
-                        facts = [...facts, ...newFacts];
+                        facts = corroborateFacts([...facts, ...newFacts]).facts;
                         metrics.totalEnrichments++;
                         metrics.enrichmentDetails.push({
                             slideIndex: i + 1,
@@ -1566,11 +1688,38 @@ export async function runDirector(
                     continue; // Re-evaluate after summarizing
                 }
 
+                // -------------------------------------------------------------
+                // PATH D: REPLAN (Figures not in the knowledge sheet)
+                // -------------------------------------------------------------
+                if (action === 'replan') {
+                    console.log(`[DIRECTOR] Slide ${i + 1} content UNTRACEABLE: ${qualityResult.details}`);
+                    console.log(`[DIRECTOR] State: REPLAN (attempt ${replanAttempts + 1})`);
+                    metrics.totalReplans++;
+                    replanAttempts++;
+                    continue; // PLAN runs again with the stricter purpose
+                }
+
                 // No more actions available, accept current content
                 console.log(`[DIRECTOR] Slide ${i + 1} reached action limits, accepting content`);
                 break;
             }
 
+            // STRIP: Figures still untraceable after re-planning don't ship
+            if (facts.length > 0) {
+                const untraceable = findUntraceableClaims(contentPlanClaimSources(contentPlan), facts);
+                if (untraceable.length > 0) {
+                    console.warn(`[DIRECTOR] Slide ${i + 1}: stripping ${untraceable.length} untraceable figure(s): ${untraceable.map(c => c.text).join(', ')}`);
+                    contentPlan = stripUntraceableClaims(contentPlan, untraceable, slideMeta);
+                    metrics.claimsStripped += untraceable.length;
+                }
+                // Metric cards only show corroborated figures
+                const { plan, dropped } = dropLowConfidenceDataPoints(contentPlan, facts);
+                if (dropped.length > 0) {
+                    console.warn(`[DIRECTOR] Slide ${i + 1}: ${dropped.length} low-confidence metric(s) kept off metric cards: ${dropped.join(', ')}`);
+                    contentPlan = plan;
+                }
+            }
+
             // Track if this slide was enriched or pruned
             if (enrichmentAttempts > 0 && metrics.enrichmentDetails.some(d => d.slideIndex === i + 1)) {
                 metrics.slidesEnriched++;
@@ -1682,6 +1831,7 @@ export async function runDirector(
         console.log(`  - Visual validations: ${metrics.visualValidations} (${metrics.visualFailures} failures)`);
         console.log(`  - Visual gate failures: ${metrics.visualGateFailures.map(f => f.code).join(', ') || 'none'}`);
         console.log(`  - Slide paths: ${metrics.slidePaths.map(s => `${s.slideIndex}:${s.path}`).join(', ')}`);
+        console.log(`  - Untraceable figures: ${metrics.totalReplans} re-plans, ${metrics.claimsStripped} stripped`);
         console.log(`[DIRECTOR] Asset Summary:`);
         console.log(`  - Generated: ${metrics.assetsGenerated}`);
         console.log(`  - Used: ${metrics.assetsUsed}`);
@@ -1720,6 +1870,8 @@ export async function runDirector(
         return createFallbackBlueprint(topic);
 
     } catch (error: any) {
+        // A cancelled review stops the run; it is not a failure to recover from
+        if (error instanceof ResearchReviewCancelledError) throw error;
         console.error('[DIRECTOR] Orchestration failed:', error.message);
         return createFallbackBlueprint(topic);
     }
@@ -1730,6 +1882,7 @@ export async function runDirector(
  */
 function factsToContext(facts: ResearchFact[], slideMeta: any): string {
     if (!facts || facts.length === 0) return '';
+    facts = orderFactsByWeight(facts);
 
     // Get relevant facts based on slide title/purpose
     const keywords = (slideMeta.title + ' ' + slideMeta.purpose).toLowerCase().split(/\s+/);
@@ -1747,6 +1900,29 @@ function factsToContext(facts: ResearchFact[], slideMeta: any): string {
 /**
  * Convert ContentPlanResult to component array
  */
+/** Content plan texts that can carry figures, labelled like the slide validator's sources. */
+function contentPlanClaimSources(contentPlan: any): NumericClaimSource[] {
+    return [
+        ...(contentPlan?.keyPoints || []).map((point: string, i: number) => ({ location: `bullet ${i + 1}`, text: String(point || '') })),
+        ...(contentPlan?.dataPoints || []).map((dp: any, i: number) => ({ location: `metric ${i + 1}`, text: `${dp?.value ?? ''} ${dp?.label ?? ''}` }))
+    ];
+}
+
+/**
+ * Drop the bullets and data points that carry untraceable figures. A slide left
+ * without bullets falls back to its purpose (as when planning fails).
+ */
+function stripUntraceableClaims(contentPlan: any, untraceable: UntraceableClaim[], slideMeta: any): any {
+    const flagged = new Set(untraceable.map(c => c.location));
+    const keyPoints = (contentPlan?.keyPoints || []).filter((_: string, i: number) => !flagged.has(`bullet ${i + 1}`));
+    const dataPoints = (contentPlan?.dataPoints || []).filter((_: any, i: number) => !flagged.has(`metric ${i + 1}`));
+    return {
+        ...contentPlan,
+        keyPoints: keyPoints.length > 0 || dataPoints.length > 0 ? keyPoints : [slideMeta?.purpose || 'Content'],
+        dataPoints
+    };
+}
+
 function contentPlanToComponents(contentPlan: any): any[] {
     if (!contentPlan) return [];
 
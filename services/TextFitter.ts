@@ -10,9 +10,17 @@
 
 /**
  * Font metrics for common presentation fonts
- * Pre-calculated character widths per font at 1em size
+ * Pre-calculated character widths per font at 1em size.
+ * wideCharWidth applies to full-width characters (CJK ideographs, kana, Hangul),
+ * which every font draws at about 1em, falling back to a CJK font if needed.
  */
-const FONT_METRICS: Record<string, { avgCharWidth: number; heightFactor: number }> = {
+interface FontMetrics {
+    avgCharWidth: number;
+    heightFactor: number;
+    wideCharWidth?: number;
+}
+
+const FONT_METRICS: Record<string, FontMetrics> = {
     'Inter': { avgCharWidth: 0.52, heightFactor: 1.2 },
     'Roboto': { avgCharWidth: 0.50, heightFactor: 1.2 },
     'Arial': { avgCharWidth: 0.48, heightFactor: 1.15 },
@@ -21,10 +29,91 @@ const FONT_METRICS: Record<string, { avgCharWidth: number; heightFactor: number
     'Lato': { avgCharWidth: 0.50, heightFactor: 1.2 },
     'Montserrat': { avgCharWidth: 0.55, heightFactor: 1.25 },
     'Outfit': { avgCharWidth: 0.52, heightFactor: 1.2 },
+    // CJK: Latin glyphs are narrow, ideographs are square; taller line box for ascenders
+    'Noto Sans JP': { avgCharWidth: 0.52, heightFactor: 1.45, wideCharWidth: 1.0 },
+    'Noto Sans SC': { avgCharWidth: 0.52, heightFactor: 1.45, wideCharWidth: 1.0 },
+    'Noto Sans TC': { avgCharWidth: 0.52, heightFactor: 1.45, wideCharWidth: 1.0 },
+    'Noto Sans KR': { avgCharWidth: 0.52, heightFactor: 1.4, wideCharWidth: 0.95 },
+    'Yu Gothic': { avgCharWidth: 0.50, heightFactor: 1.45, wideCharWidth: 1.0 },
+    'Meiryo': { avgCharWidth: 0.55, heightFactor: 1.5, wideCharWidth: 1.0 },
+    'Microsoft YaHei': { avgCharWidth: 0.52, heightFactor: 1.4, wideCharWidth: 1.0 },
+    'Malgun Gothic': { avgCharWidth: 0.52, heightFactor: 1.4, wideCharWidth: 0.95 },
+    // RTL: Arabic letters join and run narrower than Latin; diacritics need line height
+    'Noto Sans Arabic': { avgCharWidth: 0.45, heightFactor: 1.5 },
+    'Noto Sans Hebrew': { avgCharWidth: 0.50, heightFactor: 1.3 },
+    'Segoe UI': { avgCharWidth: 0.50, heightFactor: 1.3 },
+    'Tahoma': { avgCharWidth: 0.50, heightFactor: 1.25 },
     // Fallback for unknown fonts
-    'default': { avgCharWidth: 0.50, heightFactor: 1.2 }
+    'default': { avgCharWidth: 0.50, heightFactor: 1.2, wideCharWidth: 1.0 }
 };
 
+// Full-width scripts: Hangul Jamo, CJK radicals through Yi, Hangul syllables,
+// CJK compatibility ideographs and forms, full-width ASCII and symbols
+const WIDE_RANGES = '\\u1100-\\u115F\\u2E80-\\uA4CF\\uAC00-\\uD7A3\\uF900-\\uFAFF\\uFE30-\\uFE4F\\uFF00-\\uFF60\\uFFE0-\\uFFE6';
+const WIDE_CHAR = new RegExp(`[${WIDE_RANGES}]`);
+
+// One full-width character plus the closing punctuation that must not start a line,
+// or a run of anything else (a Latin word, a number)
+const WRAP_TOKEN = new RegExp(`[${WIDE_RANGES}][、。，．！？：；）」』】〉》ー]*|[^${WIDE_RANGES}]+`, 'g');
+
+function getMetrics(fontFamily: string): FontMetrics {
+    return FONT_METRICS[fontFamily] || FONT_METRICS['default'];
+}
+
+/**
+ * Width of `text` in average-character units: every Latin, Arabic or Hebrew
+ * character counts 1, a full-width character counts wideCharWidth / avgCharWidth
+ * (about 2 in most fonts). Plain Latin text measures exactly its length.
+ */
+export function measureTextUnits(text: string, fontFamily: string = 'default'): number {
+    const metrics = getMetrics(fontFamily);
+    const wideRatio = (metrics.wideCharWidth ?? FONT_METRICS['default'].wideCharWidth!) / metrics.avgCharWidth;
+    let units = 0;
+    for (const ch of text) units += WIDE_CHAR.test(ch) ? wideRatio : 1;
+    return units;
+}
+
+/** True if the text contains CJK (or other full-width) characters. */
+export function hasWideChars(text: string): boolean {
+    return WIDE_CHAR.test(text);
+}
+
+/**
+ * Break text into wrap tokens. Latin words are tokens separated by spaces;
+ * CJK text has no spaces, so each full-width character (plus any closing
+ * punctuation) is its own token that joins without a space.
+ */
+function tokenizeForWrap(text: string): { text: string; spaced: boolean }[] {
+    return text.split(/\s+/).filter(Boolean).flatMap(word =>
+        (word.match(WRAP_TOKEN) || [word]).map((part, i) => ({ text: part, spaced: i === 0 }))
+    );
+}
+
+/**
+ * Greedy line wrap in average-character units (see measureTextUnits).
+ */
+function wrapTokens(text: string, fontFamily: string, maxUnits: number): string[] {
+    const lines: string[] = [];
+    let current = '';
+    let currentUnits = 0;
+
+    for (const token of tokenizeForWrap(text)) {
+        const tokenUnits = measureTextUnits(token.text, fontFamily);
+        const gap = current && token.spaced ? 1 : 0;
+        if (current && currentUnits + gap + tokenUnits > maxUnits) {
+            lines.push(current);
+            current = token.text;
+            currentUnits = tokenUnits;
+        } else {
+            current += (gap ? ' ' : '') + token.text;
+            currentUnits += gap + tokenUnits;
+        }
+    }
+
+    if (current) lines.push(current);
+    return lines;
+}
+
 /**
  * Text measurement result
  */
@@ -64,7 +153,7 @@ export function measureText(
     }
     if (lineHeight <= 0) lineHeight = 1.4;
 
-    const metrics = FONT_METRICS[fontFamily] || FONT_METRICS['default'];
+    const metrics = getMetrics(fontFamily);
 
     // Calculate character width at this font size
     const charWidth = fontSize * metrics.avgCharWidth;
@@ -82,22 +171,11 @@ export function measureText(
         };
     }
 
-    // Word wrap calculation
-    const words = text.split(/\s+/);
-    let lines = 1;
-    let currentLineLength = 0;
-
-    for (const word of words) {
-        if (currentLineLength + word.length + 1 > charsPerLine) {
-            lines++;
-            currentLineLength = word.length;
-        } else {
-            currentLineLength += word.length + 1;
-        }
-    }
+    // Word wrap calculation (CJK text wraps between characters)
+    const lines = Math.max(1, wrapTokens(text, fontFamily, charsPerLine).length);
 
     // Calculate dimensions
-    const textWidth = Math.min(text.length * charWidth, containerWidth);
+    const textWidth = Math.min(measureTextUnits(text, fontFamily) * charWidth, containerWidth);
     const textHeight = lines * fontSize * lineHeight;
 
     // Check if it fits
@@ -129,31 +207,41 @@ export function maxCharsForContainer(
     fontFamily: string,
     fontSize: number
 ): number {
-    const metrics = FONT_METRICS[fontFamily] || FONT_METRICS['default'];
+    const metrics = getMetrics(fontFamily);
     const charWidth = fontSize * metrics.avgCharWidth;
     return Math.floor(containerWidth / charWidth);
 }
 
 /**
- * Fit text to container by truncating with ellipsis
+ * Fit text to container by truncating with ellipsis.
+ * maxChars is in average-character units, so full-width characters count double.
  */
 export function fitTextToContainer(
     text: string,
     maxChars: number,
-    addEllipsis: boolean = true
+    addEllipsis: boolean = true,
+    fontFamily: string = 'default'
 ): string {
-    if (text.length <= maxChars) return text;
+    if (measureTextUnits(text, fontFamily) <= maxChars) return text;
 
-    const ellipsis = addEllipsis ? '...' : '';
+    const ellipsis = addEllipsis ? (hasWideChars(text) ? '…' : '...') : '';
     const cutLength = maxChars - ellipsis.length;
 
     if (cutLength <= 0) return ellipsis;
 
-    // Try to cut at word boundary
-    const truncated = text.substring(0, cutLength);
+    let truncated = '';
+    let units = 0;
+    for (const ch of text) {
+        const chUnits = measureTextUnits(ch, fontFamily);
+        if (units + chUnits > cutLength) break;
+        truncated += ch;
+        units += chUnits;
+    }
+
+    // Try to cut at word boundary (CJK text can be cut anywhere)
     const lastSpace = truncated.lastIndexOf(' ');
 
-    if (lastSpace > cutLength * 0.6) {
+    if (!hasWideChars(truncated) && lastSpace > truncated.length * 0.6) {
         return truncated.substring(0, lastSpace).trim() + ellipsis;
     }
 
@@ -202,22 +290,89 @@ export function wrapTextToWidth(
     containerWidth: number
 ): string[] {
     const maxChars = maxCharsForContainer(containerWidth, fontFamily, fontSize);
-    const words = text.split(/\s+/);
-    const lines: string[] = [];
-    let currentLine = '';
+    return wrapTokens(text, fontFamily, maxChars);
+}
 
-    for (const word of words) {
-        const testLine = currentLine ? `${currentLine} ${word}` : word;
+/**
+ * Table layout result: column widths and row heights in the container's
+ * units, the font size that made it fit, and each cell's wrapped lines.
+ */
+export interface TableFit {
+    fontSize: number;
+    colWidths: number[];
+    rowHeights: number[];
+    lines: string[][][];
+    fits: boolean;
+}
 
-        if (testLine.length <= maxChars) {
-            currentLine = testLine;
-        } else {
-            if (currentLine) lines.push(currentLine);
-            currentLine = word;
-        }
+/**
+ * Split a table's width between columns. Columns whose natural width (longest
+ * cell on one line) fits their fair share keep it, so option columns ("✓",
+ * "$10") stay on one line; the long columns split what is left and wrap.
+ */
+function tableColumnWidths(natural: number[], width: number): number[] {
+    const naturalSum = natural.reduce((sum, n) => sum + n, 0);
+    // Everything fits on one line: share the slack in proportion
+    if (naturalSum <= width) return natural.map(n => (n / naturalSum) * width);
+
+    const colWidths = new Array(natural.length).fill(0);
+    let remaining = width;
+    const open = natural.map((_, c) => c).sort((a, b) => natural[a] - natural[b]);
+    while (open.length > 0 && natural[open[0]] <= remaining / open.length) {
+        const c = open.shift()!;
+        colWidths[c] = natural[c];
+        remaining -= natural[c];
     }
+    const openSum = open.reduce((sum, c) => sum + natural[c], 0);
+    open.forEach(c => { colWidths[c] = (natural[c] / openSum) * remaining; });
+    return colWidths;
+}
+
+/**
+ * Fit a table (header row first) into a box. Column widths come from
+ * tableColumnWidths at each font size; the font steps down from fontSize to
+ * minFontSize until the wrapped rows fit the height and no single word is
+ * wider than its column.
+ *
+ * Widths are in inches and font sizes in points; padding is the cell inset
+ * on each side (inches), lineHeight a multiplier on the font's line box.
+ */
+export function fitTable(
+    cells: string[][],
+    fontFamily: string,
+    width: number,
+    height: number,
+    fontSize: number,
+    minFontSize: number = 9,
+    padding: number = 0.08,
+    lineHeight: number = 1.0
+): TableFit {
+    const cols = Math.max(0, ...cells.map(row => row.length));
+    const emptyFit = { fontSize, colWidths: [], rowHeights: [], lines: [], fits: true };
+    if (cols === 0 || width <= 0) return emptyFit;
 
-    if (currentLine) lines.push(currentLine);
+    const metrics = getMetrics(fontFamily);
+    const longest = Array.from({ length: cols }, (_, c) =>
+        Math.max(1, ...cells.map(row => measureTextUnits(row[c] || '', fontFamily)))
+    );
 
-    return lines;
+    let fit: TableFit = emptyFit;
+    for (let size = fontSize; size >= minFontSize; size--) {
+        const charWidth = (size / 72) * metrics.avgCharWidth;
+        const lineH = (size / 72) * metrics.heightFactor * lineHeight;
+        // 10% allowance for the bold header row and bold highlighted cells
+        const colWidths = tableColumnWidths(longest.map(units => units * charWidth * 1.1 + 2 * padding), width);
+        let wordOverflow = false;
+        const lines = cells.map(row => colWidths.map((w, c) => {
+            const maxUnits = Math.max(1, Math.floor((w - 2 * padding) / charWidth));
+            const wrapped = wrapTokens(row[c] || '', fontFamily, maxUnits);
+            if (wrapped.some(line => measureTextUnits(line, fontFamily) > maxUnits)) wordOverflow = true;
+            return wrapped.length ? wrapped : [''];
+        }));
+        const rowHeights = lines.map(row => Math.max(...row.map(l => l.length)) * lineH + 2 * padding);
+        const fits = !wordOverflow && rowHeights.reduce((sum, h) => sum + h, 0) <= height;
+        fit = { fontSize: size, colWidths, rowHeights, lines, fits };
+        if (fits) break;
+    }
+    return fit;
 }
@@ -25,7 +25,8 @@
 
 import type { BrowserMetrics } from './BrowserRenderer';
 import type { CostTracker } from './interactionsClient';
-import type { StyleMode } from '../types/slideTypes';
+import type { GlobalStyleGuide, StyleMode } from '../types/slideTypes';
+import { SpatialLayoutEngine } from './spatialRenderer';
 import { 
     selectVisualValidationEngine, 
     getLayoutRiskLevel,
@@ -181,8 +182,8 @@ export async function senseLayoutHealthWithVision(
             return domResult;
         }
 
-        // Call Qwen-VL for semantic check (1920x1080 standard slide dimensions)
-        const critique = await getVisualCritiqueFromImage(screenshotBase64, 1920, 1080, costTracker);
+        // Call Qwen-VL for semantic check (screenshot dimensions, 1920x1080 for 16:9)
+        const critique = await getVisualCritiqueFromImage(screenshotBase64, domMetrics.slideWidth || 1920, domMetrics.slideHeight || 1080, costTracker);
 
         if (!critique) {
             return domResult;
@@ -221,12 +222,14 @@ export async function senseLayoutHealthWithVision(
 
 /**
  * Quick check if layout likely fits without full render
- * Uses character limits and heuristics
+ * Uses character limits and heuristics; limits are for 16:9 and shrink with
+ * the text zones of a smaller page (styleGuide.slideSize / template)
  */
 export function quickFitCheck(
     textContent: string[],
     layoutId: string,
-    maxCharsPerBullet: number = 60
+    maxCharsPerBullet: number = 60,
+    styleGuide?: Pick<GlobalStyleGuide, 'slideSize' | 'template'>
 ): { fits: boolean; reason?: string } {
     const totalChars = textContent.reduce((sum, t) => sum + t.length, 0);
     const bulletCount = textContent.length;
@@ -250,7 +253,15 @@ export function quickFitCheck(
         'standard-vertical': { maxBullets: 5, maxTotalChars: 400 }
     };
 
-    const limits = layoutLimits[layoutId] || layoutLimits['standard-vertical'];
+    let limits = layoutLimits[layoutId] || layoutLimits['standard-vertical'];
+    if ((styleGuide?.slideSize && styleGuide.slideSize !== '16:9') || styleGuide?.template) {
+        const scale = new SpatialLayoutEngine().getTextCapacityScale(layoutId, styleGuide.slideSize, styleGuide.template);
+        const rows = Math.min(1, scale.height);
+        limits = {
+            maxBullets: Math.max(1, Math.floor(limits.maxBullets * rows)),
+            maxTotalChars: Math.max(20, Math.floor(limits.maxTotalChars * Math.min(1, scale.width) * rows))
+        };
+    }
 
     if (bulletCount > limits.maxBullets) {
         return { fits: false, reason: `${bulletCount} bullets exceed limit of ${limits.maxBullets}` };
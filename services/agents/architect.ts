@@ -1,7 +1,9 @@
-import { OutlineSchema, SLIDE_TYPES, ResearchFact } from "../../types/slideTypes";
+import { OutlineSchema, SLIDE_TYPES, ResearchFact, AudienceProfile, BrandKit } from "../../types/slideTypes";
 import { PROMPTS } from "../promptRegistry";
 import { createJsonInteraction, CostTracker, ThinkingLevel, MODEL_AGENTIC } from "../interactionsClient";
 import { z } from "zod";
+import type { OutlineSlide } from "../review/researchReview";
+import { applyBrandIdentity } from "../brand/brandKit";
 
 // Extract desired slide count from the user topic if explicitly requested (e.g., "7 slides")
 const extractDesiredSlideCount = (topic: string): number | undefined => {
@@ -13,20 +15,64 @@ const extractDesiredSlideCount = (topic: string): number | undefined => {
     return Math.min(12, Math.max(4, count));
 };
 
+// A user outline fixes the slides; otherwise a count in the topic wins over the audience's preferred length
+const desiredSlideCountFor = (topic: string, audience?: AudienceProfile, userSlides?: OutlineSlide[]): number | undefined =>
+    userSlides ? undefined : extractDesiredSlideCount(topic) ?? audience?.preferredSlideCount;
+
+/**
+ * The task prompt runArchitect sends: facts, slide count, structure, and the
+ * audience and brand-kit briefs.
+ */
+export function buildArchitectTask(
+    topic: string,
+    facts: ResearchFact[],
+    audience?: AudienceProfile,
+    userSlides?: OutlineSlide[],
+    brandKit?: BrandKit
+): string {
+    const factContext = facts.map(f => `[${f.id}] ${f.claim}`).join('\n');
+    const desiredSlideCount = desiredSlideCountFor(topic, audience, userSlides);
+    const slideCountInstruction = userSlides
+        ? `Use EXACTLY these ${userSlides.length} slides from the author's outline, in this order, with these titles. Only assign relevantClusterIds:\n${userSlides.map(s => `      ${s.order}. ${s.title} (${s.purpose})`).join('\n')}`
+        : desiredSlideCount
+        ? `Create EXACTLY ${desiredSlideCount} slides. Do not return more or fewer.`
+        : `Create a 5-8 slide flow. If not specified, default to 7 slides.`;
+
+    return `TASK: Structure a comprehensive slide deck about "${topic}".
+      
+      AVAILABLE FACTS:
+      ${factContext}
+      
+      REQUIREMENTS:
+      1. Group facts into "Fact Clusters" by theme (each cluster has: id, theme, factIds)
+      2. ${slideCountInstruction}
+      3. Follow structure: Intro → Problem/Context → Solution/Analysis → Data/Evidence → Conclusion
+      ${PROMPTS.ARCHITECT.AUDIENCE(audience)}
+      ${PROMPTS.ARCHITECT.BRAND_KIT(brandKit)}
+      
+      EACH SLIDE MUST HAVE:
+      - "order": number (1, 2, 3...)
+      - "type": one of "title-slide", "section-header", "content-main", "data-viz", "conclusion"
+      - "title": string (THE SLIDE TITLE - REQUIRED)
+      - "purpose": string describing what the slide communicates
+      - "relevantClusterIds": array of cluster IDs this slide uses
+      
+      OUTPUT: JSON matching the provided schema. Ensure every slide has a "title" field.`;
+}
+
 // --- AGENT 2: ARCHITECT ---
 
 export async function runArchitect(
     topic: string,
     facts: ResearchFact[],
-    costTracker: CostTracker
+    costTracker: CostTracker,
+    audience?: AudienceProfile,
+    userSlides?: OutlineSlide[],
+    brandKit?: BrandKit
 ): Promise<z.infer<typeof OutlineSchema>> {
-    console.log("[ARCHITECT] Starting structure planning with Interactions API...");
+    console.log(`[ARCHITECT] Starting structure planning with Interactions API...${audience ? ` (audience: ${audience.label})` : ''}${userSlides ? ` (user outline: ${userSlides.length} slides)` : ''}${brandKit ? ` (brand kit: ${brandKit.name})` : ''}`);
 
-    const factContext = facts.map(f => `[${f.id}] ${f.claim}`).join('\n');
-    const desiredSlideCount = extractDesiredSlideCount(topic);
-    const slideCountInstruction = desiredSlideCount
-        ? `Create EXACTLY ${desiredSlideCount} slides. Do not return more or fewer.`
-        : `Create a 5-8 slide flow. If not specified, default to 7 slides.`;
+    const desiredSlideCount = desiredSlideCountFor(topic, audience, userSlides);
 
     // NOTE: Schema flattened to comply with Gemini Interactions API 4-level nesting limit.
     const architectSchema = {
@@ -61,24 +107,7 @@ export async function runArchitect(
         // Phil Schmid: Flash beats Pro on agentic benchmarks (78% vs 76.2% SWE-bench)
         const result = await createJsonInteraction(
             MODEL_AGENTIC,
-            `TASK: Structure a comprehensive slide deck about "${topic}".
-      
-      AVAILABLE FACTS:
-      ${factContext}
-      
-      REQUIREMENTS:
-      1. Group facts into "Fact Clusters" by theme (each cluster has: id, theme, factIds)
-            2. ${slideCountInstruction}
-      3. Follow structure: Intro → Problem/Context → Solution/Analysis → Data/Evidence → Conclusion
-      
-      EACH SLIDE MUST HAVE:
-      - "order": number (1, 2, 3...)
-      - "type": one of "title-slide", "section-header", "content-main", "data-viz", "conclusion"
-      - "title": string (THE SLIDE TITLE - REQUIRED)
-      - "purpose": string describing what the slide communicates
-      - "relevantClusterIds": array of cluster IDs this slide uses
-      
-      OUTPUT: JSON matching the provided schema. Ensure every slide has a "title" field.`,
+            buildArchitectTask(topic, facts, audience, userSlides, brandKit),
             architectSchema,
             {
                 systemInstruction: PROMPTS.ARCHITECT.ROLE,
@@ -130,10 +159,21 @@ export async function runArchitect(
             }));
         }
 
+        // The author's outline wins: keep their slides and take only the cluster assignment
+        if (userSlides) {
+            result.slides = userSlides.map((slide, idx) => ({
+                ...slide,
+                relevantClusterIds: result.slides[idx]?.relevantClusterIds ?? []
+            }));
+        }
+
+        // The kit's palette and fonts win over whatever the model picked
+        if (brandKit) result.styleGuide = applyBrandIdentity(result.styleGuide, brandKit);
+        if (audience) result.audience = audience;
         return result;
     } catch (e: any) {
         console.error("[ARCHITECT] Agent failed. Using fallback.", e.message);
-        return {
+        const fallback: z.infer<typeof OutlineSchema> = {
             narrativeGoal: topic,
             title: topic,
             knowledgeSheet: facts,
@@ -160,7 +200,10 @@ export async function runArchitect(
                     surpriseCues: ["subtle light trails"]
                 }
             },
-            slides: [{ order: 1, type: SLIDE_TYPES.TITLE, title: topic, purpose: "Title", relevantClusterIds: [] }]
+            slides: userSlides || [{ order: 1, type: SLIDE_TYPES.TITLE, title: topic, purpose: "Title", relevantClusterIds: [] }],
+            audience
         };
+        if (brandKit) fallback.styleGuide = applyBrandIdentity(fallback.styleGuide, brandKit);
+        return fallback;
     }
 }
@@ -31,7 +31,8 @@ import {
   NarrativeTrail,
   StyleMode,
   StyleProfile,
-  getStyleProfile
+  getStyleProfile,
+  BrandKit
 } from "../../types/slideTypes";
 import {
   createJsonInteraction,
@@ -39,6 +40,8 @@ import {
   MODEL_SIMPLE,
   TOKEN_BUDGETS
 } from "../interactionsClient";
+import { normalizeDecorativeType } from "../decorativeRenderer";
+import { allowedCardStyle } from "../brand/brandKit";
 
 // ============================================================================
 // CONSTANTS
@@ -181,7 +184,8 @@ const buildCompositionTask = (
   variationBudget?: number,
   narrativeTrail?: NarrativeTrail[],
   usedSurprises?: string[],
-  styleMode?: StyleMode
+  styleMode?: StyleMode,
+  brandKit?: BrandKit
 ): string => {
   const style = getStyleProfile(styleMode);
   
@@ -199,6 +203,8 @@ ${styleMode === 'corporate' ? 'STYLE: Corporate (max stability, clean grids, sub
   'STYLE: Professional (balanced modern)'}
 
 ${usedSurprises?.length ? `AVOID REPEATING: ${usedSurprises.slice(0, 3).join(', ')}` : ''}
+${brandKit?.allowedCardStyles?.length ? `BRAND: cardStyle must be one of ${brandKit.allowedCardStyles.join(', ')}` : ''}
+${brandKit?.bannedDecorations?.length ? `BRAND: never use ${brandKit.bannedDecorations.join(', ')} decorations or surprises` : ''}
 
 DECISIONS NEEDED:
 1. BACKGROUND: solid/gradient/mesh - must have quiet zones for text
@@ -319,6 +325,7 @@ export interface CompositionArchitectInput {
   narrativeTrail?: NarrativeTrail[];
   usedSurprisesInDeck?: string[]; // Track surprises already used to avoid repetition
   styleMode?: StyleMode; // NEW: Style mode for composition constraints
+  brandKit?: BrandKit; // Banned decorations and allowed card styles (services/brand/brandKit.ts)
 }
 
 export async function runCompositionArchitect(
@@ -370,7 +377,8 @@ export async function runCompositionArchitect(
     styleAdjustedBudget, // Use style-adjusted budget
     input.narrativeTrail,
     input.usedSurprisesInDeck,
-    input.styleMode // Pass style mode to prompt builder
+    input.styleMode, // Pass style mode to prompt builder
+    input.brandKit
   );
 
   try {
@@ -445,9 +453,13 @@ function normalizeCompositionPlan(
     return createFallbackPlan(input);
   }
 
+  // Brand kits ban decorative types by their renderer type (a banned 'glow' also drops 'icon-glow')
+  const banned: string[] = input.brandKit?.bannedDecorations || [];
+  const isAllowedDecoration = (type: string) => !banned.includes(normalizeDecorativeType(type));
+
   // Safely extract decorative elements
   const decorativeElements = Array.isArray(raw.layerPlan?.decorativeElements)
-    ? raw.layerPlan.decorativeElements.filter((el: any) => el && typeof el.type === 'string')
+    ? raw.layerPlan.decorativeElements.filter((el: any) => el && typeof el.type === 'string' && isAllowedDecoration(el.type))
     : [];
 
   // Safely extract surprises
@@ -457,7 +469,7 @@ function normalizeCompositionPlan(
 
   const allocatedSurprises = rawSurprises
     .slice(0, 2)
-    .filter((s: any) => s && typeof s.type === 'string')
+    .filter((s: any) => s && typeof s.type === 'string' && isAllowedDecoration(s.type))
     .map((s: any) => ({
       type: String(s.type || 'category-badge'),
       target: s.target ? String(s.target) : undefined,
@@ -468,7 +480,8 @@ function normalizeCompositionPlan(
   // Validate card style
   const validCardStyles = ['glass', 'solid', 'outline', 'gradient', 'elevated'];
   const rawCardStyle = raw.layerPlan?.contentStructure?.cardStyle;
-  const cardStyle = validCardStyles.includes(rawCardStyle) ? rawCardStyle as CardStyle : 'glass';
+  const requestedCardStyle = validCardStyles.includes(rawCardStyle) ? rawCardStyle as CardStyle : 'glass';
+  const cardStyle = input.brandKit ? allowedCardStyle(requestedCardStyle, input.brandKit) : requestedCardStyle;
 
   // Validate content pattern
   const validPatterns = ['single-hero', 'card-row', 'card-grid', 'split-content', 'metrics-rail', 'narrative-flow'];
@@ -523,7 +536,7 @@ function createFallbackPlan(input: CompositionArchitectInput): CompositionPlan {
       contentStructure: {
         pattern: hasData ? 'split-content' : 'single-hero',
         cardCount: hasData ? 2 : 0,
-        cardStyle: 'glass',
+        cardStyle: input.brandKit ? allowedCardStyle('glass', input.brandKit) : 'glass',
         textBlockCount: 1
       },
       overlayIntention: undefined
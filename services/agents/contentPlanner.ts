@@ -1,4 +1,4 @@
-import { NarrativeTrail, StyleMode, StyleProfile, SlideArchetype, getStyleProfile, getBulletsMax } from "../../types/slideTypes";
+import { NarrativeTrail, StyleMode, StyleProfile, SlideArchetype, AudienceProfile, getStyleProfile, getBulletsMax } from "../../types/slideTypes";
 import { PROMPTS } from "../promptRegistry";
 import { createJsonInteraction, CostTracker, ThinkingLevel, MODEL_AGENTIC } from "../interactionsClient";
 
@@ -23,6 +23,7 @@ export interface StyleAwareContentHint extends ContentDensityHint {
     preferDiagram?: boolean;    // For serendipitous: prefer visual over bullets
     preferMetrics?: boolean;    // For corporate/data: prefer quantitative content
     avoidBullets?: boolean;     // For hero archetypes in serendipitous mode
+    audience?: AudienceProfile; // Reading level and jargon tolerance for the wording
 }
 
 /**
@@ -38,6 +39,12 @@ export interface ContentPlanResult {
         type: 'bar' | 'line' | 'pie' | 'doughnut' | 'stat-big';
         title?: string;
         data: Array<{ label: string; value: number; color?: string }>;
+        yAxisLabel?: string;
+    };
+    // Comparison across options (becomes a data-table component)
+    tableSpec?: {
+        headers: string[];
+        rows: string[][];
     };
     // NEW: Style-driven content decisions
     contentStrategy?: {
@@ -238,6 +245,23 @@ function normalizeKeyPoints(
     return cleaned;
 }
 
+/**
+ * Normalizes a planner tableSpec: string cells, one per header, at most
+ * 5 columns and 6 rows so the table stays readable on a slide.
+ * Returns undefined when there is no real comparison (fewer than 2 columns or no rows).
+ */
+function normalizeTableSpec(spec: any): ContentPlanResult['tableSpec'] {
+    if (!spec || typeof spec !== 'object' || !Array.isArray(spec.headers) || !Array.isArray(spec.rows)) return undefined;
+    const headers = spec.headers.map((h: any) => String(h ?? '').trim()).slice(0, 5);
+    if (headers.length < 2 || headers.some((h: string) => !h)) return undefined;
+    const rows = spec.rows
+        .filter((row: any) => Array.isArray(row))
+        .map((row: any[]) => headers.map((_: string, col: number) => String(row[col] ?? '').trim()))
+        .filter((row: string[]) => row.some(cell => cell))
+        .slice(0, 6);
+    return rows.length > 0 ? { headers, rows } : undefined;
+}
+
 /**
  * Normalizes and validates dataPoints with density constraints
  */
@@ -367,6 +391,7 @@ export async function runContentPlanner(
                 properties: {
                     type: { type: "string", enum: ["bar", "line", "pie", "doughnut", "stat-big"] },
                     title: { type: "string" },
+                    yAxisLabel: { type: "string" },
                     data: { 
                         type: "array",
                         items: {
@@ -378,6 +403,13 @@ export async function runContentPlanner(
                         }
                     }
                 }
+            },
+            tableSpec: {
+                type: "object",
+                properties: {
+                    headers: { type: "array", items: { type: "string" } },
+                    rows: { type: "array", items: { type: "array", items: { type: "string" } } }
+                }
             }
         },
         required: ["title", "keyPoints"]
@@ -391,8 +423,9 @@ export async function runContentPlanner(
             MODEL_AGENTIC,
             PROMPTS.CONTENT_PLANNER.TASK(meta.title, meta.purpose, safeFactsContext, recentHistory, {
                 ...adjustedHint,
-                styleMode  // Pass styleMode embedded in density hint for prompt styling
-            }),
+                styleMode,  // Pass styleMode embedded in density hint for prompt styling
+                audience: styleHint?.audience
+            }, Array.isArray(meta.contentHints) ? meta.contentHints : undefined),
             contentPlanSchema,
             {
                 systemInstruction: PROMPTS.CONTENT_PLANNER.ROLE,
@@ -411,7 +444,8 @@ export async function runContentPlanner(
 
         // Normalize and validate the result with density constraints
         const normalizedPlan: ContentPlanResult = {
-            title: String(result.title || meta.title || 'Slide Content').trim(),
+            // Titles from a user outline are kept verbatim
+            title: String((meta.fixedTitle ? meta.title : result.title) || meta.title || 'Slide Content').trim(),
             keyPoints: normalizeKeyPoints(result.keyPoints, meta, maxBullets, maxCharsPerBullet),
             dataPoints: normalizeDataPoints(result.dataPoints, maxDataPoints),
             narrative: result.narrative ? String(result.narrative).trim() : undefined
@@ -426,11 +460,15 @@ export async function runContentPlanner(
                     title: result.chartSpec.title || normalizedPlan.title,
                     data: Array.isArray(result.chartSpec.data) 
                         ? result.chartSpec.data.slice(0, 6) // Cap chart data points
-                        : []
+                        : [],
+                    ...(result.chartSpec.yAxisLabel ? { yAxisLabel: String(result.chartSpec.yAxisLabel).trim() } : {})
                 };
             }
         }
 
+        const tableSpec = normalizeTableSpec(result.tableSpec);
+        if (tableSpec) normalizedPlan.tableSpec = tableSpec;
+
         // Add style-driven content strategy (Phase 3)
         const hasDataPoints = normalizedPlan.dataPoints.length > 0 || !!normalizedPlan.chartSpec;
         normalizedPlan.contentStrategy = determineContentStrategy(styleMode, archetype, hasDataPoints);
@@ -1,5 +1,9 @@
 import { ResearchFact } from "../../types/slideTypes";
 import { runAgentLoop, CostTracker, Tool, ToolDefinition, ThinkingLevel, MODEL_AGENTIC } from "../interactionsClient";
+import { getSearchProvider, SearchProvider, SearchResult } from "../search/searchProvider";
+import { DocumentGrounding, selectDocumentFacts } from "../ingest/documentIngest";
+import { getFactStore } from "../research/factStore";
+import { corroborateFacts } from "../research/corroboration";
 
 // --- TOOL DEFINITIONS (Following Phil Schmid's Ergonomics Guidelines) ---
 
@@ -37,26 +41,119 @@ const extractFactsTool: ToolDefinition = {
     }
 };
 
+// --- SOURCE ATTRIBUTION ---
+
+const normalizeUrl = (url: string): string =>
+    url.trim().toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/[/#?]+$/, '');
+
+function overlapScore(text: string, result: SearchResult): number {
+    const words = new Set(`${result.title} ${result.snippet}`.toLowerCase().split(/[^a-z0-9%.]+/).filter(w => w.length > 2));
+    const claimWords = text.toLowerCase().split(/[^a-z0-9%.]+/).filter(w => w.length > 2);
+    return claimWords.filter(w => words.has(w)).length;
+}
+
+/**
+ * Make every fact's source one of the URLs the search provider returned.
+ * A fact citing anything else is re-attributed to the result whose title and
+ * snippet share the most words with it, or marked low confidence if none do.
+ */
+export function attributeFactSources(facts: ResearchFact[], results: SearchResult[]): ResearchFact[] {
+    const byUrl = new Map(results.map(r => [normalizeUrl(r.url), r]));
+    let reattributed = 0;
+    let unsourced = 0;
+
+    const attributed = facts.map(fact => {
+        const cited = fact.source?.match(/https?:\/\/[^\s)\]]+/)?.[0];
+        const match = cited ? byUrl.get(normalizeUrl(cited)) : undefined;
+        if (match) return { ...fact, source: match.url };
+
+        const best = results
+            .map(result => ({ result, score: overlapScore(`${fact.claim} ${fact.value || ''}`, result) }))
+            .sort((a, b) => b.score - a.score)[0];
+        if (best && best.score >= 2) {
+            reattributed++;
+            return { ...fact, source: best.result.url };
+        }
+        unsourced++;
+        return { ...fact, source: undefined, confidence: 'low' as const };
+    });
+
+    if (reattributed || unsourced) {
+        console.warn(`[RESEARCHER] Source check: ${reattributed} fact(s) re-attributed to search results, ${unsourced} without a matching result`);
+    }
+    return attributed;
+}
+
 // --- AGENT 1: RESEARCHER (with Tool Execution Loop) ---
 
-export async function runResearcher(topic: string, costTracker: CostTracker): Promise<ResearchFact[]> {
-    console.log("[RESEARCHER] Starting research agent with Interactions API...");
+export interface ResearchCacheOptions {
+    /** Deck topic the query belongs to (default: the query itself) */
+    topic?: string;
+    /** Skip cached facts and research again; the fresh facts replace the cache entry */
+    refresh?: boolean;
+}
+
+/**
+ * Research a topic into citable facts. With a search provider (see
+ * services/search/searchProvider.ts) the model researches through web_search and
+ * fact sources are result URLs; without one it answers from its own knowledge.
+ *
+ * Results are cached across runs (services/research/factStore.ts); a cached,
+ * unexpired entry for the same topic, query and provider is returned without
+ * calling the model unless `cache.refresh` is set.
+ */
+export async function runResearcher(
+    topic: string,
+    costTracker: CostTracker,
+    searchProvider: SearchProvider | null = getSearchProvider(),
+    cache: ResearchCacheOptions = {}
+): Promise<ResearchFact[]> {
+    const store = getFactStore();
+    const key = { topic: cache.topic || topic, query: topic, provider: searchProvider?.name || 'model' };
+    if (store && !cache.refresh) {
+        const entry = await store.get(key);
+        if (entry) {
+            console.log(`[RESEARCHER] Cache hit: ${entry.facts.length} fact(s) for "${topic}" (stored ${entry.storedAt}, expires ${entry.expiresAt})`);
+            return entry.facts;
+        }
+    }
+
+    const facts = await researchWithAgent(topic, costTracker, searchProvider);
+    // Empty results are failures, not answers; the next run should try again
+    if (store && facts.length > 0) await store.put(key, facts);
+    return facts;
+}
+
+async function researchWithAgent(
+    topic: string,
+    costTracker: CostTracker,
+    searchProvider: SearchProvider | null
+): Promise<ResearchFact[]> {
+    console.log(`[RESEARCHER] Starting research agent with Interactions API (search: ${searchProvider?.name || 'model only'})...`);
+
+    // Every result returned to the model, so fact sources can be checked against them
+    const searchResults: SearchResult[] = [];
 
     // Define tool implementations
-    const tools: Record<string, Tool> = {
-        web_search: {
+    const tools: Record<string, Tool> = {};
+    if (searchProvider) {
+        tools.web_search = {
             definition: webSearchTool,
             execute: async (args: { query: string }) => {
-                // In production, this would call a real search API
-                // For now, we use Google Search grounding in the model call
+                if (!args?.query?.trim()) throw new Error('Invalid arguments: query is required');
+                const results = await searchProvider.search(args.query);
+                searchResults.push(...results);
+                console.log(`[RESEARCHER] ${searchProvider.name}: ${results.length} result(s) for "${args.query}"`);
                 return {
-                    status: "delegated_to_model",
                     query: args.query,
-                    note: "Search executed via Google Search grounding in model call"
+                    results: results.map(r => ({ title: r.title, url: r.url, snippet: r.snippet }))
                 };
             }
-        }
-    };
+        };
+    }
+
+    const parseFacts = (facts: ResearchFact[]): ResearchFact[] =>
+        searchProvider ? attributeFactSources(facts, searchResults) : facts;
 
     try {
         const result = await runAgentLoop(
@@ -80,7 +177,11 @@ export async function runResearcher(topic: string, costTracker: CostTracker): Pr
         }
       ]
       
-      CRITICAL: Return ONLY the JSON array. No preamble or markdown.`,
+      ${searchProvider ? `SOURCES:
+      Call web_search (several focused queries) before answering. Every fact must come
+      from a search result, and "source" must be that result's exact URL.
+      
+      ` : ''}CRITICAL: Return ONLY the JSON array. No preamble or markdown.`,
             {
                 model: MODEL_AGENTIC,
                 systemInstruction: `You are a Lead Technical Researcher with expertise in finding and validating information.
@@ -91,9 +192,11 @@ export async function runResearcher(topic: string, costTracker: CostTracker): Pr
         - SPECIFIC: Include concrete numbers, not vague claims
         - ATTRIBUTABLE: Always note the source
         
-        Use Google Search grounding when you need current information.`,
-                tools: {}, // Using built-in Google Search via grounding instead
-                maxIterations: 5,
+        ${searchProvider
+            ? 'Use the web_search tool to find current information and cite result URLs only.'
+            : 'Use Google Search grounding when you need current information.'}`,
+                tools,
+                maxIterations: searchProvider ? 8 : 5,
                 thinkingLevel: 'low' as ThinkingLevel,
                 temperature: 0.3,
                 onToolCall: (name, args, result) => {
@@ -106,8 +209,8 @@ export async function runResearcher(topic: string, costTracker: CostTracker): Pr
         // Parse the JSON response
         try {
             const parsed = JSON.parse(result.text);
-            if (Array.isArray(parsed)) return parsed;
-            if (parsed.facts && Array.isArray(parsed.facts)) return parsed.facts;
+            if (Array.isArray(parsed)) return parseFacts(parsed);
+            if (parsed.facts && Array.isArray(parsed.facts)) return parseFacts(parsed.facts);
             return [];
         } catch (parseErr) {
             console.warn("[RESEARCHER] JSON parse failed, attempting extraction...");
@@ -115,7 +218,7 @@ export async function runResearcher(topic: string, costTracker: CostTracker): Pr
             const jsonMatch = result.text.match(/\[[\s\S]*\]/);
             if (jsonMatch) {
                 try {
-                    return JSON.parse(jsonMatch[0]);
+                    return parseFacts(JSON.parse(jsonMatch[0]));
                 } catch {
                     console.error("[RESEARCHER] Extraction failed");
                 }
@@ -128,5 +231,37 @@ export async function runResearcher(topic: string, costTracker: CostTracker): Pr
     }
 }
 
+// --- DOCUMENT GROUNDING ---
+
+// Document facts handed to the architect; web research adds its own 8-12 on top
+const MAX_DOCUMENT_FACTS = 24;
+
+/**
+ * Research with our own documents (services/ingest/documentIngest.ts):
+ * - documents-first  the most relevant document facts, then web research (duplicates dropped)
+ * - documents-only   document facts alone, runResearcher is never called
+ * Without documents this is runResearcher().
+ * Either way the facts go through corroboration (services/research/corroboration.ts):
+ * equivalent claims are merged and confidence reflects the agreeing sources.
+ */
+export async function runGroundedResearch(
+    topic: string,
+    costTracker: CostTracker,
+    documents?: DocumentGrounding,
+    cache: ResearchCacheOptions = {}
+): Promise<ResearchFact[]> {
+    if (!documents || documents.facts.length === 0) {
+        return corroborateFacts(await runResearcher(topic, costTracker, undefined, cache)).facts;
+    }
+
+    const documentFacts = selectDocumentFacts(documents.facts, topic, MAX_DOCUMENT_FACTS);
+    console.log(`[RESEARCHER] Grounding in documents (${documents.mode}): ${documentFacts.length} of ${documents.facts.length} document fact(s)`);
+    if (documents.mode === 'documents-only') return corroborateFacts(documentFacts).facts;
+
+    const webFacts = await runResearcher(topic, costTracker, undefined, cache);
+    const known = new Set(documentFacts.map(f => f.claim.toLowerCase().trim()));
+    return corroborateFacts([...documentFacts, ...webFacts.filter(f => !known.has(f.claim?.toLowerCase().trim()))]).facts;
+}
+
 // Keep export to avoid unused lint for future tooling
 export const _unusedExtractFactsTool = extractFactsTool;
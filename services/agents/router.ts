@@ -1,4 +1,4 @@
-import { RouterDecision, RouterConstraints, RenderModeSchema, LayoutVariantSchema, StyleMode, StyleProfile, getStyleProfile, isLayoutAllowedForStyle } from "../../types/slideTypes";
+import { RouterDecision, RouterConstraints, RenderModeSchema, LayoutVariantSchema, StyleMode, StyleProfile, AudienceProfile, getStyleProfile, isLayoutAllowedForStyle } from "../../types/slideTypes";
 import { createJsonInteraction, CostTracker, MODEL_SIMPLE, TOKEN_BUDGETS } from "../interactionsClient";
 import { PROMPTS } from "../promptRegistry";
 
@@ -87,14 +87,16 @@ function getStyleAdjustedDensityBudget(
  * @param costTracker - Cost tracking
  * @param constraints - Optional constraints for rerouting (avoidLayoutVariants)
  * @param styleMode - Optional style mode for layout preference filtering
+ * @param audience - Optional audience profile (how much detail a layout may carry)
  */
 export async function runRouter(
     slideMeta: any,
     costTracker: CostTracker,
     constraints?: RouterConstraints,
-    styleMode?: StyleMode
+    styleMode?: StyleMode,
+    audience?: AudienceProfile
 ): Promise<RouterDecision> {
-    console.log(`[ROUTER] Routing slide: "${slideMeta.title}"${styleMode ? ` (style: ${styleMode})` : ''}...`);
+    console.log(`[ROUTER] Routing slide: "${slideMeta.title}"${styleMode ? ` (style: ${styleMode})` : ''}${audience ? ` (audience: ${audience.label})` : ''}...`);
     if (constraints?.avoidLayoutVariants?.length) {
         console.log(`[ROUTER] Avoiding layouts: ${constraints.avoidLayoutVariants.join(', ')}`);
     }
@@ -127,7 +129,8 @@ export async function runRouter(
             MODEL_SIMPLE,
             PROMPTS.ROUTER.TASK(slideMeta, { 
                 avoidLayoutVariants: constraints?.avoidLayoutVariants, 
-                styleMode 
+                styleMode,
+                audience
             }),
             routerSchema,
             {
@@ -0,0 +1,236 @@
+/**
+ * Brand Kits
+ *
+ * A brand kit is an organisation's approved identity: colours with roles,
+ * title and body fonts, logo files with placement rules, banned decorative
+ * types and allowed card styles. Left alone, the architect invents a fresh
+ * style guide per deck; with a kit:
+ * - applyBrandIdentity pins the palette, fonts and card style and locks the
+ *   style guide (the architect applies it to its own output)
+ * - applyBrandKit also places the logos as image shapes of styleGuide.template
+ *   (the exported slide master), keeping the content bounds clear of them
+ * - runCompositionArchitect drops banned decorations and card styles, and
+ *   runVisualDesigner snaps its colour harmony onto the kit
+ * - validateBrandCompliance (services/validators.ts) reports rendered colours
+ *   and fonts outside the kit
+ *
+ * Kits are JSON files matching BrandKitSchema (types/slideTypes.ts).
+ */
+
+import {
+    BrandColorRole,
+    BrandKit,
+    BrandKitSchema,
+    BrandLogo,
+    DeckTemplate,
+    getSlideDimensions,
+    GlobalStyleGuide,
+    SlideStyleDNASchema,
+    TemplateShape
+} from '../../types/slideTypes';
+import type { CardStyle } from '../../types/serendipityTypes';
+
+export class BrandKitError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BrandKitError';
+    }
+}
+
+// Clear space between a logo and the slide edges when the kit sets none
+const DEFAULT_LOGO_MARGIN = 0.3;
+// Space between a logo and the content below or above it
+const LOGO_CONTENT_GAP = 0.15;
+// Edges of the built-in layout zones on every page size (see SpatialLayoutEngine)
+const CONTENT_MARGIN = { x: 0.5, top: 0.5, bottom: 0.4 };
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// The deck-level style DNA only has glass, outline and solid cards; the other
+// kit styles reach the composition architect through styleGuide.brandKit
+const DnaCardStyleSchema = SlideStyleDNASchema.shape.cardStyle.unwrap();
+
+/**
+ * Parse and validate a brand kit (a JSON string or an already parsed object).
+ * Colours come back as upper-case "#RRGGBB".
+ * @throws BrandKitError listing every schema problem
+ */
+export function parseBrandKit(raw: unknown): BrandKit {
+    let value = raw;
+    if (typeof raw === 'string') {
+        try {
+            value = JSON.parse(raw);
+        } catch (e: any) {
+            throw new BrandKitError(`Brand kit is not valid JSON: ${e.message}`);
+        }
+    }
+    const result = BrandKitSchema.safeParse(value);
+    if (!result.success) {
+        const issues: Array<{ path: (string | number)[]; message: string }> = (result as any).error.issues;
+        const problems = issues.map(issue => `${issue.path.join('.') || 'kit'}: ${issue.message}`);
+        throw new BrandKitError(`Invalid brand kit: ${problems.join('; ')}`);
+    }
+    return {
+        ...result.data,
+        colors: result.data.colors.map(color => ({ ...color, hex: `#${normalizeHex(color.hex)}` }))
+    };
+}
+
+/**
+ * "RRGGBB" in upper case for "#rrggbb", "rrggbb" or "#rgb"; undefined for
+ * anything else (named colours, rgba(), gradients).
+ */
+export function normalizeHex(color: string | undefined): string | undefined {
+    if (!color || typeof color !== 'string') return undefined;
+    let hex = color.trim().replace(/^#/, '');
+    if (/^[0-9A-Fa-f]{3}$/.test(hex)) hex = hex.split('').map(c => c + c).join('');
+    return /^[0-9A-Fa-f]{6}$/.test(hex) ? hex.toUpperCase() : undefined;
+}
+
+/** First kit colour with the role, as "#RRGGBB". */
+export function brandColor(kit: BrandKit, role: BrandColorRole): string | undefined {
+    const hex = normalizeHex(kit.colors.find(c => c.role === role)?.hex);
+    return hex ? `#${hex}` : undefined;
+}
+
+/** Every approved colour, as "RRGGBB". */
+export function brandColorSet(kit: BrandKit): Set<string> {
+    return new Set(kit.colors.map(c => normalizeHex(c.hex)).filter(Boolean));
+}
+
+/** Approved font faces (title, body and any extras). */
+export function brandFonts(kit: BrandKit): string[] {
+    return [...new Set([kit.fonts.title, kit.fonts.body, ...(kit.fonts.allowed || [])])];
+}
+
+/**
+ * Style guide palette from the kit's colour roles. Secondary falls back to the
+ * primary, and the high-contrast accent to the accent, secondary or primary,
+ * so a three-colour kit still fills every slot with an approved colour.
+ */
+export function brandPalette(kit: BrandKit): GlobalStyleGuide['colorPalette'] {
+    const primary = brandColor(kit, 'primary')!;
+    const secondary = brandColor(kit, 'secondary') || primary;
+    return {
+        primary,
+        secondary,
+        background: brandColor(kit, 'background')!,
+        text: brandColor(kit, 'text')!,
+        accentHighContrast: brandColor(kit, 'accent') || secondary
+    };
+}
+
+/**
+ * Nearest approved colour (RGB distance), as "#RRGGBB". Unparseable input
+ * gets the kit's primary.
+ */
+export function nearestBrandColor(color: string | undefined, kit: BrandKit): string {
+    const hex = normalizeHex(color);
+    if (!hex) return brandColor(kit, 'primary')!;
+    const rgb = (h: string) => [0, 2, 4].map(i => parseInt(h.slice(i, i + 2), 16));
+    const [r, g, b] = rgb(hex);
+    let best = hex;
+    let bestDistance = Infinity;
+    for (const candidate of brandColorSet(kit)) {
+        const [cr, cg, cb] = rgb(candidate);
+        const distance = (r - cr) ** 2 + (g - cg) ** 2 + (b - cb) ** 2;
+        if (distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+        }
+    }
+    return `#${best}`;
+}
+
+export function isDarkColor(color: string | undefined): boolean {
+    const hex = normalizeHex(color);
+    if (!hex) return false;
+    const [r, g, b] = [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16));
+    return (r * 299 + g * 587 + b * 114) / 1000 < 128;
+}
+
+/** Card style the kit approves: the requested one, else the kit's first choice. */
+export function allowedCardStyle(requested: CardStyle | undefined, kit: BrandKit): CardStyle | undefined {
+    const allowed = kit.allowedCardStyles;
+    if (!allowed?.length || (requested && allowed.includes(requested))) return requested;
+    return allowed[0];
+}
+
+/**
+ * Palette, fonts and card style from the kit; the style guide is locked so
+ * the visual designer's colour harmony never replaces the palette. The rest of
+ * the style guide (page size, template, image style, type scale) is kept.
+ */
+export function applyBrandIdentity(styleGuide: GlobalStyleGuide, kit: BrandKit): GlobalStyleGuide {
+    const requested = styleGuide.styleDNA?.cardStyle;
+    const allowed = kit.allowedCardStyles;
+    const cardStyle = !allowed?.length || allowed.includes(requested)
+        ? requested
+        : allowed.find(style => DnaCardStyleSchema.safeParse(style).success) as typeof requested;
+    return {
+        ...styleGuide,
+        themeName: styleGuide.template ? styleGuide.themeName : kit.name,
+        fontFamilyTitle: kit.fonts.title,
+        fontFamilyBody: kit.fonts.body,
+        colorPalette: brandPalette(kit),
+        ...(styleGuide.styleDNA ? { styleDNA: { ...styleGuide.styleDNA, cardStyle } } : {}),
+        locked: true,
+        brandKit: kit
+    };
+}
+
+/**
+ * Logos for a background: per placement, the variant made for that background
+ * tone, else one approved for either, else the first.
+ */
+export function selectLogos(kit: BrandKit, background: string): BrandLogo[] {
+    const tone = isDarkColor(background) ? 'dark' : 'light';
+    const byPlacement = new Map<BrandLogo['placement'], BrandLogo[]>();
+    (kit.logos || []).forEach(logo => byPlacement.set(logo.placement, [...(byPlacement.get(logo.placement) || []), logo]));
+    return [...byPlacement.values()].map(variants =>
+        variants.find(logo => logo.background === tone) || variants.find(logo => !logo.background) || variants[0]
+    );
+}
+
+/**
+ * applyBrandIdentity plus the kit's logos on the slide master, placed by their
+ * corner and margin on the style guide's page size. Call it once the page size
+ * and any corporate template are final. Content bounds shrink so no layout
+ * zone runs under a logo (a corporate template's own layouts still win).
+ */
+export function applyBrandKit(styleGuide: GlobalStyleGuide, kit: BrandKit): GlobalStyleGuide {
+    const branded = applyBrandIdentity(styleGuide, kit);
+    const logos = selectLogos(kit, branded.colorPalette.background);
+    if (logos.length === 0) return branded;
+
+    const dims = getSlideDimensions(branded.slideSize);
+    const shapes: TemplateShape[] = logos.map(logo => {
+        const margin = logo.margin ?? DEFAULT_LOGO_MARGIN;
+        return {
+            type: 'image',
+            x: round2(logo.placement.endsWith('left') ? margin : dims.width - margin - logo.width),
+            y: round2(logo.placement.startsWith('top') ? margin : dims.height - margin - logo.height),
+            w: logo.width,
+            h: logo.height,
+            data: logo.data
+        };
+    });
+
+    const reserve = (edge: 'top' | 'bottom') => Math.max(CONTENT_MARGIN[edge], ...logos
+        .filter(logo => logo.placement.startsWith(edge))
+        .map(logo => (logo.margin ?? DEFAULT_LOGO_MARGIN) + logo.height + LOGO_CONTENT_GAP));
+    const base = branded.template;
+    const top = Math.max(base?.contentBounds?.y ?? 0, reserve('top'));
+    const bottom = Math.min(
+        base?.contentBounds ? base.contentBounds.y + base.contentBounds.h : dims.height,
+        dims.height - reserve('bottom')
+    );
+    const contentBounds: DeckTemplate['contentBounds'] = base?.contentBounds
+        ? { ...base.contentBounds, y: round2(top), h: round2(bottom - top) }
+        : { x: CONTENT_MARGIN.x, y: round2(top), w: round2(dims.width - 2 * CONTENT_MARGIN.x), h: round2(bottom - top) };
+
+    const template: DeckTemplate = base
+        ? { ...base, shapes: [...base.shapes, ...shapes], contentBounds }
+        : { name: kit.name, background: { color: branded.colorPalette.background }, shapes, contentBounds, layouts: [] };
+    return { ...branded, template };
+}
@@ -0,0 +1,286 @@
+/**
+ * Citation Renderer
+ *
+ * Makes SlideNode.citations visible in every output:
+ *
+ * 1. buildSlideCitations()  links a generated slide to the research facts it uses
+ *                           (numbers or wording from the fact appear on the slide)
+ * 2. applyCitations()       numbers citations deck-wide in order of first use, copies
+ *                           each fact's source, and appends generated "Sources" slides
+ * 3. addCitationElements()  adds superscript footnote markers next to the cited text
+ *                           and a footer line to the compiled VisualElements
+ *                           (called by InfographicRenderer.compileSlide)
+ *
+ * Citation styles only change how a source is written (footer and Sources slide);
+ * markers are always superscript numbers so they never reflow a layout.
+ */
+
+import {
+    Citation, CitationStyle, EditableSlideDeck, GlobalStyleGuide, ResearchFact,
+    SLIDE_TYPES, SlideNode, VisualElement, getSlideDimensions
+} from '../../types/slideTypes';
+import { findDeckLanguage } from '../translation/languages';
+
+export const DEFAULT_CITATION_STYLE: CitationStyle = 'numeric';
+
+export const CITATION_STYLE_LABELS: Record<CitationStyle, string> = {
+    'numeric': 'Numeric',
+    'author-date': 'Author-date',
+    'url-only': 'URL only'
+};
+
+const SOURCES_PER_SLIDE = 6;
+const MAX_CITATIONS_PER_SLIDE = 6;
+const MISSING_SOURCE = 'Source not recorded';
+
+// Footer band at the bottom of the slide (x 0.4, y 5.3, w 9.2 on 10in × 5.625in);
+// maxChars is for that width and shrinks with narrower slides
+const FOOTER = { inset: 0.4, bottom: 0.325, h: 0.26, fontSize: 8, maxChars: 160 };
+
+// ============================================================================
+// FACT MATCHING
+// ============================================================================
+
+const NUMBER_PATTERN = /[$€£]?\d[\d,]*(?:\.\d+)?\s?(?:%|x|k|m|bn|b|million|billion|trillion)?/gi;
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'were', 'has', 'have', 'its', 'their', 'into', 'than', 'over', 'more', 'by', 'of', 'in', 'on', 'to', 'a', 'an', 'is', 'as', 'at', 'or']);
+
+/** Numeric tokens worth matching (bare years are too common to identify a fact). */
+function numericTokens(text: string): string[] {
+    return (text.match(NUMBER_PATTERN) || [])
+        .map(token => token.toLowerCase().replace(/[,\s]/g, ''))
+        .filter(token => !/^(19|20)\d{2}$/.test(token) && /\d{2,}|%|[$€£]|\./.test(token));
+}
+
+function contentWords(text: string): Set<string> {
+    return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 2 && !STOP_WORDS.has(w)));
+}
+
+function collectStrings(value: any, out: string[]): string[] {
+    if (typeof value === 'string') out.push(value);
+    else if (Array.isArray(value)) value.forEach(v => collectStrings(v, out));
+    else if (value && typeof value === 'object') Object.values(value).forEach(v => collectStrings(v, out));
+    return out;
+}
+
+/**
+ * Citations for the facts a slide actually uses: a fact is cited when one of its
+ * figures appears on the slide, or (for facts without figures) when most of its
+ * wording does.
+ */
+export function buildSlideCitations(slide: SlideNode, facts: ResearchFact[]): Citation[] {
+    const slideText = collectStrings([slide.title, slide.layoutPlan?.components || [], slide.chartSpec || {}], []).join(' ');
+    const slideNumbers = new Set(numericTokens(slideText));
+    const slideWords = contentWords(slideText);
+
+    const cited = facts.filter(fact => {
+        const figures = numericTokens(`${fact.value || ''} ${fact.claim}`);
+        if (figures.length > 0) return figures.some(figure => slideNumbers.has(figure));
+        const words = [...contentWords(fact.claim)];
+        return words.length >= 3 && words.filter(w => slideWords.has(w)).length / words.length >= 0.6;
+    });
+
+    return cited.slice(0, MAX_CITATIONS_PER_SLIDE).map(fact => ({
+        id: `cite-${fact.id}`,
+        claim: fact.claim,
+        source: fact.source,
+        factId: fact.id
+    }));
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+export function toSuperscript(n: number): string {
+    return String(n).split('').map(d => SUPERSCRIPT_DIGITS[Number(d)]).join('');
+}
+
+function parseSource(source: string): { url?: string; year?: string; author: string } {
+    const url = source.match(/https?:\/\/[^\s)\]]+/)?.[0];
+    const year = source.replace(url || '', '').match(/\b(19|20)\d{2}\b/)?.[0];
+    const withoutUrl = source.replace(url || '', '').trim();
+    let author = withoutUrl.split(/\s*[,(–—|]\s*|\s+-\s+/)[0].trim();
+    if (!author && url) {
+        try {
+            author = new URL(url).hostname.replace(/^www\./, '');
+        } catch {
+            author = url;
+        }
+    }
+    return { url, year, author: author || source };
+}
+
+/**
+ * A citation's source in the given style (footer lines and the Sources slide).
+ */
+export function formatCitationSource(citation: Pick<Citation, 'source'>, style: CitationStyle = DEFAULT_CITATION_STYLE): string {
+    const source = (citation.source || '').replace(/\s+/g, ' ').trim();
+    if (!source) return MISSING_SOURCE;
+
+    const { url, year, author } = parseSource(source);
+    switch (style) {
+        case 'author-date':
+            return `${author} (${year || 'n.d.'})`;
+        case 'url-only':
+            return url || source;
+        default:
+            return source;
+    }
+}
+
+function truncate(text: string, max: number): string {
+    return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+}
+
+// ============================================================================
+// DECK PASS
+// ============================================================================
+
+const citationKey = (c: Citation): string => c.factId || c.source || c.claim;
+
+/**
+ * Number citations deck-wide, fill sources from the knowledge sheet and
+ * (re)generate the trailing Sources slides. Safe to run repeatedly.
+ */
+export function applyCitations(deck: EditableSlideDeck, style: CitationStyle = deck.meta.citationStyle || DEFAULT_CITATION_STYLE): EditableSlideDeck {
+    const factsById = new Map((deck.meta.knowledgeSheet || []).map(f => [f.id, f]));
+    const contentSlides = deck.slides.filter(s => s.generatedBy !== 'citations');
+
+    const numbers = new Map<string, number>();
+    const entries: Citation[] = [];
+    const slides = contentSlides.map(slide => {
+        if (!slide.citations || slide.citations.length === 0) return slide;
+        const citations = slide.citations.map(citation => {
+            const fact = citation.factId ? factsById.get(citation.factId) : undefined;
+            const filled: Citation = { ...citation, source: citation.source || fact?.source, claim: citation.claim || fact?.claim || '' };
+            const key = citationKey(filled);
+            if (!numbers.has(key)) {
+                numbers.set(key, numbers.size + 1);
+                entries.push({ ...filled, number: numbers.size });
+            }
+            return { ...filled, number: numbers.get(key) };
+        });
+        return { ...slide, citations };
+    });
+
+    const sourcesTitle = findDeckLanguage(deck.meta.language)?.sourcesTitle || 'Sources';
+    const sourcesSlides = buildSourcesSlides(entries, style, slides.length, sourcesTitle);
+    if (entries.length > 0) {
+        console.log(`[CITATIONS] ${entries.length} source(s) cited, ${sourcesSlides.length} Sources slide(s) (${style})`);
+    }
+
+    return {
+        ...deck,
+        meta: { ...deck.meta, citationStyle: style },
+        slides: [...slides, ...sourcesSlides]
+    };
+}
+
+function buildSourcesSlides(entries: Citation[], style: CitationStyle, firstOrder: number, sourcesTitle: string): SlideNode[] {
+    const slides: SlideNode[] = [];
+    const pages = Math.ceil(entries.length / SOURCES_PER_SLIDE);
+    for (let page = 0; page < pages; page++) {
+        const chunk = entries.slice(page * SOURCES_PER_SLIDE, (page + 1) * SOURCES_PER_SLIDE);
+        const title = pages > 1 ? `${sourcesTitle} (${page + 1}/${pages})` : sourcesTitle;
+        slides.push({
+            order: firstOrder + page + 1,
+            type: SLIDE_TYPES.CONTENT,
+            title,
+            purpose: 'List every source referenced in the deck',
+            routerConfig: {
+                renderMode: 'standard',
+                layoutVariant: 'standard-vertical',
+                layoutIntent: 'Reference list',
+                densityBudget: { maxChars: 900, maxItems: SOURCES_PER_SLIDE, minVisuals: 0 },
+                visualFocus: 'Content'
+            },
+            layoutPlan: {
+                title,
+                background: 'solid',
+                components: [{
+                    type: 'text-bullets',
+                    content: chunk.map(c => `[${c.number}] ${truncate(formatCitationSource(c, style), 90)} — ${truncate(c.claim, 80)}`),
+                    style: 'standard'
+                }]
+            },
+            visualReasoning: 'Generated from slide citations',
+            visualPrompt: '',
+            speakerNotesLines: chunk.map(c => `[${c.number}] ${c.claim} (${c.source || MISSING_SOURCE})`),
+            readabilityCheck: 'pass',
+            citations: [],
+            warnings: [],
+            generatedBy: 'citations'
+        });
+    }
+    return slides;
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Add footnote markers and the footer line to a compiled slide.
+ * Markers go on the first text element that contains the cited figure or wording,
+ * falling back to the slide title.
+ */
+export function addCitationElements(
+    elements: VisualElement[],
+    slide: SlideNode,
+    styleGuide: GlobalStyleGuide,
+    style: CitationStyle = DEFAULT_CITATION_STYLE
+): VisualElement[] {
+    const citations = (slide.citations || []).filter(c => c.number !== undefined);
+    if (citations.length === 0) return elements;
+
+    const result = elements.map(el => ({ ...el })) as VisualElement[];
+    const textElements = result.filter((el): el is Extract<VisualElement, { type: 'text' }> => el.type === 'text');
+    const titleElement = textElements.find(el => el.content.trim() === slide.title.trim()) || textElements[0];
+
+    const markers = new Map<VisualElement, number[]>();
+    for (const citation of citations) {
+        const figures = numericTokens(citation.claim);
+        const words = contentWords(citation.claim);
+        const anchor = textElements.find(el => {
+            const numbersInText = numericTokens(el.content);
+            if (figures.length > 0) return figures.some(f => numbersInText.includes(f));
+            const elWords = contentWords(el.content);
+            return [...words].filter(w => elWords.has(w)).length >= Math.min(3, words.size);
+        }) || titleElement;
+        if (!anchor) continue;
+        const list = markers.get(anchor) || [];
+        if (!list.includes(citation.number!)) list.push(citation.number!);
+        markers.set(anchor, list);
+    }
+    markers.forEach((numbers, el) => {
+        if (el.type === 'text') {
+            el.content = `${el.content.trimEnd()}${numbers.sort((a, b) => a - b).map(toSuperscript).join(' ')}`;
+        }
+    });
+
+    const seen = new Set<number>();
+    const footerText = citations
+        .filter(c => !seen.has(c.number!) && seen.add(c.number!))
+        .sort((a, b) => a.number! - b.number!)
+        .map(c => `${toSuperscript(c.number!)} ${formatCitationSource(c, style)}`)
+        .join('   ');
+
+    const dims = getSlideDimensions(styleGuide?.slideSize);
+    const footerW = dims.width - FOOTER.inset * 2;
+    result.push({
+        type: 'text',
+        content: truncate(footerText, Math.round(FOOTER.maxChars * footerW / 9.2)),
+        x: FOOTER.inset,
+        y: dims.height - FOOTER.bottom,
+        w: footerW,
+        h: FOOTER.h,
+        fontSize: FOOTER.fontSize,
+        color: (styleGuide?.colorPalette?.text || '#94A3B8').replace('#', ''),
+        fontFamily: styleGuide?.fontFamilyBody,
+        align: 'left',
+        zIndex: 90
+    });
+    return result;
+}
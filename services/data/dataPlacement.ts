@@ -0,0 +1,129 @@
+/**
+ * Data Visual Placement
+ *
+ * Decides which slide shows which imported table and writes the visual into
+ * the content plan (so the generator builds around real numbers) and into
+ * the finished slide (so the rows survive whatever the generator produced).
+ * One visual per slide; title and closing slides are never used.
+ */
+
+import type { Citation, SlideNode, TemplateComponent } from '../../types/slideTypes';
+import { buildDataVisual, type DataVisual } from './tableProfile';
+import type { DataTable } from './tableImport';
+
+export interface SlideOutlineEntry {
+    title?: string;
+    purpose?: string;
+    type?: string;
+}
+
+const NON_CONTENT_TYPES = new Set(['title-slide', 'section-header', 'conclusion', 'closing']);
+const DATA_COMPONENTS = new Set<TemplateComponent['type']>(['chart-frame', 'metric-cards', 'data-table']);
+
+export function buildDataVisuals(tables: DataTable[]): DataVisual[] {
+    return tables.map(table => {
+        const visual = buildDataVisual(table);
+        console.log(`[DATA] ${table.name} → ${visual.component.type}${visual.chartSpec ? ` (${visual.chartSpec.type})` : ''}: "${visual.title}"`);
+        return visual;
+    });
+}
+
+function words(text: string): Set<string> {
+    return new Set(text.toLowerCase().split(/[^a-z0-9%$€£]+/).filter(w => w.length > 2));
+}
+
+function isEligible(slide: SlideOutlineEntry, index: number, total: number): boolean {
+    if (total > 1 && index === 0) return false;
+    if (total > 2 && index === total - 1) return false;
+    return !NON_CONTENT_TYPES.has(slide.type || '');
+}
+
+/**
+ * Visual per slide index (undefined where the slide keeps its own content).
+ * Visuals go to the slide whose title and purpose share the most words with
+ * the table; visuals that match nothing fill the remaining content slides,
+ * data-viz slides first.
+ */
+export function assignDataVisuals(visuals: DataVisual[], slides: SlideOutlineEntry[]): Array<DataVisual | undefined> {
+    const assigned: Array<DataVisual | undefined> = new Array(slides.length).fill(undefined);
+    const eligible = slides.map((s, i) => isEligible(s, i, slides.length));
+    const slideWords = slides.map(s => words(`${s.title || ''} ${s.purpose || ''}`));
+
+    const pairs = visuals.flatMap(visual => slides.map((slide, index) => ({
+        visual,
+        index,
+        score: visual.keywords.filter(k => slideWords[index].has(k)).length
+    }))).filter(p => eligible[p.index] && p.score > 0);
+    pairs.sort((a, b) => b.score - a.score || (slides[b.index].type === 'data-viz' ? 1 : 0) - (slides[a.index].type === 'data-viz' ? 1 : 0));
+
+    const placed = new Set<DataVisual>();
+    for (const pair of pairs) {
+        if (placed.has(pair.visual) || assigned[pair.index]) continue;
+        assigned[pair.index] = pair.visual;
+        placed.add(pair.visual);
+    }
+
+    const free = slides
+        .map((slide, index) => ({ slide, index }))
+        .filter(({ index }) => eligible[index] && !assigned[index])
+        .sort((a, b) => (b.slide.type === 'data-viz' ? 1 : 0) - (a.slide.type === 'data-viz' ? 1 : 0) || a.index - b.index);
+    for (const visual of visuals.filter(v => !placed.has(v))) {
+        const next = free.shift();
+        if (!next) {
+            console.warn(`[DATA] No free content slide for ${visual.tableName}; its figures are still available as facts`);
+            continue;
+        }
+        assigned[next.index] = visual;
+    }
+    return assigned;
+}
+
+/** Point the content plan at the table's numbers before the generator runs. */
+export function applyDataVisualToPlan<T extends { dataPoints?: Array<{ label: string; value: string | number }>; chartSpec?: any }>(plan: T, visual: DataVisual): T {
+    if (visual.chartSpec) return { ...plan, chartSpec: visual.chartSpec };
+    if (visual.component.type === 'metric-cards') {
+        return { ...plan, dataPoints: visual.component.metrics.map(m => ({ label: m.label, value: m.value })) };
+    }
+    return plan;
+}
+
+/**
+ * Put the visual on a finished slide: it replaces an existing chart, metric
+ * or table component, otherwise it is added (or takes the last slot when the
+ * slide already has three components).
+ */
+export function applyDataVisual(slide: SlideNode, visual: DataVisual): SlideNode {
+    const layoutPlan = slide.layoutPlan || { title: slide.title, background: 'solid' as const, components: [] };
+    const components = [...(layoutPlan.components || [])];
+    const existing = components.findIndex(c => DATA_COMPONENTS.has(c.type));
+    if (existing >= 0) {
+        components[existing] = visual.component;
+    } else if (components.length < 3) {
+        components.push(visual.component);
+    } else {
+        components[components.length - 1] = visual.component;
+    }
+
+    const citation: Citation = { id: `cite-${visual.fact.id}`, claim: visual.fact.claim, source: visual.fact.source, factId: visual.fact.id };
+    const citations = (slide.citations || []).some(c => c.factId === visual.fact.id)
+        ? slide.citations
+        : [...(slide.citations || []), citation];
+
+    return {
+        ...slide,
+        layoutPlan: { ...layoutPlan, components },
+        chartSpec: visual.chartSpec || slide.chartSpec,
+        citations
+    };
+}
+
+/** Assign and apply in one step, for pipelines that only see finished slides. */
+export function placeDataVisuals(slides: SlideNode[], visuals: DataVisual[]): SlideNode[] {
+    const assignments = assignDataVisuals(visuals, slides);
+    return slides.map((slide, i) => {
+        const visual = assignments[i];
+        if (!visual) return slide;
+        console.log(`[DATA] Slide ${i + 1} "${slide.title}" ← ${visual.tableName}`);
+        return applyDataVisual(slide, visual);
+    });
+}
@@ -0,0 +1,212 @@
+/**
+ * Data Table Import
+ *
+ * Reads the tables users attach to a deck request:
+ *
+ * - CSV / TSV   delimiter sniffed from the header line (comma, semicolon, tab)
+ * - XLSX        every non-empty worksheet becomes a table (see xlsxTable.ts)
+ * - JSON        an array of row objects, { columns, rows }, or an array of
+ *               arrays whose first row is the header
+ *
+ * Cells stay as written ("$1,200", "12%") so slides can show the original
+ * formatting; tableProfile.ts parses them into numbers. Works in the browser
+ * and in Node.
+ */
+
+import { extractXlsxTables } from './xlsxTable';
+
+export type DataCell = string | number | null;
+
+export interface DataTable {
+    id: string;
+    /** File name, plus the sheet name for workbooks ("sales.xlsx › Q3") */
+    name: string;
+    fileName: string;
+    headers: string[];
+    rows: DataCell[][];
+}
+
+export interface DataFile {
+    name: string;
+    data: Uint8Array | ArrayBuffer;
+}
+
+export class DataImportError extends Error {
+    constructor(public fileName: string, message: string) {
+        super(`${fileName}: ${message}`);
+        this.name = 'DataImportError';
+    }
+}
+
+export const DATA_FILE_EXTENSIONS = ['.csv', '.tsv', '.xlsx', '.json'];
+
+/** Rows kept per table; slides never show more than a handful */
+const MAX_ROWS = 500;
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+function sniffDelimiter(headerLine: string): string {
+    const counts = [',', ';', '\t'].map(d => ({ d, n: headerLine.split(d).length }));
+    return counts.sort((a, b) => b.n - a.n)[0].d;
+}
+
+/** RFC 4180 records: quoted fields may contain delimiters, quotes ("") and newlines. */
+export function parseCsv(text: string, delimiter?: string): string[][] {
+    const source = text.replace(/^﻿/, '');
+    const sep = delimiter || sniffDelimiter(source.split(/\r?\n/, 1)[0] || '');
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < source.length; i++) {
+        const ch = source[i];
+        if (quoted) {
+            if (ch === '"' && source[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"' && field.trim() === '') {
+            quoted = true;
+            field = '';
+        } else if (ch === sep) {
+            record.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && source[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+    return records.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+// ============================================================================
+// JSON
+// ============================================================================
+
+function toCell(value: unknown): DataCell {
+    if (value === null || value === undefined || value === '') return null;
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value === 'string') return value.trim() || null;
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    return JSON.stringify(value);
+}
+
+export function parseJsonTable(text: string): { headers: string[]; rows: DataCell[][] } {
+    const parsed = JSON.parse(text);
+    const container = Array.isArray(parsed) ? parsed : parsed?.rows || parsed?.data || parsed?.records;
+    if (!Array.isArray(container)) throw new Error('Expected an array of rows, or an object with "rows" or "data"');
+
+    const declared: string[] | undefined = !Array.isArray(parsed) && Array.isArray(parsed.columns || parsed.headers)
+        ? (parsed.columns || parsed.headers).map((c: any) => String(typeof c === 'object' ? c?.name ?? c?.label : c))
+        : undefined;
+
+    if (container.every(row => Array.isArray(row))) {
+        const [first, ...rest] = container as unknown[][];
+        const headers = declared || (first || []).map(String);
+        const body = declared ? container as unknown[][] : rest;
+        return { headers, rows: body.map(row => headers.map((_, i) => toCell(row[i]))) };
+    }
+
+    const headers = declared || [];
+    if (!declared) {
+        for (const row of container) {
+            if (row && typeof row === 'object') {
+                Object.keys(row).forEach(key => { if (!headers.includes(key)) headers.push(key); });
+            }
+        }
+    }
+    return { headers, rows: container.map(row => headers.map(h => toCell(row?.[h]))) };
+}
+
+// ============================================================================
+// FILES
+// ============================================================================
+
+function normalizeTable(id: string, name: string, fileName: string, headers: string[], rows: DataCell[][]): DataTable {
+    const width = Math.max(headers.length, ...rows.map(r => r.length));
+    const cleanHeaders = Array.from({ length: width }, (_, i) => String(headers[i] ?? '').trim() || `Column ${i + 1}`);
+    const cleanRows = rows
+        .map(row => cleanHeaders.map((_, i) => toCell(row[i])))
+        .filter(row => row.some(cell => cell !== null))
+        .slice(0, MAX_ROWS);
+    // Drop columns that are empty in every row
+    const keep = cleanHeaders.map((_, i) => cleanRows.some(row => row[i] !== null));
+    return {
+        id,
+        name,
+        fileName,
+        headers: cleanHeaders.filter((_, i) => keep[i]),
+        rows: cleanRows.map(row => row.filter((_, i) => keep[i]))
+    };
+}
+
+/**
+ * Read one attached file into one or more tables. Ids continue from `startIndex`
+ * ("table1", "table2", ...).
+ */
+export async function importDataFile(file: DataFile, startIndex: number = 1): Promise<DataTable[]> {
+    const data = file.data instanceof Uint8Array ? file.data : new Uint8Array(file.data);
+    const ext = file.name.toLowerCase().match(/\.[a-z0-9]+$/)?.[0] || '';
+    let tables: Array<{ name: string; headers: string[]; rows: DataCell[][] }>;
+
+    try {
+        if (ext === '.xlsx') {
+            tables = (await extractXlsxTables(data)).map(sheet => ({
+                name: `${file.name} › ${sheet.sheetName}`,
+                headers: (sheet.rows[0] || []).map(cell => String(cell ?? '')),
+                rows: sheet.rows.slice(1)
+            }));
+        } else {
+            const text = new TextDecoder('utf-8').decode(data);
+            if (ext === '.json') {
+                tables = [{ name: file.name, ...parseJsonTable(text) }];
+            } else if (ext === '.csv' || ext === '.tsv' || ext === '.txt') {
+                const [headers = [], ...rows] = parseCsv(text, ext === '.tsv' ? '\t' : undefined);
+                tables = [{ name: file.name, headers, rows: rows.map(r => r.map(toCell)) }];
+            } else {
+                throw new Error(`Unsupported file type "${ext || 'none'}". Expected ${DATA_FILE_EXTENSIONS.join(', ')}`);
+            }
+        }
+    } catch (e: any) {
+        throw new DataImportError(file.name, e?.message || String(e));
+    }
+
+    const result = tables
+        .map((t, i) => normalizeTable(`table${startIndex + i}`, t.name, file.name, t.headers, t.rows))
+        .filter(t => t.rows.length > 0 && t.headers.length > 0);
+    if (result.length === 0) throw new DataImportError(file.name, 'No data rows found');
+    result.forEach(t => console.log(`[DATA] ${t.name}: ${t.rows.length} row(s) × ${t.headers.length} column(s)`));
+    return result;
+}
+
+/** Read several files; a file that fails is reported, the rest are kept. */
+export async function importDataFiles(files: DataFile[]): Promise<{ tables: DataTable[]; failures: DataImportError[] }> {
+    const tables: DataTable[] = [];
+    const failures: DataImportError[] = [];
+    for (const file of files) {
+        try {
+            tables.push(...await importDataFile(file, tables.length + 1));
+        } catch (e: any) {
+            const failure = e instanceof DataImportError ? e : new DataImportError(file.name, e?.message || String(e));
+            console.warn(`[DATA] ${failure.message}`);
+            failures.push(failure);
+        }
+    }
+    return { tables, failures };
+}
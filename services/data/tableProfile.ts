@@ -0,0 +1,333 @@
+/**
+ * Data Table Profiling
+ *
+ * Profiles the columns of an imported table (number, percent, currency, date,
+ * category, text) and picks the visual that fits it:
+ *
+ * - time dimension + one measure, 3+ rows   → line chart
+ * - time dimension + several measures       → metric-cards, trend vs. previous period
+ * - category + one measure, parts of whole  → pie chart
+ * - category + one measure                  → bar chart (top 8 if longer)
+ * - a single row of measures                → metric-cards
+ * - anything else (wide tables, no numbers) → data-table
+ *
+ * Chart data and metric values come from the rows themselves, never from the
+ * model, and every displayed value is restated in a ResearchFact so the
+ * numeric traceability check accepts it.
+ */
+
+import type { ChartSpecSchema, ResearchFact, TemplateComponent } from '../../types/slideTypes';
+import type { z } from 'zod';
+import type { DataCell, DataTable } from './tableImport';
+
+export type ColumnKind = 'number' | 'percent' | 'currency' | 'date' | 'category' | 'text';
+
+export interface ParsedNumber {
+    /** Number with any magnitude suffix applied ("$1.2M" → 1200000) */
+    value: number;
+    /** Number as written, before the suffix (1.2) */
+    written: number;
+    kind: 'number' | 'percent' | 'currency';
+    currency?: string;
+    /** Magnitude suffix as written, lower-cased ("m", "bn") */
+    suffix?: string;
+}
+
+export interface ColumnProfile {
+    index: number;
+    header: string;
+    kind: ColumnKind;
+    /** Parsed value per row (null where the cell is empty or not numeric) */
+    numbers: Array<ParsedNumber | null>;
+    distinct: number;
+    isTime: boolean;
+}
+
+export interface TableProfile {
+    table: DataTable;
+    columns: ColumnProfile[];
+    /** Column that labels the rows (time column preferred) */
+    dimension?: ColumnProfile;
+    measures: ColumnProfile[];
+}
+
+export type DataChartSpec = z.infer<typeof ChartSpecSchema>;
+
+export interface DataVisual {
+    tableId: string;
+    tableName: string;
+    kind: 'chart' | 'metrics' | 'table';
+    title: string;
+    component: TemplateComponent;
+    chartSpec?: DataChartSpec;
+    /** Restates every displayed value; added to the knowledge sheet */
+    fact: ResearchFact;
+    /** Lower-cased words used to match the visual to a slide */
+    keywords: string[];
+}
+
+const MAX_CHART_POINTS = 8;
+const MAX_LINE_POINTS = 12;
+const MAX_TABLE_ROWS = 8;
+const MAX_TABLE_COLUMNS = 5;
+
+const SUFFIX_MAGNITUDE: Record<string, number> = { k: 1e3, m: 1e6, mn: 1e6, mm: 1e6, b: 1e9, bn: 1e9, t: 1e12 };
+
+const TIME_HEADER = /\b(year|yr|date|period|quarter|qtr|month|week|day|fy|fiscal|time)\b/i;
+const MONTHS = 'jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec|january|february|march|april|june|july|august|september|october|november|december';
+const TIME_VALUE = new RegExp(
+    `^(\\d{4}-\\d{2}(-\\d{2})?|\\d{1,2}/\\d{1,2}/\\d{2,4}|(q[1-4]|h[12])[\\s'-]*(fy)?\\s*\\d{2,4}|(fy)?\\s*\\d{2,4}[\\s-]*(q[1-4]|h[12])|fy\\s*'?\\d{2,4}|(${MONTHS})\\.?(\\s+'?\\d{2,4})?|(19|20)\\d{2})$`,
+    'i'
+);
+const ID_HEADER = /\b(id|code|zip|postcode|phone|sku|rank|#)\b/i;
+const PART_OF_WHOLE_HEADER = /\b(share|mix|split|breakdown|distribution|composition|allocation|portion|percentage of)\b/i;
+
+// ============================================================================
+// CELL PARSING
+// ============================================================================
+
+/** "$1,200", "(3.5)", "12%", "€4.2bn", "2.5x" → number; anything else → null */
+export function parseNumericCell(cell: DataCell): ParsedNumber | null {
+    if (cell === null) return null;
+    if (typeof cell === 'number') return { value: cell, written: cell, kind: 'number' };
+    const match = cell.trim().match(/^([-+]|\()?\s*([$€£¥])?\s*([-+]?(?:\d{1,3}(?:,\d{3})+|\d*)(?:\.\d+)?)\s*(%|k|mn|mm|m|bn|b|t|x)?\s*\)?$/i);
+    if (!match || !/\d/.test(match[3])) return null;
+    const [, sign, currency, digits, rawSuffix] = match;
+    const suffix = rawSuffix?.toLowerCase();
+    const negative = sign === '-' || sign === '(';
+    const written = Number(digits.replace(/,/g, '')) * (negative ? -1 : 1);
+    if (!Number.isFinite(written)) return null;
+    const magnitude = suffix && suffix !== '%' && suffix !== 'x' ? SUFFIX_MAGNITUDE[suffix] : 1;
+    return {
+        value: written * magnitude,
+        written,
+        kind: suffix === '%' ? 'percent' : currency ? 'currency' : 'number',
+        currency: currency || undefined,
+        suffix: magnitude !== 1 ? suffix : undefined
+    };
+}
+
+/** Cell text as shown on a slide (numbers get thousands separators) */
+export function formatCell(cell: DataCell): string {
+    if (cell === null) return '—';
+    if (typeof cell === 'number') return cell.toLocaleString('en-US', { maximumFractionDigits: 2 });
+    return cell;
+}
+
+function truncate(text: string, max: number): string {
+    return text.length <= max ? text : `${text.slice(0, max - 1).trimEnd()}…`;
+}
+
+// ============================================================================
+// PROFILING
+// ============================================================================
+
+function profileColumn(table: DataTable, index: number): ColumnProfile {
+    const header = table.headers[index];
+    const cells = table.rows.map(row => row[index]).filter((c): c is string | number => c !== null);
+    const numbers = table.rows.map(row => parseNumericCell(row[index]));
+    const numericCount = numbers.filter(Boolean).length;
+    const distinct = new Set(cells.map(String)).size;
+
+    const timeValues = cells.filter(c => TIME_VALUE.test(String(c).trim())).length;
+    const allYears = cells.length > 0 && cells.every(c => /^(19|20)\d{2}$/.test(String(c).trim()));
+    const isTime = cells.length > 0 && (
+        (TIME_HEADER.test(header) && timeValues >= cells.length * 0.8) ||
+        (timeValues === cells.length && (allYears || numericCount < cells.length))
+    );
+
+    let kind: ColumnKind;
+    if (isTime) {
+        kind = 'date';
+    } else if (cells.length > 0 && numericCount >= cells.length * 0.8 && !ID_HEADER.test(header)) {
+        const parsed = numbers.filter((n): n is ParsedNumber => !!n);
+        kind = parsed.filter(n => n.kind === 'percent').length > parsed.length / 2 ? 'percent'
+            : parsed.filter(n => n.kind === 'currency').length > parsed.length / 2 ? 'currency'
+            : 'number';
+    } else {
+        const avgLength = cells.reduce<number>((sum, c) => sum + String(c).length, 0) / (cells.length || 1);
+        kind = avgLength > 40 ? 'text' : 'category';
+    }
+    return { index, header, kind, numbers, distinct, isTime };
+}
+
+export function profileTable(table: DataTable): TableProfile {
+    const columns = table.headers.map((_, i) => profileColumn(table, i));
+    const measures = columns.filter(c => c.kind === 'number' || c.kind === 'percent' || c.kind === 'currency');
+    const dimension = columns.find(c => c.isTime) || columns.find(c => c.kind === 'category') || columns.find(c => c.kind === 'text');
+    return { table, columns, dimension, measures };
+}
+
+// ============================================================================
+// VISUAL SELECTION
+// ============================================================================
+
+/**
+ * Numbers for a chart axis. When a whole column shares one magnitude suffix
+ * ("$1.2M", "$0.9M") the written numbers are charted and the unit moves to
+ * the axis label, so bars read 1.2 rather than 1,200,000.
+ */
+function chartValues(measure: ColumnProfile, rowIndexes: number[]): { values: number[]; unit: string } {
+    const parsed = rowIndexes.map(i => measure.numbers[i]);
+    const suffixes = new Set(parsed.map(n => n?.suffix));
+    const shared = suffixes.size === 1 ? [...suffixes][0] : undefined;
+    const currency = parsed.find(n => n?.currency)?.currency || '';
+    const unit = measure.kind === 'percent' ? '%' : shared ? `${currency}${shared.toUpperCase()}` : currency;
+    return { values: parsed.map(n => (n ? (shared ? n.written : n.value) : 0)), unit };
+}
+
+function axisLabel(measure: ColumnProfile, unit: string): string {
+    return truncate(unit && !measure.header.includes(unit) ? `${measure.header} (${unit})` : measure.header, 40);
+}
+
+function rowLabel(profile: TableProfile, rowIndex: number): string {
+    const cell = profile.dimension ? profile.table.rows[rowIndex][profile.dimension.index] : null;
+    return cell === null ? `Row ${rowIndex + 1}` : String(cell);
+}
+
+function isPartOfWhole(measure: ColumnProfile, values: number[]): boolean {
+    if (values.some(v => v < 0)) return false;
+    if (PART_OF_WHOLE_HEADER.test(measure.header)) return true;
+    const total = values.reduce((sum, v) => sum + v, 0);
+    return measure.kind === 'percent' && total >= 95 && total <= 105;
+}
+
+function trendOf(current: ParsedNumber | null, previous: ParsedNumber | null): 'up' | 'down' | 'neutral' | undefined {
+    if (!current || !previous) return undefined;
+    return current.value > previous.value ? 'up' : current.value < previous.value ? 'down' : 'neutral';
+}
+
+function tableTitle(table: DataTable): string {
+    const base = table.name.includes(' › ') ? table.name.split(' › ').pop()! : table.fileName.replace(/\.[a-z0-9]+$/i, '');
+    return truncate(base.replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').trim(), 80);
+}
+
+function keywordsFor(profile: TableProfile, title: string): string[] {
+    const text = [title, ...profile.table.headers, ...(profile.dimension ? profile.table.rows.slice(0, 20).map(r => String(r[profile.dimension!.index] ?? '')) : [])].join(' ');
+    return [...new Set(text.toLowerCase().split(/[^a-z0-9%$€£]+/).filter(w => w.length > 2))];
+}
+
+function makeFact(table: DataTable, title: string, entries: string[]): ResearchFact {
+    return {
+        id: `data-${table.id}`,
+        category: 'Data',
+        claim: `${title}: ${entries.join('; ')}`,
+        value: entries.length === 1 ? entries[0] : undefined,
+        source: table.name,
+        confidence: 'high'
+    };
+}
+
+function buildTable(profile: TableProfile, title: string): DataVisual {
+    const { table } = profile;
+    // Keep the label column first, then as many other columns as fit
+    const order = profile.dimension
+        ? [profile.dimension.index, ...table.headers.map((_, i) => i).filter(i => i !== profile.dimension!.index)]
+        : table.headers.map((_, i) => i);
+    const columns = order.slice(0, MAX_TABLE_COLUMNS);
+    const headers = columns.map(i => truncate(table.headers[i], 40));
+    const rows = table.rows.slice(0, MAX_TABLE_ROWS).map(row => columns.map(i => truncate(formatCell(row[i]), 60)));
+    const visualTitle = table.rows.length > MAX_TABLE_ROWS ? truncate(`${title} (first ${MAX_TABLE_ROWS} of ${table.rows.length} rows)`, 80) : title;
+    return {
+        tableId: table.id,
+        tableName: table.name,
+        kind: 'table',
+        title: visualTitle,
+        component: { type: 'data-table', title: visualTitle, headers, rows },
+        fact: makeFact(table, title, rows.map(row => row.map((cell, i) => `${headers[i]} ${cell}`).join(', '))),
+        keywords: keywordsFor(profile, title)
+    };
+}
+
+function buildChart(profile: TableProfile, measure: ColumnProfile, chartType: 'bar' | 'line' | 'pie', rowIndexes: number[], title: string): DataVisual {
+    const { table } = profile;
+    const { values, unit } = chartValues(measure, rowIndexes);
+    const data = rowIndexes.map((rowIndex, i) => ({ label: truncate(rowLabel(profile, rowIndex), 40), value: values[i] }));
+    const yAxisLabel = chartType === 'pie' ? undefined : axisLabel(measure, unit);
+    const entries = rowIndexes.map(i => `${rowLabel(profile, i)} ${formatCell(table.rows[i][measure.index])}`);
+    return {
+        tableId: table.id,
+        tableName: table.name,
+        kind: 'chart',
+        title,
+        component: { type: 'chart-frame', title, chartType, data, ...(yAxisLabel ? { yAxisLabel } : {}) },
+        chartSpec: { type: chartType, title, data, ...(yAxisLabel ? { yAxisLabel } : {}) },
+        fact: makeFact(table, title, entries),
+        keywords: keywordsFor(profile, title)
+    };
+}
+
+function buildMetrics(profile: TableProfile, metrics: Array<{ value: string; label: string; trend?: 'up' | 'down' | 'neutral' }>, entries: string[], title: string): DataVisual {
+    return {
+        tableId: profile.table.id,
+        tableName: profile.table.name,
+        kind: 'metrics',
+        title,
+        component: { type: 'metric-cards', metrics: metrics.map(m => ({ ...m, label: truncate(m.label, 40) })) },
+        fact: makeFact(profile.table, title, entries),
+        keywords: keywordsFor(profile, title)
+    };
+}
+
+/** Choose and build the visual for one imported table. */
+export function buildDataVisual(table: DataTable): DataVisual {
+    const profile = profileTable(table);
+    const { measures, dimension } = profile;
+    const rowCount = table.rows.length;
+    const baseTitle = tableTitle(table);
+
+    if (measures.length === 0) return buildTable(profile, baseTitle);
+
+    // One row of figures: each measure becomes a card
+    if (rowCount === 1 && measures.length >= 2) {
+        const row = table.rows[0];
+        const cards = measures.slice(0, 6).map(m => ({ value: formatCell(row[m.index]), label: m.header }));
+        return buildMetrics(profile, cards, cards.map(c => `${c.label} ${c.value}`), baseTitle);
+    }
+
+    if (dimension?.isTime && rowCount >= 2) {
+        const last = rowCount - 1;
+        const latest = rowLabel(profile, last);
+        const previous = rowLabel(profile, last - 1);
+
+        if (measures.length === 1 && rowCount >= 3) {
+            const rows = Array.from({ length: Math.min(rowCount, MAX_LINE_POINTS) }, (_, i) => rowCount - Math.min(rowCount, MAX_LINE_POINTS) + i);
+            return buildChart(profile, measures[0], 'line', rows, truncate(`${measures[0].header} by ${dimension.header}`, 80));
+        }
+        if (measures.length === 1) {
+            const m = measures[0];
+            const cards = [
+                { value: formatCell(table.rows[last - 1][m.index]), label: `${m.header} (${previous})` },
+                { value: formatCell(table.rows[last][m.index]), label: `${m.header} (${latest})`, trend: trendOf(m.numbers[last], m.numbers[last - 1]) }
+            ];
+            return buildMetrics(profile, cards, cards.map(c => `${c.label} ${c.value}`), truncate(`${m.header}: ${previous} vs ${latest}`, 80));
+        }
+        if (measures.length <= 6) {
+            const cards = measures.map(m => ({
+                value: formatCell(table.rows[last][m.index]),
+                label: `${m.header} (${latest})`,
+                trend: trendOf(m.numbers[last], m.numbers[last - 1])
+            }));
+            const entries = measures.map(m => `${m.header} ${formatCell(table.rows[last][m.index])} in ${latest} vs ${formatCell(table.rows[last - 1][m.index])} in ${previous}`);
+            return buildMetrics(profile, cards, entries, truncate(`${baseTitle}: ${latest}`, 80));
+        }
+        return buildTable(profile, baseTitle);
+    }
+
+    if (dimension && measures.length === 1 && rowCount >= 2) {
+        const m = measures[0];
+        const all = table.rows.map((_, i) => i);
+        const title = truncate(`${m.header} by ${dimension.header}`, 80);
+        if (rowCount <= MAX_CHART_POINTS) {
+            const { values } = chartValues(m, all);
+            return buildChart(profile, m, isPartOfWhole(m, values) ? 'pie' : 'bar', all, title);
+        }
+        const top = all
+            .filter(i => m.numbers[i])
+            .sort((a, b) => m.numbers[b]!.value - m.numbers[a]!.value)
+            .slice(0, MAX_CHART_POINTS);
+        return buildChart(profile, m, 'bar', top, truncate(`${m.header} by ${dimension.header} (top ${top.length})`, 80));
+    }
+
+    return buildTable(profile, baseTitle);
+}
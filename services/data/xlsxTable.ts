@@ -0,0 +1,143 @@
+/**
+ * XLSX Table Extraction
+ *
+ * Reads worksheets straight from the zip (like the PPTX importer and the DOCX
+ * extractor): shared strings, inline strings and numbers, with percent and
+ * date number formats applied so "0.12" formatted as 12% stays "12%" and
+ * date serials become ISO dates. Formulas contribute their cached value.
+ */
+
+import JSZip from 'jszip';
+import type { DataCell } from './tableImport';
+
+export interface XlsxSheet {
+    sheetName: string;
+    rows: DataCell[][];
+}
+
+function decodeXml(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+        .replace(/&amp;/g, '&');
+}
+
+/** Concatenated <t> runs of a shared or inline string item */
+function richText(xml: string): string {
+    return decodeXml((xml.match(/<t(?: [^>]*)?>[\s\S]*?<\/t>/g) || []).map(t => t.replace(/<[^>]+>/g, '')).join(''));
+}
+
+function columnIndex(ref: string): number {
+    const letters = ref.match(/^[A-Z]+/)?.[0] || 'A';
+    return letters.split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+}
+
+type CellFormat = 'percent' | 'date' | 'general';
+
+const BUILTIN_PERCENT = new Set([9, 10]);
+const BUILTIN_DATE = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+/** Format per style index (the cell's s="" attribute) */
+function readCellFormats(stylesXml: string | undefined): CellFormat[] {
+    if (!stylesXml) return [];
+    const custom = new Map<number, string>();
+    for (const match of stylesXml.matchAll(/<numFmt [^>]*numFmtId="(\d+)"[^>]*formatCode="([^"]*)"/g)) {
+        custom.set(Number(match[1]), decodeXml(match[2]));
+    }
+    const cellXfs = stylesXml.match(/<cellXfs[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] || '';
+    return (cellXfs.match(/<xf [^>]*>/g) || []).map(xf => {
+        const id = Number(xf.match(/numFmtId="(\d+)"/)?.[1] || 0);
+        const code = (custom.get(id) || '').replace(/"[^"]*"|\[[^\]]*\]/g, '');
+        if (BUILTIN_PERCENT.has(id) || code.includes('%')) return 'percent';
+        if (BUILTIN_DATE.has(id) || /[dy]/i.test(code)) return 'date';
+        return 'general';
+    });
+}
+
+function formatNumber(value: number, format: CellFormat): DataCell {
+    if (format === 'percent') return `${Number((value * 100).toFixed(2))}%`;
+    if (format === 'date') {
+        // Excel serial days from 1899-12-30 (the 1900 leap-year bug is baked in)
+        const date = new Date(Date.UTC(1899, 11, 30) + Math.round(value * 86400000));
+        return Number.isNaN(date.getTime()) ? value : date.toISOString().slice(0, 10);
+    }
+    return value;
+}
+
+function readSheetRows(sheetXml: string, sharedStrings: string[], formats: CellFormat[]): DataCell[][] {
+    const rows: DataCell[][] = [];
+    for (const rowMatch of sheetXml.matchAll(/<row\b([^>]*)>([\s\S]*?)<\/row>/g)) {
+        const rowNumber = Number(rowMatch[1].match(/\br="(\d+)"/)?.[1] || rows.length + 1);
+        const row: DataCell[] = [];
+        let next = 0;
+        for (const cellMatch of rowMatch[2].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+            const attrs = cellMatch[1];
+            const body = cellMatch[2] || '';
+            const ref = attrs.match(/\br="([A-Z]+)\d+"/)?.[1];
+            const col = ref ? columnIndex(ref) : next;
+            next = col + 1;
+
+            const type = attrs.match(/\bt="(\w+)"/)?.[1];
+            const style = Number(attrs.match(/\bs="(\d+)"/)?.[1] || 0);
+            const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+            let value: DataCell = null;
+            if (type === 's' && raw !== undefined) {
+                value = sharedStrings[Number(raw)] ?? null;
+            } else if (type === 'inlineStr') {
+                value = richText(body);
+            } else if (type === 'str' || type === 'e') {
+                value = raw !== undefined ? decodeXml(raw) : null;
+            } else if (type === 'b') {
+                value = raw === '1' ? 'Yes' : 'No';
+            } else if (raw !== undefined && raw !== '') {
+                const n = Number(raw);
+                value = Number.isFinite(n) ? formatNumber(n, formats[style] || 'general') : raw;
+            }
+            row[col] = value === '' ? null : value;
+        }
+        // Keep blank rows in place so the header stays the first non-empty row
+        rows[rowNumber - 1] = Array.from(row, cell => cell ?? null);
+    }
+    return Array.from(rows, row => row || []).filter(row => row.some(cell => cell !== null));
+}
+
+export async function extractXlsxTables(data: Uint8Array): Promise<XlsxSheet[]> {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(data);
+    } catch {
+        throw new Error('Not an XLSX file (could not open the zip container)');
+    }
+    const workbookXml = await zip.file('xl/workbook.xml')?.async('string');
+    if (!workbookXml) throw new Error('Not an Excel workbook (xl/workbook.xml is missing)');
+
+    const relsXml = await zip.file('xl/_rels/workbook.xml.rels')?.async('string') || '';
+    const targets = new Map<string, string>();
+    for (const rel of relsXml.match(/<Relationship [^>]*>/g) || []) {
+        const id = rel.match(/\bId="([^"]+)"/)?.[1];
+        const target = rel.match(/\bTarget="([^"]+)"/)?.[1];
+        if (id && target) targets.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+    }
+
+    const sharedXml = await zip.file('xl/sharedStrings.xml')?.async('string') || '';
+    const sharedStrings = (sharedXml.match(/<si>[\s\S]*?<\/si>/g) || []).map(richText);
+    const formats = readCellFormats(await zip.file('xl/styles.xml')?.async('string'));
+
+    const sheets: XlsxSheet[] = [];
+    const sheetTags = workbookXml.match(/<sheet [^>]*>/g) || [];
+    for (const [index, tag] of sheetTags.entries()) {
+        if (/\bstate="(hidden|veryHidden)"/.test(tag)) continue;
+        const sheetName = decodeXml(tag.match(/\bname="([^"]*)"/)?.[1] || `Sheet${index + 1}`);
+        const relId = tag.match(/\br:id="([^"]+)"/)?.[1];
+        const path = (relId && targets.get(relId)) || `xl/worksheets/sheet${index + 1}.xml`;
+        const sheetXml = await zip.file(path)?.async('string');
+        if (!sheetXml) continue;
+        const rows = readSheetRows(sheetXml, sharedStrings, formats);
+        if (rows.length >= 2) sheets.push({ sheetName, rows });
+    }
+    return sheets;
+}
@@ -98,6 +98,11 @@ const DECORATIVE_TYPE_MAP: Record<string, string> = {
   'narrative-flow-pattern': 'connector',  // Render as flow connector
 };
 
+/** Renderer type for a decorative or surprise type name (e.g. 'icon-glow' → 'glow'); unknown names pass through. */
+export function normalizeDecorativeType(type: string): string {
+  return DECORATIVE_TYPE_MAP[type] || type;
+}
+
 export function renderDecorativeElement(
   element: DecorativeElement,
   context: DecorativeRenderContext
@@ -115,7 +120,7 @@ export function renderDecorativeElement(
   
   // Normalize the element type using the mapping
   const rawType = (element as any).type;
-  const normalizedType = DECORATIVE_TYPE_MAP[rawType] || rawType;
+  const normalizedType = normalizeDecorativeType(rawType);
   
   // If the type was mapped, create a modified element with the normalized type
   const normalizedElement = normalizedType !== rawType
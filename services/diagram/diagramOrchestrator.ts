@@ -43,6 +43,7 @@
  * └──────────────────────┴──────────────────┴──────────────────┴────────────────┘
  */
 
+import { DIAGRAM_TYPES } from '../../types/slideTypes';
 import type { StyleMode } from '../../types/slideTypes';
 
 // ============================================================================
@@ -76,17 +77,11 @@ export type VisualValidationEngine =
 
 /**
  * Deterministic diagram types that don't need LLM involvement
- * These are fully implemented in diagramBuilder.ts
+ * These are fully implemented in diagramBuilder.ts (the diagram-svg schema's
+ * DIAGRAM_TYPES). Charts and step flows are native components (chart-frame,
+ * process-flow), not diagrams.
  */
-const DETERMINISTIC_DIAGRAM_TYPES = new Set([
-    'circular-ecosystem',
-    'timeline',
-    'timeline-horizontal',
-    'bar-chart',
-    'pie-chart',
-    'process-flow',
-    'simple-hierarchy'
-]);
+const DETERMINISTIC_DIAGRAM_TYPES = new Set<string>(DIAGRAM_TYPES);
 
 /**
  * Select the appropriate diagram generation engine based on:
@@ -7,7 +7,8 @@
  * This is the PRIMARY diagram generation engine for known diagram types.
  * - Latency: <50ms
  * - Cost: $0 (no LLM calls)
- * - Coverage: circular-ecosystem, timeline, bar-chart, etc.
+ * - Coverage: DIAGRAM_TYPES in types/slideTypes.ts (ecosystem, timeline, hierarchy,
+ *   cycle, funnel, pyramid, 2×2 matrix, Venn, hub-spoke)
  * 
  * THREE-TIER STACK:
  * ┌─────────────────────────────────────────────────────────────────────────────┐
@@ -31,7 +32,8 @@
  * 4. If 'gemini-code' → use GeminiCodeDrone
  */
 
-import type { StyleMode } from '../types/slideTypes';
+import { DIAGRAM_ELEMENT_LIMITS, DIAGRAM_TYPES } from '../types/slideTypes';
+import type { DiagramType, StyleMode } from '../types/slideTypes';
 import type { CostTracker } from './interactionsClient';
 
 // ============================================================================
@@ -42,6 +44,15 @@ export interface DiagramElement {
   id: string;
   label: string;
   icon?: string;
+  /** Date (timeline), count (funnel) or sub-label */
+  detail?: string;
+  /** Parent element id (hierarchy) */
+  parentId?: string;
+}
+
+export interface DiagramOptions {
+  /** Axis names for matrix-2x2 (x: left → right, y: bottom → top) */
+  axisLabels?: { x: string; y: string };
 }
 
 export interface DiagramPalette {
@@ -169,6 +180,480 @@ export function buildCircularEcosystemDiagram(
   return svg;
 }
 
+/**
+ * Build a timeline diagram
+ *
+ * Layout:
+ * - Horizontal axis with one node per milestone, in order
+ * - Labels alternate above and below the axis so neighbours don't collide
+ * - Each element's detail (its date) sits on the opposite side of the axis
+ */
+export function buildTimelineDiagram(
+  elements: DiagramElement[],
+  palette: DiagramPalette,
+  width: number = 800,
+  height: number = 450
+): string {
+  const axisY = height / 2;
+  const marginX = 70;
+  const step = elements.length > 1 ? (width - 2 * marginX) / (elements.length - 1) : 0;
+  const startX = elements.length > 1 ? marginX : width / 2;
+  // Alternating labels get two steps of room (edge labels, which grow inwards, one); details one
+  const labelChars = clamp(Math.floor((step || width) * 2 * 0.85 / 8.5), 8, 24);
+  const edgeLabelChars = clamp(Math.floor(((step || width) + 14) * 0.85 / 8.5), 8, 24);
+  const detailChars = clamp(Math.floor((step || width) * 0.9 / 7), 6, 16);
+  const labelColor = palette.text || 'F1F5F9';
+
+  let svg = openSvg(width, height, palette);
+  svg += `<line x1="${marginX - 30}" y1="${axisY}" x2="${width - marginX + 30}" y2="${axisY}" ` +
+         `stroke="#${palette.primary}" stroke-width="4" stroke-linecap="round"/>`;
+
+  elements.forEach((el, i) => {
+    const x = round(startX + i * step);
+    const above = i % 2 === 0;
+    const stemEnd = above ? axisY - 56 : axisY + 56;
+    // The first and last labels grow inwards so they stay inside the viewport
+    const edge = elements.length > 1 && i === 0 ? 'start' : elements.length > 1 && i === elements.length - 1 ? 'end' : 'middle';
+    const textX = edge === 'start' ? x - 14 : edge === 'end' ? x + 14 : x;
+
+    svg += `<line x1="${x}" y1="${axisY}" x2="${x}" y2="${stemEnd}" stroke="#${palette.primary}" stroke-width="2" stroke-opacity="0.5"/>`;
+    svg += `<circle cx="${x}" cy="${axisY}" r="10" fill="#${palette.accent}" stroke="#${palette.primary}" stroke-width="3"/>`;
+    svg += svgText(textX, above ? stemEnd - 8 : stemEnd + 8, wrapLabel(el.label, edge === 'middle' ? labelChars : edgeLabelChars, 3), {
+      size: 15, weight: 600, fill: labelColor, anchor: edge, baseline: above ? 'bottom' : 'top'
+    });
+    if (el.detail) {
+      svg += svgText(textX, above ? axisY + 22 : axisY - 22, wrapLabel(el.detail, detailChars, 1), {
+        size: 13, weight: 700, fill: palette.accent, anchor: edge, baseline: above ? 'top' : 'bottom'
+      });
+    }
+  });
+
+  svg += `</svg>`;
+  return svg;
+}
+
+interface TreeNode {
+  label: string;
+  detail?: string;
+  children: TreeNode[];
+}
+
+/**
+ * Link elements into trees by parentId. Without any parent links the first
+ * element (or the central theme, if given) heads the rest; links that would
+ * form a cycle are dropped. Several roots are joined under the central theme.
+ */
+function buildTree(elements: DiagramElement[], centralTheme: string | undefined): TreeNode[] {
+  const nodes = new Map(elements.map(el => [el.id, { label: el.label, detail: el.detail, children: [] as TreeNode[] }]));
+  const parentOf = new Map<string, string>();
+  for (const el of elements) {
+    if (!el.parentId || el.parentId === el.id || !nodes.has(el.parentId)) continue;
+    // Walk up from the proposed parent; reaching this element means a cycle
+    let cursor: string | undefined = el.parentId;
+    while (cursor && cursor !== el.id) cursor = parentOf.get(cursor);
+    if (!cursor) parentOf.set(el.id, el.parentId);
+  }
+
+  if (parentOf.size === 0) {
+    const all = elements.map(el => nodes.get(el.id)!);
+    if (centralTheme) return [{ label: centralTheme, children: all }];
+    const [root, ...rest] = all;
+    return root ? [{ ...root, children: rest }] : [];
+  }
+
+  const roots: TreeNode[] = [];
+  for (const el of elements) {
+    const parentId = parentOf.get(el.id);
+    if (parentId) nodes.get(parentId)!.children.push(nodes.get(el.id)!);
+    else roots.push(nodes.get(el.id)!);
+  }
+  return roots.length > 1 && centralTheme ? [{ label: centralTheme, children: roots }] : roots;
+}
+
+/**
+ * Build a hierarchy (org chart / tree) diagram
+ *
+ * Layout:
+ * - One row per level, roots at the top
+ * - Leaves get equal-width slots; each parent is centred over its children
+ * - Elbow connectors from parent to children
+ */
+export function buildHierarchyDiagram(
+  elements: DiagramElement[],
+  centralTheme: string | undefined,
+  palette: DiagramPalette,
+  width: number = 800,
+  height: number = 450
+): string {
+  const roots = buildTree(elements, centralTheme);
+  const margin = 24;
+
+  const leafCount = (node: TreeNode): number => node.children.length ? node.children.reduce((sum, c) => sum + leafCount(c), 0) : 1;
+  const depthOf = (node: TreeNode): number => 1 + Math.max(0, ...node.children.map(depthOf));
+  const slots = roots.reduce((sum, r) => sum + leafCount(r), 0) || 1;
+  const levels = Math.max(1, ...roots.map(depthOf));
+
+  const slotW = (width - 2 * margin) / slots;
+  const levelH = (height - 2 * margin) / levels;
+  const boxW = Math.min(170, slotW - 14);
+  const boxH = Math.min(60, levelH * 0.55);
+  const labelChars = Math.max(6, Math.floor(boxW / 8));
+
+  let boxes = '';
+  let links = '';
+  let nextSlot = 0;
+
+  // Returns the node's centre x after placing its subtree
+  const place = (node: TreeNode, depth: number): number => {
+    const childXs = node.children.map(child => place(child, depth + 1));
+    const x = childXs.length ? (childXs[0] + childXs[childXs.length - 1]) / 2 : margin + slotW * (nextSlot++ + 0.5);
+    const top = margin + depth * levelH + (levelH - boxH) / 2;
+
+    childXs.forEach(childX => {
+      const childTop = margin + (depth + 1) * levelH + (levelH - boxH) / 2;
+      const midY = round((top + boxH + childTop) / 2);
+      links += `<path d="M${round(x)} ${round(top + boxH)} V${midY} H${round(childX)} V${round(childTop)}" ` +
+               `fill="none" stroke="#${palette.primary}" stroke-width="2" stroke-opacity="0.6"/>`;
+    });
+
+    const fill = depth === 0 ? palette.primary : palette.accent;
+    boxes += `<rect x="${round(x - boxW / 2)}" y="${round(top)}" width="${round(boxW)}" height="${round(boxH)}" rx="8" ` +
+             `fill="#${fill}" stroke="#${palette.primary}" stroke-width="2"/>`;
+    const lines = wrapLabel(node.label, labelChars, node.detail ? 1 : 2);
+    boxes += svgText(x, top + boxH / 2 - (node.detail ? 8 : 0), lines, {
+      size: 13, weight: 700, fill: palette.text || 'FFFFFF', baseline: 'middle'
+    });
+    if (node.detail) {
+      boxes += svgText(x, top + boxH / 2 + 11, wrapLabel(node.detail, labelChars + 2, 1), {
+        size: 11, weight: 400, fill: palette.text || 'FFFFFF', baseline: 'middle'
+      });
+    }
+    return x;
+  };
+  roots.forEach(root => place(root, 0));
+
+  // Connectors first so boxes sit on top of them
+  return openSvg(width, height, palette) + links + boxes + `</svg>`;
+}
+
+/**
+ * Build a cycle diagram
+ *
+ * Layout:
+ * - Stages evenly spaced on a ring, starting at the top, clockwise
+ * - Curved arrows from each stage to the next, closing the loop
+ * - Optional theme in the middle
+ */
+export function buildCycleDiagram(
+  elements: DiagramElement[],
+  centralTheme: string | undefined,
+  palette: DiagramPalette,
+  width: number = 512,
+  height: number = 512
+): string {
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const radius = Math.min(width, height) * 0.34;
+  const nodeRadius = 46;
+  const angleStep = (2 * Math.PI) / elements.length;
+  // Angular gap so arrows start and end outside the node circles
+  const gap = (nodeRadius + 8) / radius;
+  const point = (angle: number) => ({ x: round(centerX + radius * Math.cos(angle)), y: round(centerY + radius * Math.sin(angle)) });
+
+  let svg = openSvg(width, height, palette);
+  svg += `<defs><marker id="cycle-arrow" viewBox="0 0 10 10" refX="8" refY="5" markerWidth="7" markerHeight="7" orient="auto">` +
+         `<path d="M0,0 L10,5 L0,10 z" fill="#${palette.accent}"/></marker></defs>`;
+
+  elements.forEach((_el, i) => {
+    const angle = i * angleStep - Math.PI / 2;
+    const from = point(angle + gap);
+    const to = point(angle + angleStep - gap);
+    svg += `<path d="M${from.x} ${from.y} A${round(radius)} ${round(radius)} 0 0 1 ${to.x} ${to.y}" ` +
+           `fill="none" stroke="#${palette.accent}" stroke-width="3" marker-end="url(#cycle-arrow)"/>`;
+  });
+
+  elements.forEach((el, i) => {
+    const { x, y } = point(i * angleStep - Math.PI / 2);
+    svg += `<circle cx="${x}" cy="${y}" r="${nodeRadius}" fill="#${palette.primary}"/>`;
+    svg += svgText(x, y, wrapLabel(el.label, 10, 3), { size: 12, weight: 700, fill: palette.text || 'FFFFFF', baseline: 'middle' });
+  });
+
+  if (centralTheme) {
+    svg += svgText(centerX, centerY, wrapLabel(centralTheme, 14, 3), { size: 16, weight: 700, fill: palette.text || 'F1F5F9', baseline: 'middle' });
+  }
+
+  svg += `</svg>`;
+  return svg;
+}
+
+/**
+ * Build a funnel diagram
+ *
+ * Layout:
+ * - Stacked trapezoids, widest stage first, narrowing to 30% width
+ * - Stage labels inside; details (counts, rates) to the right
+ */
+export function buildFunnelDiagram(
+  elements: DiagramElement[],
+  palette: DiagramPalette,
+  width: number = 800,
+  height: number = 450
+): string {
+  const margin = 24;
+  const gapY = 6;
+  const hasDetails = elements.some(el => el.detail);
+  const funnelW = hasDetails ? width * 0.62 : width - 2 * margin;
+  const centerX = margin + funnelW / 2;
+  const stageH = (height - 2 * margin - gapY * (elements.length - 1)) / elements.length;
+  const widthAt = (t: number) => funnelW * (1 - 0.7 * t);
+
+  let svg = openSvg(width, height, palette);
+  elements.forEach((el, i) => {
+    const top = margin + i * (stageH + gapY);
+    const topW = widthAt(i / elements.length) / 2;
+    const bottomW = widthAt((i + 1) / elements.length) / 2;
+    const fill = i % 2 === 0 ? palette.primary : palette.accent;
+    svg += `<polygon points="${round(centerX - topW)},${round(top)} ${round(centerX + topW)},${round(top)} ` +
+           `${round(centerX + bottomW)},${round(top + stageH)} ${round(centerX - bottomW)},${round(top + stageH)}" fill="#${fill}"/>`;
+    svg += svgText(centerX, top + stageH / 2, wrapLabel(el.label, Math.max(6, Math.floor(bottomW * 2 * 0.9 / 8.5)), stageH > 50 ? 2 : 1), {
+      size: 15, weight: 700, fill: palette.text || 'FFFFFF', baseline: 'middle'
+    });
+    if (el.detail) {
+      svg += svgText(margin + funnelW + 28, top + stageH / 2, wrapLabel(el.detail, 20, 1), {
+        size: 16, weight: 700, fill: palette.accent, anchor: 'start', baseline: 'middle'
+      });
+    }
+  });
+
+  svg += `</svg>`;
+  return svg;
+}
+
+/**
+ * Build a pyramid diagram
+ *
+ * Layout:
+ * - Triangle split into one tier per element, apex (first element) at the top
+ * - Labels to the right of each tier with a leader line, since upper tiers
+ *   are too narrow to hold text
+ */
+export function buildPyramidDiagram(
+  elements: DiagramElement[],
+  palette: DiagramPalette,
+  width: number = 800,
+  height: number = 450
+): string {
+  const margin = 24;
+  const gapY = 5;
+  const baseW = Math.min(width * 0.5, (height - 2 * margin) * 1.15);
+  const centerX = margin + baseW / 2;
+  const apexY = margin;
+  const baseY = height - margin;
+  const tierH = (baseY - apexY) / elements.length;
+  const halfWidthAt = (y: number) => ((y - apexY) / (baseY - apexY)) * baseW / 2;
+  const labelX = margin + baseW + 40;
+  const labelChars = Math.max(10, Math.floor((width - labelX - margin) / 8.5));
+  const labelColor = palette.text || 'F1F5F9';
+
+  let svg = openSvg(width, height, palette);
+  elements.forEach((el, i) => {
+    const top = apexY + i * tierH + (i > 0 ? gapY / 2 : 0);
+    const bottom = apexY + (i + 1) * tierH - (i < elements.length - 1 ? gapY / 2 : 0);
+    const fill = i % 2 === 0 ? palette.primary : palette.accent;
+    svg += `<polygon points="${round(centerX - halfWidthAt(top))},${round(top)} ${round(centerX + halfWidthAt(top))},${round(top)} ` +
+           `${round(centerX + halfWidthAt(bottom))},${round(bottom)} ${round(centerX - halfWidthAt(bottom))},${round(bottom)}" fill="#${fill}"/>`;
+
+    const midY = round((top + bottom) / 2);
+    svg += `<line x1="${round(centerX + halfWidthAt(midY) + 6)}" y1="${midY}" x2="${labelX - 10}" y2="${midY}" ` +
+           `stroke="#${palette.primary}" stroke-width="1.5" stroke-opacity="0.6"/>`;
+    svg += svgText(labelX, midY - (el.detail ? 9 : 0), wrapLabel(el.label, labelChars, 1), {
+      size: 16, weight: 700, fill: labelColor, anchor: 'start', baseline: 'middle'
+    });
+    if (el.detail) {
+      svg += svgText(labelX, midY + 12, wrapLabel(el.detail, labelChars + 4, 1), {
+        size: 12, weight: 400, fill: labelColor, anchor: 'start', baseline: 'middle'
+      });
+    }
+  });
+
+  svg += `</svg>`;
+  return svg;
+}
+
+/**
+ * Build a 2×2 matrix diagram
+ *
+ * Layout:
+ * - Quadrants in element order: top-left, top-right, bottom-left, bottom-right
+ * - Top-right (high/high) is emphasised
+ * - Axis arrows along the left and bottom edges, named by axisLabels
+ */
+export function buildMatrixDiagram(
+  elements: DiagramElement[],
+  palette: DiagramPalette,
+  axisLabels: DiagramOptions['axisLabels'],
+  width: number = 512,
+  height: number = 512
+): string {
+  const left = axisLabels ? 56 : 24;
+  const bottom = axisLabels ? 56 : 24;
+  const gridX = left;
+  const gridY = 20;
+  const gridW = width - left - 20;
+  const gridH = height - gridY - bottom;
+  const cellW = gridW / 2;
+  const cellH = gridH / 2;
+  const quadrants = [
+    { fill: palette.accent, opacity: 0.3 },
+    { fill: palette.primary, opacity: 0.6 },
+    { fill: palette.primary, opacity: 0.2 },
+    { fill: palette.accent, opacity: 0.3 }
+  ];
+  const labelColor = palette.text || 'F1F5F9';
+
+  let svg = openSvg(width, height, palette);
+  quadrants.forEach((q, i) => {
+    const x = gridX + (i % 2) * cellW;
+    const y = gridY + Math.floor(i / 2) * cellH;
+    svg += `<rect x="${round(x + 3)}" y="${round(y + 3)}" width="${round(cellW - 6)}" height="${round(cellH - 6)}" rx="10" ` +
+           `fill="#${q.fill}" fill-opacity="${q.opacity}"/>`;
+    const el = elements[i];
+    if (!el) return;
+    const chars = Math.max(8, Math.floor(cellW * 0.85 / 9));
+    svg += svgText(x + cellW / 2, y + cellH / 2 - (el.detail ? 12 : 0), wrapLabel(el.label, chars, 3), {
+      size: 17, weight: 700, fill: labelColor, baseline: 'middle'
+    });
+    if (el.detail) {
+      svg += svgText(x + cellW / 2, y + cellH / 2 + 26, wrapLabel(el.detail, chars + 4, 2), {
+        size: 12, weight: 400, fill: labelColor, baseline: 'top'
+      });
+    }
+  });
+
+  if (axisLabels) {
+    svg += `<defs><marker id="matrix-arrow" viewBox="0 0 10 10" refX="8" refY="5" markerWidth="7" markerHeight="7" orient="auto">` +
+           `<path d="M0,0 L10,5 L0,10 z" fill="#${palette.primary}"/></marker></defs>`;
+    const axisY = gridY + gridH + 12;
+    const axisX = gridX - 12;
+    svg += `<line x1="${axisX}" y1="${axisY}" x2="${round(gridX + gridW)}" y2="${axisY}" stroke="#${palette.primary}" stroke-width="2" marker-end="url(#matrix-arrow)"/>`;
+    svg += `<line x1="${axisX}" y1="${axisY}" x2="${axisX}" y2="${gridY}" stroke="#${palette.primary}" stroke-width="2" marker-end="url(#matrix-arrow)"/>`;
+    svg += svgText(gridX + gridW / 2, axisY + 12, wrapLabel(axisLabels.x, 40, 1), { size: 14, weight: 600, fill: labelColor, baseline: 'top' });
+    const yMid = round(gridY + gridH / 2);
+    svg += `<text x="${axisX - 14}" y="${yMid}" text-anchor="middle" font-size="14" font-weight="600" fill="#${labelColor}" ` +
+           `transform="rotate(-90 ${axisX - 14} ${yMid})">${escapeXml(wrapLabel(axisLabels.y, 40, 1)[0] || '')}</text>`;
+  }
+
+  svg += `</svg>`;
+  return svg;
+}
+
+/**
+ * Build a Venn diagram
+ *
+ * Layout:
+ * - Two circles side by side, or three in a triangle (first at the top)
+ * - Set labels in each circle's own area, away from the overlap
+ * - Optional theme in the shared centre
+ */
+export function buildVennDiagram(
+  elements: DiagramElement[],
+  centralTheme: string | undefined,
+  palette: DiagramPalette,
+  width: number = 512,
+  height: number = 512
+): string {
+  const sets = elements.slice(0, 3);
+  const centerX = width / 2;
+  const centerY = height / 2 + (sets.length === 3 ? 16 : 0);
+  const size = Math.min(width, height);
+  const radius = sets.length === 3 ? size * 0.27 : size * 0.3;
+  const offset = sets.length === 3 ? radius * 0.62 : radius * 0.58;
+  // Two sets: left and right; three: top, bottom-right, bottom-left
+  const angles = sets.length === 3 ? [-90, 30, 150] : [180, 0];
+  const fills = [palette.primary, palette.accent, palette.primary];
+  const labelColor = palette.text || 'F1F5F9';
+
+  let svg = openSvg(width, height, palette);
+  const centers = sets.map((_el, i) => {
+    const a = (angles[i] * Math.PI) / 180;
+    return { x: centerX + offset * Math.cos(a), y: centerY + offset * Math.sin(a), dx: Math.cos(a), dy: Math.sin(a) };
+  });
+
+  centers.forEach((c, i) => {
+    svg += `<circle cx="${round(c.x)}" cy="${round(c.y)}" r="${round(radius)}" fill="#${fills[i]}" fill-opacity="0.35" ` +
+           `stroke="#${fills[i]}" stroke-width="2"/>`;
+  });
+  sets.forEach((el, i) => {
+    const c = centers[i];
+    const lx = c.x + c.dx * radius * 0.42;
+    const ly = c.y + c.dy * radius * 0.42;
+    svg += svgText(lx, ly - (el.detail ? 9 : 0), wrapLabel(el.label, 12, 2), { size: 15, weight: 700, fill: labelColor, baseline: 'middle' });
+    if (el.detail) {
+      svg += svgText(lx, ly + 16, wrapLabel(el.detail, 14, 1), { size: 11, weight: 400, fill: labelColor, baseline: 'middle' });
+    }
+  });
+
+  if (centralTheme) {
+    svg += svgText(centerX, centerY, wrapLabel(centralTheme, sets.length === 3 ? 8 : 10, 3), {
+      size: 13, weight: 700, fill: labelColor, baseline: 'middle'
+    });
+  }
+
+  svg += `</svg>`;
+  return svg;
+}
+
+/**
+ * Build a hub-and-spoke diagram
+ *
+ * Layout:
+ * - Large hub circle with the theme
+ * - Spokes out to labelled pills, evenly spaced from the top
+ */
+export function buildHubSpokeDiagram(
+  elements: DiagramElement[],
+  centralTheme: string | undefined,
+  palette: DiagramPalette,
+  width: number = 512,
+  height: number = 512
+): string {
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const radius = Math.min(width, height) * 0.35;
+  const hubRadius = 64;
+  const pillW = 124;
+  const pillH = 46;
+  const angleStep = (2 * Math.PI) / elements.length;
+  const positions = elements.map((_el, i) => {
+    const angle = i * angleStep - Math.PI / 2;
+    return { x: round(centerX + radius * Math.cos(angle)), y: round(centerY + radius * Math.sin(angle)) };
+  });
+
+  let svg = openSvg(width, height, palette);
+  positions.forEach(({ x, y }) => {
+    svg += `<line x1="${centerX}" y1="${centerY}" x2="${x}" y2="${y}" stroke="#${palette.primary}" stroke-width="3" stroke-opacity="0.5"/>`;
+  });
+
+  svg += `<circle cx="${centerX}" cy="${centerY}" r="${hubRadius}" fill="#${palette.primary}"/>`;
+  if (centralTheme) {
+    svg += svgText(centerX, centerY, wrapLabel(centralTheme, 12, 3), { size: 14, weight: 700, fill: palette.text || 'FFFFFF', baseline: 'middle' });
+  }
+
+  elements.forEach((el, i) => {
+    const { x, y } = positions[i];
+    svg += `<rect x="${round(x - pillW / 2)}" y="${round(y - pillH / 2)}" width="${pillW}" height="${pillH}" rx="${pillH / 2}" ` +
+           `fill="#${palette.accent}" stroke="#${palette.primary}" stroke-width="2"/>`;
+    svg += svgText(x, y, wrapLabel(el.label, 15, 2), { size: 12, weight: 700, fill: palette.text || 'FFFFFF', baseline: 'middle' });
+  });
+
+  svg += `</svg>`;
+  return svg;
+}
+
+// ============================================================================
+// SVG HELPERS
+// ============================================================================
+
 /**
  * Escape XML special characters for safe embedding in SVG
  */
@@ -181,28 +666,115 @@ function escapeXml(text: string): string {
     .replace(/'/g, '&apos;');
 }
 
+function round(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function clamp(n: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, n));
+}
+
+function openSvg(width: number, height: number, palette: DiagramPalette): string {
+  return `<svg viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">` +
+         `<rect width="${width}" height="${height}" fill="#${palette.background}"/>`;
+}
+
+/**
+ * Greedy word wrap to at most maxLines lines of maxChars.
+ * Overflowing text is cut with an ellipsis on the last line.
+ */
+function wrapLabel(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of (text || '').trim().split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= maxChars || !current) {
+      current = candidate;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+
+  const fitted = lines.slice(0, maxLines).map(line => line.length > maxChars ? line.substring(0, maxChars - 1) + '…' : line);
+  if (lines.length > maxLines) {
+    const last = fitted[maxLines - 1];
+    fitted[maxLines - 1] = (last.length >= maxChars ? last.substring(0, maxChars - 1) : last) + '…';
+  }
+  return fitted;
+}
+
+/**
+ * One <text> per line. baseline says where y sits relative to the block:
+ * 'middle' centres it, 'top' hangs lines below y, 'bottom' stacks them above y.
+ */
+function svgText(
+  x: number,
+  y: number,
+  lines: string[],
+  style: { size: number; weight: number; fill: string; anchor?: 'start' | 'middle' | 'end'; baseline: 'top' | 'middle' | 'bottom' }
+): string {
+  const lineHeight = style.size * 1.2;
+  const blockH = (lines.length - 1) * lineHeight;
+  const firstY = style.baseline === 'middle' ? y - blockH / 2 : style.baseline === 'bottom' ? y - blockH : y;
+  const dominant = style.baseline === 'middle' ? 'middle' : style.baseline === 'top' ? 'hanging' : 'auto';
+  return lines.map((line, i) =>
+    `<text x="${round(x)}" y="${round(firstY + i * lineHeight)}" text-anchor="${style.anchor || 'middle'}" ` +
+    `dominant-baseline="${dominant}" font-size="${style.size}" font-weight="${style.weight}" fill="#${style.fill}">` +
+    escapeXml(line) +
+    `</text>`
+  ).join('');
+}
+
 /**
  * Main entry point for diagram generation
- * Dispatches to specific diagram type builders
+ * Dispatches to specific diagram type builders. Elements beyond the type's
+ * limit (DIAGRAM_ELEMENT_LIMITS) are dropped rather than overlapped.
  *
- * @param diagramType - Type of diagram (currently only 'circular-ecosystem')
+ * @param diagramType - Type of diagram (DIAGRAM_TYPES)
  * @param elements - Diagram elements
- * @param centralTheme - Optional center label
+ * @param centralTheme - Optional center label (ecosystem, hierarchy root, cycle, Venn overlap, hub)
  * @param palette - Color palette
+ * @param options - Type-specific extras (matrix axis labels)
  * @returns SVG string
  */
 export function buildDiagramSVG(
-  diagramType: 'circular-ecosystem',
+  diagramType: DiagramType,
   elements: DiagramElement[],
   centralTheme: string | undefined,
-  palette: DiagramPalette
+  palette: DiagramPalette,
+  options: DiagramOptions = {}
 ): string {
-  if (diagramType === 'circular-ecosystem') {
-    return buildCircularEcosystemDiagram(elements, centralTheme, palette);
+  const limits = DIAGRAM_ELEMENT_LIMITS[diagramType];
+  if (!limits) {
+    throw new Error(`Unsupported diagram type: ${diagramType}`);
+  }
+  if (elements.length > limits.max) {
+    console.warn(`[DIAGRAM] ${diagramType} holds at most ${limits.max} elements, dropping ${elements.length - limits.max}`);
+    elements = elements.slice(0, limits.max);
   }
 
-  // Future: Add other diagram types here
-  throw new Error(`Unsupported diagram type: ${diagramType}`);
+  switch (diagramType) {
+    case 'circular-ecosystem':
+      return buildCircularEcosystemDiagram(elements, centralTheme, palette);
+    case 'timeline':
+      return buildTimelineDiagram(elements, palette);
+    case 'hierarchy':
+      return buildHierarchyDiagram(elements, centralTheme, palette);
+    case 'cycle':
+      return buildCycleDiagram(elements, centralTheme, palette);
+    case 'funnel':
+      return buildFunnelDiagram(elements, palette);
+    case 'pyramid':
+      return buildPyramidDiagram(elements, palette);
+    case 'matrix-2x2':
+      return buildMatrixDiagram(elements, palette, options.axisLabels);
+    case 'venn':
+      return buildVennDiagram(elements, centralTheme, palette);
+    case 'hub-spoke':
+      return buildHubSpokeDiagram(elements, centralTheme, palette);
+  }
 }
 
 // ============================================================================
@@ -226,7 +798,7 @@ export function buildDiagramSVG(
  * @returns DiagramGenerationResult with SVG and validation metadata
  */
 export async function buildDiagramWithTierValidation(
-  diagramType: 'circular-ecosystem',
+  diagramType: DiagramType,
   elements: DiagramElement[],
   centralTheme: string | undefined,
   palette: DiagramPalette,
@@ -281,11 +853,7 @@ export async function buildDiagramWithTierValidation(
  * Used by diagramOrchestrator to route to appropriate tier.
  */
 export function isDeterministicDiagramSupported(diagramType: string): boolean {
-  const supportedTypes = [
-    'circular-ecosystem',
-    // Future types: 'timeline', 'bar-chart', 'flowchart', etc.
-  ];
-  return supportedTypes.includes(diagramType);
+  return (DIAGRAM_TYPES as readonly string[]).includes(diagramType);
 }
 
 /**
@@ -0,0 +1,161 @@
+/**
+ * Export Profiles
+ *
+ * The same deck is opened in PowerPoint, imported into Google Slides, or
+ * imported into Keynote. Each target honours a different subset of the PPTX
+ * features InfographicRenderer can emit, so a profile decides per feature
+ * whether to emit it, and a CompatibilityTracker records what was degraded.
+ *
+ * Capability notes reflect how each app treats the emitted OOXML on import:
+ * - charSpacing          <a:rPr spc>            (letter spacing, points)
+ * - lineSpacingMultiple  <a:lnSpc><a:spcPct>    (line height multiplier)
+ * - roundRectRadius      roundRect <a:gd adj>   (corner radius, EMU-derived)
+ * - nativeCharts         <c:chart> + embedded workbook
+ * - imageTransparency    <a:alphaModFix>
+ */
+
+export type ExportTarget = 'powerpoint' | 'google-slides' | 'keynote';
+
+export type ExportFeature =
+    | 'charSpacing'
+    | 'lineSpacingMultiple'
+    | 'roundRectRadius'
+    | 'nativeCharts'
+    | 'imageTransparency';
+
+export interface ExportProfile {
+    target: ExportTarget;
+    label: string;
+    /** Features the target preserves on open/import; anything false is degraded */
+    honours: Record<ExportFeature, boolean>;
+    /** What the exporter emits instead (or what the target does) for each unsupported feature */
+    degradations: Partial<Record<ExportFeature, string>>;
+}
+
+export const EXPORT_PROFILES: Record<ExportTarget, ExportProfile> = {
+    'powerpoint': {
+        target: 'powerpoint',
+        label: 'PowerPoint',
+        honours: {
+            charSpacing: true,
+            lineSpacingMultiple: true,
+            roundRectRadius: true,
+            nativeCharts: true,
+            imageTransparency: true
+        },
+        degradations: {}
+    },
+    'google-slides': {
+        target: 'google-slides',
+        label: 'Google Slides',
+        honours: {
+            charSpacing: false,
+            lineSpacingMultiple: true,
+            roundRectRadius: true,
+            nativeCharts: false,
+            imageTransparency: true
+        },
+        degradations: {
+            charSpacing: 'Letter spacing omitted (Google Slides has no character spacing)',
+            nativeCharts: 'Charts import as static images; edit the data in the source deck'
+        }
+    },
+    'keynote': {
+        target: 'keynote',
+        label: 'Keynote',
+        honours: {
+            charSpacing: true,
+            lineSpacingMultiple: true,
+            roundRectRadius: false,
+            nativeCharts: true,
+            imageTransparency: true
+        },
+        degradations: {
+            roundRectRadius: 'Rounded rectangles use Keynote\'s default corner radius'
+        }
+    }
+};
+
+export const EXPORT_TARGETS = Object.keys(EXPORT_PROFILES) as ExportTarget[];
+
+export function getExportProfile(target: ExportTarget = 'powerpoint'): ExportProfile {
+    return EXPORT_PROFILES[target] || EXPORT_PROFILES.powerpoint;
+}
+
+// ============================================================================
+// GEOMETRY HELPERS
+// ============================================================================
+
+export const EMU_PER_INCH = 914400;
+
+/**
+ * Rounded-rect corner radius in EMU, clamped to the OOXML maximum
+ * (adj 50000 = half the shorter side). Returns the radius and whether it was clamped.
+ */
+export function roundRectRadiusEmu(radiusIn: number, wIn: number, hIn: number): { emu: number; clamped: boolean } {
+    const requested = Math.max(0, Math.round(radiusIn * EMU_PER_INCH));
+    const max = Math.round((Math.min(wIn, hIn) * EMU_PER_INCH) / 2);
+    return { emu: Math.min(requested, max), clamped: requested > max };
+}
+
+// ============================================================================
+// COMPATIBILITY REPORT
+// ============================================================================
+
+export interface CompatibilityIssue {
+    feature: ExportFeature;
+    detail: string;
+    occurrences: number;
+    slides: number[];
+}
+
+export interface CompatibilityReport {
+    target: ExportTarget;
+    label: string;
+    generatedAt: string;
+    issues: CompatibilityIssue[];
+}
+
+/**
+ * Collects degraded features while a deck is exported with a profile.
+ */
+export class CompatibilityTracker {
+    private issues = new Map<ExportFeature, CompatibilityIssue>();
+
+    constructor(public readonly profile: ExportProfile) { }
+
+    /** True when the target honours the feature; otherwise records the degradation. */
+    allows(feature: ExportFeature, slideOrder: number): boolean {
+        if (this.profile.honours[feature]) return true;
+
+        const issue = this.issues.get(feature) || {
+            feature,
+            detail: this.profile.degradations[feature] || `${feature} is not supported by ${this.profile.label}`,
+            occurrences: 0,
+            slides: []
+        };
+        issue.occurrences++;
+        if (!issue.slides.includes(slideOrder)) issue.slides.push(slideOrder);
+        this.issues.set(feature, issue);
+        return false;
+    }
+
+    getReport(): CompatibilityReport {
+        return {
+            target: this.profile.target,
+            label: this.profile.label,
+            generatedAt: new Date().toISOString(),
+            issues: [...this.issues.values()]
+        };
+    }
+}
+
+export function formatCompatibilityReport(report: CompatibilityReport): string {
+    if (report.issues.length === 0) {
+        return `${report.label}: all exported features are supported.`;
+    }
+    const lines = report.issues.map(issue =>
+        `- ${issue.detail} (${issue.occurrences}x on slide${issue.slides.length > 1 ? 's' : ''} ${issue.slides.join(', ')})`
+    );
+    return `${report.label}: ${report.issues.length} feature(s) degraded\n${lines.join('\n')}`;
+}
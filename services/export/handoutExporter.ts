@@ -0,0 +1,189 @@
+/**
+ * Handout Exporter (PDF / PNG)
+ *
+ * Renders each slide's compiled VisualElement stream (InfographicRenderer.compileSlide,
+ * the same stream the PPTX exporter consumes) to HTML at the deck's slide size
+ * (1920×1080 for 16:9, slideMarkup.ts)
+ * and captures it with the headless browser from BrowserRenderer:
+ *
+ *   - exportDeckPngs()  one PNG per slide
+ *   - exportDeckPdf()   a printable handout with 1, 2 or 3 slides per page, optionally with speaker notes
+ *
+ * Requires Playwright with Chromium (Node.js only: CLI, scripts, CI).
+ */
+
+import { EditableSlideDeck, GlobalStyleGuide, SlideNode, VisualElement, getSlideDimensions } from '../../types/slideTypes';
+import { InfographicRenderer } from '../infographicRenderer';
+import { getBrowserRenderer, BrowserRenderer } from '../BrowserRenderer';
+import { SLIDE_MARKUP_CSS, escapeHtml, renderSlideMarkup, slidePixelSize } from './slideMarkup';
+
+export type HandoutSlidesPerPage = 1 | 2 | 3;
+
+export interface HandoutOptions {
+    slidesPerPage?: HandoutSlidesPerPage;
+    /** Print speaker notes next to (3-up) or below (1-up, 2-up) each slide; otherwise ruled lines for writing */
+    includeNotes?: boolean;
+    pageSize?: 'Letter' | 'A4';
+}
+
+export interface SlidePng {
+    order: number;
+    fileName: string;
+    png: Buffer;
+}
+
+// ============================================================================
+// SLIDE → HTML
+// ============================================================================
+
+/**
+ * Standalone HTML document for one compiled slide (slidePixelSize, 1920×1080 for 16:9).
+ */
+export function renderSlideDocument(slide: SlideNode, elements: VisualElement[], styleGuide: GlobalStyleGuide): string {
+    const size = slidePixelSize(styleGuide);
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    html, body { width: ${size.width}px; height: ${size.height}px; overflow: hidden; }
+${SLIDE_MARKUP_CSS}
+</style>
+</head>
+<body>${renderSlideMarkup(slide, elements, styleGuide)}</body>
+</html>`;
+}
+
+// ============================================================================
+// HANDOUT PAGES
+// ============================================================================
+
+const PAGE_SIZES_IN: Record<NonNullable<HandoutOptions['pageSize']>, { w: number; h: number }> = {
+    'Letter': { w: 8.5, h: 11 },
+    'A4': { w: 8.27, h: 11.69 }
+};
+
+const PAGE_MARGIN_IN = 0.5;
+const FOOTER_HEIGHT_IN = 0.3;
+
+function renderNotes(slide: SlideNode, includeNotes: boolean): string {
+    const notes = (slide.speakerNotesLines || []).filter(line => line && line.trim());
+    if (includeNotes && notes.length > 0) {
+        return `<div class="notes">${notes.map(line => `<p>${escapeHtml(line)}</p>`).join('')}</div>`;
+    }
+    return '<div class="notes ruled"></div>';
+}
+
+/**
+ * Printable handout document: slide images (PNG data URLs, in deck order) with notes.
+ * 1-up and 2-up stack notes under each slide; 3-up puts them in a column on the right.
+ */
+export function renderHandoutDocument(
+    deck: EditableSlideDeck,
+    slideImages: string[],
+    options: HandoutOptions = {}
+): string {
+    const perPage = options.slidesPerPage || 1;
+    const includeNotes = options.includeNotes !== false;
+    const page = PAGE_SIZES_IN[options.pageSize || 'Letter'];
+    const contentW = page.w - PAGE_MARGIN_IN * 2;
+    const slotH = (page.h - PAGE_MARGIN_IN * 2 - FOOTER_HEIGHT_IN) / perPage;
+    const dims = getSlideDimensions(deck.meta.styleGuide?.slideSize);
+    const aspect = dims.width / dims.height;
+    // 3-up: slide takes ~55% of the width (less for tall slides), notes the rest
+    const slideW = perPage === 3 ? Math.min(contentW * 0.55, (slotH - 0.3) * aspect) : Math.min(contentW, (slotH * 0.7) * aspect);
+
+    const pageCount = Math.ceil(deck.slides.length / perPage);
+    const pages: string[] = [];
+    for (let p = 0; p < pageCount; p++) {
+        const slots = deck.slides.slice(p * perPage, (p + 1) * perPage).map((slide, i) => {
+            const image = slideImages[p * perPage + i];
+            return `<div class="slot">
+    <figure><img src="${image}" alt="${escapeHtml(slide.title)}"><figcaption>${p * perPage + i + 1}. ${escapeHtml(slide.title)}</figcaption></figure>
+    ${renderNotes(slide, includeNotes)}
+</div>`;
+        });
+        pages.push(`<section class="page">
+${slots.join('\n')}
+<footer><span>${escapeHtml(deck.meta.title)}</span><span>${p + 1} / ${pageCount}</span></footer>
+</section>`);
+    }
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<style>
+    @page { size: ${page.w}in ${page.h}in; margin: ${PAGE_MARGIN_IN}in; }
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body { font-family: 'Inter', 'Segoe UI', system-ui, sans-serif; color: #1e293b; }
+    .page { width: ${contentW}in; height: ${page.h - PAGE_MARGIN_IN * 2}in; display: flex; flex-direction: column; page-break-after: always; }
+    .page:last-child { page-break-after: auto; }
+    .slot { height: ${slotH}in; display: flex; flex-direction: ${perPage === 3 ? 'row' : 'column'}; gap: 0.15in; padding-bottom: 0.15in; overflow: hidden; }
+    figure { flex: none; width: ${slideW}in; ${perPage === 3 ? '' : 'align-self: center;'} }
+    figure img { display: block; width: 100%; aspect-ratio: ${dims.width} / ${dims.height}; border: 0.5pt solid #cbd5e1; }
+    figcaption { font-size: 8pt; color: #64748b; margin-top: 0.04in; }
+    .notes { flex: 1; font-size: ${perPage === 1 ? 11 : 9}pt; line-height: 1.4; overflow: hidden; }
+    .notes p { margin-bottom: 0.06in; }
+    .notes.ruled { background: repeating-linear-gradient(to bottom, transparent 0, transparent 0.3in, #cbd5e1 0.3in, #cbd5e1 calc(0.3in + 0.5pt)); }
+    footer { margin-top: auto; height: ${FOOTER_HEIGHT_IN}in; display: flex; justify-content: space-between; align-items: flex-end; font-size: 8pt; color: #94a3b8; }
+</style>
+</head>
+<body>
+${pages.join('\n')}
+</body>
+</html>`;
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+async function compileDeck(deck: EditableSlideDeck): Promise<string[]> {
+    const renderer = new InfographicRenderer({ citationStyle: deck.meta.citationStyle });
+    await renderer.prepareIconsForDeck(deck.slides, deck.meta.styleGuide.colorPalette);
+    await renderer.prepareDiagramsForDeck(deck.slides, deck.meta.styleGuide);
+    return deck.slides.map(slide =>
+        renderSlideDocument(slide, renderer.compileSlide(slide, deck.meta.styleGuide), deck.meta.styleGuide)
+    );
+}
+
+/**
+ * Render every slide to a PNG at the deck's slide size (1920×1080 for 16:9).
+ * The browser stays open for reuse; call getBrowserRenderer().close() when done.
+ */
+export async function exportDeckPngs(deck: EditableSlideDeck, browser: BrowserRenderer = getBrowserRenderer()): Promise<SlidePng[]> {
+    const documents = await compileDeck(deck);
+    const digits = Math.max(2, String(deck.slides.length).length);
+    const size = slidePixelSize(deck.meta.styleGuide);
+    const pngs: SlidePng[] = [];
+    for (let i = 0; i < documents.length; i++) {
+        const png = await browser.renderHtmlToPng(documents[i], size);
+        pngs.push({
+            order: deck.slides[i].order,
+            fileName: `slide-${String(i + 1).padStart(digits, '0')}.png`,
+            png
+        });
+    }
+    console.log(`[HANDOUT] Rendered ${pngs.length} slide PNG(s) at ${size.width}x${size.height}`);
+    return pngs;
+}
+
+/**
+ * Render a PDF handout. Slides are rasterized at their pixel size first so the PDF,
+ * the PNGs and the PPTX share one geometry; pass `slidePngs` from
+ * exportDeckPngs() to reuse them.
+ */
+export async function exportDeckPdf(
+    deck: EditableSlideDeck,
+    options: HandoutOptions = {},
+    browser: BrowserRenderer = getBrowserRenderer(),
+    slidePngs?: SlidePng[]
+): Promise<Buffer> {
+    const pngs = slidePngs || await exportDeckPngs(deck, browser);
+    const images = pngs.map(p => `data:image/png;base64,${p.png.toString('base64')}`);
+    const pdf = await browser.renderHtmlToPdf(renderHandoutDocument(deck, images, options));
+    console.log(`[HANDOUT] PDF handout: ${deck.slides.length} slide(s), ${options.slidesPerPage || 1} per page`);
+    return pdf;
+}
@@ -0,0 +1,247 @@
+/**
+ * Offline HTML Exporter
+ *
+ * Turns an EditableSlideDeck into one self-contained HTML file: every slide's
+ * compiled VisualElements are positioned at the deck's slide size (slideMarkup.ts,
+ * same geometry as the PPTX), and icons, diagrams and background images are inlined as data URLs,
+ * so the file opens without network access.
+ *
+ * Viewer:
+ *   → / Space / PageDown   next slide        ← / PageUp   previous slide
+ *   Home / End             first / last      P            presenter view (notes, next slide, timer)
+ *   F                      fullscreen        #<n>         deep link to slide n
+ *
+ * Printing produces one slide per page at the slide size (10in × 5.625in for 16:9).
+ *
+ * Works in the browser ("Export HTML") and in Node (CLI --html).
+ */
+
+import { EditableSlideDeck, SlideDimensions, VisualElement, getSlideDimensions } from '../../types/slideTypes';
+import { InfographicRenderer } from '../infographicRenderer';
+import { SLIDE_MARKUP_CSS, escapeHtml, renderSlideMarkup, slidePixelSize } from './slideMarkup';
+
+// ============================================================================
+// ASSET INLINING
+// ============================================================================
+
+function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    const chunk = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunk) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+    }
+    return btoa(binary);
+}
+
+/**
+ * Data URL for an asset reference. Remote URLs are fetched once per export;
+ * an unreachable asset keeps its URL (the slide still renders, minus that image).
+ */
+async function inlineAsset(url: string | undefined, cache: Map<string, Promise<string>>): Promise<string | undefined> {
+    if (!url || url.startsWith('data:')) return url;
+    if (!cache.has(url)) {
+        cache.set(url, (async () => {
+            try {
+                const response = await fetch(url);
+                if (!response.ok) throw new Error(`HTTP ${response.status}`);
+                const mime = response.headers.get('content-type')?.split(';')[0] || 'application/octet-stream';
+                return `data:${mime};base64,${bytesToBase64(new Uint8Array(await response.arrayBuffer()))}`;
+            } catch (e: any) {
+                console.warn(`[HTML EXPORT] Could not inline ${url.slice(0, 80)}: ${e.message}`);
+                return url;
+            }
+        })());
+    }
+    return cache.get(url)!;
+}
+
+async function inlineElementAssets(elements: VisualElement[], cache: Map<string, Promise<string>>): Promise<VisualElement[]> {
+    return Promise.all(elements.map(async el =>
+        el.type === 'image' ? { ...el, data: (await inlineAsset(el.data, cache)) || el.data } : el
+    ));
+}
+
+// ============================================================================
+// VIEWER
+// ============================================================================
+
+const viewerCss = (dims: SlideDimensions) => `
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    html, body { height: 100%; background: #000; color: #e2e8f0; font-family: 'Inter', 'Segoe UI', system-ui, sans-serif; overflow: hidden; }
+    .frame { display: none; position: absolute; inset: 0; align-items: center; justify-content: center; }
+    .frame.active { display: flex; }
+    .frame .viewport { position: relative; overflow: hidden; flex: none; }
+    .frame .slide { transform-origin: 0 0; }
+    .notes { display: none; }
+    .counter { position: fixed; right: 16px; bottom: 12px; font-size: 12px; color: #64748b; }
+
+    /* Presenter view */
+    body.presenter .frame.active { display: none; }
+    .presenter-view { display: none; position: absolute; inset: 0; grid-template-columns: 3fr 2fr; grid-template-rows: 1fr 1fr; gap: 16px; padding: 16px; background: #0b0d12; }
+    body.presenter .presenter-view { display: grid; }
+    .presenter-view .pane { position: relative; display: flex; flex-direction: column; gap: 8px; min-height: 0; }
+    .presenter-view .label { font-size: 11px; font-weight: 700; letter-spacing: 0.08em; text-transform: uppercase; color: #64748b; }
+    .presenter-view .current { grid-row: 1 / 3; }
+    .presenter-view .stage { position: relative; flex: 1; min-height: 0; }
+    .presenter-view .stage .viewport { position: absolute; overflow: hidden; }
+    .presenter-view .stage .slide { transform-origin: 0 0; }
+    .presenter-view .speaker-notes { flex: 1; overflow-y: auto; font-size: 18px; line-height: 1.5; white-space: pre-wrap; }
+    .presenter-view .clock { font-size: 28px; font-variant-numeric: tabular-nums; }
+${SLIDE_MARKUP_CSS}
+    @media print {
+        @page { size: ${dims.width}in ${dims.height}in; margin: 0; }
+        html, body { height: auto; overflow: visible; background: none; }
+        .frame, .frame.active, body.presenter .frame.active { display: block; position: static; width: ${dims.width}in; height: ${dims.height}in; page-break-after: always; break-after: page; }
+        .frame .viewport { width: ${dims.width}in !important; height: ${dims.height}in !important; }
+        /* 192px per slide inch → 96 CSS px per inch (1920px → 10in) */
+        .frame .slide { transform: scale(0.5) !important; }
+        .counter, .presenter-view, body.presenter .presenter-view { display: none; }
+        .slide .el, .slide .bg { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+        .slide { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    }
+`;
+
+// Plain ES5-style script: the file has to run from file:// in any browser without a build step
+const viewerScript = (size: { width: number; height: number }) => `
+(function () {
+    var W = ${size.width}, H = ${size.height};
+    var frames = Array.prototype.slice.call(document.querySelectorAll('.frame'));
+    var counter = document.querySelector('.counter');
+    var presenter = document.querySelector('.presenter-view');
+    var currentStage = presenter.querySelector('.current .stage');
+    var nextStage = presenter.querySelector('.next .stage');
+    var notesPane = presenter.querySelector('.speaker-notes');
+    var clock = presenter.querySelector('.clock');
+    var index = 0, startedAt = null;
+
+    function fit(viewport, slide, maxW, maxH) {
+        var scale = Math.min(maxW / W, maxH / H);
+        viewport.style.width = (W * scale) + 'px';
+        viewport.style.height = (H * scale) + 'px';
+        slide.style.transform = 'scale(' + scale + ')';
+    }
+
+    function mount(stage, frame) {
+        stage.innerHTML = '';
+        if (!frame) return;
+        var viewport = document.createElement('div');
+        viewport.className = 'viewport';
+        var slide = frame.querySelector('.slide').cloneNode(true);
+        viewport.appendChild(slide);
+        stage.appendChild(viewport);
+        fit(viewport, slide, stage.clientWidth, stage.clientHeight);
+    }
+
+    function layout() {
+        frames.forEach(function (frame) {
+            fit(frame.querySelector('.viewport'), frame.querySelector('.slide'), window.innerWidth, window.innerHeight);
+        });
+        if (document.body.classList.contains('presenter')) {
+            mount(currentStage, frames[index]);
+            mount(nextStage, frames[index + 1]);
+        }
+    }
+
+    function show(i) {
+        index = Math.max(0, Math.min(frames.length - 1, i));
+        frames.forEach(function (frame, n) { frame.classList.toggle('active', n === index); });
+        counter.textContent = (index + 1) + ' / ' + frames.length;
+        var notes = frames[index].querySelector('.notes');
+        notesPane.textContent = notes ? notes.textContent : '';
+        if (history.replaceState) history.replaceState(null, '', '#' + (index + 1));
+        layout();
+    }
+
+    function tick() {
+        if (startedAt === null) return;
+        var s = Math.floor((Date.now() - startedAt) / 1000);
+        var mm = Math.floor(s / 60), ss = s % 60;
+        clock.textContent = (mm < 10 ? '0' : '') + mm + ':' + (ss < 10 ? '0' : '') + ss;
+    }
+
+    function togglePresenter() {
+        document.body.classList.toggle('presenter');
+        if (startedAt === null) startedAt = Date.now();
+        layout();
+    }
+
+    document.addEventListener('keydown', function (e) {
+        if (e.metaKey || e.ctrlKey || e.altKey) return;
+        switch (e.key) {
+            case 'ArrowRight': case 'ArrowDown': case 'PageDown': case ' ': case 'Enter': show(index + 1); break;
+            case 'ArrowLeft': case 'ArrowUp': case 'PageUp': case 'Backspace': show(index - 1); break;
+            case 'Home': show(0); break;
+            case 'End': show(frames.length - 1); break;
+            case 'p': case 'P': togglePresenter(); break;
+            case 'f': case 'F':
+                if (document.fullscreenElement) document.exitFullscreen();
+                else if (document.documentElement.requestFullscreen) document.documentElement.requestFullscreen();
+                break;
+            default: return;
+        }
+        e.preventDefault();
+    });
+    document.addEventListener('click', function (e) {
+        if (document.body.classList.contains('presenter')) return;
+        show(e.clientX < window.innerWidth / 3 ? index - 1 : index + 1);
+    });
+    window.addEventListener('resize', layout);
+    setInterval(tick, 1000);
+
+    var fromHash = parseInt((location.hash || '').slice(1), 10);
+    show(isNaN(fromHash) ? 0 : fromHash - 1);
+})();
+`;
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Build the self-contained HTML presentation for a deck.
+ */
+export async function buildDeckHtml(deck: EditableSlideDeck): Promise<string> {
+    const renderer = new InfographicRenderer({ citationStyle: deck.meta.citationStyle });
+    const styleGuide = deck.meta.styleGuide;
+    await renderer.prepareIconsForDeck(deck.slides, styleGuide.colorPalette);
+    await renderer.prepareDiagramsForDeck(deck.slides, styleGuide);
+
+    const assetCache = new Map<string, Promise<string>>();
+    const frames: string[] = [];
+    for (let i = 0; i < deck.slides.length; i++) {
+        const slide = deck.slides[i];
+        const elements = await inlineElementAssets(renderer.compileSlide(slide, styleGuide), assetCache);
+        const inlined = { ...slide, backgroundImageUrl: await inlineAsset(slide.backgroundImageUrl, assetCache) };
+        const notes = (slide.speakerNotesLines || []).join('\n');
+        frames.push(`<section class="frame" data-zone-id="slide-${i + 1}" aria-label="${escapeHtml(`Slide ${i + 1}: ${slide.title}`)}">
+<div class="viewport">${renderSlideMarkup(inlined, elements, styleGuide)}</div>
+<aside class="notes">${escapeHtml(notes)}</aside>
+</section>`);
+    }
+
+    const inlinedCount = (await Promise.all(assetCache.values())).filter(url => url.startsWith('data:')).length;
+    console.log(`[HTML EXPORT] ${deck.slides.length} slide(s), ${inlinedCount}/${assetCache.size} remote asset(s) inlined`);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="InfographIQ">
+<title>${escapeHtml(deck.meta.title)}</title>
+<style>${viewerCss(getSlideDimensions(styleGuide.slideSize))}</style>
+</head>
+<body>
+<main id="deck">
+${frames.join('\n')}
+</main>
+<div class="presenter-view" aria-hidden="true">
+    <div class="pane current"><span class="label">Current</span><div class="stage"></div></div>
+    <div class="pane next"><span class="label">Next</span><div class="stage"></div></div>
+    <div class="pane"><span class="label">Notes</span><div class="speaker-notes"></div><div class="clock">00:00</div></div>
+</div>
+<div class="counter"></div>
+<script>${viewerScript(slidePixelSize(styleGuide))}</script>
+</body>
+</html>`;
+}
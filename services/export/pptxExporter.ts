@@ -0,0 +1,115 @@
+/**
+ * PPTX Exporter
+ *
+ * Shared deck → pptxgenjs builder used by both the SlideDeckBuilder UI
+ * ("Export PPTX") and the headless CLI (cli/generateDeck.ts).
+ * The caller decides how to persist the result: browsers use
+ * `pres.writeFile()` (download), Node uses `pres.write({ outputType: 'nodebuffer' })`.
+ *
+ * An export profile (exportProfiles.ts) tailors the PPTX to the app that will
+ * open it; the returned compatibility report lists what that target degrades.
+ */
+
+import pptxgen from 'pptxgenjs';
+import { DeckTemplate, EditableSlideDeck, getSlideDimensions } from '../../types/slideTypes';
+import { InfographicRenderer, normalizeColor } from '../infographicRenderer';
+import { CompatibilityReport, CompatibilityTracker, ExportTarget, getExportProfile } from './exportProfiles';
+
+export interface DeckExport {
+    pres: pptxgen;
+    report: CompatibilityReport;
+}
+
+const MASTER_NAME = "MASTER";
+
+/**
+ * Slide master rebuilt from an imported corporate template
+ * (services/import/templateImporter.ts): background, logo pictures, footer
+ * text, filled shapes and the slide number field, in deck inches.
+ */
+function buildTemplateMaster(template: DeckTemplate, fallbackBackground: string): pptxgen.SlideMasterProps {
+    const objects: pptxgen.SlideMasterProps['objects'] = template.shapes.map(shape => {
+        const position = { x: shape.x, y: shape.y, w: shape.w, h: shape.h };
+        if (shape.type === 'image') return { image: { ...position, data: shape.data } };
+        if (shape.type === 'rect') return { rect: { ...position, fill: { color: normalizeColor(shape.fill) } } };
+        return {
+            text: {
+                text: shape.text,
+                options: { ...position, fontFace: shape.fontFamily, fontSize: shape.fontSize, color: normalizeColor(shape.color), bold: shape.bold, align: shape.align, margin: 0 }
+            }
+        };
+    });
+    const number = template.slideNumber;
+    return {
+        title: MASTER_NAME,
+        background: template.background.image
+            ? { data: template.background.image }
+            : { color: normalizeColor(template.background.color, fallbackBackground) },
+        objects,
+        slideNumber: number
+            ? { x: number.x, y: number.y, w: number.w, h: number.h, fontSize: number.fontSize, color: normalizeColor(number.color), align: number.align }
+            : undefined
+    };
+}
+
+/**
+ * Build a pptxgenjs presentation for the deck.
+ * Works in the browser and in Node: icons/diagrams are rasterized with whatever
+ * the environment offers (see InfographicRenderer.prepare*ForDeck).
+ */
+export async function buildDeckPresentation(deck: EditableSlideDeck, target: ExportTarget = 'powerpoint'): Promise<DeckExport> {
+    const pres = new pptxgen();
+    const renderer = new InfographicRenderer({ citationStyle: deck.meta.citationStyle });
+    const compatibility = new CompatibilityTracker(getExportProfile(target));
+    pres.title = deck.meta.title;
+
+    // pptxgenjs defaults to LAYOUT_16x9 (10in × 5.625in); other page sizes get a custom layout
+    const size = deck.meta.styleGuide?.slideSize || '16:9';
+    const dims = getSlideDimensions(size);
+    if (size !== '16:9') {
+        const layoutName = `INFOGRAPHIQ_${size.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+        pres.defineLayout({ name: layoutName, width: dims.width, height: dims.height });
+        pres.layout = layoutName;
+    }
+
+    // Corporate templates bring their own master; otherwise a plain background colour
+    const background = normalizeColor(deck.meta.styleGuide?.colorPalette?.background, "0F172A");
+    const template = deck.meta.styleGuide?.template;
+    if (template) {
+        pres.theme = { headFontFace: deck.meta.styleGuide.fontFamilyTitle, bodyFontFace: deck.meta.styleGuide.fontFamilyBody };
+        pres.defineSlideMaster(buildTemplateMaster(template, background));
+    } else {
+        pres.defineSlideMaster({ title: MASTER_NAME, background: { color: background } });
+    }
+
+    await renderer.prepareIconsForDeck(deck.slides, deck.meta.styleGuide.colorPalette);
+    await renderer.prepareDiagramsForDeck(deck.slides, deck.meta.styleGuide);
+
+    for (const slide of deck.slides) {
+        const pSlide = pres.addSlide({ masterName: MASTER_NAME });
+        if (slide.backgroundImageUrl) {
+            // FIX: Explicit dimensions in inches (the deck's slide size) to avoid 100% bug
+            pSlide.addImage({
+                data: slide.backgroundImageUrl,
+                x: 0, y: 0, w: dims.width, h: dims.height,
+                // Reduced from 60 to show background properly (85% opacity)
+                transparency: compatibility.allows('imageTransparency', slide.order) ? 15 : 0
+            });
+        }
+        await renderer.renderSlideFromPlan({ slide, styleGuide: deck.meta.styleGuide, pptSlide: pSlide, pres, compatibility });
+        // Notes handled within renderer to account for new array format
+    }
+
+    const report = compatibility.getReport();
+    if (report.issues.length > 0) {
+        console.log(`[EXPORT] ${report.label} profile degraded ${report.issues.map(i => i.feature).join(', ')}`);
+    }
+    return { pres, report };
+}
+
+/**
+ * Default export file name for a deck (matches the historical UI download name).
+ */
+export function getDeckFileName(deck: EditableSlideDeck, extension: string = 'pptx'): string {
+    return `InfographIQ-${deck.meta.title}.${extension}`;
+}
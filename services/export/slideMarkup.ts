@@ -0,0 +1,160 @@
+/**
+ * Slide Markup
+ *
+ * Renders a slide's compiled VisualElement stream (InfographicRenderer.compileSlide,
+ * the same stream the PPTX exporter consumes) as absolutely positioned HTML at
+ * 192px per inch (1920×1080 for 16:9, see slidePixelSize). Shared by the handout
+ * (PDF/PNG) and offline HTML exporters.
+ *
+ * Geometry mirrors what PowerPoint does with the pptxgenjs output: inches map to
+ * 192px (10in → 1920px), points to px at 192/72, text boxes keep the default
+ * 0.1in / 0.05in insets and middle anchoring, and rounded-rect radii use the same
+ * EMU clamp as the PPTX exporter.
+ *
+ * Markup follows generateSlideHtml (BrowserRenderer): zones carry data-zone-id,
+ * text is HTML-escaped, styles are inline.
+ */
+
+import { GlobalStyleGuide, SlideNode, VisualElement, getSlideDimensions } from '../../types/slideTypes';
+import { normalizeColor } from '../infographicRenderer';
+import { buildChartSvg } from '../visual/chartGeometry';
+import { buildTableSvg } from '../visual/tableGeometry';
+import { roundRectRadiusEmu, EMU_PER_INCH } from './exportProfiles';
+
+// 16:9 PPTX slide (10in × 5.625in) scaled to 1920×1080; other slide sizes keep the scale
+export const PX_PER_INCH = 192;
+const PX_PER_POINT = PX_PER_INCH / 72;
+
+// PowerPoint defaults for text boxes without explicit margins (pptxgenjs emits none)
+const TEXT_INSET_X_IN = 0.1;
+const TEXT_INSET_Y_IN = 0.05;
+// "Single" line spacing in PowerPoint is ~1.2× the font size
+const SINGLE_LINE_HEIGHT = 1.2;
+
+// Background images are exported with 15% transparency (see pptxExporter)
+const BACKGROUND_IMAGE_OPACITY = 0.85;
+
+/** Base rules for .slide markup; include once per document. */
+export const SLIDE_MARKUP_CSS = `
+    .slide { position: relative; overflow: hidden; }
+    .slide .bg { position: absolute; left: 0; top: 0; width: 100%; height: 100%; object-fit: fill; }
+    .slide .el { position: absolute; }
+    .slide .text { display: flex; flex-direction: column; justify-content: center; white-space: pre-wrap; overflow-wrap: break-word; }
+`;
+
+/**
+ * Pixel size of the deck's slides (styleGuide.slideSize): 1920×1080 for 16:9,
+ * 1920×1440 for 4:3, 1080×1920 for 9:16.
+ */
+export function slidePixelSize(styleGuide?: GlobalStyleGuide): { width: number; height: number } {
+    const dims = getSlideDimensions(styleGuide?.slideSize);
+    return { width: Math.round(dims.width * PX_PER_INCH), height: Math.round(dims.height * PX_PER_INCH) };
+}
+
+export function escapeHtml(text: string): string {
+    return (text || '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#039;');
+}
+
+const px = (inches: number): string => `${(inches * PX_PER_INCH).toFixed(2)}px`;
+
+function rgba(hex: string, alpha: number = 1): string {
+    const clean = normalizeColor(hex);
+    const r = parseInt(clean.slice(0, 2), 16);
+    const g = parseInt(clean.slice(2, 4), 16);
+    const b = parseInt(clean.slice(4, 6), 16);
+    return `rgba(${r}, ${g}, ${b}, ${Math.max(0, Math.min(1, alpha))})`;
+}
+
+// No z-index: PPTX stacks shapes in stream order, so the HTML does too
+function boxStyle(el: { x: number; y: number; w: number; h: number }, rotation?: number): string {
+    return [
+        `left:${px(el.x)}`, `top:${px(el.y)}`, `width:${px(el.w)}`, `height:${px(el.h)}`,
+        rotation ? `transform:rotate(${rotation}deg)` : ''
+    ].filter(Boolean).join(';');
+}
+
+function zoneAttr(el: VisualElement, index: number): string {
+    const componentIdx = (el as any).componentIdx;
+    return componentIdx !== undefined ? ` data-zone-id="component-${componentIdx}-${index}"` : '';
+}
+
+function renderShape(el: Extract<VisualElement, { type: 'shape' }>, zone: string): string {
+    const styles = [boxStyle(el, el.rotation)];
+    if (el.fill) styles.push(`background:${rgba(el.fill.color, el.fill.alpha)}`);
+    // The PPTX line carries colour and width only (no alpha)
+    if (el.border) styles.push(`border:${(el.border.width * PX_PER_POINT).toFixed(2)}px solid ${rgba(el.border.color)}`);
+
+    if (el.shapeType === 'roundRect') {
+        styles.push(`border-radius:${px(roundRectRadiusEmu(el.rectRadius || 0.1, el.w, el.h).emu / EMU_PER_INCH)}`);
+    } else if (el.shapeType === 'ellipse') {
+        styles.push('border-radius:50%');
+    } else if (el.shapeType === 'rightArrow') {
+        // OOXML rightArrow defaults: shaft is half the height, head length is half the shorter side
+        const headStart = 100 - (Math.min(el.w, el.h) * 0.5 / el.w) * 100;
+        styles.push(`clip-path:polygon(0 25%, ${headStart}% 25%, ${headStart}% 0, 100% 50%, ${headStart}% 100%, ${headStart}% 75%, 0 75%)`);
+    }
+
+    // Shape labels (el.text) are not exported to PPTX either; text comes from separate text elements
+    return `<div class="el"${zone} style="${styles.join(';')}"></div>`;
+}
+
+function renderText(el: Extract<VisualElement, { type: 'text' }>, styleGuide: GlobalStyleGuide, zone: string): string {
+    const bold = el.fontWeight ? el.fontWeight >= 700 : el.bold;
+    const styles = [
+        boxStyle(el, el.rotation),
+        `padding:${px(TEXT_INSET_Y_IN)} ${px(TEXT_INSET_X_IN)}`,
+        `font-size:${(el.fontSize * PX_PER_POINT).toFixed(2)}px`,
+        `line-height:${(SINGLE_LINE_HEIGHT * (el.lineHeight || 1)).toFixed(3)}`,
+        `font-family:${cssFontFamily(el.fontFamily || styleGuide.fontFamilyBody)}`,
+        `font-weight:${bold ? 700 : 400}`,
+        `font-style:${el.italic ? 'italic' : 'normal'}`,
+        `color:${rgba(el.color)}`,
+        `text-align:${el.align || 'left'}`,
+        el.rtl ? 'direction:rtl' : '',
+        el.letterSpacing ? `letter-spacing:${(el.letterSpacing * PX_PER_POINT).toFixed(2)}px` : '',
+        el.textTransform && el.textTransform !== 'none' ? `text-transform:${el.textTransform}` : ''
+    ].filter(Boolean);
+    return `<div class="el text"${zone} style="${styles.join(';')}"><div>${escapeHtml(el.content)}</div></div>`;
+}
+
+function cssFontFamily(fontFamily?: string): string {
+    const primary = (fontFamily || 'Inter').replace(/["';]/g, '');
+    return `'${primary}', 'Segoe UI', system-ui, sans-serif`;
+}
+
+/**
+ * `<div class="slide">` for one compiled slide (slidePixelSize, styled by SLIDE_MARKUP_CSS).
+ */
+export function renderSlideMarkup(slide: SlideNode, elements: VisualElement[], styleGuide: GlobalStyleGuide): string {
+    const background = normalizeColor(styleGuide?.colorPalette?.background, '0F172A');
+    const body = elements.map((el, i) => {
+        const zone = zoneAttr(el, i);
+        if (el.type === 'shape') return renderShape(el, zone);
+        if (el.type === 'text') return renderText(el, styleGuide, zone);
+        if (el.type === 'image') {
+            const opacity = 1 - (el.transparency || 0) / 100;
+            return `<img class="el"${zone} src="${escapeHtml(el.data)}" style="${boxStyle(el)};opacity:${opacity}" alt="">`;
+        }
+        if (el.type === 'chart') {
+            return `<div class="el"${zone} style="${boxStyle(el)}">${buildChartSvg(el, PX_PER_INCH)}</div>`;
+        }
+        if (el.type === 'table') {
+            return `<div class="el"${zone} style="${boxStyle(el)}">${buildTableSvg(el, PX_PER_INCH)}</div>`;
+        }
+        return '';
+    }).join('\n');
+
+    const backgroundImage = slide.backgroundImageUrl
+        ? `<img class="bg" src="${escapeHtml(slide.backgroundImageUrl)}" style="opacity:${BACKGROUND_IMAGE_OPACITY}" alt="">`
+        : '';
+
+    const size = slidePixelSize(styleGuide);
+    return `<div class="slide" data-zone-id="slide" style="width:${size.width}px;height:${size.height}px;background:#${background}">${backgroundImage}
+${body}
+</div>`;
+}
@@ -29,7 +29,7 @@ export {
 } from "./interactionsClient";
 
 // Re-export generateImageFromPrompt from image module for backward compatibility
-export { generateImageFromPrompt } from "./image/imageGeneration";
+export { generateImageFromPrompt, imageAspectRatioFor } from "./image/imageGeneration";
 
 // Helper to create client instance
 const getAiClient = () => {
@@ -1,9 +1,11 @@
 import { GoogleGenAI, Modality } from "@google/genai";
 import { CostTracker } from "../interactionsClient";
+import { withLlmReplay, isLlmReplayActive } from "../replay/llmReplay";
+import { getSlideDimensions, type SlideSize } from "../../types/slideTypes";
 
 // Helper to get AI client for image generation (still uses generateContent)
 const getAiClient = () => {
-    const apiKey = process.env.API_KEY;
+    const apiKey = process.env.API_KEY || (isLlmReplayActive() ? 'replay' : '');
     if (!apiKey) {
         const errorMsg = `[SLIDE AGENT ERROR] API_KEY is not configured for image generation.
 
@@ -77,6 +79,23 @@ function classifyImageError(error: any, model: string): ImageGenerationError {
     return { type: 'unknown', model, message: message.slice(0, 100), retryable: false };
 }
 
+// Aspect ratios the image models accept
+const IMAGE_ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+
+/**
+ * Background image aspect ratio for a deck's slide size: the supported ratio
+ * closest to the page (A4 portrait → 3:4). Decks without a size are 16:9.
+ */
+export function imageAspectRatioFor(slideSize?: SlideSize | null): string {
+    const { width, height } = getSlideDimensions(slideSize);
+    const target = Math.log(width / height);
+    const distance = (ratio: string) => {
+        const [w, h] = ratio.split(':').map(Number);
+        return Math.abs(Math.log(w / h) - target);
+    };
+    return IMAGE_ASPECT_RATIOS.reduce((best, ratio) => distance(ratio) < distance(best) ? ratio : best);
+}
+
 export async function generateImageFromPrompt(
     prompt: string,
     aspectRatio: string = "16:9",
@@ -118,13 +137,17 @@ NEGATIVE (DO NOT INCLUDE): ${NEGATIVE_PROMPT_INFO}
         try {
             console.log(`[IMAGE GEN] Attempting ${modelName}...`);
 
-            const response = await ai.models.generateContent({
+            const request = {
                 model: modelName,
                 contents: { parts: [{ text: richPrompt }] },
                 config: {
                     imageConfig: { aspectRatio },
                     responseModalities: [Modality.IMAGE]
                 }
+            };
+            const response = await withLlmReplay('gemini-image', request, async () => {
+                const live = await ai.models.generateContent(request);
+                return { candidates: live.candidates };
             });
 
             if (response.candidates?.[0]?.content?.parts) {
@@ -0,0 +1,157 @@
+/**
+ * OOXML Helpers
+ *
+ * Package navigation and XML reading shared by the PowerPoint importers
+ * (pptxImporter.ts for decks, templateImporter.ts for corporate templates).
+ * OOXML is regular enough that tag matching beats a DOM dependency in Node.
+ */
+
+import JSZip from 'jszip';
+
+export interface Paragraph {
+    text: string;
+    level: number;
+}
+
+export interface Relationship {
+    id: string;
+    type: string;
+    target: string;
+}
+
+export const EMU_PER_INCH = 914400;
+
+// Office theme colours, used when a theme slot is missing
+export const DEFAULT_THEME_PALETTE = {
+    primary: '#4472C4',
+    secondary: '#ED7D31',
+    background: '#FFFFFF',
+    text: '#000000',
+    accentHighContrast: '#FFC000'
+};
+
+export const IMAGE_MIME_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    bmp: 'image/bmp',
+    webp: 'image/webp',
+    svg: 'image/svg+xml'
+};
+
+// ============================================================================
+// XML HELPERS
+// ============================================================================
+
+export function decodeXml(text: string): string {
+    return text
+        .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+export function matchAll(xml: string, tag: string): string[] {
+    return xml.match(new RegExp(`<${tag}[\\s>][\\s\\S]*?</${tag}>`, 'g')) || [];
+}
+
+export function readAttributes(tag: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const [, name, value] of tag.matchAll(/([\w:]+)="([^"]*)"/g)) {
+        attributes[name] = decodeXml(value);
+    }
+    return attributes;
+}
+
+export function readParagraphs(xml: string): Paragraph[] {
+    return matchAll(xml, 'a:p')
+        .map(p => {
+            const runs = p.replace(/<a:br\s*\/>/g, '<a:t> </a:t>').match(/<a:t(?:\s[^>]*)?>[\s\S]*?<\/a:t>/g) || [];
+            const text = runs.map(run => decodeXml(run.replace(/<[^>]+>/g, ''))).join('').replace(/\s+/g, ' ').trim();
+            const level = Number(p.match(/<a:pPr[^>]*\slvl="(\d+)"/)?.[1] || 0);
+            return { text, level };
+        })
+        .filter(p => p.text.length > 0);
+}
+
+export function placeholderType(shapeXml: string): string | undefined {
+    const ph = shapeXml.match(/<p:ph(?:\s[^>]*)?\/?>/)?.[0];
+    if (!ph) return undefined;
+    return readAttributes(ph).type || 'body';
+}
+
+// ============================================================================
+// PACKAGE NAVIGATION
+// ============================================================================
+
+export function partDirectory(partPath: string): string {
+    return partPath.slice(0, partPath.lastIndexOf('/') + 1);
+}
+
+export function resolvePartPath(fromPart: string, target: string): string {
+    if (target.startsWith('/')) return target.slice(1);
+    const segments = (partDirectory(fromPart) + target).split('/');
+    const resolved: string[] = [];
+    for (const segment of segments) {
+        if (segment === '..') resolved.pop();
+        else if (segment !== '.' && segment !== '') resolved.push(segment);
+    }
+    return resolved.join('/');
+}
+
+export async function readPart(zip: JSZip, partPath: string): Promise<string | null> {
+    const file = zip.file(partPath);
+    return file ? file.async('string') : null;
+}
+
+export async function readRelationships(zip: JSZip, partPath: string): Promise<Relationship[]> {
+    const relsPath = `${partDirectory(partPath)}_rels/${partPath.slice(partPath.lastIndexOf('/') + 1)}.rels`;
+    const xml = await readPart(zip, relsPath);
+    if (!xml) return [];
+    return (xml.match(/<Relationship\s[^>]*>/g) || []).map(tag => {
+        const attributes = readAttributes(tag);
+        return { id: attributes.Id, type: attributes.Type || '', target: resolvePartPath(partPath, attributes.Target || '') };
+    });
+}
+
+/**
+ * Picture part as a data URL, or null when it is missing or not an image
+ * format the renderers can place.
+ */
+export async function readImageDataUrl(zip: JSZip, partPath: string): Promise<string | null> {
+    const mimeType = IMAGE_MIME_TYPES[partPath.split('.').pop()?.toLowerCase() || ''];
+    const file = zip.file(partPath);
+    if (!mimeType || !file) return null;
+    return `data:${mimeType};base64,${await file.async('base64')}`;
+}
+
+// ============================================================================
+// THEME
+// ============================================================================
+
+/** The presentation's theme part (theme1.xml when the relationship is missing). */
+export async function readThemeXml(zip: JSZip): Promise<string> {
+    const rels = await readRelationships(zip, 'ppt/presentation.xml');
+    const themePath = rels.find(rel => rel.type.endsWith('/theme'))?.target || 'ppt/theme/theme1.xml';
+    return (await readPart(zip, themePath)) || '';
+}
+
+export function readThemeColor(themeXml: string, slot: string): string | undefined {
+    const block = themeXml.match(new RegExp(`<a:${slot}>([\\s\\S]*?)</a:${slot}>`))?.[1];
+    const value = block?.match(/<a:srgbClr\s+val="([0-9A-Fa-f]{6})"/)?.[1]
+        || block?.match(/<a:sysClr\s[^>]*lastClr="([0-9A-Fa-f]{6})"/)?.[1];
+    return value ? `#${value.toUpperCase()}` : undefined;
+}
+
+export function readThemeFonts(themeXml: string): { name?: string; major?: string; minor?: string } {
+    const name = themeXml.match(/<a:theme\s[^>]*name="([^"]*)"/)?.[1];
+    return {
+        name: name ? decodeXml(name) : undefined,
+        major: themeXml.match(/<a:majorFont>[\s\S]*?<a:latin\s+typeface="([^"]+)"/)?.[1],
+        minor: themeXml.match(/<a:minorFont>[\s\S]*?<a:latin\s+typeface="([^"]+)"/)?.[1]
+    };
+}
@@ -0,0 +1,339 @@
+/**
+ * PPTX Importer
+ *
+ * Turns an existing .pptx into an EditableSlideDeck so the router, content
+ * planner, autoRepair and visual critique stages can be rerun over it.
+ *
+ * Extracted per slide (OOXML, read straight from the zip):
+ * - Title / subtitle placeholders → title-section component (title & section slides)
+ * - Body text, text boxes and tables → text-bullets components
+ * - Notes slide body → speakerNotesLines
+ * - Largest picture → backgroundImageUrl (other pictures are listed in warnings)
+ *
+ * Each bullet also becomes a ResearchFact (one FactCluster per slide), so
+ * regenerating a slide keeps the original content as its evidence.
+ */
+
+import JSZip from 'jszip';
+import {
+    EditableSlideDeck,
+    GlobalStyleGuide,
+    ResearchFact,
+    FactCluster,
+    SlideNode,
+    SLIDE_TYPES,
+    TemplateComponent
+} from '../../types/slideTypes';
+import {
+    DEFAULT_THEME_PALETTE,
+    Paragraph,
+    matchAll,
+    placeholderType,
+    readAttributes,
+    readImageDataUrl,
+    readParagraphs,
+    readPart,
+    readRelationships,
+    readThemeColor,
+    readThemeFonts,
+    readThemeXml
+} from './ooxml';
+
+export class PptxImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PptxImportError';
+    }
+}
+
+export interface ImportPptxOptions {
+    /** Original file name, used for the deck title fallback and fact sources */
+    fileName?: string;
+}
+
+interface ImportedPicture {
+    dataUrl: string;
+    area: number;
+}
+
+interface ParsedSlide {
+    title: string;
+    isCenterTitle: boolean;
+    subtitle: string;
+    bullets: Paragraph[];
+    notes: string[];
+    pictures: ImportedPicture[];
+    skippedMedia: string[];
+}
+
+// text-bullets allows 6 items and a layout plan 3 components
+const MAX_BULLETS_PER_COMPONENT = 6;
+const MAX_COMPONENTS = 3;
+
+const CONCLUSION_TITLE = /\b(conclusion|summary|wrap[- ]?up|next steps|thank you|questions|q&a|takeaways?)\b/i;
+
+// ============================================================================
+// PACKAGE NAVIGATION
+// ============================================================================
+
+async function listSlideParts(zip: JSZip): Promise<string[]> {
+    const presentationXml = await readPart(zip, 'ppt/presentation.xml');
+    if (presentationXml) {
+        const rels = await readRelationships(zip, 'ppt/presentation.xml');
+        const ordered = (presentationXml.match(/<p:sldId\s[^>]*>/g) || [])
+            .map(tag => rels.find(rel => rel.id === readAttributes(tag)['r:id'])?.target)
+            .filter((target): target is string => !!target && !!zip.file(target));
+        if (ordered.length > 0) return ordered;
+    }
+
+    // No (or unreadable) presentation part: fall back to file order
+    return Object.keys(zip.files)
+        .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+        .sort((a, b) => Number(a.match(/(\d+)\.xml$/)![1]) - Number(b.match(/(\d+)\.xml$/)![1]));
+}
+
+// ============================================================================
+// SLIDE & THEME EXTRACTION
+// ============================================================================
+
+function readTableRows(xml: string): Paragraph[] {
+    return matchAll(xml, 'a:tr')
+        .map(row => matchAll(row, 'a:tc').map(cell => readParagraphs(cell).map(p => p.text).join(' ')).filter(Boolean).join(' | '))
+        .filter(Boolean)
+        .map(text => ({ text, level: 0 }));
+}
+
+async function parseSlide(zip: JSZip, slidePath: string): Promise<ParsedSlide> {
+    const xml = (await readPart(zip, slidePath)) || '';
+    const rels = await readRelationships(zip, slidePath);
+
+    const parsed: ParsedSlide = { title: '', isCenterTitle: false, subtitle: '', bullets: [], notes: [], pictures: [], skippedMedia: [] };
+
+    const bodyShapes: Array<{ paragraphs: Paragraph[]; y: number }> = [];
+    for (const shape of matchAll(xml, 'p:sp')) {
+        const type = placeholderType(shape);
+        if (type === 'dt' || type === 'ftr' || type === 'sldNum' || type === 'hdr') continue;
+
+        const paragraphs = readParagraphs(shape);
+        if (paragraphs.length === 0) continue;
+
+        if ((type === 'title' || type === 'ctrTitle') && !parsed.title) {
+            parsed.title = paragraphs.map(p => p.text).join(' ');
+            parsed.isCenterTitle = type === 'ctrTitle';
+        } else if (type === 'subTitle' && !parsed.subtitle) {
+            parsed.subtitle = paragraphs.map(p => p.text).join(' ');
+        } else {
+            const y = Number(shape.match(/<a:off\s+x="-?\d+"\s+y="(-?\d+)"/)?.[1] ?? Number.MAX_SAFE_INTEGER);
+            bodyShapes.push({ paragraphs, y });
+        }
+    }
+
+    // Decks built from plain text boxes have no title placeholder: use the topmost short one-line box
+    if (!parsed.title) {
+        const candidate = [...bodyShapes]
+            .sort((a, b) => a.y - b.y)
+            .find(shape => shape.paragraphs.length === 1 && shape.paragraphs[0].text.length <= 100);
+        if (candidate) {
+            parsed.title = candidate.paragraphs[0].text;
+            bodyShapes.splice(bodyShapes.indexOf(candidate), 1);
+        }
+    }
+    parsed.bullets.push(...bodyShapes.flatMap(shape => shape.paragraphs));
+
+    for (const frame of matchAll(xml, 'p:graphicFrame')) {
+        parsed.bullets.push(...readTableRows(frame));
+    }
+
+    for (const picture of matchAll(xml, 'p:pic')) {
+        const embedId = picture.match(/r:embed="([^"]+)"/)?.[1];
+        const rel = rels.find(r => r.id === embedId);
+        if (!rel) continue;
+
+        const dataUrl = await readImageDataUrl(zip, rel.target);
+        if (!dataUrl) {
+            parsed.skippedMedia.push(rel.target.split('/').pop() || rel.target);
+            continue;
+        }
+
+        const ext = picture.match(/<a:ext\s+cx="(\d+)"\s+cy="(\d+)"/);
+        parsed.pictures.push({
+            dataUrl,
+            area: ext ? Number(ext[1]) * Number(ext[2]) : 0
+        });
+    }
+
+    const notesRel = rels.find(rel => rel.type.endsWith('/notesSlide'));
+    const notesXml = notesRel ? await readPart(zip, notesRel.target) : null;
+    if (notesXml) {
+        parsed.notes = matchAll(notesXml, 'p:sp')
+            .filter(shape => placeholderType(shape) === 'body')
+            .flatMap(shape => readParagraphs(shape).map(p => p.text));
+    }
+
+    return parsed;
+}
+
+async function readStyleGuide(zip: JSZip): Promise<GlobalStyleGuide> {
+    const themeXml = await readThemeXml(zip);
+    const fonts = readThemeFonts(themeXml);
+
+    return {
+        themeName: fonts.name || 'Imported',
+        fontFamilyTitle: fonts.major || 'Inter',
+        fontFamilyBody: fonts.minor || fonts.major || 'Inter',
+        colorPalette: {
+            primary: readThemeColor(themeXml, 'accent1') || DEFAULT_THEME_PALETTE.primary,
+            secondary: readThemeColor(themeXml, 'accent2') || DEFAULT_THEME_PALETTE.secondary,
+            background: readThemeColor(themeXml, 'lt1') || DEFAULT_THEME_PALETTE.background,
+            text: readThemeColor(themeXml, 'dk1') || DEFAULT_THEME_PALETTE.text,
+            accentHighContrast: readThemeColor(themeXml, 'accent4') || DEFAULT_THEME_PALETTE.accentHighContrast
+        },
+        imageStyle: 'Imported',
+        layoutStrategy: 'Imported'
+    };
+}
+
+// ============================================================================
+// MAPPING → SlideNode
+// ============================================================================
+
+function classifySlide(parsed: ParsedSlide, index: number, total: number): SlideNode['type'] {
+    if (index === 0 || parsed.isCenterTitle) return SLIDE_TYPES.TITLE;
+    if (index === total - 1 && CONCLUSION_TITLE.test(parsed.title)) return SLIDE_TYPES.CONCLUSION;
+    if (parsed.bullets.length === 0) return SLIDE_TYPES.SECTION;
+    return SLIDE_TYPES.CONTENT;
+}
+
+function buildComponents(parsed: ParsedSlide, type: SlideNode['type'], title: string, warnings: string[]): TemplateComponent[] {
+    if (type === SLIDE_TYPES.TITLE || type === SLIDE_TYPES.SECTION) {
+        const subtitle = parsed.subtitle || parsed.bullets.map(b => b.text).join(' · ');
+        return [{ type: 'title-section', title: title.slice(0, 100), subtitle: subtitle || undefined }];
+    }
+
+    // Flat text-bullets keep the outline hierarchy visible with a dash prefix
+    const bullets = parsed.bullets.map(b => b.level > 0 ? `– ${b.text}` : b.text);
+    if (parsed.subtitle) bullets.unshift(parsed.subtitle);
+    if (bullets.length === 0) {
+        return [{ type: 'title-section', title: title.slice(0, 100) }];
+    }
+
+    const capacity = MAX_BULLETS_PER_COMPONENT * MAX_COMPONENTS;
+    if (bullets.length > capacity) {
+        warnings.push(`Imported: ${bullets.length - capacity} bullet(s) beyond ${capacity} were dropped`);
+    }
+
+    const components: TemplateComponent[] = [];
+    for (let start = 0; start < Math.min(bullets.length, capacity); start += MAX_BULLETS_PER_COMPONENT) {
+        components.push({ type: 'text-bullets', content: bullets.slice(start, start + MAX_BULLETS_PER_COMPONENT) });
+    }
+    return components;
+}
+
+/**
+ * Import a .pptx file as an EditableSlideDeck.
+ * @throws PptxImportError if the file is not a readable PowerPoint package
+ */
+export async function importPptxDeck(
+    data: ArrayBuffer | Uint8Array | Blob,
+    options: ImportPptxOptions = {}
+): Promise<EditableSlideDeck> {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(data);
+    } catch (e: any) {
+        throw new PptxImportError(`Not a valid PPTX file: ${e.message}`);
+    }
+
+    const slideParts = await listSlideParts(zip);
+    if (slideParts.length === 0) {
+        throw new PptxImportError('The file contains no slides.');
+    }
+
+    const fileTitle = (options.fileName || 'Imported deck').replace(/\.pptx$/i, '');
+    const source = options.fileName || 'Imported PPTX';
+    const parsedSlides = await Promise.all(slideParts.map(part => parseSlide(zip, part)));
+    const styleGuide = await readStyleGuide(zip);
+
+    const knowledgeSheet: ResearchFact[] = [];
+    const factClusters: FactCluster[] = [];
+
+    const slides: SlideNode[] = parsedSlides.map((parsed, index) => {
+        const order = index + 1;
+        const type = classifySlide(parsed, index, parsedSlides.length);
+        const title = parsed.title || `Slide ${order}`;
+        const warnings: string[] = [];
+
+        const factIds = parsed.bullets.map((bullet, i) => {
+            const id = `import-s${order}-${i + 1}`;
+            knowledgeSheet.push({ id, category: title, claim: bullet.text, source, confidence: 'high' });
+            return id;
+        });
+        if (factIds.length > 0) {
+            factClusters.push({ id: `import-slide-${order}`, theme: title, factIds });
+        }
+
+        const pictures = [...parsed.pictures].sort((a, b) => b.area - a.area);
+        if (pictures.length > 1) warnings.push(`Imported: ${pictures.length - 1} additional picture(s) not placed`);
+        if (parsed.skippedMedia.length > 0) warnings.push(`Imported: unsupported media skipped (${parsed.skippedMedia.join(', ')})`);
+
+        const isHero = type === SLIDE_TYPES.TITLE || type === SLIDE_TYPES.SECTION;
+        return {
+            order,
+            type,
+            title,
+            purpose: parsed.subtitle || parsed.bullets[0]?.text || title,
+            routerConfig: {
+                renderMode: isHero ? 'statement' : 'standard',
+                layoutVariant: isHero ? 'hero-centered' : 'standard-vertical',
+                layoutIntent: 'Imported from PPTX',
+                densityBudget: { maxChars: 600, maxItems: MAX_BULLETS_PER_COMPONENT, minVisuals: 0 },
+                visualFocus: pictures.length > 0 ? 'Original picture' : 'Content'
+            },
+            layoutPlan: {
+                title: title.slice(0, 100),
+                background: pictures.length > 0 ? 'image' : 'solid',
+                components: buildComponents(parsed, type, title, warnings)
+            },
+            visualReasoning: `Imported from ${source}`,
+            visualPrompt: '',
+            backgroundImageUrl: pictures[0]?.dataUrl,
+            speakerNotesLines: parsed.notes,
+            readabilityCheck: 'pass',
+            citations: [],
+            warnings
+        };
+    });
+
+    const deckTitle = (parsedSlides[0].title || fileTitle).slice(0, 100);
+    console.log(`[PPTX IMPORT] Imported "${deckTitle}": ${slides.length} slides, ${knowledgeSheet.length} text items`);
+
+    return {
+        id: crypto.randomUUID(),
+        topic: deckTitle,
+        meta: {
+            title: deckTitle,
+            narrativeGoal: `Restyle and repair the imported deck "${deckTitle}"`,
+            knowledgeSheet,
+            factClusters,
+            styleGuide,
+            slides: slides.map(slide => ({
+                order: slide.order,
+                type: slide.type,
+                title: slide.title,
+                purpose: slide.purpose,
+                relevantClusterIds: factClusters.some(c => c.id === `import-slide-${slide.order}`) ? [`import-slide-${slide.order}`] : []
+            }))
+        },
+        slides,
+        metrics: {
+            totalDurationMs: 0,
+            retries: 0,
+            fallbackSlides: 0,
+            visualAlignmentFirstPassSuccess: 0,
+            totalVisualDesignAttempts: 0,
+            rerouteCount: 0,
+            visualCritiqueAttempts: 0,
+            visualRepairSuccess: 0
+        }
+    };
+}
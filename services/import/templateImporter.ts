@@ -0,0 +1,446 @@
+/**
+ * Template Importer
+ *
+ * Reads a corporate .potx / .pptx (theme, slide master, slide layouts) into a
+ * locked GlobalStyleGuide, so generated decks ship on the corporate master:
+ * - Theme colours and fonts → colorPalette, fontFamilyTitle / fontFamilyBody
+ * - Master title / body text styles → themeTokens.typography
+ * - Master background, logo pictures, footer text, filled shapes and the slide
+ *   number field → styleGuide.template (rebuilt as the PPTX slide master on export)
+ * - Layout placeholders → SpatialZone sets for the layout variants they replace
+ *
+ * The template page is scaled onto the nearest SlideSize, so every coordinate
+ * is in deck inches (PowerPoint's 13.33in widescreen becomes the 10in 16:9 page).
+ */
+
+import JSZip from 'jszip';
+import {
+    DeckTemplate,
+    GlobalStyleGuide,
+    getSlideDimensions,
+    SLIDE_SIZES,
+    SlideSize,
+    SlideSizeSchema,
+    SpatialZone,
+    TemplateShape
+} from '../../types/slideTypes';
+import {
+    DEFAULT_THEME_PALETTE,
+    EMU_PER_INCH,
+    matchAll,
+    placeholderType,
+    readAttributes,
+    readImageDataUrl,
+    readParagraphs,
+    readPart,
+    readRelationships,
+    readThemeColor,
+    readThemeFonts,
+    readThemeXml
+} from './ooxml';
+import { PptxImportError } from './pptxImporter';
+
+export interface ImportTemplateOptions {
+    /** Original file name, used when the theme has no name */
+    fileName?: string;
+}
+
+export interface ImportedTemplate {
+    /** Locked style guide carrying the template; pass it to generation and export */
+    styleGuide: GlobalStyleGuide;
+    /** Template features that could not be carried over */
+    warnings: string[];
+}
+
+interface Box {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+interface PageScale {
+    sx: number;
+    sy: number;
+}
+
+// Pages whose aspect ratio is further than this from every SlideSize are stretched
+const ASPECT_TOLERANCE = 0.03;
+
+// Template text styles are written for one text placeholder; components pack
+// more text into a zone, so the body size is capped like DEFAULT_THEME_TOKENS
+const TITLE_SIZE_RANGE: [number, number] = [24, 44];
+const BODY_SIZE_RANGE: [number, number] = [12, 20];
+const DEFAULT_MASTER_TEXT_PT = 12;
+
+// Split of a single content placeholder into the standard-vertical content zones
+const CONTENT_SPLIT_GAP = 0.2;
+
+// ST_SlideLayoutType → the layout variant whose zones the layout replaces
+const LAYOUT_VARIANTS: Record<string, string> = {
+    title: 'hero-centered',
+    obj: 'standard-vertical',
+    tx: 'standard-vertical',
+    twoObj: 'split-left-text',
+    twoTxTwoObj: 'split-left-text',
+    txAndObj: 'split-left-text',
+    objAndTx: 'split-right-text'
+};
+
+const FIELD_PLACEHOLDERS = new Set(['dt', 'ftr', 'sldNum', 'hdr']);
+
+// ============================================================================
+// GEOMETRY & COLOUR
+// ============================================================================
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const clamp = (n: number, [min, max]: [number, number]) => Math.min(max, Math.max(min, n));
+
+function readBox(shapeXml: string, scale: PageScale): Box | undefined {
+    const off = shapeXml.match(/<a:off\s+x="(-?\d+)"\s+y="(-?\d+)"/);
+    const ext = shapeXml.match(/<a:ext\s+cx="(\d+)"\s+cy="(\d+)"/);
+    if (!off || !ext) return undefined;
+    return {
+        x: round2(Number(off[1]) / EMU_PER_INCH * scale.sx),
+        y: round2(Number(off[2]) / EMU_PER_INCH * scale.sy),
+        w: round2(Number(ext[1]) / EMU_PER_INCH * scale.sx),
+        h: round2(Number(ext[2]) / EMU_PER_INCH * scale.sy)
+    };
+}
+
+function unionBox(boxes: Box[]): Box {
+    const x = Math.min(...boxes.map(b => b.x));
+    const y = Math.min(...boxes.map(b => b.y));
+    return {
+        x, y,
+        w: round2(Math.max(...boxes.map(b => b.x + b.w)) - x),
+        h: round2(Math.max(...boxes.map(b => b.y + b.h)) - y)
+    };
+}
+
+/** Nearest SlideSize by aspect ratio, and whether the page actually matches it. */
+function matchSlideSize(pageW: number, pageH: number): { size: SlideSize; exact: boolean } {
+    const aspect = pageW / pageH;
+    const distance = (size: SlideSize) => Math.abs(Math.log(aspect / (SLIDE_SIZES[size].width / SLIDE_SIZES[size].height)));
+    const size = [...SlideSizeSchema.options].sort((a, b) => distance(a) - distance(b))[0];
+    return { size, exact: distance(size) <= ASPECT_TOLERANCE };
+}
+
+/**
+ * Colour of the first fill in `xml` as '#RRGGBB'. Scheme colours go through the
+ * master's colour map (tx1 → dk1 …); lumMod/lumOff tints are not applied.
+ */
+function resolveColor(xml: string, themeXml: string, colorMap: Record<string, string>): string | undefined {
+    const srgb = xml.match(/<a:srgbClr\s+val="([0-9A-Fa-f]{6})"/)?.[1];
+    const scheme = xml.match(/<a:schemeClr\s+val="(\w+)"/)?.[1];
+    const srgbAt = srgb ? xml.indexOf(srgb) : Infinity;
+    const schemeAt = scheme ? xml.indexOf(`val="${scheme}"`) : Infinity;
+    if (srgb && srgbAt <= schemeAt) return `#${srgb.toUpperCase()}`;
+    if (scheme && scheme !== 'phClr') return readThemeColor(themeXml, colorMap[scheme] || scheme);
+    return undefined;
+}
+
+function resolveFont(typeface: string | undefined, fonts: { major?: string; minor?: string }): string | undefined {
+    if (!typeface) return undefined;
+    if (typeface.startsWith('+mj')) return fonts.major;
+    if (typeface.startsWith('+mn')) return fonts.minor;
+    return typeface;
+}
+
+function readAlign(xml: string): 'left' | 'center' | 'right' | undefined {
+    const algn = xml.match(/<a:pPr[^>]*\salgn="(\w+)"/)?.[1];
+    return algn === 'ctr' ? 'center' : algn === 'r' ? 'right' : algn === 'l' ? 'left' : undefined;
+}
+
+/** Level-1 run properties of a master text style (titleStyle / bodyStyle). */
+function readTextStyle(masterXml: string, style: string): { size?: number; bold: boolean } {
+    const block = masterXml.match(new RegExp(`<p:${style}>[\\s\\S]*?</p:${style}>`))?.[0] || '';
+    const defRPr = block.match(/<a:lvl1pPr[\s\S]*?<a:defRPr\s[^>]*>/)?.[0] || '';
+    const sz = readAttributes(defRPr).sz;
+    return { size: sz ? Number(sz) / 100 : undefined, bold: readAttributes(defRPr).b === '1' };
+}
+
+// ============================================================================
+// MASTER
+// ============================================================================
+
+interface ParsedMaster {
+    background: DeckTemplate['background'];
+    shapes: TemplateShape[];
+    slideNumber?: DeckTemplate['slideNumber'];
+    /** Placeholder boxes by type, inherited by layout placeholders without their own xfrm */
+    placeholders: Record<string, Box>;
+}
+
+async function parseMaster(
+    zip: JSZip,
+    masterPath: string,
+    masterXml: string,
+    themeXml: string,
+    colorMap: Record<string, string>,
+    scale: PageScale,
+    warnings: string[]
+): Promise<ParsedMaster> {
+    const rels = await readRelationships(zip, masterPath);
+    const fonts = readThemeFonts(themeXml);
+    const textScale = Math.min(scale.sx, scale.sy);
+    const parsed: ParsedMaster = { background: {}, shapes: [], placeholders: {} };
+
+    const bg = masterXml.match(/<p:bg>[\s\S]*?<\/p:bg>/)?.[0] || '';
+    const bgEmbed = bg.match(/<a:blip\s[^>]*r:embed="([^"]+)"/)?.[1];
+    const bgRel = bgEmbed ? rels.find(rel => rel.id === bgEmbed) : undefined;
+    if (bgRel) {
+        parsed.background.image = (await readImageDataUrl(zip, bgRel.target)) || undefined;
+        if (!parsed.background.image) warnings.push(`Master background picture ${bgRel.target.split('/').pop()} is not a supported image`);
+    }
+    if (bg.includes('<a:gradFill')) warnings.push('Master gradient background flattened to its first colour');
+    parsed.background.color = resolveColor(bg, themeXml, colorMap);
+
+    // Grouped shapes use the group's child coordinate space; they are not carried over
+    const tree = masterXml.match(/<p:spTree>[\s\S]*<\/p:spTree>/)?.[0] || '';
+    const groups: string[] = tree.match(/<p:grpSp>[\s\S]*?<\/p:grpSp>/g) || [];
+    if (groups.length > 0) warnings.push(`${groups.length} grouped master shape(s) skipped`);
+    const flat = groups.reduce((xml, group) => xml.replace(group, ''), tree);
+
+    for (const [shape, tag] of flat.matchAll(/<p:(sp|pic)[\s>][\s\S]*?<\/p:\1>/g)) {
+        const box = readBox(shape, scale);
+        const type = placeholderType(shape);
+
+        if (tag === 'pic') {
+            const embedId = shape.match(/r:embed="([^"]+)"/)?.[1];
+            const rel = rels.find(r => r.id === embedId);
+            const data = rel ? await readImageDataUrl(zip, rel.target) : null;
+            if (box && data) parsed.shapes.push({ type: 'image', ...box, data });
+            else if (rel) warnings.push(`Master picture ${rel.target.split('/').pop()} is not a supported image`);
+            continue;
+        }
+        if (!box) continue;
+
+        const txBody = shape.match(/<p:txBody>[\s\S]*?<\/p:txBody>/)?.[0] || '';
+        const runProps = txBody.match(/<a:(?:rPr|defRPr|endParaRPr)\s[^>]*>/)?.[0] || '';
+        const sz = readAttributes(runProps).sz;
+        const textStyle = {
+            fontSize: Math.round((sz ? Number(sz) / 100 : DEFAULT_MASTER_TEXT_PT) * textScale),
+            color: resolveColor(txBody, themeXml, colorMap) || readThemeColor(themeXml, colorMap.tx1 || 'dk1') || DEFAULT_THEME_PALETTE.text,
+            align: readAlign(txBody)
+        };
+
+        if (type === 'sldNum') {
+            parsed.slideNumber = { ...box, ...textStyle };
+            continue;
+        }
+        if (type && type !== 'ftr') {
+            if (!parsed.placeholders[type]) parsed.placeholders[type] = box;
+            continue;
+        }
+
+        // Footer placeholders and plain text boxes keep their master text
+        const text = readParagraphs(txBody).map(p => p.text).join('\n');
+        if (text) {
+            parsed.shapes.push({
+                type: 'text',
+                ...box,
+                text,
+                ...textStyle,
+                fontFamily: resolveFont(runProps.match(/<a:latin\s+typeface="([^"]+)"/)?.[1] || txBody.match(/<a:latin\s+typeface="([^"]+)"/)?.[1], fonts),
+                bold: readAttributes(runProps).b === '1'
+            });
+            continue;
+        }
+
+        const spPr = shape.match(/<p:spPr[\s\S]*?<\/p:spPr>/)?.[0] || '';
+        const fill = spPr.match(/<a:solidFill>[\s\S]*?<\/a:solidFill>/)?.[0];
+        const fillColor = fill ? resolveColor(fill, themeXml, colorMap) : undefined;
+        if (!type && fillColor) parsed.shapes.push({ type: 'rect', ...box, fill: fillColor });
+    }
+
+    return parsed;
+}
+
+// ============================================================================
+// LAYOUTS → SPATIAL ZONES
+// ============================================================================
+
+interface LayoutPlaceholder {
+    type: string;
+    name: string;
+    box: Box;
+}
+
+function zonesForVariant(variant: string, title: LayoutPlaceholder, content: LayoutPlaceholder[]): SpatialZone[] | null {
+    const zone = (id: string, purpose: SpatialZone['purpose'], ph: LayoutPlaceholder, box: Box = ph.box): SpatialZone =>
+        ({ id, purpose, ...box, content_suggestion: ph.name });
+
+    if (variant === 'hero-centered') {
+        if (content.length === 0) return null;
+        return [zone('hero-title', 'hero', title), zone('hero-content', 'secondary', content[0])];
+    }
+
+    if (variant === 'standard-vertical') {
+        const [body] = [...content].sort((a, b) => b.box.w * b.box.h - a.box.w * a.box.h);
+        if (!body) return null;
+        // The engine places up to two stacked components in this variant
+        const h = round2((body.box.h - CONTENT_SPLIT_GAP) / 2);
+        return [
+            zone('title', 'hero', title),
+            zone('content-top', 'secondary', body, { ...body.box, h }),
+            zone('content-bottom', 'secondary', body, { ...body.box, y: round2(body.box.y + h + CONTENT_SPLIT_GAP), h })
+        ];
+    }
+
+    // Two-content layouts: the two largest bodies, left to right
+    const pair = [...content].sort((a, b) => b.box.w * b.box.h - a.box.w * a.box.h).slice(0, 2).sort((a, b) => a.box.x - b.box.x);
+    if (pair.length < 2) return null;
+    return variant === 'split-right-text'
+        ? [zone('visual-left', 'secondary', pair[0]), zone('title', 'hero', title), zone('text-main', 'hero', pair[1])]
+        : [zone('title', 'hero', title), zone('text-main', 'hero', pair[0]), zone('visual-right', 'secondary', pair[1])];
+}
+
+async function parseLayouts(
+    zip: JSZip,
+    masterPath: string,
+    master: ParsedMaster,
+    scale: PageScale,
+    warnings: string[]
+): Promise<DeckTemplate['layouts']> {
+    const layoutParts = (await readRelationships(zip, masterPath))
+        .filter(rel => rel.type.endsWith('/slideLayout'))
+        .map(rel => rel.target);
+
+    const layouts: DeckTemplate['layouts'] = [];
+    for (const part of layoutParts) {
+        const xml = await readPart(zip, part);
+        if (!xml) continue;
+        const layoutType = readAttributes(xml.match(/<p:sldLayout\s[^>]*>/)?.[0] || '').type || 'cust';
+        const name = readAttributes(xml.match(/<p:cSld\s[^>]*>/)?.[0] || '').name || layoutType;
+        const variant = LAYOUT_VARIANTS[layoutType];
+        // First layout of each kind wins, as in PowerPoint's "New Slide" menu
+        if (!variant || layouts.some(layout => layout.variant === variant)) continue;
+
+        const placeholders: LayoutPlaceholder[] = [];
+        for (const shape of matchAll(xml, 'p:sp')) {
+            const type = placeholderType(shape);
+            if (!type || FIELD_PLACEHOLDERS.has(type)) continue;
+            const inherited = type === 'title' || type === 'ctrTitle' ? master.placeholders.title : master.placeholders.body;
+            const box = readBox(shape, scale) || inherited;
+            if (!box) continue;
+            placeholders.push({ type, name: readAttributes(shape.match(/<p:cNvPr\s[^>]*>/)?.[0] || '').name || type, box });
+        }
+
+        const title = placeholders.find(ph => ph.type === 'title' || ph.type === 'ctrTitle');
+        const zones = title ? zonesForVariant(variant, title, placeholders.filter(ph => ph !== title)) : null;
+        if (!zones) {
+            warnings.push(`Layout "${name}" has no usable title and content placeholders; ${variant} keeps its built-in zones`);
+            continue;
+        }
+        layouts.push({ name, variant, zones });
+    }
+    return layouts;
+}
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+/**
+ * Import a .potx / .pptx template as a locked style guide.
+ * @throws PptxImportError if the file is not a PowerPoint package with a slide master
+ */
+export async function importPptxTemplate(
+    data: ArrayBuffer | Uint8Array | Blob,
+    options: ImportTemplateOptions = {}
+): Promise<ImportedTemplate> {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(data);
+    } catch (e: any) {
+        throw new PptxImportError(`Not a valid PowerPoint template: ${e.message}`);
+    }
+
+    const presentationXml = await readPart(zip, 'ppt/presentation.xml');
+    if (!presentationXml) {
+        throw new PptxImportError('The file has no presentation part.');
+    }
+    const presentationRels = await readRelationships(zip, 'ppt/presentation.xml');
+    const masterPath = presentationRels.find(rel => rel.type.endsWith('/slideMaster'))?.target;
+    const masterXml = masterPath ? await readPart(zip, masterPath) : null;
+    if (!masterPath || !masterXml) {
+        throw new PptxImportError('The file contains no slide master.');
+    }
+
+    const warnings: string[] = [];
+
+    // Page size: PowerPoint's defaults when sldSz is missing
+    const sldSz = readAttributes(presentationXml.match(/<p:sldSz\s[^>]*>/)?.[0] || '');
+    const pageW = Number(sldSz.cx || 12192000) / EMU_PER_INCH;
+    const pageH = Number(sldSz.cy || 6858000) / EMU_PER_INCH;
+    const { size, exact } = matchSlideSize(pageW, pageH);
+    const dims = getSlideDimensions(size);
+    if (!exact) warnings.push(`Template page ${round2(pageW)}×${round2(pageH)}in has no matching slide size; stretched to ${dims.label}`);
+    const scale: PageScale = { sx: dims.width / pageW, sy: dims.height / pageH };
+
+    // The master's own theme, falling back to the presentation's
+    const masterThemePath = (await readRelationships(zip, masterPath)).find(rel => rel.type.endsWith('/theme'))?.target;
+    const themeXml = (masterThemePath && await readPart(zip, masterThemePath)) || await readThemeXml(zip);
+    const fonts = readThemeFonts(themeXml);
+    const colorMap = readAttributes(masterXml.match(/<p:clrMap\s[^>]*>/)?.[0] || '');
+    const themeColor = (slot: string) => readThemeColor(themeXml, colorMap[slot] || slot);
+
+    const master = await parseMaster(zip, masterPath, masterXml, themeXml, colorMap, scale, warnings);
+    const layouts = await parseLayouts(zip, masterPath, master, scale, warnings);
+    const masterRegions = [master.placeholders.title, master.placeholders.body].filter(Boolean);
+
+    const name = fonts.name || (options.fileName || 'Corporate template').replace(/\.(potx|pptx)$/i, '');
+    const template: DeckTemplate = {
+        name,
+        background: master.background,
+        shapes: master.shapes,
+        slideNumber: master.slideNumber,
+        contentBounds: masterRegions.length === 2 ? unionBox(masterRegions) : undefined,
+        layouts
+    };
+
+    const textScale = Math.min(scale.sx, scale.sy);
+    const titleStyle = readTextStyle(masterXml, 'titleStyle');
+    const bodyStyle = readTextStyle(masterXml, 'bodyStyle');
+
+    const styleGuide: GlobalStyleGuide = {
+        themeName: name,
+        fontFamilyTitle: fonts.major || 'Inter',
+        fontFamilyBody: fonts.minor || fonts.major || 'Inter',
+        colorPalette: {
+            primary: readThemeColor(themeXml, 'accent1') || DEFAULT_THEME_PALETTE.primary,
+            secondary: readThemeColor(themeXml, 'accent2') || DEFAULT_THEME_PALETTE.secondary,
+            background: master.background.color || themeColor('bg1') || DEFAULT_THEME_PALETTE.background,
+            text: themeColor('tx1') || DEFAULT_THEME_PALETTE.text,
+            accentHighContrast: readThemeColor(themeXml, 'accent4') || DEFAULT_THEME_PALETTE.accentHighContrast
+        },
+        imageStyle: 'Corporate template',
+        layoutStrategy: 'Corporate template',
+        slideSize: size,
+        template,
+        locked: true,
+        themeTokens: {
+            typography: {
+                scale: {
+                    ...(titleStyle.size ? { title: clamp(Math.round(titleStyle.size * textScale), TITLE_SIZE_RANGE) } : {}),
+                    ...(bodyStyle.size ? { body: clamp(Math.round(bodyStyle.size * textScale), BODY_SIZE_RANGE) } : {})
+                },
+                weights: { title: titleStyle.bold ? 700 : 400 }
+            },
+            background: { style: 'solid' }
+        }
+    };
+
+    console.log(`[TEMPLATE IMPORT] Imported "${name}": ${dims.label}, ${layouts.length} layout(s), ${template.shapes.length} master shape(s)`);
+    return { styleGuide, warnings };
+}
+
+/**
+ * Put a deck's style guide on an imported template: the template's palette,
+ * fonts, master and page size replace the deck's, settings the template does
+ * not carry are kept.
+ */
+export function applyTemplateStyleGuide(styleGuide: GlobalStyleGuide, templateStyleGuide: GlobalStyleGuide): GlobalStyleGuide {
+    return { ...styleGuide, ...templateStyleGuide };
+}
@@ -4,9 +4,12 @@ import React from 'react';
 import { renderToStaticMarkup } from 'react-dom/server';
 import * as LucideIcons from 'lucide-react';
 import pptxgen from 'pptxgenjs';
-import { SlideNode, GlobalStyleGuide, TemplateComponent, VisualElement, LayoutVariant } from '../types/slideTypes';
+import { SlideNode, GlobalStyleGuide, TemplateComponent, VisualElement, LayoutVariant, CitationStyle } from '../types/slideTypes';
 import { SpatialLayoutEngine, renderWithLayeredComposition } from './spatialRenderer';
 import { buildDiagramSVG, DiagramPalette } from './diagramBuilder';
+import { selectDiagramEngine } from './diagram/diagramOrchestrator';
+import { CompatibilityTracker, getExportProfile, roundRectRadiusEmu, EMU_PER_INCH } from './export/exportProfiles';
+import { addCitationElements } from './citations/citationRenderer';
 // Removed static import of visualCortex to break circular dependency
 // import { svgToPngBase64 } from './visualCortex';
 
@@ -132,6 +135,13 @@ export const convertIconToPng = async (iconName: string, color: string, pixelSiz
   try {
     const IconComponent = (LucideIcons as any)[normalizedName] || (LucideIcons as any)['HelpCircle'];
     const svgString = renderToStaticMarkup(React.createElement(IconComponent, { size: pixelSize, color: `#${cleanHex(color)}`, strokeWidth: 2 }));
+
+    // Headless (Node/CLI) export: no canvas, rasterize with resvg instead
+    if (typeof window === 'undefined') {
+      const { svgToPngBase64 } = await import('./visualCortex');
+      return `data:image/png;base64,${await svgToPngBase64(svgString, pixelSize * 2, pixelSize * 2)}`;
+    }
+
     const url = URL.createObjectURL(new Blob([svgString], { type: "image/svg+xml;charset=utf-8" }));
     const img = new Image(); img.src = url;
     await new Promise((res, rej) => { img.onload = res; img.onerror = rej; });
@@ -152,6 +162,9 @@ export class InfographicRenderer {
   private diagramCache = new Map<string, string>();
   private layoutEngine = new SpatialLayoutEngine();
 
+  /** citationStyle: how footers write sources (deck.meta.citationStyle; default numeric) */
+  constructor(private options: { citationStyle?: CitationStyle } = {}) { }
+
   async prepareIconsForDeck(slides: SlideNode[], palette: any) {
     const allIcons = new Set<string>();
     slides.forEach(s => s.layoutPlan?.components?.forEach(c => {
@@ -192,12 +205,7 @@ export class InfographicRenderer {
                 continue;
               }
 
-              const svgString = buildDiagramSVG(
-                comp.diagramType,
-                (comp.elements || []) as any,
-                comp.centralTheme,
-                diagramPalette
-              );
+              const svgString = this.buildDiagramSvgString(comp, diagramPalette);
 
               // Rasterize to PNG (1920x1080 for high quality)
               // Dynamically import to avoid circular dependency
@@ -217,8 +225,19 @@ export class InfographicRenderer {
   private generateDiagramCacheKey(comp: any): string {
     // Generate stable key from diagram content
     const elements = comp.elements || [];
-    const elementKeys = elements.map((e: any) => `${e.id}:${e.label}`).join('|');
-    return `${comp.diagramType}:${comp.centralTheme || 'no-theme'}:${elementKeys}`;
+    const elementKeys = elements.map((e: any) => `${e.id}:${e.label}:${e.detail || ''}:${e.parentId || ''}`).join('|');
+    const axes = comp.axisLabels ? `${comp.axisLabels.x}/${comp.axisLabels.y}` : 'no-axes';
+    return `${comp.diagramType}:${comp.centralTheme || 'no-theme'}:${axes}:${elementKeys}`;
+  }
+
+  // Every schema diagram type routes to the deterministic tier; anything else
+  // needs an LLM engine the renderer can't call
+  private buildDiagramSvgString(comp: any, palette: DiagramPalette): string {
+    const engine = selectDiagramEngine(comp.diagramType, 'simple', palette.mode || 'professional');
+    if (engine !== 'deterministic') {
+      throw new Error(`Diagram type "${comp.diagramType}" needs the ${engine} engine`);
+    }
+    return buildDiagramSVG(comp.diagramType, comp.elements || [], comp.centralTheme, palette, { axisLabels: comp.axisLabels });
   }
 
   private buildDiagramSvgDataUrl(comp: any, styleGuide: GlobalStyleGuide): string | undefined {
@@ -230,12 +249,7 @@ export class InfographicRenderer {
         background: palette.background,
         text: palette.text
       };
-      const svgString = buildDiagramSVG(
-        comp.diagramType,
-        comp.elements,
-        comp.centralTheme,
-        diagramPalette
-      );
+      const svgString = this.buildDiagramSvgString(comp, diagramPalette);
       const encoded = encodeURIComponent(svgString)
         .replace(/'/g, '%27')
         .replace(/"/g, '%22');
@@ -266,6 +280,11 @@ export class InfographicRenderer {
 
   // --- COMPILER: THE RENDERING ENVIRONMENT ---
   public compileSlide(slide: SlideNode, styleGuide: GlobalStyleGuide): VisualElement[] {
+    // Footnote markers + source footer on top of the layout (no-op without numbered citations)
+    return addCitationElements(this.compileLayout(slide, styleGuide), slide, styleGuide, this.options.citationStyle);
+  }
+
+  private compileLayout(slide: SlideNode, styleGuide: GlobalStyleGuide): VisualElement[] {
     // Use layer-aware rendering when composition plan is available (Serendipity mode)
     if (slide.compositionPlan) {
       return renderWithLayeredComposition(
@@ -288,10 +307,13 @@ export class InfographicRenderer {
   }
 
   // --- EXPORTER: PPTX GEN ---
-  public async renderSlideFromPlan({ slide, styleGuide, pptSlide, pres }: any) {
+  public async renderSlideFromPlan({ slide, styleGuide, pptSlide, pres, compatibility }: any) {
     // Use the Compiler to get flat elements, then render to PPTX
     // This ensures 1:1 fidelity between Preview and Export
     const elements = this.compileSlide(slide, styleGuide);
+    // Export profile: only emit features the target app honours (default: PowerPoint, everything)
+    const compat: CompatibilityTracker = compatibility || new CompatibilityTracker(getExportProfile('powerpoint'));
+    const slideOrder: number = slide.order;
 
     elements.forEach(el => {
       if (el.type === 'shape') {
@@ -299,7 +321,10 @@ export class InfographicRenderer {
         if (el.fill) opts.fill = { color: el.fill.color, transparency: (1 - el.fill.alpha) * 100 };
         if (el.border) opts.line = { color: el.border.color, width: el.border.width };
         if (el.shapeType === 'rect') opts.rectRadius = 0;
-        if (el.shapeType === 'roundRect') opts.rectRadius = el.rectRadius || 0.1;
+        if (el.shapeType === 'roundRect' && compat.allows('roundRectRadius', slideOrder)) {
+          // pptxgenjs takes inches and derives the adj guide from them; clamp in EMU to the OOXML max first
+          opts.rectRadius = roundRectRadiusEmu(el.rectRadius || 0.1, el.w, el.h).emu / EMU_PER_INCH;
+        }
 
         // Map generic shapes to PPTX
         const shapeType = (pres.ShapeType as any)[el.shapeType] || pres.ShapeType.rect;
@@ -315,10 +340,15 @@ export class InfographicRenderer {
           align: el.align,
           rotate: el.rotation
         };
+        if (el.rtl) textOpts.rtlMode = true;
 
-        // Note: PptxGenJS doesn't natively support letterSpacing
-        // For premium typography, we apply font weight mapping
-        // letterSpacing and lineHeight are visual-only (used in preview renderer)
+        // Premium typography: letterSpacing (pt) → charSpacing, lineHeight → lineSpacingMultiple
+        if (el.letterSpacing && compat.allows('charSpacing', slideOrder)) {
+          textOpts.charSpacing = el.letterSpacing;
+        }
+        if (el.lineHeight && compat.allows('lineSpacingMultiple', slideOrder)) {
+          textOpts.lineSpacingMultiple = el.lineHeight;
+        }
         if (el.fontWeight) {
           // Map fontWeight to bold (700+) or regular
           textOpts.bold = el.fontWeight >= 700;
@@ -326,10 +356,12 @@ export class InfographicRenderer {
 
         // Transform content if textTransform is specified
         let content = el.content;
-        if ((el as any).textTransform === 'uppercase') {
+        if (el.textTransform === 'uppercase') {
           content = content.toUpperCase();
-        } else if ((el as any).textTransform === 'lowercase') {
+        } else if (el.textTransform === 'lowercase') {
           content = content.toLowerCase();
+        } else if (el.textTransform === 'capitalize') {
+          content = content.replace(/\b\p{L}/gu, ch => ch.toUpperCase());
         }
 
         pptSlide.addText(content, textOpts);
@@ -338,8 +370,15 @@ export class InfographicRenderer {
         pptSlide.addImage({
           data: el.data,
           x: el.x, y: el.y, w: el.w, h: el.h,
-          transparency: el.transparency || 0
+          transparency: el.transparency && compat.allows('imageTransparency', slideOrder) ? el.transparency : 0
         });
+      } else if (el.type === 'chart') {
+        // Native chart: pptxgenjs embeds a data sheet so the chart stays editable in PowerPoint
+        // (still emitted when the target flattens it on import; the report records that)
+        compat.allows('nativeCharts', slideOrder);
+        this.addNativeChart(el, pptSlide, pres);
+      } else if (el.type === 'table') {
+        this.addNativeTable(el, pptSlide);
       }
     });
 
@@ -348,4 +387,114 @@ export class InfographicRenderer {
       pptSlide.addNotes(slide.speakerNotesLines.join('\n'));
     }
   }
+
+  /**
+   * Emit a 'table' VisualElement as a native pptxgenjs table, so cells stay
+   * editable. Column widths, row heights and font size come from TextFitter.
+   */
+  private addNativeTable(el: Extract<VisualElement, { type: 'table' }>, pptSlide: any) {
+    const rows = el.cells.map(row => row.map(cell => ({
+      text: cell.text,
+      options: {
+        color: normalizeColor(cell.color),
+        bold: !!cell.bold,
+        align: cell.align,
+        fill: cell.fill ? { color: normalizeColor(cell.fill.color), transparency: Math.round((1 - cell.fill.alpha) * 100) } : undefined
+      }
+    })));
+
+    pptSlide.addTable(rows, {
+      x: el.x, y: el.y, w: el.w,
+      colW: el.colW,
+      rowH: el.rowH,
+      fontSize: el.fontSize,
+      fontFace: el.fontFamily,
+      valign: 'middle',
+      margin: 0.08 * 72, // pptxgenjs table margins are in points
+      border: { type: 'solid', pt: 0.5, color: normalizeColor(el.borderColor || 'FFFFFF') }
+    });
+  }
+
+  /**
+   * Emit a 'chart' VisualElement as a native pptxgenjs chart.
+   * Axis titles come from ChartSpec.yAxisLabel; colours come from the deck palette.
+   */
+  private addNativeChart(el: Extract<VisualElement, { type: 'chart' }>, pptSlide: any, pres: any) {
+    const chartTypeMap: Record<string, any> = {
+      bar: pres.ChartType.bar,
+      line: pres.ChartType.line,
+      pie: pres.ChartType.pie,
+      doughnut: pres.ChartType.doughnut
+    };
+    const chartType = chartTypeMap[el.chartType] || pres.ChartType.bar;
+    const hasAxes = el.chartType === 'bar' || el.chartType === 'line';
+    const fontSize = el.fontSize || 10;
+
+    // A share of the total has no negative slices: pie and doughnut values are
+    // clamped to 0 exactly as computeChartPercentages does for the preview
+    const radial = el.chartType === 'pie' || el.chartType === 'doughnut';
+    const chartData = [{
+      name: el.seriesName || 'Series 1',
+      labels: el.data.map(d => d.label),
+      values: el.data.map(d => radial ? Math.max(0, d.value) : d.value)
+    }];
+
+    const opts: any = {
+      x: el.x, y: el.y, w: el.w, h: el.h,
+      chartColors: el.colors.map(c => normalizeColor(c)),
+      showValue: true,
+      dataLabelColor: el.textColor,
+      dataLabelFontSize: fontSize,
+      dataLabelFontFace: el.fontFamily,
+      showLegend: false,
+      showTitle: false
+    };
+
+    if (radial) {
+      // Slices show percentages; the legend carries the category names (mirrors chartGeometry)
+      Object.assign(opts, {
+        showValue: false,
+        showPercent: true,
+        dataLabelColor: 'FFFFFF',
+        showLegend: el.showLegend !== false,
+        legendPos: el.w / el.h > 1.3 ? 'r' : 'b',
+        legendColor: el.textColor,
+        legendFontFace: el.fontFamily,
+        legendFontSize: fontSize,
+        holeSize: el.chartType === 'doughnut' ? 55 : undefined
+      });
+    } else if (el.chartType === 'line') {
+      Object.assign(opts, {
+        lineDataSymbol: 'circle',
+        lineDataSymbolSize: 6,
+        dataLabelPosition: 't'
+      });
+    } else {
+      opts.dataLabelPosition = 'outEnd';
+    }
+
+    if (hasAxes) {
+      Object.assign(opts, {
+        barDir: 'col',
+        catAxisLabelColor: el.textColor,
+        catAxisLabelFontFace: el.fontFamily,
+        catAxisLabelFontSize: fontSize,
+        valAxisLabelColor: el.textColor,
+        valAxisLabelFontFace: el.fontFamily,
+        valAxisLabelFontSize: fontSize,
+        valGridLine: { style: 'none' }
+      });
+      if (el.yAxisLabel) {
+        Object.assign(opts, {
+          showValAxisTitle: true,
+          valAxisTitle: el.yAxisLabel,
+          valAxisTitleColor: el.textColor,
+          valAxisTitleFontFace: el.fontFamily,
+          valAxisTitleFontSize: fontSize
+        });
+      }
+    }
+
+    pptSlide.addChart(chartType, chartData, opts);
+  }
 }
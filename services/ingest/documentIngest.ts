@@ -0,0 +1,346 @@
+/**
+ * Document Ingestion
+ *
+ * Grounds decks in our own material instead of (or ahead of) the open web:
+ *
+ * 1. ingestDocuments()        reads PDF, DOCX, Markdown and HTML files into text
+ *                             blocks that remember their page (and section)
+ * 2. chunkBlocks()            groups blocks into chunks of up to ~1200 characters
+ *                             that never cross a page or section boundary
+ * 3. extractCandidateFacts()  picks the sentences that state figures, trends or
+ *                             quotes and turns them into ResearchFacts whose
+ *                             source is "<file>, p. <n>" (or "<file>, § <section>")
+ *
+ * The pipeline takes the resulting facts through GenerationOptions.documents
+ * (see runGroundedResearch in agents/researcher.ts): "documents-first" puts
+ * them ahead of web research, "documents-only" skips the web entirely.
+ *
+ * Extraction is deterministic and verbatim, so every fact can be traced back
+ * to the page it came from. Works in the browser and in Node.
+ */
+
+import { ResearchFact } from '../../types/slideTypes';
+import { extractPdfText } from './pdfText';
+import { extractDocxText } from './docxText';
+import { extractMarkdownText, extractHtmlText } from './markupText';
+
+export type DocumentFormat = 'pdf' | 'docx' | 'markdown' | 'html';
+
+export type DocumentGroundingMode = 'documents-first' | 'documents-only';
+
+export interface TextBlock {
+    /** 1-based page (always 1 for Markdown / HTML) */
+    page: number;
+    /** Nearest heading, when the format has them */
+    section?: string;
+    text: string;
+}
+
+export interface ExtractedText {
+    blocks: TextBlock[];
+    pageCount: number;
+}
+
+export interface IngestedDocument {
+    id: string;
+    fileName: string;
+    format: DocumentFormat;
+    pageCount: number;
+    chunkCount: number;
+    factCount: number;
+    warnings: string[];
+}
+
+export interface DocumentChunk {
+    id: string;
+    documentId: string;
+    fileName: string;
+    page: number;
+    section?: string;
+    text: string;
+}
+
+export interface DocumentIngestFailure {
+    fileName: string;
+    message: string;
+}
+
+export interface DocumentCorpus {
+    documents: IngestedDocument[];
+    chunks: DocumentChunk[];
+    facts: ResearchFact[];
+    failures: DocumentIngestFailure[];
+}
+
+/** What the pipeline needs from a corpus (GenerationOptions.documents) */
+export interface DocumentGrounding {
+    facts: ResearchFact[];
+    mode: DocumentGroundingMode;
+}
+
+export interface DocumentFile {
+    name: string;
+    data: Uint8Array | ArrayBuffer;
+}
+
+export class DocumentIngestError extends Error {
+    constructor(public fileName: string, message: string) {
+        super(`${fileName}: ${message}`);
+        this.name = 'DocumentIngestError';
+    }
+}
+
+export const DOCUMENT_FILE_EXTENSIONS = ['.pdf', '.docx', '.md', '.markdown', '.txt', '.html', '.htm'];
+
+export const DOCUMENT_GROUNDING_LABELS: Record<DocumentGroundingMode, string> = {
+    'documents-first': 'Documents first, then web research',
+    'documents-only': 'Documents only (no web research)'
+};
+
+export const EMPTY_CORPUS: DocumentCorpus = { documents: [], chunks: [], facts: [], failures: [] };
+
+const MAX_CHUNK_CHARS = 1200;
+const MAX_FACTS_PER_DOCUMENT = 40;
+const MIN_FACT_CHARS = 40;
+const MAX_FACT_CHARS = 320;
+
+// ============================================================================
+// READING
+// ============================================================================
+
+export function detectDocumentFormat(fileName: string, data: Uint8Array): DocumentFormat | undefined {
+    const ext = fileName.toLowerCase().match(/\.[a-z0-9]+$/)?.[0] || '';
+    if (ext === '.pdf') return 'pdf';
+    if (ext === '.docx') return 'docx';
+    if (ext === '.md' || ext === '.markdown' || ext === '.txt') return 'markdown';
+    if (ext === '.html' || ext === '.htm') return 'html';
+    // No (known) extension: sniff the content
+    const head = String.fromCharCode(...data.subarray(0, 5));
+    if (head === '%PDF-') return 'pdf';
+    if (head.startsWith('PK')) return 'docx';
+    return undefined;
+}
+
+async function extractText(format: DocumentFormat, data: Uint8Array): Promise<ExtractedText> {
+    switch (format) {
+        case 'pdf':
+            return extractPdfText(data);
+        case 'docx':
+            return extractDocxText(data);
+        case 'html':
+            return extractHtmlText(new TextDecoder('utf-8').decode(data));
+        default:
+            return extractMarkdownText(new TextDecoder('utf-8').decode(data));
+    }
+}
+
+/**
+ * Group consecutive blocks into chunks; a chunk never spans two pages or sections.
+ */
+export function chunkBlocks(documentId: string, fileName: string, blocks: TextBlock[], maxChars: number = MAX_CHUNK_CHARS): DocumentChunk[] {
+    const chunks: DocumentChunk[] = [];
+    let current: DocumentChunk | null = null;
+    for (const block of blocks) {
+        const fits = current && current.page === block.page && current.section === block.section &&
+            current.text.length + block.text.length + 1 <= maxChars;
+        if (!fits) {
+            current = { id: `${documentId}-c${chunks.length + 1}`, documentId, fileName, page: block.page, section: block.section, text: block.text };
+            chunks.push(current);
+        } else {
+            current!.text += `\n${block.text}`;
+        }
+    }
+    return chunks;
+}
+
+// ============================================================================
+// FACT EXTRACTION
+// ============================================================================
+
+// Not preceded by a letter or dot, so "X.680" or "ASN.1" are not figures
+const NUMBER_PATTERN = /(?<![\w.])[$€£¥]?\d[\d,]*(?:\.\d+)?\s?(?:%|percent|x\b|k\b|m\b|bn\b|million|billion|trillion)?/gi;
+const TREND_PATTERN = /\b(increas|decreas|grew|grow|declin|rose|rise|rising|fell|fall|doubl|tripl|expand|reduc|improv|outperform|forecast|expect|project|estimat|surpass|reach|accounts? for)\w*/i;
+const QUOTE_PATTERN = /\b(said|says|according to|believes?|argues?)\b|[“"][^”"]{20,}[”"]/i;
+// Sentences opening with a pronoun need the previous sentence to make sense
+const DANGLING_START = /^(this|that|these|those|it|they|he|she|such)\b/i;
+
+/**
+ * Figures that identify a fact. Bare years, small counts and unitless decimals
+ * (section and version numbers) are too common to count.
+ */
+function significantNumbers(text: string): string[] {
+    return (text.match(NUMBER_PATTERN) || [])
+        .map(token => token.trim())
+        .filter(token => !/^(19|20)\d{2}$/.test(token) && /^[$€£¥]|%|percent|\d\s?(x|k|m|bn|million|billion|trillion)$|^\d{1,3}(,\d{3})+$|^\d{3,}$/i.test(token));
+}
+
+/** Sentences per block (blocks are paragraphs or list items), without list markers and section numbers. */
+function splitSentences(text: string): string[] {
+    return text
+        .split('\n')
+        .flatMap(block => block.replace(/\s+/g, ' ').split(/(?<=[.!?])\s+(?=["“(]?[A-Z0-9])/))
+        .map(s => s.replace(/^([•▪◦‣●\-–*]\s*|(\d+(\.\d+)*\.?\s+)+(?=[A-Z]))+/, '').trim())
+        .filter(Boolean);
+}
+
+export function formatDocumentSource(chunk: Pick<DocumentChunk, 'fileName' | 'page' | 'section'>, format: DocumentFormat): string {
+    if (format === 'pdf' || format === 'docx') return `${chunk.fileName}, p. ${chunk.page}`;
+    return chunk.section ? `${chunk.fileName}, § ${chunk.section}` : chunk.fileName;
+}
+
+/**
+ * Candidate facts from a document's chunks: sentences that state a figure, a
+ * trend or a quote, best first, capped per document, returned in reading order.
+ */
+export function extractCandidateFacts(document: Pick<IngestedDocument, 'id' | 'format'>, chunks: DocumentChunk[]): ResearchFact[] {
+    const seen = new Set<string>();
+    const candidates: { fact: Omit<ResearchFact, 'id'>; score: number; position: number }[] = [];
+
+    chunks.forEach((chunk, chunkIndex) => {
+        splitSentences(chunk.text).forEach((sentence, sentenceIndex) => {
+            if (sentence.length < MIN_FACT_CHARS || sentence.length > MAX_FACT_CHARS) return;
+            if (/[:?]$/.test(sentence) || /\.{4,}|…{2,}/.test(sentence) || (sentence.match(/\|/g) || []).length >= 2) return;
+
+            const key = sentence.toLowerCase().replace(/[^a-z0-9%]+/g, ' ').trim();
+            if (seen.has(key)) return;
+
+            const numbers = significantNumbers(sentence);
+            const trend = TREND_PATTERN.test(sentence);
+            const quote = QUOTE_PATTERN.test(sentence);
+            let score = (numbers.length > 0 ? 3 : 0) + (trend ? 2 : 0) + (quote ? 1 : 0);
+            if (DANGLING_START.test(sentence)) score -= 1;
+            if (score < 2) return;
+
+            seen.add(key);
+            candidates.push({
+                fact: {
+                    category: numbers.length > 0 ? 'Statistic' : trend ? 'Market Trend' : 'Expert Opinion',
+                    claim: sentence,
+                    value: numbers[0],
+                    source: formatDocumentSource(chunk, document.format),
+                    confidence: numbers.length > 0 || quote ? 'high' : 'medium'
+                },
+                score,
+                position: chunkIndex * 1000 + sentenceIndex
+            });
+        });
+    });
+
+    return candidates
+        .sort((a, b) => b.score - a.score || a.position - b.position)
+        .slice(0, MAX_FACTS_PER_DOCUMENT)
+        .sort((a, b) => a.position - b.position)
+        .map((c, i) => ({ id: `${document.id}-f${i + 1}`, ...c.fact }));
+}
+
+// ============================================================================
+// CORPUS
+// ============================================================================
+
+/**
+ * Ingest files into a corpus. Pass the current corpus to add to it; a file with
+ * the same name replaces its earlier version. Unreadable files are reported in
+ * `failures` instead of failing the batch.
+ */
+export async function ingestDocuments(files: DocumentFile[], existing: DocumentCorpus = EMPTY_CORPUS): Promise<DocumentCorpus> {
+    const replaced = new Set(files.map(f => f.name));
+    const keptIds = new Set(existing.documents.filter(d => !replaced.has(d.fileName)).map(d => d.id));
+    const corpus: DocumentCorpus = {
+        documents: existing.documents.filter(d => keptIds.has(d.id)),
+        chunks: existing.chunks.filter(c => keptIds.has(c.documentId)),
+        facts: existing.facts.filter(f => keptIds.has(f.id.replace(/-f\d+$/, ''))),
+        failures: existing.failures.filter(f => !replaced.has(f.fileName))
+    };
+    let nextId = Math.max(0, ...existing.documents.map(d => Number(d.id.replace(/^doc/, '')) || 0)) + 1;
+
+    for (const file of files) {
+        try {
+            const { document, chunks, facts } = await ingestDocument(file, `doc${nextId++}`);
+            corpus.documents.push(document);
+            corpus.chunks.push(...chunks);
+            corpus.facts.push(...facts);
+        } catch (e: any) {
+            const message = e instanceof DocumentIngestError ? e.message.replace(`${file.name}: `, '') : e.message;
+            console.warn(`[INGEST] ${file.name}: ${message}`);
+            corpus.failures.push({ fileName: file.name, message });
+        }
+    }
+
+    console.log(`[INGEST] Corpus: ${corpus.documents.length} document(s), ${corpus.chunks.length} chunk(s), ${corpus.facts.length} candidate fact(s)`);
+    return corpus;
+}
+
+export async function ingestDocument(
+    file: DocumentFile,
+    documentId: string
+): Promise<{ document: IngestedDocument; chunks: DocumentChunk[]; facts: ResearchFact[] }> {
+    const data = file.data instanceof Uint8Array ? file.data : new Uint8Array(file.data);
+    const format = detectDocumentFormat(file.name, data);
+    if (!format) {
+        throw new DocumentIngestError(file.name, `Unsupported file type. Expected one of: ${DOCUMENT_FILE_EXTENSIONS.join(', ')}`);
+    }
+
+    let extracted: ExtractedText;
+    try {
+        extracted = await extractText(format, data);
+    } catch (e: any) {
+        throw new DocumentIngestError(file.name, e.message);
+    }
+
+    const warnings: string[] = [];
+    if (format === 'pdf') {
+        const pagesWithText = new Set(extracted.blocks.map(b => b.page));
+        const empty = Array.from({ length: extracted.pageCount }, (_, i) => i + 1).filter(p => !pagesWithText.has(p));
+        if (empty.length > 0) {
+            warnings.push(`No text on page${empty.length > 1 ? 's' : ''} ${empty.slice(0, 10).join(', ')}${empty.length > 10 ? '…' : ''} (scanned images are not read)`);
+        }
+    }
+    if (extracted.blocks.length === 0) throw new DocumentIngestError(file.name, 'No readable text found');
+
+    const chunks = chunkBlocks(documentId, file.name, extracted.blocks);
+    const facts = extractCandidateFacts({ id: documentId, format }, chunks);
+    if (facts.length === 0) warnings.push('No figures, trends or quotes found to use as facts');
+
+    const document: IngestedDocument = {
+        id: documentId,
+        fileName: file.name,
+        format,
+        pageCount: extracted.pageCount,
+        chunkCount: chunks.length,
+        factCount: facts.length,
+        warnings
+    };
+    console.log(`[INGEST] ${file.name}: ${format}, ${extracted.pageCount} page(s), ${chunks.length} chunk(s), ${facts.length} fact(s)`);
+    return { document, chunks, facts };
+}
+
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+const contentWords = (text: string): string[] =>
+    text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(w => w.length > 2);
+
+/**
+ * The document facts most relevant to a topic or query: ranked by shared words
+ * (figures break ties), in reading order otherwise. With `requireMatch`, facts
+ * sharing no word with the query are dropped.
+ */
+export function selectDocumentFacts(
+    facts: ResearchFact[],
+    query: string,
+    limit: number,
+    options: { requireMatch?: boolean } = {}
+): ResearchFact[] {
+    const queryWords = new Set(contentWords(query));
+    return facts
+        .map((fact, position) => ({
+            fact,
+            position,
+            overlap: contentWords(`${fact.claim} ${fact.source || ''}`).filter(w => queryWords.has(w)).length
+        }))
+        .filter(r => !options.requireMatch || r.overlap > 0)
+        .sort((a, b) => b.overlap - a.overlap || Number(!!b.fact.value) - Number(!!a.fact.value) || a.position - b.position)
+        .slice(0, limit)
+        .map(r => r.fact);
+}
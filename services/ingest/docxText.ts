@@ -0,0 +1,72 @@
+/**
+ * DOCX Text Extraction
+ *
+ * Reads word/document.xml straight from the zip (like the PPTX importer):
+ * one text block per paragraph, headings (Heading1-3 / Title styles) become
+ * the section, and page numbers come from the page breaks Word recorded the
+ * last time the file was saved (w:lastRenderedPageBreak), falling back to
+ * explicit page breaks.
+ */
+
+import JSZip from 'jszip';
+import type { ExtractedText, TextBlock } from './documentIngest';
+
+function decodeXml(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+        .replace(/&amp;/g, '&');
+}
+
+const HEADING_STYLE = /^(Heading[1-3]|Title|berschrift[1-3]|Titre[1-3])$/i;
+
+export async function extractDocxText(data: Uint8Array): Promise<ExtractedText> {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(data);
+    } catch {
+        throw new Error('Not a DOCX file (could not open the zip container)');
+    }
+    const documentXml = await zip.file('word/document.xml')?.async('string');
+    if (!documentXml) throw new Error('Not a Word document (word/document.xml is missing)');
+
+    const useRenderedBreaks = documentXml.includes('<w:lastRenderedPageBreak');
+    const paragraphs = documentXml.match(/<w:p[ >][\s\S]*?<\/w:p>/g) || [];
+
+    const blocks: TextBlock[] = [];
+    let page = 1;
+    let section: string | undefined;
+    for (const paragraph of paragraphs) {
+        const text = decodeXml(
+            (paragraph.match(/<w:t(?: [^>]*)?>[\s\S]*?<\/w:t>|<w:tab\/>|<w:br\/>/g) || [])
+                .map(run => run.startsWith('<w:tab') ? '\t' : run.startsWith('<w:br') ? ' ' : run.replace(/<[^>]+>/g, ''))
+                .join('')
+        ).replace(/\s+/g, ' ').trim();
+
+        // A break before the first run moves the paragraph to the next page;
+        // rendered breaks mid-paragraph only affect the paragraphs that follow
+        const firstText = paragraph.search(/<w:t[ >]/);
+        const breakPattern = useRenderedBreaks ? /<w:lastRenderedPageBreak\/>/g : /<w:br [^>]*w:type="page"[^>]*\/>/g;
+        let leading = !useRenderedBreaks && paragraph.includes('<w:pageBreakBefore/>') ? 1 : 0;
+        let total = leading;
+        for (const match of paragraph.matchAll(breakPattern)) {
+            total++;
+            if (firstText < 0 || match.index! < firstText) leading++;
+        }
+        const startPage = page + leading;
+        page += total;
+        if (!text) continue;
+
+        const style = paragraph.match(/<w:pStyle w:val="([^"]+)"/)?.[1] || '';
+        if (HEADING_STYLE.test(style)) {
+            section = text;
+            continue;
+        }
+        blocks.push({ page: startPage, section, text });
+    }
+    return { blocks, pageCount: page };
+}
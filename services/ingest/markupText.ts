@@ -0,0 +1,93 @@
+/**
+ * Markdown / HTML Text Extraction
+ *
+ * Neither format has pages, so every block is on page 1 and the nearest
+ * heading is recorded as the section. HTML is reduced to the same
+ * heading / paragraph / list structure as Markdown and parsed the same way.
+ */
+
+import type { ExtractedText, TextBlock } from './documentIngest';
+
+const ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+    lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', hellip: '…', euro: '€', pound: '£', copy: '©', reg: '®', trade: '™', deg: '°'
+};
+
+function decodeEntities(text: string): string {
+    return text
+        .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+        .replace(/&([a-z]+);/gi, (match, name) => ENTITIES[name.toLowerCase()] ?? match);
+}
+
+/** Strip inline Markdown: links, images, emphasis, code spans, HTML tags. */
+function stripInline(text: string): string {
+    return text
+        .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+        .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+        .replace(/`([^`]+)`/g, '$1')
+        .replace(/(\*\*|__)(.+?)\1/g, '$2')
+        .replace(/(^|\W)(\*|_)(.+?)\2(?=\W|$)/g, '$1$3')
+        .replace(/<[^>]+>/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+export function extractMarkdownText(markdown: string): ExtractedText {
+    const blocks: TextBlock[] = [];
+    let section: string | undefined;
+    let paragraph: string[] = [];
+    let inFence = false;
+
+    const flush = () => {
+        const text = stripInline(paragraph.join(' '));
+        if (text) blocks.push({ page: 1, section, text });
+        paragraph = [];
+    };
+
+    // Front matter is metadata, not content
+    const body = markdown.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n/, '');
+    for (const rawLine of body.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (line.startsWith('```') || line.startsWith('~~~')) {
+            flush();
+            inFence = !inFence;
+            continue;
+        }
+        if (inFence) continue;
+
+        const heading = line.match(/^#{1,6}\s+(.*)$/);
+        if (heading) {
+            flush();
+            section = stripInline(heading[1].replace(/\s#+$/, ''));
+            continue;
+        }
+        if (!line || /^([-*_]\s*){3,}$/.test(line)) {
+            flush();
+            continue;
+        }
+        // Table separator rows carry no content; cells become one line
+        if (/^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/.test(line)) continue;
+        const item = line.match(/^([-*+]|\d+[.)])\s+(.*)$/);
+        if (item || line.startsWith('|')) flush();
+        paragraph.push(item ? item[2] : line.replace(/^>\s?/, '').replace(/^\||\|$/g, '').replace(/\s*\|\s*/g, ' | '));
+        if (item || line.startsWith('|')) flush();
+    }
+    flush();
+    return { blocks, pageCount: 1 };
+}
+
+export function extractHtmlText(html: string): ExtractedText {
+    const markdown = decodeEntities(
+        html
+            .replace(/<!--[\s\S]*?-->/g, '')
+            .replace(/<(script|style|noscript|template|svg|nav|footer)\b[\s\S]*?<\/\1>/gi, '')
+            .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, text) => `\n\n${'#'.repeat(Number(level))} ${text.replace(/\s+/g, ' ')}\n\n`)
+            .replace(/<li\b[^>]*>/gi, '\n- ')
+            .replace(/<\/(td|th)>/gi, ' | ')
+            .replace(/<(br|hr)\b[^>]*>/gi, '\n')
+            .replace(/<\/?(p|div|section|article|header|main|aside|ul|ol|table|tr|blockquote|pre|figure|figcaption|dl|dt|dd)\b[^>]*>/gi, '\n\n')
+            .replace(/<[^>]+>/g, '')
+    ).replace(/[ \t]+/g, ' ');
+    return extractMarkdownText(markdown);
+}
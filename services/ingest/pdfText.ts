@@ -0,0 +1,599 @@
+/**
+ * PDF Text Extraction
+ *
+ * Minimal reader for text-based PDFs (reports exported from Word, Google Docs,
+ * LaTeX, etc.), enough to ground facts with page numbers:
+ * - objects and object streams (PDF 1.5+), FlateDecode streams
+ * - page tree with inherited resources, Form XObjects
+ * - ToUnicode CMaps (simple and composite fonts), WinAnsi fallback
+ *
+ * Not supported: encrypted files and scanned pages (no OCR). Such pages come
+ * back empty and the ingester reports them.
+ */
+
+import type { ExtractedText, TextBlock } from './documentIngest';
+
+type PdfValue = number | boolean | null | PdfName | PdfRef | PdfValue[] | PdfDict | PdfString;
+interface PdfName { name: string }
+interface PdfRef { ref: number }
+interface PdfString { bytes: string }
+type PdfDict = { [key: string]: PdfValue };
+
+interface PdfObject {
+    dict: PdfValue;
+    stream?: Uint8Array;
+}
+
+interface FontDecoder {
+    bytesPerCode: number;
+    decode(bytes: string): string;
+}
+
+const isName = (v: any): v is PdfName => v && typeof v === 'object' && 'name' in v;
+const isRef = (v: any): v is PdfRef => v && typeof v === 'object' && 'ref' in v;
+const isString = (v: any): v is PdfString => v && typeof v === 'object' && 'bytes' in v;
+const isDict = (v: any): v is PdfDict => v && typeof v === 'object' && !Array.isArray(v) && !isName(v) && !isRef(v) && !('bytes' in v);
+
+// ============================================================================
+// BYTES
+// ============================================================================
+
+function bytesToLatin1(bytes: Uint8Array): string {
+    let out = '';
+    const chunk = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunk) {
+        out += String.fromCharCode(...bytes.subarray(i, i + chunk));
+    }
+    return out;
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+    const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate')).getReader();
+    const parts: Uint8Array[] = [];
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            parts.push(value);
+        }
+    } catch {
+        // Many writers leave junk after the zlib stream; keep what was inflated
+    }
+    const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+}
+
+// ============================================================================
+// VALUE PARSER
+// ============================================================================
+
+const DELIMITERS = '()<>[]{}/%';
+const isWhite = (c: string) => c === ' ' || c === '\n' || c === '\r' || c === '\t' || c === '\f' || c === '\0';
+const isRegular = (c: string) => c !== undefined && !isWhite(c) && !DELIMITERS.includes(c);
+
+class Lexer {
+    pos = 0;
+    constructor(private src: string) { }
+
+    get done(): boolean {
+        this.skipWhite();
+        return this.pos >= this.src.length;
+    }
+
+    skipWhite(): void {
+        while (this.pos < this.src.length) {
+            const c = this.src[this.pos];
+            if (isWhite(c)) this.pos++;
+            else if (c === '%') {
+                while (this.pos < this.src.length && this.src[this.pos] !== '\n' && this.src[this.pos] !== '\r') this.pos++;
+            } else break;
+        }
+    }
+
+    /** Next value or operator keyword ({ op } for operators). */
+    next(): PdfValue | { op: string } {
+        this.skipWhite();
+        const c = this.src[this.pos];
+        if (c === '/') {
+            let end = this.pos + 1;
+            while (isRegular(this.src[end])) end++;
+            const name = this.src.slice(this.pos + 1, end).replace(/#([0-9a-fA-F]{2})/g, (_, h) => String.fromCharCode(parseInt(h, 16)));
+            this.pos = end;
+            return { name };
+        }
+        if (c === '(') return { bytes: this.readLiteralString() };
+        if (c === '<' && this.src[this.pos + 1] === '<') {
+            this.pos += 2;
+            const dict: PdfDict = {};
+            for (;;) {
+                this.skipWhite();
+                if (this.src.startsWith('>>', this.pos) || this.pos >= this.src.length) {
+                    this.pos += 2;
+                    return dict;
+                }
+                const key = this.next();
+                const value = this.readValue();
+                if (isName(key)) dict[key.name] = value;
+            }
+        }
+        if (c === '<') {
+            const end = this.src.indexOf('>', this.pos);
+            const hex = this.src.slice(this.pos + 1, end < 0 ? undefined : end).replace(/[^0-9a-fA-F]/g, '');
+            this.pos = end < 0 ? this.src.length : end + 1;
+            let bytes = '';
+            for (let i = 0; i < hex.length; i += 2) bytes += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, '0'), 16));
+            return { bytes };
+        }
+        if (c === '[') {
+            this.pos++;
+            const items: PdfValue[] = [];
+            for (;;) {
+                this.skipWhite();
+                if (this.src[this.pos] === ']' || this.pos >= this.src.length) {
+                    this.pos++;
+                    return items;
+                }
+                items.push(this.readValue());
+            }
+        }
+        if (c === ']' || c === '>' || c === ')' || c === '{' || c === '}') {
+            this.pos++;
+            return { op: c };
+        }
+        let end = this.pos;
+        while (end < this.src.length && isRegular(this.src[end])) end++;
+        if (end === this.pos) end++;
+        const token = this.src.slice(this.pos, end);
+        this.pos = end;
+        if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) return parseFloat(token);
+        if (token === 'true' || token === 'false') return token === 'true';
+        if (token === 'null') return null;
+        return { op: token };
+    }
+
+    /** A value, folding "n g R" into a reference. */
+    readValue(): PdfValue {
+        const value = this.next();
+        if (typeof value === 'number' && Number.isInteger(value)) {
+            const save = this.pos;
+            const gen = this.next();
+            const r = typeof gen === 'number' ? this.next() : null;
+            if (r && typeof r === 'object' && 'op' in r && r.op === 'R') return { ref: value };
+            this.pos = save;
+        }
+        return value && typeof value === 'object' && 'op' in value ? null : value as PdfValue;
+    }
+
+    private readLiteralString(): string {
+        let depth = 0;
+        let out = '';
+        this.pos++;
+        while (this.pos < this.src.length) {
+            const c = this.src[this.pos++];
+            if (c === '\\') {
+                const e = this.src[this.pos++];
+                const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '(': '(', ')': ')', '\\': '\\' };
+                if (e in escapes) out += escapes[e];
+                else if (/[0-7]/.test(e)) {
+                    let oct = e;
+                    while (oct.length < 3 && /[0-7]/.test(this.src[this.pos])) oct += this.src[this.pos++];
+                    out += String.fromCharCode(parseInt(oct, 8) & 0xff);
+                } else if (e === '\r') {
+                    if (this.src[this.pos] === '\n') this.pos++;
+                } else if (e !== '\n') out += e;
+            } else if (c === '(') {
+                depth++;
+                out += c;
+            } else if (c === ')') {
+                if (depth === 0) break;
+                depth--;
+                out += c;
+            } else out += c;
+        }
+        return out;
+    }
+
+    /** Skip inline image data after the ID operator. */
+    skipInlineImage(): void {
+        const end = this.src.slice(this.pos).search(/\sEI(\s|$)/);
+        this.pos = end < 0 ? this.src.length : this.pos + end + 3;
+    }
+}
+
+// ============================================================================
+// DOCUMENT
+// ============================================================================
+
+class PdfDocument {
+    private objects = new Map<number, PdfObject>();
+    private pending: Promise<void>[] = [];
+
+    constructor(private bytes: Uint8Array, private raw: string) { }
+
+    async load(): Promise<void> {
+        const header = /(\d+)\s+(\d+)\s+obj\b/g;
+        let match: RegExpExecArray | null;
+        while ((match = header.exec(this.raw))) {
+            const id = Number(match[1]);
+            const start = match.index + match[0].length;
+            const lexer = new Lexer(this.raw.slice(start, start + 65536));
+            const dict = lexer.readValue();
+            lexer.skipWhite();
+            const afterDict = start + lexer.pos;
+            let stream: Uint8Array | undefined;
+            if (this.raw.startsWith('stream', afterDict)) {
+                let dataStart = afterDict + 6;
+                if (this.raw[dataStart] === '\r') dataStart++;
+                if (this.raw[dataStart] === '\n') dataStart++;
+                const length = isDict(dict) && typeof dict.Length === 'number' ? dict.Length : -1;
+                let dataEnd = length >= 0 && this.raw.startsWith('endstream', this.skipEol(dataStart + length)) ? dataStart + length : this.raw.indexOf('endstream', dataStart);
+                if (dataEnd < 0) dataEnd = this.raw.length;
+                stream = this.bytes.subarray(dataStart, dataEnd);
+                header.lastIndex = dataEnd;
+            }
+            // Later definitions (incremental updates) win
+            this.objects.set(id, { dict, stream });
+        }
+        if (/\/Encrypt\s*(<<|\d+\s+\d+\s+R)/.test(this.raw)) {
+            throw new Error('Encrypted PDFs are not supported');
+        }
+        await this.loadObjectStreams();
+    }
+
+    private skipEol(pos: number): number {
+        while (isWhite(this.raw[pos])) pos++;
+        return pos;
+    }
+
+    private async loadObjectStreams(): Promise<void> {
+        for (const obj of [...this.objects.values()]) {
+            if (!isDict(obj.dict) || !isName(obj.dict.Type) || obj.dict.Type.name !== 'ObjStm') continue;
+            const data = bytesToLatin1(await this.streamData(obj));
+            const first = Number(obj.dict.First) || 0;
+            const lexer = new Lexer(data.slice(0, first));
+            const pairs: number[] = [];
+            for (let i = 0; i < (Number(obj.dict.N) || 0) * 2; i++) pairs.push(lexer.next() as number);
+            for (let i = 0; i < pairs.length; i += 2) {
+                // Objects written outside a stream belong to a later incremental update
+                if (this.objects.has(pairs[i])) continue;
+                const value = new Lexer(data.slice(first + pairs[i + 1])).readValue();
+                this.objects.set(pairs[i], { dict: value });
+            }
+        }
+    }
+
+    get(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+        if (isRef(value) && depth < 16) return this.get(this.objects.get(value.ref)?.dict, depth + 1);
+        return value;
+    }
+
+    getObject(value: PdfValue | undefined): PdfObject | undefined {
+        return isRef(value) ? this.objects.get(value.ref) : undefined;
+    }
+
+    async streamData(obj: PdfObject): Promise<Uint8Array> {
+        if (!obj.stream) return new Uint8Array();
+        const dict = isDict(obj.dict) ? obj.dict : {};
+        const filter = this.get(dict.Filter);
+        const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map(f => isName(f) ? f.name : '');
+        let data = obj.stream;
+        for (const name of filters) {
+            if (name === 'FlateDecode' || name === 'Fl') data = await inflate(data);
+            else throw new Error(`Unsupported PDF stream filter ${name}`);
+        }
+        return data;
+    }
+
+    catalog(): PdfDict | undefined {
+        for (const obj of this.objects.values()) {
+            if (isDict(obj.dict) && isName(obj.dict.Type) && obj.dict.Type.name === 'Catalog') return obj.dict;
+        }
+        return undefined;
+    }
+
+    /** Page dicts in document order, each with its (possibly inherited) resources. */
+    pages(): { page: PdfDict; resources: PdfDict }[] {
+        const out: { page: PdfDict; resources: PdfDict }[] = [];
+        const visit = (node: PdfValue | undefined, inherited: PdfDict, depth: number) => {
+            const dict = this.get(node);
+            if (!isDict(dict) || depth > 32) return;
+            const resources = (this.get(dict.Resources) as PdfDict) || inherited;
+            const kids = this.get(dict.Kids);
+            if (Array.isArray(kids)) kids.forEach(kid => visit(kid, resources, depth + 1));
+            else out.push({ page: dict, resources });
+        };
+        visit(this.catalog()?.Pages, {}, 0);
+        return out;
+    }
+}
+
+// ============================================================================
+// FONTS
+// ============================================================================
+
+// WinAnsi code points that differ from Latin-1
+const WIN_ANSI: Record<number, string> = {
+    0x80: '€', 0x85: '…', 0x91: '‘', 0x92: '’', 0x93: '“', 0x94: '”', 0x95: '•', 0x96: '–', 0x97: '—', 0x99: '™'
+};
+
+function utf16beToString(bytes: string): string {
+    let out = '';
+    for (let i = 0; i + 1 < bytes.length; i += 2) out += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+    return out;
+}
+
+function bytesToCode(bytes: string): number {
+    let code = 0;
+    for (let i = 0; i < bytes.length; i++) code = code * 256 + bytes.charCodeAt(i);
+    return code;
+}
+
+function parseToUnicode(cmap: string): { map: Map<number, string>; bytesPerCode: number } {
+    const map = new Map<number, string>();
+    let bytesPerCode = 0;
+    const hex = (h: string) => h.replace(/[^0-9a-fA-F]/g, '');
+    const hexBytes = (h: string) => hex(h).replace(/(..)/g, (_, b) => String.fromCharCode(parseInt(b, 16)));
+
+    for (const block of cmap.match(/begincodespacerange([\s\S]*?)endcodespacerange/g) || []) {
+        const first = block.match(/<([0-9a-fA-F\s]+)>/);
+        if (first) bytesPerCode = Math.max(bytesPerCode, Math.ceil(hex(first[1]).length / 2));
+    }
+    for (const block of cmap.match(/beginbfchar([\s\S]*?)endbfchar/g) || []) {
+        for (const m of block.matchAll(/<([0-9a-fA-F\s]+)>\s*<([0-9a-fA-F\s]*)>/g)) {
+            map.set(parseInt(hex(m[1]), 16), utf16beToString(hexBytes(m[2])));
+        }
+    }
+    for (const block of cmap.match(/beginbfrange([\s\S]*?)endbfrange/g) || []) {
+        for (const m of block.matchAll(/<([0-9a-fA-F\s]+)>\s*<([0-9a-fA-F\s]+)>\s*(<[0-9a-fA-F\s]*>|\[[^\]]*\])/g)) {
+            const lo = parseInt(hex(m[1]), 16);
+            const hi = parseInt(hex(m[2]), 16);
+            if (hi - lo > 0xffff) continue;
+            if (m[3].startsWith('[')) {
+                const targets = [...m[3].matchAll(/<([0-9a-fA-F\s]*)>/g)].map(t => utf16beToString(hexBytes(t[1])));
+                targets.forEach((t, i) => map.set(lo + i, t));
+            } else {
+                const base = hexBytes(m[3].slice(1, -1));
+                const last = base.charCodeAt(base.length - 1);
+                for (let code = lo; code <= hi; code++) {
+                    map.set(code, utf16beToString(base.slice(0, -1) + String.fromCharCode(last + code - lo)));
+                }
+            }
+        }
+    }
+    return { map, bytesPerCode };
+}
+
+async function loadFont(doc: PdfDocument, fontRef: PdfValue | undefined): Promise<FontDecoder> {
+    const font = doc.get(fontRef);
+    const composite = isDict(font) && isName(font.Subtype) && font.Subtype.name === 'Type0';
+    const toUnicode = isDict(font) ? doc.getObject(font.ToUnicode) : undefined;
+    let cmap: { map: Map<number, string>; bytesPerCode: number } | undefined;
+    if (toUnicode) {
+        try {
+            cmap = parseToUnicode(bytesToLatin1(await doc.streamData(toUnicode)));
+        } catch {
+            cmap = undefined;
+        }
+    }
+    const bytesPerCode = cmap?.bytesPerCode || (composite ? 2 : 1);
+
+    return {
+        bytesPerCode,
+        decode(bytes: string): string {
+            let out = '';
+            for (let i = 0; i + bytesPerCode <= bytes.length; i += bytesPerCode) {
+                const code = bytesToCode(bytes.slice(i, i + bytesPerCode));
+                const mapped = cmap?.map.get(code);
+                if (mapped !== undefined) out += mapped;
+                else if (!composite) out += WIN_ANSI[code] || String.fromCharCode(code);
+            }
+            return out;
+        }
+    };
+}
+
+// ============================================================================
+// CONTENT STREAMS
+// ============================================================================
+
+// TJ adjustments beyond this (thousandths of an em) are word gaps
+const TJ_SPACE_THRESHOLD = -200;
+
+class TextCollector {
+    lines: string[] = [''];
+    private lastY: number | null = null;
+
+    write(text: string): void {
+        this.lines[this.lines.length - 1] += text;
+    }
+
+    space(): void {
+        const line = this.lines[this.lines.length - 1];
+        if (line && !line.endsWith(' ')) this.lines[this.lines.length - 1] += ' ';
+    }
+
+    newline(): void {
+        if (this.lines[this.lines.length - 1].trim()) this.lines.push('');
+    }
+
+    moveTo(y: number): void {
+        if (this.lastY !== null && Math.abs(y - this.lastY) > 0.5) this.newline();
+        else this.space();
+        this.lastY = y;
+    }
+
+    moveBy(dy: number): void {
+        if (Math.abs(dy) > 0.5) this.newline();
+        else this.space();
+        if (this.lastY !== null) this.lastY += dy;
+    }
+}
+
+async function readContent(
+    doc: PdfDocument,
+    content: string,
+    resources: PdfDict,
+    out: TextCollector,
+    depth: number
+): Promise<void> {
+    const fontDict = (doc.get(resources.Font) as PdfDict) || {};
+    const xobjects = (doc.get(resources.XObject) as PdfDict) || {};
+    const fonts = new Map<string, FontDecoder>();
+    let font: FontDecoder | undefined;
+    const operands: PdfValue[] = [];
+    const lexer = new Lexer(content);
+
+    const show = (value: PdfValue) => {
+        if (isString(value) && font) out.write(font.decode(value.bytes));
+    };
+
+    while (!lexer.done) {
+        const token = lexer.next();
+        if (!(token && typeof token === 'object' && 'op' in token)) {
+            operands.push(token as PdfValue);
+            continue;
+        }
+        const args = operands.splice(0);
+        switch (token.op) {
+            case 'BT':
+                out.space();
+                break;
+            case 'Tf': {
+                const name = isName(args[0]) ? args[0].name : '';
+                if (!fonts.has(name)) fonts.set(name, await loadFont(doc, fontDict[name]));
+                font = fonts.get(name);
+                break;
+            }
+            case 'Td':
+            case 'TD':
+                out.moveBy(Number(args[1]) || 0);
+                break;
+            case 'Tm':
+                out.moveTo(Number(args[5]) || 0);
+                break;
+            case 'T*':
+                out.newline();
+                break;
+            case 'Tj':
+                show(args[0]);
+                break;
+            case "'":
+                out.newline();
+                show(args[0]);
+                break;
+            case '"':
+                out.newline();
+                show(args[2]);
+                break;
+            case 'TJ':
+                for (const item of (Array.isArray(args[0]) ? args[0] : [])) {
+                    if (typeof item === 'number') {
+                        if (item < TJ_SPACE_THRESHOLD) out.space();
+                    } else show(item);
+                }
+                break;
+            case 'ID':
+                lexer.skipInlineImage();
+                break;
+            case 'Do': {
+                const name = isName(args[0]) ? args[0].name : '';
+                const xobject = doc.getObject(xobjects[name]);
+                const dict = xobject && isDict(xobject.dict) ? xobject.dict : undefined;
+                if (dict && isName(dict.Subtype) && dict.Subtype.name === 'Form' && depth < 4) {
+                    const formResources = (doc.get(dict.Resources) as PdfDict) || resources;
+                    await readContent(doc, bytesToLatin1(await doc.streamData(xobject!)), formResources, out, depth + 1);
+                }
+                break;
+            }
+        }
+    }
+}
+
+/**
+ * Text blocks (one per paragraph) for every page of a PDF.
+ */
+export async function extractPdfText(data: Uint8Array): Promise<ExtractedText> {
+    const raw = bytesToLatin1(data);
+    if (!raw.startsWith('%PDF')) throw new Error('Not a PDF file');
+
+    const doc = new PdfDocument(data, raw);
+    await doc.load();
+    const pages = doc.pages();
+    if (pages.length === 0) throw new Error('No pages found (damaged or unsupported PDF)');
+
+    const pageLines: string[][] = [];
+    for (let i = 0; i < pages.length; i++) {
+        const { page, resources } = pages[i];
+        const contents = doc.get(page.Contents);
+        const parts = Array.isArray(contents) ? contents : [page.Contents];
+        let content = '';
+        for (const part of parts) {
+            const obj = doc.getObject(part);
+            if (!obj) continue;
+            try {
+                content += bytesToLatin1(await doc.streamData(obj)) + '\n';
+            } catch {
+                // Unsupported filter (e.g. an image-only page); the page yields no text
+            }
+        }
+        const collector = new TextCollector();
+        await readContent(doc, content, resources, collector, 0);
+        pageLines.push(collector.lines.map(l => l.replace(/\s+/g, ' ').trim()).filter(Boolean));
+    }
+
+    const running = runningLines(pageLines);
+    const blocks: TextBlock[] = [];
+    pageLines.forEach((lines, i) => {
+        const body = lines.filter((line, n) => !(isEdge(n, lines.length) && (running.has(edgeKey(line)) || /^\d{1,4}$|^[ivxlc]{1,6}$/i.test(line))));
+        for (const paragraph of linesToParagraphs(body)) {
+            blocks.push({ page: i + 1, text: paragraph });
+        }
+    });
+    return { blocks, pageCount: pages.length };
+}
+
+// Running headers / footers: the first and last lines of a page
+const EDGE_LINES = 2;
+const isEdge = (index: number, count: number) => index < EDGE_LINES || index >= count - EDGE_LINES;
+const edgeKey = (line: string) => line.toLowerCase().replace(/\d+/g, '#');
+
+/** Edge lines repeated on at least 3 pages (and 30% of them), page numbers normalized. */
+function runningLines(pageLines: string[][]): Set<string> {
+    const counts = new Map<string, number>();
+    for (const lines of pageLines) {
+        const keys = new Set(lines.filter((_, n) => isEdge(n, lines.length)).map(edgeKey));
+        keys.forEach(key => counts.set(key, (counts.get(key) || 0) + 1));
+    }
+    const threshold = Math.max(3, pageLines.length * 0.3);
+    return new Set([...counts].filter(([, count]) => count >= threshold).map(([key]) => key));
+}
+
+/**
+ * Join wrapped lines into paragraphs: a short line or a bullet starts a new one,
+ * and hyphenated line ends are rejoined.
+ */
+export function linesToParagraphs(lines: string[]): string[] {
+    const clean = lines.map(l => l.replace(/\s+/g, ' ').trim()).filter(Boolean);
+    const typical = [...clean].map(l => l.length).sort((a, b) => a - b)[Math.floor(clean.length * 0.75)] || 0;
+    const paragraphs: string[] = [];
+    let current = '';
+    let previousShort = true;
+    for (const line of clean) {
+        const bullet = /^([•▪◦‣●\-–*]|\d{1,2}[.)])\s/.test(line);
+        if (current && (previousShort || bullet)) {
+            paragraphs.push(current);
+            current = '';
+        }
+        current = !current ? line
+            : /[a-z]-$/.test(current) && /^[a-z]/.test(line) ? current.slice(0, -1) + line
+            : `${current} ${line}`;
+        previousShort = line.length < typical * 0.7;
+    }
+    if (current) paragraphs.push(current);
+    return paragraphs;
+}
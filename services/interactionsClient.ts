@@ -12,6 +12,8 @@
  * - Thought signature preservation (Gemini 3)
  */
 
+import { replayableFetch, isLlmReplayActive } from './replay/llmReplay';
+
 // --- TYPES ---
 
 export type InteractionStatus = 'in_progress' | 'requires_action' | 'completed' | 'failed' | 'cancelled';
@@ -753,7 +755,7 @@ async function callQwenFallback(
     }
 
     try {
-        const response = await fetch(`${QWEN_API_BASE}/chat/completions`, {
+        const response = await replayableFetch('qwen', `${QWEN_API_BASE}/chat/completions`, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
@@ -1065,7 +1067,8 @@ export class InteractionsClient {
     private apiKey: string;
 
     constructor(apiKey?: string) {
-        this.apiKey = apiKey || process.env.API_KEY || '';
+        // Replayed runs are served from fixtures and never reach the API
+        this.apiKey = apiKey || process.env.API_KEY || (isLlmReplayActive() ? 'replay' : '');
         if (!this.apiKey) {
             const errorMsg = `[INTERACTIONS CLIENT ERROR] API_KEY is not configured.
 
@@ -1139,7 +1142,7 @@ Current value of process.env.API_KEY: ${process.env.API_KEY === undefined ? 'und
             }, 1000);
 
             try {
-                const response = await fetch(`${INTERACTIONS_API_BASE}?key=${this.apiKey}`, {
+                const response = await replayableFetch('gemini', `${INTERACTIONS_API_BASE}?key=${this.apiKey}`, {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify(request),
@@ -1186,7 +1189,7 @@ Current value of process.env.API_KEY: ${process.env.API_KEY === undefined ? 'und
                             clearTimeout(timeoutId);
                             clearInterval(progressInterval);
                             
-                            const fallbackResponse = await fetch(`${INTERACTIONS_API_BASE}?key=${this.apiKey}`, {
+                            const fallbackResponse = await replayableFetch('gemini', `${INTERACTIONS_API_BASE}?key=${this.apiKey}`, {
                                 method: 'POST',
                                 headers: { 'Content-Type': 'application/json' },
                                 body: JSON.stringify(fallbackRequest)
@@ -1291,7 +1294,7 @@ Current value of process.env.API_KEY: ${process.env.API_KEY === undefined ? 'und
      * Retrieve an existing interaction by ID
      */
     async get(interactionId: string): Promise<InteractionResponse> {
-        const response = await fetch(`${INTERACTIONS_API_BASE}/${interactionId}?key=${this.apiKey}`, {
+        const response = await replayableFetch('gemini', `${INTERACTIONS_API_BASE}/${interactionId}?key=${this.apiKey}`, {
             method: 'GET'
         });
 
@@ -1307,7 +1310,7 @@ Current value of process.env.API_KEY: ${process.env.API_KEY === undefined ? 'und
      * Cancel an in-progress interaction
      */
     async cancel(interactionId: string): Promise<InteractionResponse> {
-        const response = await fetch(`${INTERACTIONS_API_BASE}/${interactionId}:cancel?key=${this.apiKey}`, {
+        const response = await replayableFetch('gemini', `${INTERACTIONS_API_BASE}/${interactionId}:cancel?key=${this.apiKey}`, {
             method: 'POST'
         });
 
@@ -0,0 +1,199 @@
+/**
+ * Outline Parser
+ *
+ * Turns a pasted slide outline into the architect's slide list, so the deck
+ * keeps the author's titles, order and slide count instead of being re-planned
+ * from a one-line topic. Three formats are recognised, tried in this order:
+ * - "Slide N:" blocks, optionally with "Title:", "Content:" and "Visual:" lines
+ * - Markdown headings (a lone top heading is the deck title, the next level are slides)
+ * - Bullet hierarchies (top-level bullets are slides, nested bullets their content)
+ *
+ * Everything under a slide becomes a content hint for the content planner; a
+ * "Visual:" line goes into the slide's purpose for the router. Research still
+ * runs on the deck title, and the architect only assigns fact clusters.
+ */
+
+import { SLIDE_TYPES } from '../../types/slideTypes';
+import type { OutlineSlide } from '../review/researchReview';
+
+export interface ParsedOutlineSlide {
+    title: string;
+    contentHints: string[];
+    visualHint?: string;
+}
+
+export interface ParsedOutline {
+    format: 'slide-blocks' | 'markdown-headings' | 'bullets';
+    /** Deck title from the text above the first slide, if any */
+    title?: string;
+    slides: ParsedOutlineSlide[];
+}
+
+// Fewer slides than this is a prompt with some structure, not an outline
+// (the Director's blueprint also needs 3)
+export const MIN_OUTLINE_SLIDES = 3;
+
+const SLIDE_BLOCK = /^\s*(?:[#>*•-]+\s*)?\**\s*slide\s+(\d+)\s*\**\s*(?:[:.)–—-]\s*)?(.*)$/i;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.+?)\s*#*\s*$/;
+const BULLET = /^(\s*)(?:[-*+•]|\d+[.)])\s+(.+)$/;
+const FIELD = /^\s*(?:[-*+•]\s*)?\**\s*(title|headline|content|points|bullets|body|key points|visual|image|notes|speaker notes)\s*\**\s*:\s*(.*)$/i;
+const CONCLUSION_TITLE = /\b(conclusion|summary|recap|next steps|takeaways?|q\s*&\s*a|questions|thank you|call to action)\b/i;
+const DATA_TITLE = /\b(data|metrics?|kpis?|numbers|results|chart|benchmark)\b/i;
+
+/** Strip markdown emphasis, list markers, trailing colons and quotes. */
+function cleanText(text: string): string {
+    return text
+        .replace(/^\s*(?:[-*+•]|\d+[.)])\s+/, '')
+        .replace(/\*\*|__|`/g, '')
+        .replace(/^["“']|["”']$/g, '')
+        .replace(/\s*:\s*$/, '')
+        .trim();
+}
+
+/**
+ * Cheap structural check used before parsing: "Slide N:" markers, the bullet
+ * fields of a pasted outline, or a prompt too long to be a topic.
+ */
+export function looksLikeOutline(text: string): boolean {
+    return (
+        /Slide\s*\d+\s*:/i.test(text) ||
+        /•\s*Title:|•\s*Content:|•\s*Visual:/i.test(text) ||
+        text.split('\n').length > 10 ||
+        text.length > 2000
+    );
+}
+
+function deckTitleFrom(lines: string[]): string | undefined {
+    for (const line of lines) {
+        const text = cleanText(line.replace(/^\s*#+\s*/, '').replace(/^(presentation|deck|title|topic)\s*:\s*/i, ''));
+        if (text) return text;
+    }
+    return undefined;
+}
+
+function parseSlideBlocks(lines: string[]): ParsedOutline | null {
+    const starts = lines.map((line, i) => SLIDE_BLOCK.test(line) ? i : -1).filter(i => i >= 0);
+    if (starts.length < MIN_OUTLINE_SLIDES) return null;
+
+    const slides = starts.map((start, n): ParsedOutlineSlide => {
+        const end = starts[n + 1] ?? lines.length;
+        let title = cleanText(lines[start].match(SLIDE_BLOCK)![2]);
+        const contentHints: string[] = [];
+        let visualHint: string | undefined;
+        let field = 'content';
+        for (const line of lines.slice(start + 1, end)) {
+            const fieldMatch = line.match(FIELD);
+            if (fieldMatch) {
+                field = fieldMatch[1].toLowerCase();
+                const value = cleanText(fieldMatch[2]);
+                if (!value) continue;
+                if (field === 'title' || field === 'headline') title = title || value;
+                else if (field === 'visual' || field === 'image') visualHint = value;
+                else if (!field.includes('notes')) contentHints.push(value);
+                continue;
+            }
+            const text = cleanText(line);
+            if (!text) continue;
+            // Continuation lines belong to the last field seen
+            if (field === 'visual' || field === 'image') visualHint = visualHint ? `${visualHint} ${text}` : text;
+            else if (!field.includes('notes')) contentHints.push(text);
+        }
+        return { title: title || `Slide ${n + 1}`, contentHints, visualHint };
+    });
+
+    return { format: 'slide-blocks', title: deckTitleFrom(lines.slice(0, starts[0])), slides };
+}
+
+function parseMarkdownHeadings(lines: string[]): ParsedOutline | null {
+    const headings = lines
+        .map((line, index) => ({ index, match: line.match(HEADING) }))
+        .filter(h => h.match)
+        .map(h => ({ index: h.index, level: h.match![1].length, text: cleanText(h.match![2]) }));
+    if (headings.length === 0) return null;
+
+    // A single top heading above deeper ones is the deck title
+    const topLevel = Math.min(...headings.map(h => h.level));
+    const top = headings.filter(h => h.level === topLevel);
+    const hasTitle = top.length === 1 && headings[0].level === topLevel && headings.length > 1;
+    const slideHeadings = hasTitle ? headings.slice(1) : headings;
+    if (slideHeadings.length === 0) return null;
+    const slideLevel = Math.min(...slideHeadings.map(h => h.level));
+    const starts = slideHeadings.filter(h => h.level === slideLevel);
+    if (starts.length < MIN_OUTLINE_SLIDES) return null;
+
+    const slides = starts.map((start, n): ParsedOutlineSlide => {
+        const end = starts[n + 1]?.index ?? lines.length;
+        const contentHints: string[] = [];
+        let visualHint: string | undefined;
+        for (const line of lines.slice(start.index + 1, end)) {
+            const fieldMatch = line.match(FIELD);
+            if (fieldMatch && /visual|image/i.test(fieldMatch[1])) {
+                visualHint = cleanText(fieldMatch[2]) || visualHint;
+                continue;
+            }
+            if (fieldMatch && /notes/i.test(fieldMatch[1])) continue;
+            const text = cleanText(fieldMatch ? fieldMatch[2] : line.replace(/^\s*#+\s*/, ''));
+            if (text) contentHints.push(text);
+        }
+        return { title: start.text, contentHints, visualHint };
+    });
+
+    return { format: 'markdown-headings', title: hasTitle ? headings[0].text : deckTitleFrom(lines.slice(0, starts[0].index)), slides };
+}
+
+function parseBulletHierarchy(lines: string[]): ParsedOutline | null {
+    const bullets = lines
+        .map((line, index) => ({ index, match: line.match(BULLET) }))
+        .filter(b => b.match)
+        .map(b => ({ index: b.index, indent: b.match![1].replace(/\t/g, '    ').length, text: cleanText(b.match![2]) }));
+    if (bullets.length === 0) return null;
+
+    const topIndent = Math.min(...bullets.map(b => b.indent));
+    const top = bullets.filter(b => b.indent === topIndent);
+    // A flat list in a prompt is not an outline; a hierarchy is
+    if (top.length < MIN_OUTLINE_SLIDES || top.length === bullets.length) return null;
+
+    const slides = top.map((start, n): ParsedOutlineSlide => {
+        const end = top[n + 1]?.index ?? lines.length;
+        const contentHints = bullets.filter(b => b.index > start.index && b.index < end).map(b => b.text).filter(Boolean);
+        return { title: start.text, contentHints };
+    });
+
+    return { format: 'bullets', title: deckTitleFrom(lines.slice(0, top[0].index)), slides };
+}
+
+/**
+ * Parse a pasted outline. Returns null when the text has no slide structure
+ * (a plain topic) or fewer than MIN_OUTLINE_SLIDES slides.
+ */
+export function parseOutline(text: string): ParsedOutline | null {
+    const lines = (text || '').replace(/\r\n?/g, '\n').split('\n');
+    return parseSlideBlocks(lines) || parseMarkdownHeadings(lines) || parseBulletHierarchy(lines);
+}
+
+/**
+ * Map a parsed outline onto OutlineSchema.slides: the author's order, count and
+ * titles (fixedTitle), content hints for the planner, and a purpose for the router.
+ */
+export function toOutlineSlides(parsed: ParsedOutline): OutlineSlide[] {
+    const last = parsed.slides.length - 1;
+    return parsed.slides.map((slide, idx) => {
+        const hintText = slide.contentHints.join(' ');
+        const type = idx === 0 ? SLIDE_TYPES.TITLE
+            : idx === last && CONCLUSION_TITLE.test(slide.title) ? SLIDE_TYPES.CONCLUSION
+            : DATA_TITLE.test(slide.title) || (/\d/.test(hintText) && DATA_TITLE.test(hintText)) ? SLIDE_TYPES.DATA
+            : SLIDE_TYPES.CONTENT;
+        const purpose = [slide.contentHints.length ? slide.contentHints.join('; ') : slide.title, slide.visualHint ? `Visual: ${slide.visualHint}` : '']
+            .filter(Boolean)
+            .join('. ');
+        return {
+            order: idx + 1,
+            type,
+            title: slide.title,
+            purpose,
+            relevantClusterIds: [],
+            contentHints: slide.contentHints.length ? slide.contentHints : undefined,
+            fixedTitle: true
+        };
+    });
+}
@@ -0,0 +1,270 @@
+/**
+ * Project File Service
+ *
+ * Save / open InfographIQ projects (see types/projectTypes.ts for the format).
+ * - createProjectFile(): EditableSlideDeck → validated ProjectFile (assets extracted)
+ * - parseProjectFile(): JSON text (any supported version) → migrated, validated deck
+ *
+ * Migrations are applied one version step at a time, so adding v3 only needs a
+ * `2: (raw) => ...` entry in PROJECT_MIGRATIONS.
+ */
+
+import { EditableSlideDeck, SLIDE_TYPES, StyleMode } from '../../types/slideTypes';
+import {
+    PROJECT_FILE_FORMAT,
+    PROJECT_FILE_VERSION,
+    PROJECT_FILE_EXTENSION,
+    PROJECT_ASSET_REF_PREFIX,
+    ProjectFile,
+    ProjectFileSchema,
+    ProjectAsset
+} from '../../types/projectTypes';
+
+export class ProjectFileError extends Error {
+    constructor(message: string, public issues: string[] = []) {
+        super(issues.length ? `${message}\n- ${issues.slice(0, 8).join('\n- ')}` : message);
+        this.name = 'ProjectFileError';
+    }
+}
+
+export interface SaveProjectOptions {
+    styleMode?: StyleMode;
+}
+
+export interface OpenedProject {
+    deck: EditableSlideDeck;
+    project: ProjectFile;
+    /** Original file version when a migration was applied */
+    migratedFrom?: number;
+}
+
+// ============================================================================
+// MIGRATIONS
+// ============================================================================
+
+type ProjectMigration = (raw: any) => any;
+
+const PROJECT_MIGRATIONS: Record<number, ProjectMigration> = {
+    // v1 → v2: wrap the bare deck in the versioned envelope and pull inline images into `assets`
+    1: (raw: any) => {
+        const { deck, assets } = extractAssets(normalizeDeck(raw));
+        return {
+            format: PROJECT_FILE_FORMAT,
+            version: 2,
+            savedAt: new Date().toISOString(),
+            generation: {},
+            deck,
+            assets
+        };
+    }
+};
+
+/**
+ * Detect the on-disk version. Files without the envelope are v1 (bare decks).
+ */
+function detectProjectVersion(raw: any): number {
+    if (raw && raw.format === PROJECT_FILE_FORMAT && typeof raw.version === 'number') {
+        return raw.version;
+    }
+    if (raw && Array.isArray(raw.slides) && raw.meta && typeof raw.meta === 'object') {
+        return 1;
+    }
+    throw new ProjectFileError('Not an InfographIQ project or deck file.');
+}
+
+export function migrateProject(raw: any): { project: any; migratedFrom?: number } {
+    const originalVersion = detectProjectVersion(raw);
+    if (originalVersion > PROJECT_FILE_VERSION) {
+        throw new ProjectFileError(`Project was saved by a newer version (v${originalVersion}); this build reads up to v${PROJECT_FILE_VERSION}.`);
+    }
+
+    let project = raw;
+    for (let version = originalVersion; version < PROJECT_FILE_VERSION; version++) {
+        const migrate = PROJECT_MIGRATIONS[version];
+        if (!migrate) {
+            throw new ProjectFileError(`No migration from project v${version} to v${version + 1}.`);
+        }
+        project = migrate(project);
+        console.log(`[PROJECT] Migrated project v${version} → v${version + 1}`);
+    }
+
+    return { project, migratedFrom: originalVersion < PROJECT_FILE_VERSION ? originalVersion : undefined };
+}
+
+// ============================================================================
+// NORMALIZATION & ASSETS
+// ============================================================================
+
+const VALID_SLIDE_TYPES = new Set<string>(Object.values(SLIDE_TYPES));
+const VALID_CONFIDENCE = new Set(['high', 'medium', 'low']);
+
+/**
+ * Fill required fields that older pipelines (or hand edits) may have left out,
+ * so a deck that renders fine also validates. Never drops content.
+ */
+function normalizeDeck(deck: any): any {
+    const meta = deck.meta || {};
+    return {
+        ...deck,
+        id: deck.id || crypto.randomUUID(),
+        topic: deck.topic || meta.title || 'Untitled',
+        meta: {
+            ...meta,
+            narrativeGoal: meta.narrativeGoal || meta.title || '',
+            title: meta.title || deck.topic || 'Untitled',
+            knowledgeSheet: (meta.knowledgeSheet || []).map((fact: any) => ({
+                ...fact,
+                id: String(fact.id ?? ''),
+                category: fact.category || 'General',
+                confidence: VALID_CONFIDENCE.has(fact.confidence) ? fact.confidence : 'medium'
+            })),
+            slides: (meta.slides || []).map((s: any, idx: number) => ({
+                ...s,
+                order: s.order ?? idx + 1,
+                type: VALID_SLIDE_TYPES.has(s.type) ? s.type : SLIDE_TYPES.CONTENT
+            }))
+        },
+        slides: (deck.slides || []).map((slide: any, idx: number) => ({
+            ...slide,
+            order: slide.order ?? idx + 1,
+            type: VALID_SLIDE_TYPES.has(slide.type) ? slide.type : SLIDE_TYPES.CONTENT,
+            purpose: slide.purpose ?? '',
+            speakerNotesLines: Array.isArray(slide.speakerNotesLines) ? slide.speakerNotesLines : [],
+            visualReasoning: slide.visualReasoning ?? '',
+            visualPrompt: slide.visualPrompt ?? '',
+            readabilityCheck: ['pass', 'warning', 'fail'].includes(slide.readabilityCheck) ? slide.readabilityCheck : 'pass',
+            routerConfig: slide.routerConfig ? {
+                renderMode: 'standard',
+                layoutIntent: '',
+                visualFocus: '',
+                ...slide.routerConfig,
+                densityBudget: { maxChars: 500, maxItems: 5, minVisuals: 0, ...(slide.routerConfig.densityBudget || {}) }
+            } : undefined
+        })),
+        metrics: {
+            totalDurationMs: 0, retries: 0, fallbackSlides: 0, visualAlignmentFirstPassSuccess: 0,
+            totalVisualDesignAttempts: 0, rerouteCount: 0, visualCritiqueAttempts: 0, visualRepairSuccess: 0,
+            ...(deck.metrics || {})
+        }
+    };
+}
+
+/**
+ * Move inline data-URL images out of slides into a de-duplicated asset table.
+ */
+function extractAssets(deck: any): { deck: any; assets: Record<string, ProjectAsset> } {
+    const assets: Record<string, ProjectAsset> = {};
+    const idsByData = new Map<string, string>();
+
+    const slides = deck.slides.map((slide: any) => {
+        const url: string | undefined = slide.backgroundImageUrl;
+        if (!url || !url.startsWith('data:')) return slide;
+
+        let id = idsByData.get(url);
+        if (!id) {
+            // De-duplication is by full data URL (idsByData); a hash collision between different images gets its own id
+            const base = `bg-${assetHash(url)}`;
+            id = base;
+            for (let n = 2; assets[id]; n++) id = `${base}-${n}`;
+            idsByData.set(url, id);
+            assets[id] = {
+                id,
+                kind: 'background-image',
+                mimeType: url.slice(5, url.indexOf(';')) || 'image/png',
+                data: url,
+                slideOrder: slide.order
+            };
+        }
+        return { ...slide, backgroundImageUrl: `${PROJECT_ASSET_REF_PREFIX}${id}` };
+    });
+
+    return { deck: { ...deck, slides }, assets };
+}
+
+function resolveAssets(deck: any, assets: Record<string, ProjectAsset>): EditableSlideDeck {
+    const slides = deck.slides.map((slide: any) => {
+        const url: string | undefined = slide.backgroundImageUrl;
+        if (!url || !url.startsWith(PROJECT_ASSET_REF_PREFIX)) return slide;
+
+        const asset = assets[url.slice(PROJECT_ASSET_REF_PREFIX.length)];
+        if (!asset) {
+            console.warn(`[PROJECT] Missing asset ${url} on slide ${slide.order}, dropping background`);
+            return { ...slide, backgroundImageUrl: undefined };
+        }
+        return { ...slide, backgroundImageUrl: asset.data };
+    });
+    return { ...deck, slides } as EditableSlideDeck;
+}
+
+// FNV-1a over the whole payload: stable ids that change with any byte of the image
+function assetHash(data: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < data.length; i++) {
+        hash ^= data.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `${(hash >>> 0).toString(16)}${data.length.toString(16)}`;
+}
+
+const formatIssues = (error: { issues: Array<{ path: (string | number)[]; message: string }> }) =>
+    error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Build a validated project file for a deck.
+ * @throws ProjectFileError if the deck does not satisfy the project schema
+ */
+export function createProjectFile(deck: EditableSlideDeck, options: SaveProjectOptions = {}): ProjectFile {
+    const { deck: storedDeck, assets } = extractAssets(normalizeDeck(deck));
+
+    const result = ProjectFileSchema.safeParse({
+        format: PROJECT_FILE_FORMAT,
+        version: PROJECT_FILE_VERSION,
+        savedAt: new Date().toISOString(),
+        generation: { styleMode: options.styleMode },
+        deck: storedDeck,
+        assets
+    });
+
+    if (!result.success) {
+        throw new ProjectFileError('Deck cannot be saved as a project:', formatIssues((result as any).error));
+    }
+    return result.data;
+}
+
+export function serializeProject(deck: EditableSlideDeck, options: SaveProjectOptions = {}): string {
+    return JSON.stringify(createProjectFile(deck, options), null, 2);
+}
+
+/**
+ * Parse, migrate and validate project JSON, returning a ready-to-edit deck.
+ * @throws ProjectFileError on malformed JSON, unknown format or schema violations
+ */
+export function parseProjectFile(text: string): OpenedProject {
+    let raw: any;
+    try {
+        raw = JSON.parse(text);
+    } catch (e: any) {
+        throw new ProjectFileError(`Project file is not valid JSON: ${e.message}`);
+    }
+
+    const { project, migratedFrom } = migrateProject(raw);
+
+    const result = ProjectFileSchema.safeParse(project);
+    if (!result.success) {
+        throw new ProjectFileError('Project file failed validation:', formatIssues((result as any).error));
+    }
+
+    return {
+        deck: resolveAssets(result.data.deck, result.data.assets),
+        project: result.data,
+        migratedFrom
+    };
+}
+
+export function getProjectFileName(deck: EditableSlideDeck): string {
+    return `InfographIQ-${deck.meta.title}${PROJECT_FILE_EXTENSION}`;
+}
@@ -1,4 +1,4 @@
-
+import type { AudienceProfile, BrandKit, JargonTolerance } from "../types/slideTypes";
 
 // --- PROMPT REGISTRY ---
 // "Program-like" prompts that define specific Contracts for the Agents.
@@ -12,6 +12,53 @@ const DISTILLED_AESTHETICS_PROMPT = `
   </visual_constitution>
 `;
 
+// --- AUDIENCE BRIEF (types/slideTypes.ts AudienceProfile) ---
+// Each agent gets the part of the profile it can act on.
+
+const JARGON_RULES: Record<JargonTolerance, string> = {
+  none: 'Plain language only. No acronyms or field terms; explain ideas with everyday words.',
+  low: 'Common business terms are fine. Define any technical term the first time it appears.',
+  medium: 'Field terms are fine. Spell out each acronym once.',
+  high: 'Full technical vocabulary. Do not define standard terms.'
+};
+
+const audienceBrief = (audience: AudienceProfile | undefined, agent: 'architect' | 'router' | 'planner'): string => {
+  if (!audience) return '';
+  const lines = [`AUDIENCE: ${audience.label}${audience.tone ? ` (tone: ${audience.tone})` : ''}`];
+  if (agent === 'architect') {
+    lines.push(`- Order the story for what this audience decides or needs to learn.`);
+    lines.push(`- The conclusion slide asks for: "${audience.callToAction}".`);
+  } else if (agent === 'router') {
+    lines.push(audience.jargonTolerance === 'high'
+      ? `- This audience reads detail: diagrams, tables and dense grids are welcome.`
+      : `- This audience skims: prefer one focal visual or a few metrics over dense grids.`);
+  } else {
+    lines.push(`- Write at a US grade ${audience.readingLevel} reading level: ${audience.readingLevel <= 9 ? 'short sentences, short words' : audience.readingLevel <= 12 ? 'plain sentences, specific words' : 'precise, technical sentences are fine'}.`);
+    lines.push(`- ${JARGON_RULES[audience.jargonTolerance]}`);
+  }
+  return lines.join('\n      ');
+};
+
+// --- BRAND KIT BRIEF (services/brand/brandKit.ts) ---
+// The kit's palette and fonts replace the agent's own choices afterwards; the
+// brief keeps motifs, textures and background prompts consistent with them.
+
+const brandBrief = (kit: BrandKit | undefined, agent: 'architect' | 'composer'): string => {
+  if (!kit) return '';
+  const colors = kit.colors.map(c => `${c.hex} (${c.role}${c.name ? `, ${c.name}` : ''})`).join(', ');
+  const lines = [`BRAND KIT: "${kit.name}" is locked. Use ONLY these colours: ${colors}.`];
+  if (agent === 'architect') {
+    lines.push(`- colorPalette takes its values from the colours above, by role; fontFamilyTitle "${kit.fonts.title}", fontFamilyBody "${kit.fonts.body}".`);
+    if (kit.allowedCardStyles?.length) lines.push(`- styleDNA.cardStyle is one of: ${kit.allowedCardStyles.join(', ')}.`);
+    if (kit.bannedDecorations?.length) lines.push(`- surpriseCues never use: ${kit.bannedDecorations.join(', ')}.`);
+  } else {
+    lines.push(`- color_harmony primary, accent and background_tone are hex values from this list.`);
+    lines.push(`- Describe gradients and glows in these colours only. No logos: the brand logo is on the slide master.`);
+  }
+  // The architect task is indented; the composer task is not
+  return lines.join(agent === 'architect' ? '\n      ' : '\n');
+};
+
 export const PROMPTS = {
   RESEARCHER: {
     ROLE: "Lead Technical Researcher",
@@ -31,6 +78,8 @@ export const PROMPTS = {
 
   ARCHITECT: {
     ROLE: "Principal System Architect",
+    AUDIENCE: (audience?: AudienceProfile) => audienceBrief(audience, 'architect'),
+    BRAND_KIT: (kit?: BrandKit) => brandBrief(kit, 'architect'),
     TASK: (topic: string, factsContext: string) => `
       ROLE: Principal System Architect.
       GOAL: Structure a slide deck about "${topic}".
@@ -66,7 +115,8 @@ export const PROMPTS = {
     ROLE: "Lead Visual Designer",
     // Phase 3: Router now accepts constraints for circuit breaker rerouting
     // Phase 4: StyleMode integration for layout filtering
-    TASK: (slideMeta: any, constraints?: { avoidLayoutVariants?: string[]; styleMode?: 'corporate' | 'professional' | 'serendipitous' }) => {
+    // Audience profile: skimming audiences get fewer dense layouts
+    TASK: (slideMeta: any, constraints?: { avoidLayoutVariants?: string[]; styleMode?: 'corporate' | 'professional' | 'serendipitous'; audience?: AudienceProfile }) => {
       // Style-specific layout guidance
       const STYLE_LAYOUT_HINTS: Record<string, string> = {
         corporate: `
@@ -92,6 +142,7 @@ export const PROMPTS = {
       LAYOUT VARIANTS: 'standard-vertical', 'split-left-text', 'split-right-text', 'hero-centered', 'bento-grid', 'timeline-horizontal', 'dashboard-tiles', 'metrics-rail', 'asymmetric-grid'.
       ${constraints?.avoidLayoutVariants?.length ? `AVOID THESE LAYOUTS (they failed validation): ${constraints.avoidLayoutVariants.join(', ')}` : ''}
       ${styleHint}
+      ${audienceBrief(constraints?.audience, 'router')}
       DECISION: 1. Intro/Conclusion -> 'hero-centered'. 2. Comparison -> 'split-*' or 'metrics-rail'. 3. Multi-item -> 'bento-grid' or 'dashboard-tiles'. 4. Asymmetric storytelling -> 'asymmetric-grid'.
     `;
     },
@@ -104,7 +155,9 @@ export const PROMPTS = {
     // Phase 1: Content Planner now receives recentHistory for narrative arc awareness
     // Phase 2: Added density constraints to prevent overflow
     // Phase 4: StyleMode integration for content density guidance
-    TASK: (title: string, purpose: string, facts: string, recentHistory?: Array<{ title: string, mainPoint: string }>, densityHint?: { maxBullets?: number; maxCharsPerBullet?: number; styleMode?: 'corporate' | 'professional' | 'serendipitous' }) => {
+    // Audience profile: reading level and jargon tolerance
+    // User outline: the author's points for this slide, kept in order
+    TASK: (title: string, purpose: string, facts: string, recentHistory?: Array<{ title: string, mainPoint: string }>, densityHint?: { maxBullets?: number; maxCharsPerBullet?: number; styleMode?: 'corporate' | 'professional' | 'serendipitous'; audience?: AudienceProfile }, contentHints?: string[]) => {
       // Style-specific content guidance
       const STYLE_CONTENT_HINTS: Record<string, string> = {
         corporate: `
@@ -133,13 +186,16 @@ export const PROMPTS = {
         PURPOSE: ${purpose}
         ${recentHistory?.length ? `NARRATIVE SO FAR: ${recentHistory.map(h => h.title + ': ' + h.mainPoint).join('; ')}` : ''}
         FACTS: ${facts}
+        ${contentHints?.length ? `AUTHOR'S OUTLINE FOR THIS SLIDE (cover these points in this order; tighten wording, support them with the facts): ${contentHints.map(h => `"${h}"`).join('; ')}` : ''}
         ${styleHint}
+        ${audienceBrief(densityHint?.audience, 'planner')}
         
         CONSTRAINTS:
         - Extract ONLY the key facts needed.
         - Create a list of 'keyPoints' (strings). MAXIMUM ${densityHint?.maxBullets || 3} items.
         - Each keyPoint must be UNDER ${densityHint?.maxCharsPerBullet || 80} characters. Be concise!
         - If numbers exist, extract 'dataPoints' ({label, value}). Max 3 items.
+        - If the slide compares 2-4 options on the same attributes (A vs B vs C, plans, vendors, feature support), extract 'tableSpec' ({headers, rows}): headers = ["<attribute>", option names...], one row per attribute, max 6 rows. Use ✓ / ✗ for supported / not supported.
         - NO VISUALS. NO LAYOUT. TEXT ONLY.
         - Build on the narrative so far - avoid repeating what was already covered.
         - BREVITY IS KEY: Slides have limited space. Prioritize impact over completeness.
@@ -167,6 +223,7 @@ SLIDE CONTEXT:
 - Layout Variant: ${context.layoutVariant}
 ${context.styleDNA ? `- Style DNA: ${JSON.stringify(context.styleDNA)}` : ''}
 ${typeof context.variationBudget === 'number' ? `- Variation Budget: ${context.variationBudget} (0=conservative, 1=bold)` : ''}
+${context.brandKit ? brandBrief(context.brandKit, 'composer') : ''}
 
 BACKGROUND DESIGN REQUIREMENTS:
 
@@ -303,7 +360,7 @@ OUTPUT: Return JSON with:
       ═══════════════════════════════════════════════════════════════════════════
       BELIEF ANCHOR: COMPONENT TYPES (STRICT ENUM - NO VARIATIONS)
       ═══════════════════════════════════════════════════════════════════════════
-      The "type" field MUST be EXACTLY one of these 6 strings (case-sensitive):
+      The "type" field MUST be EXACTLY one of these 7 strings (case-sensitive):
       
       ┌─────────────────┬──────────────────────────────────────────────────────┐
       │ "text-bullets"  │ Lists, key points, standard text content             │
@@ -311,7 +368,8 @@ OUTPUT: Return JSON with:
       │ "process-flow"  │ Sequential steps, workflows, timelines              │
       │ "icon-grid"     │ Features, benefits, categories (3-5 items)          │
       │ "chart-frame"   │ Bar, pie, line, or doughnut charts                  │
-      │ "diagram-svg"   │ Circular ecosystems, closed-loop systems            │
+      │ "data-table"    │ Comparisons, feature matrices (A vs B vs C)         │
+      │ "diagram-svg"   │ Timelines, org trees, cycles, funnels, 2×2s, Venns  │
       └─────────────────┴──────────────────────────────────────────────────────┘
       
       ⛔ FORBIDDEN TYPE PATTERNS (will cause validation failure):
@@ -324,11 +382,28 @@ OUTPUT: Return JSON with:
       ❌ WRONG: {"type": "text-bullets-1-1-1", ...}
       
       diagram-svg usage rules:
-        * Use when visualFocus suggests: "ecosystem", "cycle", "integration", "closed-loop", "sovereignty", "interconnected"
-        * Diagram type: circular-ecosystem (center theme + outer ring of 3-8 elements)
-        * Each element needs: id, label (max 30 chars), optional icon
+        * Use when visualFocus suggests a structure: "ecosystem", "cycle", "timeline", "hierarchy", "funnel", "tiers", "trade-off", "overlap"
+        * diagramType MUST be one of:
+          - circular-ecosystem: center theme + outer ring (3-8 elements)
+          - timeline: milestones in order, detail = date (3-8)
+          - hierarchy: org chart / tree, parentId = parent element's id (3-8)
+          - cycle: closed loop of stages, centralTheme in the middle (3-8)
+          - funnel: narrowing stages, widest first, detail = count or rate (3-6)
+          - pyramid: tiers, apex first (3-6)
+          - matrix-2x2: exactly 4 quadrants (top-left, top-right, bottom-left, bottom-right) + axisLabels {x, y}
+          - venn: 2-3 sets, centralTheme = what they share
+          - hub-spoke: central hub + spokes (3-8)
+        * Each element needs: id, label (max 30 chars); optional detail (max 40 chars), parentId, icon
         * Best in split layouts (split-left-text or split-right-text) in visual zones
 
+      data-table usage rules:
+        * Use when CONTENT_PLAN has a tableSpec, or the slide compares options on the same attributes
+        * headers: first column names the attribute, then one column per option (2-6 columns)
+        * rows: one array of strings per attribute, one cell per header (max 6 rows on a slide)
+        * Feature matrices: use "✓" / "✗" cells, never "Yes"/"No" sentences
+        * Optional: columnAlign (["left","center","right"] per column), highlightRows (row indices, e.g. the recommended option's row), highlightCells ([{"row":0,"col":2}])
+        * Keep cells short (≤25 chars); a table replaces bullets, do not repeat its content in text-bullets
+
       Text limits (STRICTLY ENFORCED):
       - Slide title: ≤60 characters
       - Bullet line: ≤80 characters (reduce to fit)
@@ -344,7 +419,8 @@ OUTPUT: Return JSON with:
       - metrics array: max 3 items
       - steps array: max 4 items
       - items array: max 5 items
-      - elements array (diagram-svg): min 3, max 8 items
+      - elements array (diagram-svg): min 3, max 8 items (venn 2-3, matrix-2x2 exactly 4, funnel/pyramid max 6)
+      - rows array (data-table): max 6 rows, max 6 columns
 
       Component minimums (to avoid empty arrays):
       - metric-cards: metrics array MUST have 2–3 items. NEVER output empty metrics:[].
@@ -454,7 +530,7 @@ ${svgProxy}
 
 LEGEND:
 - Zone purpose codes: H=hero, S=secondary, A=accent
-- Component codes: TB=text-bullets, MC=metric-cards, PF=process-flow, IG=icon-grid, CF=chart-frame
+- Component codes: TB=text-bullets, MC=metric-cards, PF=process-flow, IG=icon-grid, CF=chart-frame, DT=data-table
 
 CRITICAL: Evaluate the layout against the LAYOUT EXPECTATIONS above. Some visual patterns (like asymmetry in split layouts) are intentional, not errors.
 
@@ -503,6 +579,28 @@ REPAIR RULES:
 
 OUTPUT: Complete repaired layoutPlan JSON (same schema as original).
 Only output the JSON, no explanation.
+`
+  },
+
+  // --- DECK TRANSLATION (services/translation/deckTranslator.ts) ---
+
+  TRANSLATOR: {
+    ROLE: `Presentation Translator. You localize slide text for native speakers and keep it as short as the original.`,
+
+    TASK: (languageName: string, segmentsJson: string) => `
+Translate every segment into ${languageName}.
+
+SEGMENTS (id, text, optional maxChars):
+${segmentsJson}
+
+RULES:
+1. Keep every placeholder like ⟦0⟧ exactly as written, once each. They stand for numbers, footnote markers and URLs.
+2. Do not add, remove or spell out numbers.
+3. Stay within maxChars when given (CJK characters count double). Prefer a shorter natural phrasing over a literal one.
+4. Keep product, company and person names as they are.
+5. Slide titles and labels stay headline-style; speaker notes stay full sentences.
+
+OUTPUT: {"translations": [{"id": "...", "text": "..."}]} with one entry per segment id.
 `
   }
 };
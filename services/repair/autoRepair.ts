@@ -1,4 +1,4 @@
-import { GlobalStyleGuide, SlideNode } from "../../types/slideTypes";
+import { DIAGRAM_ELEMENT_LIMITS, DIAGRAM_TYPES, DiagramType, GlobalStyleGuide, SlideNode } from "../../types/slideTypes";
 
 // --- DETERMINISTIC AUTO-REPAIR ---
 
@@ -82,6 +82,17 @@ const COMPONENT_TYPE_MAP: Record<string, string> = {
     'line_chart': 'chart-frame',
     'linechart': 'chart-frame',
 
+    // Table components -> data-table
+    'table': 'data-table',
+    'data_table': 'data-table',
+    'datatable': 'data-table',
+    'comparison-table': 'data-table',
+    'comparison_table': 'data-table',
+    'comparison': 'data-table',
+    'feature-matrix': 'data-table',
+    'feature_matrix': 'data-table',
+    'featurematrix': 'data-table',
+
     // Diagram components -> diagram-svg
     'diagram': 'diagram-svg',
     'infographic': 'diagram-svg',
@@ -98,7 +109,24 @@ const COMPONENT_TYPE_MAP: Record<string, string> = {
     'ecosystem': 'diagram-svg'
 };
 
-const SUPPORTED_COMPONENT_TYPES = ['text-bullets', 'metric-cards', 'process-flow', 'icon-grid', 'chart-frame', 'diagram-svg'];
+const SUPPORTED_COMPONENT_TYPES = ['text-bullets', 'metric-cards', 'process-flow', 'icon-grid', 'chart-frame', 'data-table', 'diagram-svg'];
+
+/**
+ * Map a diagram type the model invented (or an older name) onto the closest
+ * type diagramBuilder can draw.
+ */
+function mapDiagramType(diagramType: string): DiagramType {
+    const lowerType = diagramType.toLowerCase();
+    if (/funnel/.test(lowerType)) return 'funnel';
+    if (/timeline|roadmap|flow|sequence|process/.test(lowerType)) return 'timeline';
+    if (/matrix|quadrant|2x2|2×2/.test(lowerType)) return 'matrix-2x2';
+    if (/pyramid|layer|stack|tier/.test(lowerType)) return 'pyramid';
+    if (/hierarch|tree|org/.test(lowerType)) return 'hierarchy';
+    if (/venn|overlap/.test(lowerType)) return 'venn';
+    if (/hub|radial|spoke|star/.test(lowerType)) return 'hub-spoke';
+    if (/cycle|loop|flywheel/.test(lowerType)) return 'cycle';
+    return 'circular-ecosystem'; // Safe default
+}
 
 /**
  * EARLY TOKEN LOOP DETECTION
@@ -689,7 +717,7 @@ export function autoRepairSlide(slide: SlideNode, styleGuide?: GlobalStyleGuide)
         if (directMapped) return directMapped;
 
         // Extract first recognizable type from noisy/concatenated strings
-        const priority = ['text-bullets', 'metric-cards', 'process-flow', 'icon-grid', 'chart-frame', 'diagram-svg'];
+        const priority = ['text-bullets', 'metric-cards', 'process-flow', 'icon-grid', 'chart-frame', 'data-table', 'diagram-svg'];
         for (const type of priority) {
             if (lower.includes(type)) return type;
         }
@@ -846,8 +874,8 @@ export function autoRepairSlide(slide: SlideNode, styleGuide?: GlobalStyleGuide)
         const maxComponents = layoutComponentCaps[layoutVariant] ?? 2;
         if (componentList.length > maxComponents) {
             const priorityOrder = layoutVariant === 'bento-grid'
-                ? ['metric-cards', 'icon-grid', 'chart-frame', 'text-bullets', 'process-flow', 'diagram-svg']
-                : ['text-bullets', 'chart-frame', 'metric-cards', 'process-flow', 'icon-grid', 'diagram-svg'];
+                ? ['metric-cards', 'icon-grid', 'chart-frame', 'data-table', 'text-bullets', 'process-flow', 'diagram-svg']
+                : ['text-bullets', 'chart-frame', 'data-table', 'metric-cards', 'process-flow', 'icon-grid', 'diagram-svg'];
 
             const priorityRank = (type: string) => {
                 const idx = priorityOrder.indexOf(type);
@@ -1307,11 +1335,73 @@ export function autoRepairSlide(slide: SlideNode, styleGuide?: GlobalStyleGuide)
             }
         }
 
+        if (c.type === 'data-table') {
+            const cellText = (v: any) => v === undefined || v === null ? '' : typeof v === 'object' ? String(v.text ?? v.value ?? v.label ?? '') : String(v);
+            let headers: string[] = Array.isArray(c.headers) ? c.headers.map(cellText) : [];
+            // Rows sometimes arrive as objects keyed by header (or without headers at all)
+            const rawRows: any[] = Array.isArray(c.rows) ? c.rows : [];
+            if (headers.length === 0) {
+                const firstObject = rawRows.find(r => r && typeof r === 'object' && !Array.isArray(r));
+                headers = firstObject ? Object.keys(firstObject) : [];
+            }
+            let rows: string[][] = rawRows.map(row => Array.isArray(row)
+                ? row.map(cellText)
+                : row && typeof row === 'object' ? headers.map(h => cellText(row[h])) : [cellText(row)]);
+            rows = rows.filter(row => row.some(cell => cell.trim()));
+            if (headers.length === 0 && rows.length > 0) {
+                headers = rows.shift()!;
+            }
+
+            if (headers.length === 0 || rows.length === 0) {
+                console.warn(`[AUTO-REPAIR] data-table has no ${headers.length === 0 ? 'headers' : 'rows'}, converting to text-bullets`);
+                c.type = 'text-bullets';
+                c.content = rows.length > 0 ? rows.map(row => row.filter(Boolean).join(' – ')) : [...headers];
+                if (c.content.length === 0) c.content = ['Comparison details'];
+                delete c.headers;
+                delete c.rows;
+                delete c.columnAlign;
+                delete c.highlightRows;
+                delete c.highlightCells;
+                addWarning('Converted data-table to text-bullets: no table data');
+                return;
+            }
+
+            if (headers.length > 6) {
+                headers = headers.slice(0, 6);
+                addWarning('Trimmed data-table to 6 columns');
+            }
+            if (rows.length > 12) {
+                rows = rows.slice(0, 12);
+                addWarning('Trimmed data-table to 12 rows');
+            }
+            // Every row gets exactly one cell per header
+            c.headers = headers;
+            c.rows = rows.map(row => headers.map((_, col) => (row[col] || '').trim()));
+
+            if (Array.isArray(c.columnAlign)) {
+                c.columnAlign = c.columnAlign
+                    .slice(0, headers.length)
+                    .map((a: any) => ['left', 'center', 'right'].includes(String(a).toLowerCase()) ? String(a).toLowerCase() : 'left');
+            } else {
+                delete c.columnAlign;
+            }
+            if (Array.isArray(c.highlightRows)) {
+                c.highlightRows = c.highlightRows.filter((r: any) => Number.isInteger(r) && r >= 0 && r < c.rows.length);
+            } else {
+                delete c.highlightRows;
+            }
+            if (Array.isArray(c.highlightCells)) {
+                c.highlightCells = c.highlightCells.filter((cell: any) =>
+                    cell && Number.isInteger(cell.row) && Number.isInteger(cell.col) &&
+                    cell.row >= 0 && cell.row < c.rows.length && cell.col >= 0 && cell.col < headers.length);
+            } else {
+                delete c.highlightCells;
+            }
+        }
+
         // Handle diagram-svg component validation
         if (c.type === 'diagram-svg') {
-            // Supported diagram types
-            const SUPPORTED_DIAGRAM_TYPES = ['circular-ecosystem', 'layered-stack', 'radial-hub', 'flow-sequence', 'hierarchy-tree', 'venn-overlap'];
-            
+
             // Validate diagramType exists and is supported
             if (!c.diagramType || typeof c.diagramType !== 'string') {
                 console.warn(`[AUTO-REPAIR] diagram-svg missing diagramType, inferring from context`);
@@ -1323,30 +1413,35 @@ export function autoRepairSlide(slide: SlideNode, styleGuide?: GlobalStyleGuide)
                 const elements = c.elements || [];
                 
                 // Extended keyword matching with synonyms
-                if (/layer|stack|tier|level|foundation|architecture|infra/i.test(combined)) {
-                    c.diagramType = 'layered-stack';
-                } else if (/ecosystem|cycle|circular|loop|continuous|recurring|lifecycle/i.test(combined)) {
+                if (/funnel|conversion|pipeline stage|drop-?off/i.test(combined)) {
+                    c.diagramType = 'funnel';
+                } else if (/timeline|roadmap|milestone|history|chronolog|phase/i.test(combined)) {
+                    c.diagramType = 'timeline';
+                } else if (/2x2|2×2|quadrant|matrix/i.test(combined)) {
+                    c.diagramType = 'matrix-2x2';
+                } else if (/pyramid|layer|stack|tier|level|foundation|maslow/i.test(combined)) {
+                    c.diagramType = 'pyramid';
+                } else if (/cycle|loop|continuous|recurring|lifecycle|flywheel/i.test(combined)) {
+                    c.diagramType = 'cycle';
+                } else if (/ecosystem|circular/i.test(combined)) {
                     c.diagramType = 'circular-ecosystem';
                 } else if (/hub|radial|spoke|central|core|satellite|orbit/i.test(combined)) {
-                    c.diagramType = 'radial-hub';
-                } else if (/flow|process|sequence|step|pipeline|workflow|journey/i.test(combined)) {
-                    c.diagramType = 'flow-sequence';
+                    c.diagramType = 'hub-spoke';
                 } else if (/hierarch|tree|org|structure|taxonomy|parent|child/i.test(combined)) {
-                    c.diagramType = 'hierarchy-tree';
+                    c.diagramType = 'hierarchy';
                 } else if (/venn|overlap|intersection|common|shared|union/i.test(combined)) {
-                    c.diagramType = 'venn-overlap';
+                    c.diagramType = 'venn';
+                } else if (/flow|process|sequence|step|workflow|journey/i.test(combined)) {
+                    c.diagramType = 'timeline';
                 } else if (/impact|effect|quantif|metric|data|stat|result/i.test(combined)) {
-                    // NEW: Data/metrics topics → radial-hub works well
-                    c.diagramType = 'radial-hub';
+                    // Data/metrics topics → hub-spoke works well
+                    c.diagramType = 'hub-spoke';
                 } else if (/future|vision|conclusion|summary|era|evolution/i.test(combined)) {
-                    // NEW: Forward-looking topics → circular ecosystem
+                    // Forward-looking topics → circular ecosystem
                     c.diagramType = 'circular-ecosystem';
-                } else if (elements.length >= 3 && elements.length <= 5) {
-                    // Default based on element count - 3-5 elements = radial hub
-                    c.diagramType = 'radial-hub';
-                } else if (elements.length > 5) {
-                    // Many elements = layered stack
-                    c.diagramType = 'layered-stack';
+                } else if (elements.length >= 3) {
+                    // Default based on element count
+                    c.diagramType = elements.length <= 5 ? 'hub-spoke' : 'circular-ecosystem';
                 } else {
                     // Ultimate fallback - convert to text-bullets instead of breaking
                     console.warn(`[AUTO-REPAIR] Cannot infer diagram type from "${combined.slice(0, 50)}", converting to text-bullets`);
@@ -1373,22 +1468,9 @@ export function autoRepairSlide(slide: SlideNode, styleGuide?: GlobalStyleGuide)
             }
             
             // Validate diagramType is in supported list
-            if (!SUPPORTED_DIAGRAM_TYPES.includes(c.diagramType)) {
+            if (!(DIAGRAM_TYPES as readonly string[]).includes(c.diagramType)) {
                 console.warn(`[AUTO-REPAIR] Unsupported diagramType "${c.diagramType}", mapping to closest match`);
-                
-                const lowerType = c.diagramType.toLowerCase();
-                if (lowerType.includes('circular') || lowerType.includes('ecosystem') || lowerType.includes('cycle')) {
-                    c.diagramType = 'circular-ecosystem';
-                } else if (lowerType.includes('layer') || lowerType.includes('stack')) {
-                    c.diagramType = 'layered-stack';
-                } else if (lowerType.includes('hub') || lowerType.includes('radial')) {
-                    c.diagramType = 'radial-hub';
-                } else if (lowerType.includes('flow') || lowerType.includes('sequence')) {
-                    c.diagramType = 'flow-sequence';
-                } else {
-                    c.diagramType = 'circular-ecosystem'; // Safe default
-                }
-                
+                c.diagramType = mapDiagramType(c.diagramType);
                 addWarning(`Mapped unsupported diagramType to: ${c.diagramType}`);
             }
             
@@ -1410,12 +1492,27 @@ export function autoRepairSlide(slide: SlideNode, styleGuide?: GlobalStyleGuide)
                 if (!el || typeof el !== 'object') {
                     return { id: `element-${idx}`, label: `Element ${idx + 1}` };
                 }
+                const detail = el.detail ?? el.date ?? el.value ?? el.year;
                 return {
                     id: el.id || `element-${idx}`,
                     label: truncateText(String(el.label || el.title || el.name || `Element ${idx + 1}`), 40, 'diagram element'),
-                    description: el.description ? truncateText(String(el.description), 80, 'diagram description') : undefined
+                    description: el.description ? truncateText(String(el.description), 80, 'diagram description') : undefined,
+                    detail: detail !== undefined && detail !== null && detail !== '' ? truncateText(String(detail), 40, 'diagram detail') : undefined,
+                    parentId: el.parentId || el.parent || undefined
                 };
-            }).slice(0, 8); // Cap at 8 elements for visual clarity
+            });
+
+            // Fit the element count to what the diagram type can lay out
+            const limits = DIAGRAM_ELEMENT_LIMITS[c.diagramType as DiagramType];
+            if (c.elements.length > limits.max) {
+                c.elements = c.elements.slice(0, limits.max);
+                addWarning(`Trimmed ${c.diagramType} diagram to ${limits.max} elements`);
+            } else if (c.elements.length < limits.min) {
+                const fallback: DiagramType = c.elements.length >= 3 ? 'hub-spoke' : 'venn';
+                addWarning(`Switched ${c.diagramType} diagram with ${c.elements.length} elements to ${fallback}`);
+                c.diagramType = fallback;
+                c.elements = c.elements.slice(0, DIAGRAM_ELEMENT_LIMITS[fallback].max);
+            }
             
             // Ensure centralTheme exists
             if (!c.centralTheme) {
@@ -0,0 +1,31 @@
+/**
+ * LLM Fixture Store (Node.js only)
+ *
+ * File-backed storage for llmReplay.ts. One JSON file per request fingerprint:
+ *   <fixtureDir>/<channel>-<fingerprint>.json
+ *
+ * IMPORTANT: Uses node:fs and is only loaded via dynamic import from llmReplay.ts,
+ * so it never ends up in the browser bundle.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { LlmFixture } from './llmReplay';
+
+function fixturePath(fixtureDir: string, channel: string, fingerprint: string): string {
+    return path.resolve(fixtureDir, `${channel}-${fingerprint}.json`);
+}
+
+export async function readFixture(fixtureDir: string, channel: string, fingerprint: string): Promise<LlmFixture | null> {
+    try {
+        return JSON.parse(await readFile(fixturePath(fixtureDir, channel, fingerprint), 'utf8'));
+    } catch (err: any) {
+        if (err.code === 'ENOENT') return null;
+        throw new Error(`Failed to read LLM fixture ${channel}-${fingerprint}: ${err.message}`);
+    }
+}
+
+export async function writeFixture(fixtureDir: string, fixture: LlmFixture): Promise<void> {
+    await mkdir(path.resolve(fixtureDir), { recursive: true });
+    await writeFile(fixturePath(fixtureDir, fixture.channel, fixture.fingerprint), JSON.stringify(fixture, null, 2));
+}
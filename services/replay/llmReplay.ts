@@ -0,0 +1,296 @@
+/**
+ * LLM Record / Replay
+ *
+ * Deterministic offline runs of the agent pipeline for regression testing.
+ * Every outbound model call (Gemini Interactions API, Gemini image generation,
+ * Qwen text fallback, Qwen-VL critique) and every HTTP search-provider request
+ * goes through withLlmReplay():
+ *
+ * - off     Call the provider directly (default)
+ * - record  Call the provider and store the response under the request fingerprint
+ * - replay  Serve stored responses; a request without a fixture fails loudly
+ *
+ * Configure with LLM_REPLAY_MODE=record|replay and LLM_FIXTURE_DIR=<dir>
+ * (default: fixtures/llm), or programmatically via configureLlmReplay().
+ *
+ * Fingerprints are a hash of the channel, the URL without credentials and the
+ * canonical request body. Inline images (data URLs) are excluded because the
+ * rasterized slide PNGs depend on locally installed fonts; identical requests
+ * are served in the order they were recorded.
+ *
+ * Record/replay needs the filesystem, so it is Node.js only (CLI, tests, CI).
+ */
+
+export type LlmReplayMode = 'off' | 'record' | 'replay';
+
+/** Provider endpoint family; part of the fingerprint and the fixture file name. */
+export type LlmReplayChannel = 'gemini' | 'gemini-image' | 'qwen' | 'qwen-vl' | 'qwen-proxy' | 'search';
+
+export interface LlmReplayConfig {
+    mode: LlmReplayMode;
+    fixtureDir: string;
+}
+
+export interface LlmFixtureEntry {
+    recordedAt: string;
+    result?: any;
+    error?: { name: string; message: string; status?: number };
+}
+
+export interface LlmFixture {
+    fingerprint: string;
+    channel: LlmReplayChannel;
+    /** Canonical request (inline data stripped), kept for debugging fixture misses */
+    request: any;
+    /** One entry per call with this fingerprint, in call order */
+    entries: LlmFixtureEntry[];
+}
+
+/** Recorded HTTP response, as stored for replayableFetch() */
+interface RecordedHttpResponse {
+    status: number;
+    contentType: string;
+    body: string;
+}
+
+export class LlmReplayMissError extends Error {
+    constructor(public channel: LlmReplayChannel, public fingerprint: string, fixtureDir: string) {
+        super(`[LLM REPLAY] No fixture for ${channel} request ${fingerprint} in ${fixtureDir}. Re-record with LLM_REPLAY_MODE=record.`);
+        this.name = 'LlmReplayMissError';
+    }
+}
+
+export const DEFAULT_LLM_FIXTURE_DIR = 'fixtures/llm';
+
+const INLINE_DATA_PLACEHOLDER = '<inline-data>';
+
+let activeConfig: LlmReplayConfig | null = null;
+const callCounts = new Map<string, number>();
+const fixtureCache = new Map<string, Promise<LlmFixture | null>>();
+const recordings = new Map<string, LlmFixture>();
+const fileWrites = new Map<string, Promise<void>>();
+const replayMisses: LlmReplayMissError[] = [];
+
+const readEnv = (name: string): string | undefined =>
+    typeof process !== 'undefined' ? process.env?.[name] : undefined;
+
+/**
+ * Override the environment configuration (tests, CLI flags). Resets call ordering.
+ */
+export function configureLlmReplay(config: Partial<LlmReplayConfig> & { mode: LlmReplayMode }): void {
+    activeConfig = { fixtureDir: DEFAULT_LLM_FIXTURE_DIR, ...config };
+    callCounts.clear();
+    fixtureCache.clear();
+    recordings.clear();
+    fileWrites.clear();
+    replayMisses.length = 0;
+    if (activeConfig.mode !== 'off') {
+        console.log(`[LLM REPLAY] Mode: ${activeConfig.mode} (fixtures: ${activeConfig.fixtureDir})`);
+    }
+}
+
+export function getLlmReplayConfig(): LlmReplayConfig {
+    if (!activeConfig) {
+        const envMode = (readEnv('LLM_REPLAY_MODE') || 'off').toLowerCase();
+        let mode: LlmReplayMode = envMode === 'record' || envMode === 'replay' ? envMode : 'off';
+        if (envMode !== mode) {
+            console.warn(`[LLM REPLAY] Unknown LLM_REPLAY_MODE "${envMode}", expected record or replay. Replay disabled.`);
+        }
+        if (mode !== 'off' && typeof window !== 'undefined') {
+            console.warn('[LLM REPLAY] Record/replay requires Node.js. Replay disabled in the browser.');
+            mode = 'off';
+        }
+        configureLlmReplay({ mode, fixtureDir: readEnv('LLM_FIXTURE_DIR') || DEFAULT_LLM_FIXTURE_DIR });
+    }
+    return activeConfig!;
+}
+
+/**
+ * Fixture misses since the last configureLlmReplay(). The pipeline recovers from
+ * failed calls with fallbacks, so callers must check this to fail a replayed run.
+ */
+export function getLlmReplayMisses(): LlmReplayMissError[] {
+    return [...replayMisses];
+}
+
+/** True when responses come from fixtures, i.e. no provider credentials are needed. */
+export function isLlmReplayActive(): boolean {
+    return getLlmReplayConfig().mode === 'replay';
+}
+
+// ============================================================================
+// FINGERPRINTING
+// ============================================================================
+
+function canonicalize(value: any): any {
+    if (typeof value === 'string') {
+        return /^data:[^;,]+;base64,/.test(value) ? INLINE_DATA_PLACEHOLDER : value;
+    }
+    if (Array.isArray(value)) return value.map(canonicalize);
+    if (value && typeof value === 'object') {
+        const sorted: Record<string, any> = {};
+        for (const key of Object.keys(value).sort()) {
+            if (value[key] !== undefined) sorted[key] = canonicalize(value[key]);
+        }
+        return sorted;
+    }
+    return value;
+}
+
+// cyrb53-style 64-bit string hash (no crypto dependency, same result in Node and browser)
+export function hash64(text: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (h2 >>> 0).toString(16).padStart(8, '0') + (h1 >>> 0).toString(16).padStart(8, '0');
+}
+
+export function fingerprintLlmRequest(channel: LlmReplayChannel, request: any): string {
+    return hash64(`${channel}\n${JSON.stringify(canonicalize(request))}`);
+}
+
+/** Drop credentials from provider URLs (?key=...) before they reach fingerprints or fixtures. */
+function stripCredentials(url: string): string {
+    return url.replace(/([?&])key=[^&]*(&?)/, (_, lead, trail) => (trail ? lead : '')).replace(/[?&]$/, '');
+}
+
+// ============================================================================
+// RECORD / REPLAY
+// ============================================================================
+
+async function loadFixture(config: LlmReplayConfig, channel: LlmReplayChannel, fingerprint: string): Promise<LlmFixture | null> {
+    const cacheKey = `${channel}-${fingerprint}`;
+    if (!fixtureCache.has(cacheKey)) {
+        fixtureCache.set(cacheKey, import('./fixtureStore').then(store => store.readFixture(config.fixtureDir, channel, fingerprint)));
+    }
+    return fixtureCache.get(cacheKey)!;
+}
+
+// Writes to one fixture file are chained so concurrent identical calls don't clobber each other
+function saveFixture(config: LlmReplayConfig, fixture: LlmFixture): Promise<void> {
+    const cacheKey = `${fixture.channel}-${fixture.fingerprint}`;
+    const previous = fileWrites.get(cacheKey) || Promise.resolve();
+    const next = previous.then(async () => {
+        const { writeFixture } = await import('./fixtureStore');
+        await writeFixture(config.fixtureDir, fixture);
+    });
+    fileWrites.set(cacheKey, next.catch(() => undefined));
+    return next;
+}
+
+function toReplayError(error: NonNullable<LlmFixtureEntry['error']>): Error {
+    const err: any = new Error(error.message);
+    err.name = error.name;
+    if (error.status !== undefined) err.status = error.status;
+    return err;
+}
+
+/**
+ * Run a provider call through the record/replay layer.
+ * `request` must describe everything that determines the response;
+ * `execute` must resolve to JSON-serializable data.
+ */
+export async function withLlmReplay<T>(
+    channel: LlmReplayChannel,
+    request: any,
+    execute: () => Promise<T>
+): Promise<T> {
+    const config = getLlmReplayConfig();
+    if (config.mode === 'off') return execute();
+
+    const fingerprint = fingerprintLlmRequest(channel, request);
+    const callKey = `${channel}-${fingerprint}`;
+    const callIndex = callCounts.get(callKey) || 0;
+    callCounts.set(callKey, callIndex + 1);
+
+    if (config.mode === 'replay') {
+        const fixture = await loadFixture(config, channel, fingerprint);
+        if (!fixture || fixture.entries.length === 0) {
+            const miss = new LlmReplayMissError(channel, fingerprint, config.fixtureDir);
+            replayMisses.push(miss);
+            throw miss;
+        }
+        if (callIndex >= fixture.entries.length) {
+            console.warn(`[LLM REPLAY] ${channel} ${fingerprint} called ${callIndex + 1}x, recorded ${fixture.entries.length}x. Reusing last response.`);
+        }
+        const entry = fixture.entries[Math.min(callIndex, fixture.entries.length - 1)];
+        if (entry.error) throw toReplayError(entry.error);
+        return entry.result as T;
+    }
+
+    // --- RECORD ---
+    // Fixtures are rebuilt from scratch per run, so re-recording never leaves stale entries behind
+    let fixture = recordings.get(callKey);
+    if (!fixture) {
+        fixture = { fingerprint, channel, request: canonicalize(request), entries: [] };
+        recordings.set(callKey, fixture);
+    }
+
+    let entry: LlmFixtureEntry;
+    let result: T | undefined;
+    let thrown: any;
+    try {
+        result = await execute();
+        entry = { recordedAt: new Date().toISOString(), result: JSON.parse(JSON.stringify(result ?? null)) };
+    } catch (err: any) {
+        thrown = err;
+        entry = {
+            recordedAt: new Date().toISOString(),
+            error: { name: err?.name || 'Error', message: err?.message || String(err), status: err?.status }
+        };
+    }
+
+    fixture.entries[callIndex] = entry;
+    // Concurrent identical calls can finish out of order; the slot of a still-pending
+    // call is filled provisionally and overwritten when that call completes
+    for (let i = 0; i < fixture.entries.length; i++) {
+        fixture.entries[i] = fixture.entries[i] || entry;
+    }
+    await saveFixture(config, fixture);
+    console.log(`[LLM REPLAY] Recorded ${channel} ${fingerprint} #${callIndex + 1}`);
+
+    if (thrown) throw thrown;
+    return result as T;
+}
+
+/**
+ * Drop-in replacement for fetch() on provider endpoints.
+ * In record/replay mode the response body is buffered and replayed as a new Response.
+ */
+export async function replayableFetch(
+    channel: LlmReplayChannel,
+    url: string,
+    init: RequestInit = {}
+): Promise<Response> {
+    if (getLlmReplayConfig().mode === 'off') return fetch(url, init);
+
+    let body: any = init.body;
+    if (typeof body === 'string') {
+        try {
+            body = JSON.parse(body);
+        } catch {
+            // Non-JSON payloads are fingerprinted as-is
+        }
+    }
+    const request = { url: stripCredentials(url), method: init.method || 'GET', body };
+
+    const recorded = await withLlmReplay<RecordedHttpResponse>(channel, request, async () => {
+        const response = await fetch(url, init);
+        return {
+            status: response.status,
+            contentType: response.headers.get('content-type') || 'application/json',
+            body: await response.text()
+        };
+    });
+
+    return new Response(recorded.status === 204 ? null : recorded.body, {
+        status: recorded.status,
+        headers: { 'Content-Type': recorded.contentType }
+    });
+}
@@ -0,0 +1,225 @@
+/**
+ * Fact Corroboration
+ *
+ * The researcher's `confidence` is whatever the model said. This stage replaces
+ * it with one computed from the sources: claims that say the same thing are
+ * grouped (same metric words, same figure), merged into one fact, and scored by
+ * how many distinct sources agree:
+ * - high    two or more distinct sources (URL hosts, document files, publishers)
+ * - medium  one source
+ * - low     no source, or the losing side of a contradiction
+ *
+ * Two claims about the same metric with different figures (two market sizes for
+ * the same year) are a contradiction: both get `corroboration.conflictsWith`,
+ * and the side with fewer distinct sources (both sides on a tie) drops to low.
+ * Facts from imported data tables (id "data-…") and facts added during research
+ * review (id "fact-user-…") are our own and keep their confidence.
+ *
+ * Deterministic and offline: word overlap plus the numeric claim parser from
+ * validators.ts, no model calls.
+ */
+
+import type { ResearchFact } from '../../types/slideTypes';
+import { extractNumericClaims, findUntraceableClaims, type NumericClaim } from '../validators';
+
+export interface FactConflict {
+    /** Words the conflicting claims share, e.g. "warehouse robotics market" */
+    metric: string;
+    facts: { id: string; figure: string; sources: string[] }[];
+}
+
+export interface CorroborationReport {
+    facts: ResearchFact[];
+    /** Facts folded into an equivalent claim */
+    merged: number;
+    conflicts: FactConflict[];
+}
+
+const STOPWORDS = new Set([
+    'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'than', 'over', 'are', 'was', 'were', 'has', 'have',
+    'had', 'will', 'its', 'their', 'about', 'around', 'approximately', 'nearly', 'almost', 'more', 'less', 'by', 'per',
+    'percent', 'million', 'billion', 'trillion', 'thousand', 'usd', 'according', 'reached', 'reach', 'expected', 'is'
+]);
+
+// Share of the shorter claim's words the other claim must contain to be "the same metric"
+const SAME_METRIC_OVERLAP = 0.6;
+// Claims without figures must overlap almost completely to count as equivalent
+const SAME_TEXT_OVERLAP = 0.8;
+// Figures within 2% agree (rounding); further apart they contradict
+const FIGURE_TOLERANCE = 0.02;
+
+interface ClaimProfile {
+    fact: ResearchFact;
+    words: Set<string>;
+    figures: NumericClaim[];
+    years: Set<number>;
+    sourceKey?: string;
+}
+
+/** One key per independent source: URL host, document file name, or publisher text. */
+export function sourceKey(source?: string): string | undefined {
+    const text = (source || '').trim();
+    if (!text) return undefined;
+    if (/^https?:\/\//i.test(text)) {
+        try {
+            return new URL(text).hostname.replace(/^www\./, '').toLowerCase();
+        } catch {
+            // Fall through to plain text
+        }
+    }
+    // Document sources cite "<file>, p. <n>" or "<file>, § <heading>"
+    return text.split(/,\s*(?:p\.|§)/)[0].trim().toLowerCase();
+}
+
+function profileClaim(fact: ResearchFact): ClaimProfile {
+    const text = `${fact.claim || ''} ${fact.value || ''}`;
+    const claims = extractNumericClaims(text);
+    const words = new Set(
+        (fact.claim || '').toLowerCase()
+            .replace(/[$€£¥]?\d[\d,.]*\s?%?/g, ' ')
+            .split(/[^\p{L}]+/u)
+            .filter(w => w.length > 2 && !STOPWORDS.has(w))
+            .map(w => w.length > 4 && w.endsWith('s') ? w.slice(0, -1) : w)
+    );
+    return {
+        fact,
+        words,
+        figures: claims.filter(c => c.kind !== 'year'),
+        years: new Set(claims.filter(c => c.kind === 'year').map(c => c.value)),
+        sourceKey: sourceKey(fact.source)
+    };
+}
+
+function sameMetric(a: ClaimProfile, b: ClaimProfile): boolean {
+    const smaller = Math.min(a.words.size, b.words.size);
+    if (smaller < 2) return false;
+    // 2023 and 2030 figures are different metrics, not a contradiction
+    if (a.years.size > 0 && b.years.size > 0 && ![...a.years].some(y => b.years.has(y))) return false;
+    return overlap(a, b) >= SAME_METRIC_OVERLAP;
+}
+
+function overlap(a: ClaimProfile, b: ClaimProfile): number {
+    const shared = [...a.words].filter(w => b.words.has(w)).length;
+    return shared / Math.max(1, Math.min(a.words.size, b.words.size));
+}
+
+const comparableKinds = (a: NumericClaim, b: NumericClaim) => a.kind === b.kind || a.kind === 'number' || b.kind === 'number';
+
+function figuresAgree(a: ClaimProfile, b: ClaimProfile): boolean {
+    return a.figures.some(fa => b.figures.some(fb =>
+        comparableKinds(fa, fb) && Math.abs(fa.value - fb.value) <= Math.max(Math.abs(fa.value), Math.abs(fb.value)) * FIGURE_TOLERANCE
+    ));
+}
+
+function isEquivalent(a: ClaimProfile, b: ClaimProfile): boolean {
+    if (!sameMetric(a, b)) return false;
+    if (a.figures.length === 0 && b.figures.length === 0) return overlap(a, b) >= SAME_TEXT_OVERLAP;
+    return a.figures.length > 0 && b.figures.length > 0 && figuresAgree(a, b);
+}
+
+function isContradiction(a: ClaimProfile, b: ClaimProfile): boolean {
+    return sameMetric(a, b) && a.figures.length > 0 && b.figures.length > 0 && !figuresAgree(a, b) &&
+        a.figures.some(fa => b.figures.some(fb => fa.kind === fb.kind));
+}
+
+const isOwnFact = (fact: ResearchFact) => /^(data|fact-user)-/.test(fact.id || '');
+
+/**
+ * Group equivalent claims, score each group by its distinct sources and flag
+ * contradicting figures. Returns one fact per group, in first-seen order.
+ */
+export function corroborateFacts(facts: ResearchFact[]): CorroborationReport {
+    const profiles = facts.filter(f => f && f.claim).map(profileClaim);
+
+    // Union-find over equivalent claims
+    const parent = profiles.map((_, i) => i);
+    const root = (i: number): number => parent[i] === i ? i : (parent[i] = root(parent[i]));
+    for (let i = 0; i < profiles.length; i++) {
+        for (let j = i + 1; j < profiles.length; j++) {
+            if (isEquivalent(profiles[i], profiles[j])) parent[root(j)] = root(i);
+        }
+    }
+    const groups = new Map<number, ClaimProfile[]>();
+    profiles.forEach((p, i) => groups.set(root(i), [...(groups.get(root(i)) || []), p]));
+
+    const entries = [...groups.values()].map(members => {
+        // The first sourced claim speaks for the group
+        const lead = members.find(m => m.sourceKey) || members[0];
+        // Sources merged by an earlier pass (Director re-research) still count
+        const sources = new Map<string, string>();
+        members.forEach(m => [m.fact.source, ...(m.fact.corroboration?.sources || [])].forEach(source => {
+            const key = sourceKey(source);
+            if (key && !sources.has(key)) sources.set(key, source!.trim());
+        }));
+        return { lead, members, sources: [...sources.values()], conflictsWith: new Set<string>() };
+    });
+
+    // Contradictions between groups: the side with fewer distinct sources loses
+    const conflicts: FactConflict[] = [];
+    const losers = new Set<number>();
+    for (let i = 0; i < entries.length; i++) {
+        for (let j = i + 1; j < entries.length; j++) {
+            const a = entries[i], b = entries[j];
+            if (!a.members.some(ma => b.members.some(mb => isContradiction(ma, mb)))) continue;
+            a.conflictsWith.add(b.lead.fact.id);
+            b.conflictsWith.add(a.lead.fact.id);
+            if (a.sources.length <= b.sources.length) losers.add(i);
+            if (b.sources.length <= a.sources.length) losers.add(j);
+            conflicts.push({
+                metric: [...a.lead.words].filter(w => b.lead.words.has(w)).join(' '),
+                facts: [a, b].map(e => ({ id: e.lead.fact.id, figure: e.lead.figures[0]?.text || e.lead.fact.value || '', sources: e.sources }))
+            });
+        }
+    }
+
+    const corroborated = entries.map((entry, i): ResearchFact => {
+        const fact = entry.lead.fact;
+        const confidence: ResearchFact['confidence'] = isOwnFact(fact) ? fact.confidence
+            : losers.has(i) || entry.sources.length === 0 ? 'low'
+            : entry.sources.length >= 2 ? 'high'
+            : 'medium';
+        return {
+            ...fact,
+            confidence,
+            corroboration: {
+                sources: entry.sources,
+                ...(entry.conflictsWith.size > 0 ? { conflictsWith: [...entry.conflictsWith] } : {})
+            }
+        };
+    });
+
+    const merged = profiles.length - entries.length;
+    const low = corroborated.filter(f => f.confidence === 'low').length;
+    console.log(`[CORROBORATION] ${profiles.length} facts → ${entries.length} claims (${merged} merged), ${conflicts.length} conflict(s), ${low} low confidence`);
+    conflicts.forEach(c => console.warn(`[CORROBORATION] Conflicting figures for "${c.metric}": ${c.facts.map(f => `${f.figure} (${f.sources.length} source(s))`).join(' vs ')}`));
+
+    return { facts: corroborated, merged, conflicts };
+}
+
+// ============================================================================
+// KEEPING LOW-CONFIDENCE FACTS OFF HEADLINE SPOTS
+// ============================================================================
+
+/** Facts fit for hero slides (title, opening, closing): everything but low confidence. */
+export function withoutLowConfidence(facts: ResearchFact[]): ResearchFact[] {
+    return facts.filter(f => f.confidence !== 'low');
+}
+
+/**
+ * Drop content-plan data points (the metric-card candidates) whose figures only
+ * low-confidence facts support. Figures no fact states are left to the numeric
+ * traceability guard.
+ */
+export function dropLowConfidenceDataPoints<T extends { dataPoints?: any[] }>(plan: T, facts: ResearchFact[]): { plan: T; dropped: string[] } {
+    const trusted = withoutLowConfidence(facts);
+    if (!plan?.dataPoints?.length || trusted.length === facts.length) return { plan, dropped: [] };
+
+    const dropped: string[] = [];
+    const dataPoints = plan.dataPoints.filter(dp => {
+        const source = [{ location: 'metric', text: `${dp?.value ?? ''} ${dp?.label ?? ''}` }];
+        const onlyLow = findUntraceableClaims(source, trusted).length > 0 && findUntraceableClaims(source, facts).length === 0;
+        if (onlyLow) dropped.push(String(dp?.value ?? ''));
+        return !onlyLow;
+    });
+    return { plan: { ...plan, dataPoints }, dropped };
+}
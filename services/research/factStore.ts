@@ -0,0 +1,164 @@
+/**
+ * Research Fact Store
+ *
+ * Cross-run cache for research results, so regenerating the same deck (or the
+ * same slide's targeted re-research) reuses the facts found last time instead
+ * of researching from scratch. Entries are keyed by the normalized deck topic,
+ * the normalized query and the search provider, and expire after a TTL.
+ *
+ * Backends:
+ * - file       one JSON file per key under RESEARCH_CACHE_DIR (Node.js default: .cache/research)
+ * - indexeddb  the browser's IndexedDB (browser default)
+ * - memory     process lifetime only (tests)
+ *
+ * Configure with RESEARCH_CACHE=off to disable, RESEARCH_CACHE_TTL_HOURS
+ * (default 168, one week), or programmatically via configureFactStore().
+ * Record/replay runs (services/replay) bypass the cache so fixtures stay complete.
+ * Cache failures are logged and treated as misses; they never fail a run.
+ */
+
+import type { ResearchFact } from '../../types/slideTypes';
+import { getLlmReplayConfig, hash64 } from '../replay/llmReplay';
+import { IndexedDbFactStoreBackend } from './indexedDbFactStore';
+
+export interface FactStoreKey {
+    /** Deck topic the research belongs to */
+    topic: string;
+    /** Query actually researched (the topic itself for the initial research) */
+    query: string;
+    /** Search provider name, or "model" when the model answers from its own knowledge */
+    provider: string;
+}
+
+export interface FactStoreEntry extends FactStoreKey {
+    key: string;
+    facts: ResearchFact[];
+    storedAt: string;
+    expiresAt: string;
+}
+
+export interface FactStoreBackend {
+    readonly name: string;
+    read(key: string): Promise<FactStoreEntry | null>;
+    write(entry: FactStoreEntry): Promise<void>;
+    remove(key: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+export const DEFAULT_RESEARCH_CACHE_DIR = '.cache/research';
+export const DEFAULT_RESEARCH_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const readEnv = (name: string): string | undefined =>
+    typeof process !== 'undefined' ? process.env?.[name] : undefined;
+
+/** Lower-case, punctuation-free, single-spaced: "AI in Logistics!" and "ai in logistics" share an entry. */
+export function normalizeResearchText(text: string): string {
+    return (text || '').toLowerCase().replace(/[^\p{L}\p{N}%$€£.]+/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+export function factStoreKey(key: FactStoreKey): string {
+    return hash64(`${key.provider}\n${normalizeResearchText(key.topic)}\n${normalizeResearchText(key.query)}`);
+}
+
+// ============================================================================
+// BACKENDS
+// ============================================================================
+
+export class MemoryFactStoreBackend implements FactStoreBackend {
+    readonly name = 'memory';
+    private entries = new Map<string, FactStoreEntry>();
+
+    async read(key: string) { return this.entries.get(key) || null; }
+    async write(entry: FactStoreEntry) { this.entries.set(entry.key, entry); }
+    async remove(key: string) { this.entries.delete(key); }
+    async clear() { this.entries.clear(); }
+}
+
+/** Node.js only; node:fs is loaded lazily from fileFactStore.ts so it never reaches the browser bundle. */
+export class FileFactStoreBackend implements FactStoreBackend {
+    readonly name = 'file';
+    constructor(private dir: string = DEFAULT_RESEARCH_CACHE_DIR) { }
+
+    async read(key: string) { return (await import('./fileFactStore')).readEntry(this.dir, key); }
+    async write(entry: FactStoreEntry) { return (await import('./fileFactStore')).writeEntry(this.dir, entry); }
+    async remove(key: string) { return (await import('./fileFactStore')).removeEntry(this.dir, key); }
+    async clear() { return (await import('./fileFactStore')).clearEntries(this.dir); }
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export class FactStore {
+    constructor(public readonly backend: FactStoreBackend, public readonly ttlMs: number = DEFAULT_RESEARCH_TTL_MS) { }
+
+    /** Cached facts for the key, or null when missing or expired (expired entries are removed). */
+    async get(key: FactStoreKey, now: number = Date.now()): Promise<FactStoreEntry | null> {
+        const id = factStoreKey(key);
+        try {
+            const entry = await this.backend.read(id);
+            if (!entry) return null;
+            if (Date.parse(entry.expiresAt) <= now) {
+                await this.backend.remove(id);
+                return null;
+            }
+            return entry;
+        } catch (e: any) {
+            console.warn(`[FACT STORE] Read failed (${this.backend.name}): ${e.message}`);
+            return null;
+        }
+    }
+
+    async put(key: FactStoreKey, facts: ResearchFact[], now: number = Date.now()): Promise<FactStoreEntry> {
+        const entry: FactStoreEntry = {
+            ...key,
+            key: factStoreKey(key),
+            facts,
+            storedAt: new Date(now).toISOString(),
+            expiresAt: new Date(now + this.ttlMs).toISOString()
+        };
+        try {
+            await this.backend.write(entry);
+        } catch (e: any) {
+            console.warn(`[FACT STORE] Write failed (${this.backend.name}): ${e.message}`);
+        }
+        return entry;
+    }
+
+    async clear(): Promise<void> {
+        await this.backend.clear();
+    }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+let activeStore: FactStore | null | undefined;
+
+/**
+ * Override the environment configuration (tests, CLI flags). Pass null to
+ * disable the cache.
+ */
+export function configureFactStore(store: FactStore | null): void {
+    activeStore = store;
+    console.log(store ? `[FACT STORE] Backend: ${store.backend.name} (TTL ${Math.round(store.ttlMs / 3600000)}h)` : '[FACT STORE] Research cache disabled');
+}
+
+function createDefaultFactStore(): FactStore | null {
+    if ((readEnv('RESEARCH_CACHE') || '').toLowerCase() === 'off') return null;
+    const ttlHours = Number(readEnv('RESEARCH_CACHE_TTL_HOURS'));
+    const ttlMs = Number.isFinite(ttlHours) && ttlHours > 0 ? ttlHours * 3600000 : DEFAULT_RESEARCH_TTL_MS;
+
+    if (typeof window !== 'undefined') {
+        return typeof indexedDB !== 'undefined' ? new FactStore(new IndexedDbFactStoreBackend(), ttlMs) : null;
+    }
+    return new FactStore(new FileFactStoreBackend(readEnv('RESEARCH_CACHE_DIR') || DEFAULT_RESEARCH_CACHE_DIR), ttlMs);
+}
+
+/** The configured store, or null when caching is off (including during LLM record/replay). */
+export function getFactStore(): FactStore | null {
+    if (getLlmReplayConfig().mode !== 'off') return null;
+    if (activeStore === undefined) activeStore = createDefaultFactStore();
+    return activeStore;
+}
@@ -0,0 +1,46 @@
+/**
+ * File Fact Store (Node.js only)
+ *
+ * File-backed storage for factStore.ts. One JSON file per key:
+ *   <cacheDir>/<key>.json
+ *
+ * IMPORTANT: Uses node:fs and is only loaded via dynamic import from factStore.ts,
+ * so it never ends up in the browser bundle.
+ */
+
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { FactStoreEntry } from './factStore';
+
+function entryPath(cacheDir: string, key: string): string {
+    return path.resolve(cacheDir, `${key}.json`);
+}
+
+export async function readEntry(cacheDir: string, key: string): Promise<FactStoreEntry | null> {
+    try {
+        return JSON.parse(await readFile(entryPath(cacheDir, key), 'utf8'));
+    } catch (err: any) {
+        if (err.code === 'ENOENT') return null;
+        throw new Error(`Failed to read research cache entry ${key}: ${err.message}`);
+    }
+}
+
+export async function writeEntry(cacheDir: string, entry: FactStoreEntry): Promise<void> {
+    await mkdir(path.resolve(cacheDir), { recursive: true });
+    await writeFile(entryPath(cacheDir, entry.key), JSON.stringify(entry, null, 2));
+}
+
+export async function removeEntry(cacheDir: string, key: string): Promise<void> {
+    await rm(entryPath(cacheDir, key), { force: true });
+}
+
+export async function clearEntries(cacheDir: string): Promise<void> {
+    let files: string[];
+    try {
+        files = await readdir(path.resolve(cacheDir));
+    } catch (err: any) {
+        if (err.code === 'ENOENT') return;
+        throw err;
+    }
+    await Promise.all(files.filter(f => f.endsWith('.json')).map(f => rm(path.resolve(cacheDir, f), { force: true })));
+}
@@ -0,0 +1,54 @@
+/**
+ * IndexedDB Fact Store (browser)
+ *
+ * Backend for factStore.ts in the builder UI: one object store keyed by the
+ * entry key. The database is opened on first use, so importing this module in
+ * Node is harmless.
+ */
+
+import type { FactStoreBackend, FactStoreEntry } from './factStore';
+
+const DB_NAME = 'infographiq-research';
+const STORE_NAME = 'facts';
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error || new Error('IndexedDB request failed'));
+    });
+}
+
+export class IndexedDbFactStoreBackend implements FactStoreBackend {
+    readonly name = 'indexeddb';
+    private db?: Promise<IDBDatabase>;
+
+    private open(): Promise<IDBDatabase> {
+        this.db ??= new Promise((resolve, reject) => {
+            const req = indexedDB.open(DB_NAME, 1);
+            req.onupgradeneeded = () => req.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error || new Error(`Could not open IndexedDB "${DB_NAME}"`));
+        });
+        return this.db;
+    }
+
+    private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+        return (await this.open()).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+    }
+
+    async read(key: string): Promise<FactStoreEntry | null> {
+        return (await request((await this.store('readonly')).get(key))) || null;
+    }
+
+    async write(entry: FactStoreEntry): Promise<void> {
+        await request((await this.store('readwrite')).put(entry));
+    }
+
+    async remove(key: string): Promise<void> {
+        await request((await this.store('readwrite')).delete(key));
+    }
+
+    async clear(): Promise<void> {
+        await request((await this.store('readwrite')).clear());
+    }
+}
@@ -0,0 +1,129 @@
+/**
+ * Research Review
+ *
+ * Optional human checkpoint between RESEARCH / ARCHITECT and per-slide planning.
+ * When GenerationOptions.reviewResearch (or DirectorOptions.reviewResearch) is
+ * set, both pipelines hand the knowledge sheet, fact clusters and outline to the
+ * handler and wait; planning resumes with whatever it returns. The builder UI
+ * resolves the handler from components/ResearchReviewPanel.tsx.
+ *
+ * Reviewers can delete, edit, reweight or add facts and reorder or retitle
+ * slides. The returned review is normalized before planning: references to
+ * deleted facts and clusters are dropped, slides are renumbered in their new
+ * order, and fact weights order every fact context (high first, low last).
+ */
+
+import type { FactCluster, FactWeight, OutlineSchema, ResearchFact } from '../../types/slideTypes';
+import { z } from 'zod';
+
+export type OutlineSlide = z.infer<typeof OutlineSchema>['slides'][number];
+
+export interface ResearchReview {
+    topic: string;
+    knowledgeSheet: ResearchFact[];
+    factClusters: FactCluster[];
+    outline: OutlineSlide[];
+}
+
+/** Resolve with the edited review to resume planning; reject with ResearchReviewCancelledError to stop. */
+export type ResearchReviewHandler = (review: ResearchReview) => Promise<ResearchReview>;
+
+export class ResearchReviewCancelledError extends Error {
+    constructor() {
+        super('Generation cancelled during research review');
+        this.name = 'ResearchReviewCancelledError';
+    }
+}
+
+export class ResearchReviewError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ResearchReviewError';
+    }
+}
+
+// Fewest slides a reviewer may leave (the Director's DeckBlueprintSchema needs 3)
+export const MIN_REVIEW_SLIDES = 3;
+
+export const FACT_WEIGHT_LABELS: Record<FactWeight, string> = {
+    high: 'Key fact',
+    normal: 'Normal',
+    low: 'Background'
+};
+
+const WEIGHT_RANK: Record<string, number> = { high: 0, normal: 1, low: 2 };
+
+/** High-weight facts first, low-weight last; order is otherwise kept. */
+export function orderFactsByWeight(facts: ResearchFact[]): ResearchFact[] {
+    return facts
+        .map((fact, index) => ({ fact, index }))
+        .sort((a, b) => (WEIGHT_RANK[a.fact.weight || 'normal'] - WEIGHT_RANK[b.fact.weight || 'normal']) || a.index - b.index)
+        .map(({ fact }) => fact);
+}
+
+/** Next free id for a fact added during review: fact-user-1, fact-user-2, ... */
+export function newReviewFactId(facts: ResearchFact[]): string {
+    const ids = new Set(facts.map(f => f.id));
+    let n = 1;
+    while (ids.has(`fact-user-${n}`)) n++;
+    return `fact-user-${n}`;
+}
+
+/**
+ * Clean up a reviewed knowledge sheet and outline so planning can trust it.
+ * Throws ResearchReviewError when fewer than MIN_REVIEW_SLIDES slides are left.
+ */
+export function normalizeResearchReview(review: ResearchReview): ResearchReview {
+    const knowledgeSheet: ResearchFact[] = [];
+    for (const fact of review.knowledgeSheet) {
+        const claim = (fact.claim || '').trim();
+        if (!claim) continue;
+        const id = fact.id && !knowledgeSheet.some(f => f.id === fact.id) ? fact.id : newReviewFactId([...review.knowledgeSheet, ...knowledgeSheet]);
+        knowledgeSheet.push({
+            ...fact,
+            id,
+            claim,
+            category: (fact.category || '').trim() || 'General',
+            value: fact.value?.trim() || undefined,
+            source: fact.source?.trim() || undefined
+        });
+    }
+
+    const factIds = new Set(knowledgeSheet.map(f => f.id));
+    const factClusters = review.factClusters
+        .map(cluster => ({ ...cluster, factIds: cluster.factIds.filter(id => factIds.has(id)) }))
+        .filter(cluster => cluster.factIds.length > 0);
+    const clusterIds = new Set(factClusters.map(c => c.id));
+
+    if (review.outline.length < MIN_REVIEW_SLIDES) {
+        throw new ResearchReviewError(`The outline needs at least ${MIN_REVIEW_SLIDES} slides (got ${review.outline.length}).`);
+    }
+    const outline = review.outline.map((slide, idx) => ({
+        ...slide,
+        order: idx + 1,
+        title: slide.title.trim() || `Slide ${idx + 1}`,
+        purpose: slide.purpose.trim() || 'Content',
+        relevantClusterIds: slide.relevantClusterIds?.filter(id => clusterIds.has(id)),
+        relevantFactIds: slide.relevantFactIds?.filter(id => factIds.has(id))
+    }));
+
+    return { topic: review.topic, knowledgeSheet, factClusters, outline };
+}
+
+/**
+ * Pause for review: emit the research and outline to the handler, then return
+ * the normalized result. Deep-copies the draft so the handler can edit freely.
+ */
+export async function runResearchReview(
+    handler: ResearchReviewHandler,
+    topic: string,
+    facts: ResearchFact[],
+    outline: OutlineSlide[],
+    factClusters: FactCluster[] = []
+): Promise<ResearchReview> {
+    const draft: ResearchReview = JSON.parse(JSON.stringify({ topic, knowledgeSheet: facts, factClusters, outline }));
+    console.log(`[REVIEW] Waiting for review: ${facts.length} facts, ${factClusters.length} clusters, ${outline.length} slides`);
+    const reviewed = normalizeResearchReview(await handler(draft));
+    console.log(`[REVIEW] Resuming with ${reviewed.knowledgeSheet.length} facts and ${reviewed.outline.length} slides`);
+    return reviewed;
+}
@@ -0,0 +1,113 @@
+/**
+ * HTTP Search Providers
+ *
+ * Adapters for self-hosted search services. Requests go through replayableFetch
+ * ("search" channel) so record/replay runs stay offline and deterministic.
+ */
+
+import { replayableFetch } from '../replay/llmReplay';
+import { DEFAULT_SEARCH_LIMIT, SearchOptions, SearchProvider, SearchResult, truncateSnippet } from './searchProvider';
+
+// Only the CLI reads the key: the browser bundle never receives it (see vite.config.ts)
+const readEnv = (name: string): string | undefined =>
+    typeof process !== 'undefined' ? process.env?.[name] : undefined;
+
+async function readJson(response: Response, provider: string): Promise<any> {
+    if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw new Error(`${provider} search failed: HTTP ${response.status} ${body.slice(0, 200)}`);
+    }
+    return response.json();
+}
+
+/**
+ * SearxNG metasearch (https://docs.searxng.org). The instance must list `json`
+ * under `search.formats` in settings.yml.
+ */
+export class SearxngSearchProvider implements SearchProvider {
+    readonly name = 'searxng';
+    private baseUrl: string;
+
+    constructor(baseUrl: string) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+    }
+
+    async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+        const limit = options.limit || DEFAULT_SEARCH_LIMIT;
+        const url = `${this.baseUrl}/search?q=${encodeURIComponent(query)}&format=json`;
+        const data = await readJson(await replayableFetch('search', url, { headers: { Accept: 'application/json' } }), this.name);
+
+        return (data.results || [])
+            .filter((r: any) => r.url)
+            .slice(0, limit)
+            .map((r: any) => ({
+                title: r.title || r.url,
+                url: r.url,
+                snippet: truncateSnippet(r.content || ''),
+                score: typeof r.score === 'number' ? r.score : undefined
+            }));
+    }
+}
+
+/**
+ * Elasticsearch / OpenSearch index of documents with `title`, `url` and a text
+ * field (`content`, `body` or `text`). `indexUrl` is the index endpoint, e.g.
+ * http://localhost:9200/research; credentials in the URL are sent as Basic auth.
+ * In the browser credentials would be visible to every visitor, so the adapter
+ * refuses them there: point the builder at a proxy that adds the credentials
+ * server-side instead.
+ */
+export class ElasticsearchSearchProvider implements SearchProvider {
+    readonly name = 'elasticsearch';
+    private indexUrl: string;
+    private headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    constructor(indexUrl: string, apiKey: string | undefined = readEnv('ELASTICSEARCH_API_KEY')) {
+        const parsed = new URL(indexUrl);
+        if (typeof window !== 'undefined' && (parsed.username || apiKey)) {
+            throw new Error('Elasticsearch credentials cannot be used in the browser. Point SEARCH_PROVIDER at a proxy that adds them, or search from the CLI.');
+        }
+        if (parsed.username) {
+            this.headers.Authorization = `Basic ${btoa(`${decodeURIComponent(parsed.username)}:${decodeURIComponent(parsed.password)}`)}`;
+            parsed.username = '';
+            parsed.password = '';
+        } else if (apiKey) {
+            this.headers.Authorization = `ApiKey ${apiKey}`;
+        }
+        this.indexUrl = parsed.toString().replace(/\/+$/, '');
+    }
+
+    async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+        const limit = options.limit || DEFAULT_SEARCH_LIMIT;
+        const body = {
+            size: limit,
+            query: {
+                multi_match: { query, fields: ['title^2', 'content', 'body', 'text'] }
+            },
+            highlight: {
+                fields: { content: {}, body: {}, text: {} },
+                fragment_size: 300,
+                number_of_fragments: 1
+            }
+        };
+        const response = await replayableFetch('search', `${this.indexUrl}/_search`, {
+            method: 'POST',
+            headers: this.headers,
+            body: JSON.stringify(body)
+        });
+        const data = await readJson(response, this.name);
+
+        return (data.hits?.hits || [])
+            .map((hit: any) => {
+                const source = hit._source || {};
+                const highlight = Object.values(hit.highlight || {}).flat()[0] as string | undefined;
+                return {
+                    title: source.title || source.url || hit._id,
+                    url: source.url || source.link || '',
+                    snippet: truncateSnippet(highlight || source.content || source.body || source.text || ''),
+                    score: hit._score
+                };
+            })
+            .filter((r: SearchResult) => r.url);
+    }
+}
@@ -0,0 +1,113 @@
+/**
+ * Local Index Search Provider
+ *
+ * Ranks a fixed set of documents in-process, for offline research against
+ * material we curate (internal reports, saved articles). Documents come from a
+ * JSON array, a `{ "documents": [...] }` object or JSONL, one document each:
+ *
+ *   { "title": "...", "url": "https://...", "content": "..." }
+ *
+ * Ranking is TF-IDF over title (weighted ×2) and content; the snippet is the
+ * window of content around the first matched term.
+ */
+
+import { DEFAULT_SEARCH_LIMIT, SearchOptions, SearchProvider, SearchResult, truncateSnippet, MAX_SNIPPET_CHARS } from './searchProvider';
+
+export interface LocalIndexDocument {
+    title: string;
+    url: string;
+    content: string;
+}
+
+interface IndexedDocument {
+    doc: LocalIndexDocument;
+    titleTerms: Map<string, number>;
+    contentTerms: Map<string, number>;
+}
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'were', 'has', 'have', 'its', 'into', 'than', 'what', 'how', 'why', 'about', 'latest', 'current']);
+
+function tokenize(text: string): string[] {
+    return (text || '').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(t => t.length > 1 && !STOP_WORDS.has(t));
+}
+
+function termCounts(text: string): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const term of tokenize(text)) counts.set(term, (counts.get(term) || 0) + 1);
+    return counts;
+}
+
+/** Parse index file contents (JSON array, { documents } object or JSONL). */
+export function parseLocalIndex(text: string): LocalIndexDocument[] {
+    const trimmed = text.trim();
+    let raw: any[];
+    try {
+        const parsed = JSON.parse(trimmed);
+        raw = Array.isArray(parsed) ? parsed : parsed.documents || [parsed];
+    } catch {
+        // JSONL: one document per line
+        raw = trimmed.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+    }
+    return raw
+        .filter(d => d && typeof d.url === 'string' && d.url)
+        .map(d => ({ title: String(d.title || d.url), url: d.url, content: String(d.content || d.body || d.text || '') }));
+}
+
+export class LocalIndexSearchProvider implements SearchProvider {
+    readonly name = 'local';
+    private index: Promise<IndexedDocument[]>;
+
+    constructor(documents: LocalIndexDocument[] | Promise<LocalIndexDocument[]>) {
+        this.index = Promise.resolve(documents).then(docs => docs.map(doc => ({
+            doc,
+            titleTerms: termCounts(doc.title),
+            contentTerms: termCounts(doc.content)
+        })));
+        // Surface load errors on first search, not as an unhandled rejection
+        this.index.catch(() => undefined);
+    }
+
+    /** Index loaded from a JSON/JSONL file (Node.js only). */
+    static fromFile(filePath: string): LocalIndexSearchProvider {
+        return new LocalIndexSearchProvider(
+            import('./localIndexStore').then(store => store.readLocalIndex(filePath))
+        );
+    }
+
+    async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+        const limit = options.limit || DEFAULT_SEARCH_LIMIT;
+        const index = await this.index;
+        const terms = [...new Set(tokenize(query))];
+        if (terms.length === 0 || index.length === 0) return [];
+
+        const idf = new Map(terms.map(term => {
+            const df = index.filter(d => d.titleTerms.has(term) || d.contentTerms.has(term)).length;
+            return [term, Math.log(1 + index.length / (df || 1))];
+        }));
+
+        return index
+            .map(entry => {
+                const score = terms.reduce((sum, term) =>
+                    sum + idf.get(term)! * (2 * (entry.titleTerms.get(term) || 0) + (entry.contentTerms.get(term) || 0)), 0);
+                return { entry, score };
+            })
+            .filter(r => r.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit)
+            .map(({ entry, score }) => ({
+                title: entry.doc.title,
+                url: entry.doc.url,
+                snippet: snippetAround(entry.doc.content, terms),
+                score: Math.round(score * 1000) / 1000
+            }));
+    }
+}
+
+function snippetAround(content: string, terms: string[]): string {
+    const lower = content.toLowerCase();
+    const hits = terms.map(term => lower.indexOf(term)).filter(i => i >= 0);
+    const first = hits.length > 0 ? Math.min(...hits) : 0;
+    const start = Math.max(0, first - Math.floor(MAX_SNIPPET_CHARS / 4));
+    const snippet = truncateSnippet(content.slice(start, start + MAX_SNIPPET_CHARS * 2));
+    return start > 0 ? `…${snippet}` : snippet;
+}
@@ -0,0 +1,25 @@
+/**
+ * Local Index Store (Node.js only)
+ *
+ * Reads a local search index file for LocalIndexSearchProvider.
+ *
+ * IMPORTANT: Uses node:fs and is only loaded via dynamic import from
+ * localIndexProvider.ts, so it never ends up in the browser bundle.
+ */
+
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { LocalIndexDocument, parseLocalIndex } from './localIndexProvider';
+
+export async function readLocalIndex(filePath: string): Promise<LocalIndexDocument[]> {
+    const resolved = path.resolve(filePath);
+    let text: string;
+    try {
+        text = await readFile(resolved, 'utf8');
+    } catch (err: any) {
+        throw new Error(`Search index not found: ${resolved} (${err.code || err.message})`);
+    }
+    const documents = parseLocalIndex(text);
+    console.log(`[SEARCH] Loaded ${documents.length} document(s) from ${resolved}`);
+    return documents;
+}
@@ -0,0 +1,119 @@
+/**
+ * Search Providers
+ *
+ * Backends for the researcher's web_search tool. With a provider configured the
+ * researcher searches through it and every fact's `source` is the URL of a result
+ * we returned, instead of whatever the model remembers.
+ *
+ * Adapters:
+ * - searxng        self-hosted SearxNG instance (JSON API)
+ * - elasticsearch  self-hosted Elasticsearch / OpenSearch index
+ * - local          JSON / JSONL file of documents, ranked in-process (Node.js only)
+ *
+ * Configure with SEARCH_PROVIDER=<kind>:<target>, e.g.
+ *   SEARCH_PROVIDER=searxng:http://localhost:8888
+ *   SEARCH_PROVIDER=elasticsearch:http://localhost:9200/research
+ *   SEARCH_PROVIDER=local:./research-index.json
+ * or programmatically via configureSearchProvider(). Without a provider the
+ * researcher answers from the model alone (previous behaviour).
+ */
+
+import { SearxngSearchProvider, ElasticsearchSearchProvider } from './httpSearchProviders';
+import { LocalIndexSearchProvider } from './localIndexProvider';
+
+export interface SearchResult {
+    title: string;
+    url: string;
+    snippet: string;
+    /** Provider relevance score, higher is better (scales differ per provider) */
+    score?: number;
+}
+
+export interface SearchOptions {
+    /** Maximum results to return (default: DEFAULT_SEARCH_LIMIT) */
+    limit?: number;
+}
+
+export interface SearchProvider {
+    /** Short identifier used in logs, e.g. "searxng" */
+    readonly name: string;
+    search(query: string, options?: SearchOptions): Promise<SearchResult[]>;
+}
+
+export type SearchProviderKind = 'searxng' | 'elasticsearch' | 'local';
+
+export interface SearchProviderSpec {
+    kind: SearchProviderKind;
+    /** Base URL (searxng), index URL (elasticsearch) or file path (local) */
+    target: string;
+}
+
+export const SEARCH_PROVIDER_KINDS: SearchProviderKind[] = ['searxng', 'elasticsearch', 'local'];
+
+export const DEFAULT_SEARCH_LIMIT = 8;
+
+// Snippets are shown to the model; keep them short enough for several results per call
+export const MAX_SNIPPET_CHARS = 320;
+
+export function truncateSnippet(text: string, max: number = MAX_SNIPPET_CHARS): string {
+    const clean = (text || '').replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+    return clean.length > max ? `${clean.slice(0, max - 1).trimEnd()}…` : clean;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Parse "<kind>:<target>" (e.g. "searxng:http://localhost:8888").
+ * Throws on an unknown kind or a missing target.
+ */
+export function parseSearchProviderSpec(spec: string): SearchProviderSpec {
+    const separator = spec.indexOf(':');
+    const kind = (separator > 0 ? spec.slice(0, separator) : spec).trim().toLowerCase() as SearchProviderKind;
+    const target = separator > 0 ? spec.slice(separator + 1).trim() : '';
+    if (!SEARCH_PROVIDER_KINDS.includes(kind)) {
+        throw new Error(`Unknown search provider "${kind}". Expected one of: ${SEARCH_PROVIDER_KINDS.join(', ')}.`);
+    }
+    if (!target) {
+        throw new Error(`Search provider "${kind}" needs a target, e.g. ${kind}:${kind === 'local' ? './index.json' : 'http://localhost:8888'}`);
+    }
+    return { kind, target };
+}
+
+export function createSearchProvider(spec: SearchProviderSpec): SearchProvider {
+    switch (spec.kind) {
+        case 'searxng':
+            return new SearxngSearchProvider(spec.target);
+        case 'elasticsearch':
+            return new ElasticsearchSearchProvider(spec.target);
+        case 'local':
+            return LocalIndexSearchProvider.fromFile(spec.target);
+    }
+}
+
+let activeProvider: SearchProvider | null | undefined;
+
+/**
+ * Override the environment configuration (tests, CLI flags). Pass null to
+ * disable search and fall back to the model's own knowledge.
+ */
+export function configureSearchProvider(provider: SearchProvider | null): void {
+    activeProvider = provider;
+    console.log(provider ? `[SEARCH] Provider: ${provider.name}` : '[SEARCH] No search provider configured');
+}
+
+export function getSearchProvider(): SearchProvider | null {
+    if (activeProvider === undefined) {
+        const spec = process.env.SEARCH_PROVIDER;
+        activeProvider = null;
+        if (spec) {
+            try {
+                configureSearchProvider(createSearchProvider(parseSearchProviderSpec(spec)));
+            } catch (e: any) {
+                console.warn(`[SEARCH] Ignoring SEARCH_PROVIDER: ${e.message}`);
+            }
+        }
+    }
+    return activeProvider;
+}
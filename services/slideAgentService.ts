@@ -24,23 +24,37 @@ import {
     // System 2 Visual Critique
     VISUAL_THRESHOLDS,
     // Style Mode System
-    StyleMode, StyleProfile, SlideArchetype, getStyleProfile, getVisualThresholdsForStyle,
+    StyleMode, StyleProfile, SlideArchetype, CitationStyle, getStyleProfile, getVisualThresholdsForStyle,
     isLayoutAllowedForStyle, getBulletsMax, getTitleMaxChars,
     // Archetype inference and risk-based validation
-    inferArchetype, shouldValidateSlide, ARCHETYPE_RISK, VisualThresholdsConfig
+    inferArchetype, shouldValidateSlide, ARCHETYPE_RISK, VisualThresholdsConfig,
+    // Audience profiles
+    AudienceProfile,
+    SlideSize,
+    BrandKit
 } from "../types/slideTypes";
 import {
     createJsonInteraction,
     CostTracker
 } from "./interactionsClient";
 import { PROMPTS } from "./promptRegistry";
-import { validateSlide, validateVisualLayoutAlignment, validateGeneratorCompliance, validateDeckCoherence, validateContentCompleteness, checkNoPlaceholderShippingGate } from "./validators";
+import { validateSlide, validateVisualLayoutAlignment, validateGeneratorCompliance, validateDeckCoherence, validateContentCompleteness, validateNumericTraceability, checkNoPlaceholderShippingGate, validateReadingLevel, validateBrandCompliance } from "./validators";
 import { runVisualDesigner, runVisualCritique, runLayoutRepair } from "./visualDesignAgent";
 import { SpatialLayoutEngine, createEnvironmentSnapshot } from "./spatialRenderer";
 import { autoRepairSlide } from "./repair/autoRepair";
-import { generateImageFromPrompt } from "./image/imageGeneration";
+import { looksLikeOutline, parseOutline, toOutlineSlides } from "./outline/outlineParser";
+import { generateImageFromPrompt, imageAspectRatioFor } from "./image/imageGeneration";
 import { generateSvgProxy } from "./visual/svgProxy";
-import { runResearcher } from "./agents/researcher";
+import { InfographicRenderer } from "./infographicRenderer";
+import { applyBrandKit } from "./brand/brandKit";
+import { applyTemplateStyleGuide } from "./import/templateImporter";
+import { buildSlideCitations, applyCitations } from "./citations/citationRenderer";
+import type { DocumentGrounding } from "./ingest/documentIngest";
+import type { DataTable } from "./data/tableImport";
+import { buildDataVisuals, assignDataVisuals, applyDataVisualToPlan, applyDataVisual, placeDataVisuals } from "./data/dataPlacement";
+import { dropLowConfidenceDataPoints, withoutLowConfidence } from "./research/corroboration";
+import { orderFactsByWeight, ResearchReviewCancelledError, runResearchReview, type ResearchReviewHandler } from "./review/researchReview";
+import { runGroundedResearch } from "./agents/researcher";
 import { runArchitect } from "./agents/architect";
 import { runRouter } from "./agents/router";
 import { runContentPlanner, ContentDensityHint, ContentPlanResult, StyleAwareContentHint } from "./agents/contentPlanner";
@@ -126,6 +140,9 @@ function ensureValidContentPlan(plan: any, meta: any): ContentPlanResult {
         narrative: typeof plan.narrative === 'string' ? plan.narrative : undefined,
         chartSpec: plan.chartSpec && typeof plan.chartSpec === 'object' && plan.chartSpec.type
             ? plan.chartSpec
+            : undefined,
+        tableSpec: plan.tableSpec && Array.isArray(plan.tableSpec.headers) && Array.isArray(plan.tableSpec.rows)
+            ? plan.tableSpec
             : undefined
     };
 }
@@ -146,6 +163,7 @@ const VALID_COMPONENT_TYPES = new Set([
     'process-flow',
     'icon-grid',
     'chart-frame',
+    'data-table',
     'diagram-svg'
 ]);
 
@@ -945,7 +963,7 @@ async function runRecursiveVisualCritique(
         );
 
         // Get spatial zones
-        const zones = renderer.getZonesForVariant(currentSlide.routerConfig?.layoutVariant || 'standard-vertical');
+        const zones = renderer.getZonesForVariant(currentSlide.routerConfig?.layoutVariant || 'standard-vertical', styleGuide.slideSize, styleGuide.template);
 
         currentSlide.environmentSnapshot = {
             elements,
@@ -1061,7 +1079,8 @@ async function runGenerator(
             keyPoints: contentPlan.keyPoints.filter((kp: any) => typeof kp === 'string' && kp.trim()),
             dataPoints: Array.isArray(contentPlan.dataPoints) ? contentPlan.dataPoints : [],
             narrative: contentPlan.narrative,
-            chartSpec: contentPlan.chartSpec
+            chartSpec: contentPlan.chartSpec,
+            tableSpec: contentPlan.tableSpec
         }
         : createSafeContentPlan(meta, 'generator-guard');
 
@@ -1176,6 +1195,7 @@ ${metricExample}
 process-flow: {"type":"process-flow","steps":[{"title":"Step 1","description":"Details","icon":"ArrowRight"}]}
 icon-grid: {"type":"icon-grid","items":[{"label":"Feature","icon":"Activity"}]}
 chart-frame: {"type":"chart-frame","title":"Chart","chartType":"bar","data":[{"label":"Q1","value":100}]}
+data-table: {"type":"data-table","headers":["Feature","Plan A","Plan B"],"rows":[["SSO","✓","✗"],["Price","$10","$25"]],"highlightRows":[0]}
 
 CRITICAL: If using metric-cards, the metrics array MUST have 2-3 items with value, label, and icon. Empty metrics:[] will fail validation. If you lack dataPoints, DO NOT use metric-cards. Use text-bullets instead.
 NOTE: Do NOT add a "title" field to text-bullets - the slide already has a title zone. Component titles cause visual duplication.`;
@@ -1454,13 +1474,24 @@ Expected structure:
                         type: 'chart-frame',
                         title: candidate.chartSpec.title || "Data Analysis",
                         chartType: (['bar', 'pie', 'doughnut', 'line'].includes(candidate.chartSpec.type) ? candidate.chartSpec.type : 'bar') as any,
-                        data: candidate.chartSpec.data
+                        data: candidate.chartSpec.data,
+                        ...(candidate.chartSpec.yAxisLabel ? { yAxisLabel: String(candidate.chartSpec.yAxisLabel).slice(0, 40) } : {})
                     });
                 } else if (!hasFrame && !hasValidChartData) {
                     console.log(`[GENERATOR] Skipping chart-frame: chartSpec.data invalid (length: ${candidate.chartSpec.data?.length || 0})`);
                 }
             }
 
+            // Comparison from the content plan -> data-table, unless the model already drew one
+            const tableSpec = safeContentPlan.tableSpec;
+            if (tableSpec && candidate.layoutPlan?.components && !candidate.layoutPlan.components.some((c: any) => c.type === 'data-table')) {
+                candidate.layoutPlan.components.push({
+                    type: 'data-table',
+                    headers: tableSpec.headers,
+                    rows: tableSpec.rows
+                });
+            }
+
             candidate = autoRepairSlide(candidate, styleGuide);
             
             // ============================================================================
@@ -1618,6 +1649,22 @@ Expected structure:
                 }
             }
 
+            // NUMERIC TRACEABILITY (hallucination guard)
+            // Figures the knowledge sheet doesn't state are flagged, not failed:
+            // regenerating or the Visual Architect can't source a number
+            if (facts.length > 0) {
+                const traceability = validateNumericTraceability(candidate, facts);
+                if (traceability.untraceable.length > 0) {
+                    validation.errors.push(...traceability.issues.map(issue => ({
+                        code: issue.code,
+                        message: issue.message,
+                        suggestedFix: 'Use a figure from the research facts or remove the claim'
+                    })));
+                    console.warn(`[GENERATOR] ${traceability.untraceable.length}/${traceability.claimCount} figure(s) not traceable to research facts:`,
+                        traceability.untraceable.map(c => c.text).join(', '));
+                }
+            }
+
             if (validation.errors.length > 0) {
                 const validationWarnings = validation.errors.map(e => `Validation: ${e.code} - ${e.message}`);
                 candidate.warnings = [...(candidate.warnings || []), ...validationWarnings];
@@ -1856,11 +1903,13 @@ Expected structure:
                 candidate.visualDesignSpec
             );
 
-            const zones = spatialEngine.getZonesForVariant(variant);
+            const zones = spatialEngine.getZonesForVariant(variant, styleGuide.slideSize, styleGuide.template);
             const { allocation } = spatialEngine.allocateComponents(
                 candidate.title,
                 candidate.layoutPlan?.components || [],
-                variant
+                variant,
+                styleGuide.slideSize,
+                styleGuide.template
             );
             const renderDurationMs = Date.now() - renderStartTime;
 
@@ -2064,7 +2113,7 @@ Expected structure:
 
 // --- BLUEPRINT TO EDITABLE DECK CONVERTER (Director Pipeline Support) ---
 
-import type { DeckBlueprint } from './DirectorAgent';
+import type { DeckBlueprint, DirectorMode } from './DirectorAgent';
 
 /**
  * Converts a Director-produced DeckBlueprint into an EditableSlideDeck.
@@ -2159,6 +2208,43 @@ function blueprintToEditableDeck(
     };
 }
 
+/**
+ * Score every slide's prose against the audience's reading level and attach a
+ * warning where it reads too hard. Advisory only: wording is the editor's call.
+ */
+function flagReadingLevel(slides: SlideNode[], audience: AudienceProfile): void {
+    let flagged = 0;
+    slides.forEach((slide, idx) => {
+        if (slide.generatedBy) return;
+        const result = validateReadingLevel(slide, audience);
+        if (result.passed) return;
+        flagged++;
+        slide.warnings = [...(slide.warnings || []), ...result.issues.map(issue => `Reading level: ${issue.message}`)];
+        console.warn(`[ORCHESTRATOR] Slide ${idx + 1} reads above the ${audience.label} level (grade ${result.grade} vs ${result.targetGrade})`);
+    });
+    console.log(`[ORCHESTRATOR] Reading level (${audience.label}, grade ${audience.readingLevel}): ${slides.length - flagged}/${slides.length} slides on target`);
+}
+
+/**
+ * Render every slide as the exporters do and attach a warning for colours or
+ * fonts outside the style guide's brand kit. Advisory, like the reading level.
+ */
+function flagBrandCompliance(slides: SlideNode[], styleGuide: GlobalStyleGuide): void {
+    const kit = styleGuide.brandKit;
+    if (!kit) return;
+    const renderer = new InfographicRenderer();
+    let flagged = 0;
+    slides.forEach((slide, idx) => {
+        // Rendering appends spatial warnings to the slide, so render a copy
+        const elements = renderer.compileSlide(JSON.parse(JSON.stringify(slide)), styleGuide);
+        const result = validateBrandCompliance(elements, kit);
+        if (result.passed) return;
+        flagged++;
+        slide.warnings = [...(slide.warnings || []), ...result.issues.map(issue => `Brand: ${issue.message}`)];
+        console.warn(`[ORCHESTRATOR] Slide ${idx + 1} is off-brand: ${result.issues.map(issue => issue.message).join('; ')}`);
+    });
+    console.log(`[ORCHESTRATOR] Brand compliance (${kit.name}): ${slides.length - flagged}/${slides.length} slides on brand`);
+}
 
 // --- ORCHESTRATOR (Level 3: Context Folding + Self-Healing Circuit Breaker + Style-Aware Pipeline) ---
 
@@ -2167,12 +2253,31 @@ function blueprintToEditableDeck(
  */
 export interface GenerationOptions {
     styleMode?: StyleMode;
-    // Future: archetype overrides, custom constraints, etc.
+    /** Director preset. When set, routes to the Director pipeline regardless of ENABLE_DIRECTOR_MODE. */
+    directorMode?: DirectorMode;
+    /** Footer / Sources slide format (default: numeric) */
+    citationStyle?: CitationStyle;
+    /** Facts from ingested documents, used ahead of or instead of web research */
+    documents?: DocumentGrounding;
+    /** Imported CSV / XLSX / JSON tables; each is charted from its own rows on a matching slide */
+    dataTables?: DataTable[];
+    /** Research again instead of reusing cached facts from earlier runs (services/research/factStore.ts) */
+    refreshResearch?: boolean;
+    /** Pause after research and architecture so the knowledge sheet and outline can be edited (services/review/researchReview.ts) */
+    reviewResearch?: ResearchReviewHandler;
+    /** Who the deck is for; steers the architect, router and content planner and sets the reading-level target */
+    audience?: AudienceProfile;
+    /** Page size of the deck (default 16:9); stored on styleGuide.slideSize */
+    slideSize?: SlideSize;
+    /** Locked style guide from a corporate template (services/import/templateImporter.ts); applied over the generated one and its page size wins over slideSize */
+    templateStyleGuide?: GlobalStyleGuide;
+    /** Approved colours, fonts, logos and decorations (services/brand/brandKit.ts); applied on top of the generated or template style guide */
+    brandKit?: BrandKit;
 }
 
 /**
  * Main entry point for deck generation.
- * Routes to Director pipeline when ENABLE_DIRECTOR_MODE=true,
+ * Routes to Director pipeline when ENABLE_DIRECTOR_MODE=true (or options.directorMode is set),
  * with silent fallback to legacy pipeline on Director failure.
  * 
  * @param topic - The topic/prompt for deck generation
@@ -2185,19 +2290,17 @@ export const generateAgenticDeck = async (
     options?: GenerationOptions
 ): Promise<EditableSlideDeck> => {
     // TOPIC SANITIZATION: Detect when user provides full outline vs simple topic
-    // If user pastes a complete presentation outline, extract just the core topic
-    // This prevents the entire outline from being sent to each slide generator
+    // A parseable outline (Slide N: blocks, Markdown headings, bullet hierarchy) fixes
+    // the slide list and research runs on its title; anything else that looks like
+    // an outline is reduced to its core topic so it isn't sent to each slide generator
     let sanitizedTopic = topic.trim();
-    
-    // Detect common outline patterns (Slide 1:, Slide 2:, bullet points, etc.)
-    const looksLikeFullOutline = (
-        /Slide\s*\d+\s*:/i.test(sanitizedTopic) ||
-        /•\s*Title:|•\s*Content:|•\s*Visual:/i.test(sanitizedTopic) ||
-        sanitizedTopic.split('\n').length > 10 ||
-        sanitizedTopic.length > 2000
-    );
-    
-    if (looksLikeFullOutline) {
+    const parsedOutline = parseOutline(sanitizedTopic);
+    const userSlides = parsedOutline ? toOutlineSlides(parsedOutline) : undefined;
+
+    if (parsedOutline && userSlides) {
+        sanitizedTopic = parsedOutline.title || userSlides[0].title;
+        console.log(`[ORCHESTRATOR] User outline (${parsedOutline.format}): ${userSlides.length} slides kept in order, topic "${sanitizedTopic}"`);
+    } else if (looksLikeOutline(sanitizedTopic)) {
         console.warn(`[ORCHESTRATOR] Detected full outline input (${sanitizedTopic.length} chars, ${sanitizedTopic.split('\\n').length} lines). Extracting core topic...`);
         
         // Try to extract the presentation title from common patterns
@@ -2234,6 +2337,8 @@ export const generateAgenticDeck = async (
     // Extract style mode with fallback to default
     const styleMode: StyleMode = options?.styleMode || DEFAULT_STYLE_MODE;
     const styleProfile = getStyleProfile(styleMode);
+    const dataVisuals = buildDataVisuals(options?.dataTables || []);
+    const dataFacts = dataVisuals.map(v => v.fact);
 
     console.log(`[ORCHESTRATOR] Style mode: ${styleMode} (variation multiplier: ${styleProfile.variationBudgetMultiplier}, negative space: ${styleProfile.negativeSpaceMinRatio})`);
 
@@ -2241,14 +2346,27 @@ export const generateAgenticDeck = async (
     // DIRECTOR PIPELINE (Phase 3 Integration)
     // Silent fallback to legacy pipeline on failure - critical for reliability
     // =========================================================================
-    if (ENABLE_DIRECTOR_MODE) {
-        console.log("[ORCHESTRATOR] Director mode enabled, routing to new pipeline...");
+    if (ENABLE_DIRECTOR_MODE || options?.directorMode) {
+        console.log(`[ORCHESTRATOR] Director mode enabled${options?.directorMode ? ` (${options.directorMode})` : ''}, routing to new pipeline...`);
         try {
             const { runDirector, DeckBlueprintSchema } = await import('./DirectorAgent');
             const costTracker = new CostTracker();
 
             const blueprint = await runDirector(
-                { topic, styleMode }, // Pass styleMode to Director
+                {
+                    topic,
+                    styleMode, // Pass styleMode to Director
+                    documents: options?.documents,
+                    dataFacts,
+                    refreshResearch: options?.refreshResearch,
+                    reviewResearch: options?.reviewResearch,
+                    audience: options?.audience,
+                    userOutline: userSlides,
+                    brandKit: options?.brandKit,
+                    slideSize: options?.slideSize,
+                    templateStyleGuide: options?.templateStyleGuide,
+                    config: options?.directorMode ? { mode: options.directorMode } : undefined
+                },
                 costTracker,
                 onProgress
             );
@@ -2258,12 +2376,24 @@ export const generateAgenticDeck = async (
             if (parseResult.success) {
                 // Convert blueprint to EditableSlideDeck
                 const deck = blueprintToEditableDeck(parseResult.data, costTracker);
+                if (dataVisuals.length > 0) deck.slides = placeDataVisuals(deck.slides, dataVisuals);
+                if (options?.audience) {
+                    deck.meta.audience = options.audience;
+                    flagReadingLevel(deck.slides, options.audience);
+                }
+                if (options?.slideSize) deck.meta.styleGuide = { ...deck.meta.styleGuide, slideSize: options.slideSize };
+                if (options?.templateStyleGuide) deck.meta.styleGuide = applyTemplateStyleGuide(deck.meta.styleGuide, options.templateStyleGuide);
+                if (options?.brandKit) {
+                    deck.meta.styleGuide = applyBrandKit(deck.meta.styleGuide, options.brandKit);
+                    flagBrandCompliance(deck.slides, deck.meta.styleGuide);
+                }
                 console.log(`[ORCHESTRATOR] Director pipeline complete: ${deck.slides.length} slides`);
-                return deck;
+                return applyCitations(deck, options?.citationStyle);
             }
             // Validation failed - fall through to legacy pipeline
             console.warn('[ORCHESTRATOR] Director produced invalid blueprint, falling back to legacy');
         } catch (directorErr: any) {
+            if (directorErr instanceof ResearchReviewCancelledError) throw directorErr;
             console.warn('[ORCHESTRATOR] Director pipeline failed, silently falling back:', directorErr.message);
             // Fall through to legacy pipeline
         }
@@ -2301,16 +2431,29 @@ export const generateAgenticDeck = async (
 
     // 1. RESEARCH PHASE
     onProgress("Agent 1/5: Deep Research (Interactions API)...", 10);
-    const facts = await runResearcher(topic, costTracker);
-    console.log(`[ORCHESTRATOR] Research complete: ${facts.length} facts found`);
+    let facts = [...await runGroundedResearch(topic, costTracker, options?.documents, { refresh: options?.refreshResearch }), ...dataFacts];
+    console.log(`[ORCHESTRATOR] Research complete: ${facts.length} facts found${dataFacts.length ? ` (${dataFacts.length} from imported data)` : ''}`);
 
     // 2. ARCHITECTURE PHASE
     onProgress("Agent 2/5: Structuring Narrative...", 25);
-    const outline = await runArchitect(topic, facts, costTracker);
+    let outline = await runArchitect(topic, facts, costTracker, options?.audience, userSlides, options?.brandKit);
     console.log(`[ORCHESTRATOR] Architecture complete: ${outline.slides.length} slides planned`);
 
+    // 2b. OPTIONAL REVIEW: planning resumes with the edited knowledge sheet and outline
+    if (options?.reviewResearch) {
+        onProgress("Review: Waiting for knowledge sheet and outline review...", 28);
+        const reviewed = await runResearchReview(options.reviewResearch, topic, facts, outline.slides, outline.factClusters);
+        facts = reviewed.knowledgeSheet;
+        outline = { ...outline, knowledgeSheet: facts, factClusters: reviewed.factClusters, slides: reviewed.outline };
+    }
+    // Zones, text fitting and every exporter read the page size from the style guide
+    if (options?.slideSize) outline = { ...outline, styleGuide: { ...outline.styleGuide, slideSize: options.slideSize } };
+    if (options?.templateStyleGuide) outline = { ...outline, styleGuide: applyTemplateStyleGuide(outline.styleGuide, options.templateStyleGuide) };
+    if (options?.brandKit) outline = { ...outline, styleGuide: applyBrandKit(outline.styleGuide, options.brandKit) };
+
     const slides: SlideNode[] = [];
     const totalSlides = outline.slides.length;
+    const slideDataVisuals = assignDataVisuals(dataVisuals, outline.slides);
 
     // 3. PER-SLIDE GENERATION with Context Folding + Circuit Breaker + Style-Awareness
     for (let i = 0; i < totalSlides; i++) {
@@ -2327,22 +2470,32 @@ export const generateAgenticDeck = async (
 
             // 3a. Route Layout (with optional constraints for rerouting + styleMode)
             onProgress(`Agent 3/5: Routing Slide ${i + 1}/${totalSlides} [${styleMode}]...`, 30 + Math.floor((i / (totalSlides * 2)) * 30));
-            let routerConfig = await runRouter(slideMeta, costTracker, slideConstraints, styleMode);
+            let routerConfig = await runRouter(slideMeta, costTracker, slideConstraints, styleMode, options?.audience);
 
             // 3b. Plan Content (with narrative history for context folding + style hints)
             const clusterIds = slideMeta.relevantClusterIds || [];
-            const relevantClusterFacts: string[] = [];
+            let clusterFacts: ResearchFact[] = []; // Citation candidates for this slide
             if (clusterIds.length > 0 && outline.factClusters) {
                 clusterIds.forEach((cid: string) => {
                     const cluster = outline.factClusters?.find(c => c.id === cid);
                     if (cluster && cluster.factIds) {
                         cluster.factIds.forEach(fid => {
                             const f = facts.find(fact => fact.id === fid);
-                            if (f) relevantClusterFacts.push(`[${f.id}] ${f.claim}`);
+                            if (f) clusterFacts.push(f);
                         });
                     }
                 });
             }
+            clusterFacts = orderFactsByWeight(clusterFacts); // Reviewer weights: key facts lead
+            // Hero slides (opening, title, closing) only state corroborated facts
+            if (i === 0 || i === totalSlides - 1 || slideMeta.type === SLIDE_TYPES.TITLE) clusterFacts = withoutLowConfidence(clusterFacts);
+            const relevantClusterFacts = clusterFacts.map(f => `[${f.id}] ${f.claim}`);
+            const dataVisual = slideDataVisuals[i];
+            if (dataVisual) {
+                console.log(`[ORCHESTRATOR] Slide ${i + 1} shows imported data: ${dataVisual.tableName}`);
+                relevantClusterFacts.push(`[${dataVisual.fact.id}] ${dataVisual.fact.claim}`);
+                clusterFacts.push(dataVisual.fact);
+            }
             const factsContext = relevantClusterFacts.join('\n') || "No specific facts found.";
 
             // Compute density hints based on slide type, position, AND LAYOUT VARIANT
@@ -2391,7 +2544,8 @@ export const generateAgenticDeck = async (
                 archetype: inferredArchetype,
                 preferDiagram: styleMode === 'serendipitous',
                 preferMetrics: styleMode === 'corporate' && !isHeroOrIntro,
-                avoidBullets: styleMode === 'serendipitous' && isHeroOrIntro
+                avoidBullets: styleMode === 'serendipitous' && isHeroOrIntro,
+                audience: options?.audience
             };
 
             console.log(`[ORCHESTRATOR] Layout-aware density: ${layoutVariant} → max ${densityHint.maxBullets} bullets @ ${densityHint.maxCharsPerBullet} chars [${styleMode}]`);
@@ -2401,7 +2555,14 @@ export const generateAgenticDeck = async (
             // CRITICAL: Content Planner now returns typed ContentPlanResult with style awareness
             // We still validate with ensureValidContentPlan for defense-in-depth
             const rawContentPlan = await runContentPlanner(slideMeta, factsContext, costTracker, recentHistory, densityHint, styleAwareHint);
-            const safeContentPlan: ContentPlanResult = ensureValidContentPlan(rawContentPlan, slideMeta);
+            let safeContentPlan: ContentPlanResult = ensureValidContentPlan(rawContentPlan, slideMeta);
+            // Metric cards only show corroborated figures
+            const lowConfidenceMetrics = dropLowConfidenceDataPoints(safeContentPlan, facts);
+            if (lowConfidenceMetrics.dropped.length > 0) {
+                console.warn(`[ORCHESTRATOR] Slide ${i + 1}: ${lowConfidenceMetrics.dropped.length} low-confidence metric(s) kept off metric cards: ${lowConfidenceMetrics.dropped.join(', ')}`);
+                safeContentPlan = lowConfidenceMetrics.plan;
+            }
+            if (dataVisual) safeContentPlan = applyDataVisualToPlan(safeContentPlan, dataVisual);
 
             console.log(`[ORCHESTRATOR] Content plan validated: ${safeContentPlan.keyPoints.length} keyPoints, ${safeContentPlan.dataPoints.length} dataPoints${safeContentPlan.contentStrategy ? ` (${safeContentPlan.contentStrategy.preferredFormat})` : ''}`);
 
@@ -2539,7 +2700,8 @@ export const generateAgenticDeck = async (
                     variationBudget: detailedBudget.overall,
                     narrativeTrail: recentHistory,
                     usedSurprisesInDeck,
-                    styleMode // Pass styleMode to Composition Architect
+                    styleMode, // Pass styleMode to Composition Architect
+                    brandKit: outline.styleGuide.brandKit
                 }, costTracker);
 
                 // Track used surprises to avoid repetition
@@ -2603,7 +2765,7 @@ export const generateAgenticDeck = async (
                     const newConstraints: RouterConstraints = {
                         avoidLayoutVariants: generatorResult.avoidLayoutVariants
                     };
-                    currentRouterConfig = await runRouter(slideMeta, costTracker, newConstraints, styleMode);
+                    currentRouterConfig = await runRouter(slideMeta, costTracker, newConstraints, styleMode, options?.audience);
 
                     // TIGHTER density hints on reroute - content overflow was likely the issue
                     const rerouteDensityHint: ContentDensityHint = {
@@ -2619,7 +2781,8 @@ export const generateAgenticDeck = async (
                         archetype: inferredArchetype,
                         preferDiagram: styleMode === 'serendipitous',
                         preferMetrics: styleMode === 'corporate' && !isHeroOrIntro,
-                        avoidBullets: styleMode === 'serendipitous' && isHeroOrIntro
+                        avoidBullets: styleMode === 'serendipitous' && isHeroOrIntro,
+                        audience: options?.audience
                     };
 
                     // Re-run content planner with tighter constraints and validate result (preserve style)
@@ -2664,7 +2827,14 @@ export const generateAgenticDeck = async (
                 }
             }
 
-            const slideNode = generatorResult.slide;
+            let slideNode = generatorResult.slide;
+            // Titles from a user outline are kept verbatim
+            if (slideMeta.fixedTitle) {
+                slideNode.title = slideMeta.title;
+                if (slideNode.layoutPlan) slideNode.layoutPlan.title = slideMeta.title;
+            }
+            slideNode.citations = buildSlideCitations(slideNode, clusterFacts);
+            if (dataVisual) slideNode = applyDataVisual(slideNode, dataVisual);
 
             // Attach composition plan to slide for layer-aware rendering
             if (SERENDIPITY_MODE_ENABLED && currentCompositionPlan) {
@@ -2680,9 +2850,10 @@ export const generateAgenticDeck = async (
             const finalVisualPrompt = visualDesign.prompt_with_composition || `${slideNode.title} professional abstract background`;
             slideNode.visualPrompt = finalVisualPrompt;
 
-            if (finalVisualPrompt) {
+            // A corporate master supplies the background (a full-bleed image would hide its logo and footer)
+            if (finalVisualPrompt && !outline.styleGuide.template) {
                 onProgress(`Agent 5/5: Rendering Visual ${i + 1}...`, 60 + Math.floor((i / totalSlides) * 40));
-                const imgResult = await generateImageFromPrompt(finalVisualPrompt, "16:9", costTracker);
+                const imgResult = await generateImageFromPrompt(finalVisualPrompt, imageAspectRatioFor(outline.styleGuide.slideSize), costTracker);
                 if (imgResult) {
                     slideNode.backgroundImageUrl = imgResult.imageUrl;
                 }
@@ -2865,6 +3036,11 @@ export const generateAgenticDeck = async (
         console.log(`[ORCHESTRATOR] ✅ Deck coherence validation passed (score: ${coherenceReport.coherenceScore}/100)`);
     }
 
+    // Audience fit: reading level per slide
+    if (options?.audience) flagReadingLevel(slides, options.audience);
+    // Brand fit: rendered colours and fonts per slide
+    if (outline.styleGuide.brandKit) flagBrandCompliance(slides, outline.styleGuide);
+
     const totalDurationMs = Date.now() - startTime;
     const costSummary = costTracker.getSummary();
 
@@ -2915,64 +3091,90 @@ export const generateAgenticDeck = async (
         coherenceIssues: coherenceReport.issues.length
     };
 
-    return {
+    // Number citations deck-wide and append the Sources slide(s)
+    return applyCitations({
         id: crypto.randomUUID(),
         topic,
         meta: outline,
         slides,
         metrics: deckMetrics
-    };
+    }, options?.citationStyle);
 };
 
 // --- SINGLE SLIDE REGENERATION ---
 
+// Used when the deck has no style guide of its own
+const REGENERATION_DEFAULT_STYLE_GUIDE: GlobalStyleGuide = {
+    themeName: "Default",
+    fontFamilyTitle: "Inter",
+    fontFamilyBody: "Inter",
+    colorPalette: {
+        primary: "#10b981",
+        secondary: "#3b82f6",
+        background: "#0f172a",
+        text: "#f8fafc",
+        accentHighContrast: "#f59e0b"
+    },
+    imageStyle: "Clean",
+    layoutStrategy: "Standard"
+};
+
+/**
+ * Facts a slide stands on: the ones it already cites and those of its fact
+ * clusters (an imported deck stores each bullet as a fact of its slide's cluster).
+ */
+function factsForSlide(meta: any, currentSlide: SlideNode, facts: ResearchFact[], factClusters: z.infer<typeof FactClusterSchema>[]): ResearchFact[] {
+    const ids = new Set<string>((currentSlide.citations || []).map(c => c.factId).filter(Boolean));
+    (meta.relevantClusterIds || []).forEach((cid: string) => {
+        factClusters.find(c => c.id === cid)?.factIds?.forEach(fid => ids.add(fid));
+    });
+    return orderFactsByWeight(facts.filter(f => ids.has(f.id)));
+}
+
+/**
+ * Re-run router → content planner → visual design → generator (autoRepair and
+ * visual critique) for one slide of an existing deck, generated or imported.
+ * Pass the deck's meta.styleGuide so the slide keeps its palette, fonts, page
+ * size, template and brand kit.
+ */
 export const regenerateSingleSlide = async (
     meta: any,
     currentSlide: SlideNode,
     facts: ResearchFact[],
     factClusters: z.infer<typeof FactClusterSchema>[] = [],
-    styleMode?: StyleMode  // Optional style mode for consistency
+    styleMode?: StyleMode,  // Optional style mode for consistency
+    styleGuide: GlobalStyleGuide = REGENERATION_DEFAULT_STYLE_GUIDE,
+    audience?: AudienceProfile
 ): Promise<SlideNode> => {
     const costTracker = new CostTracker();
 
-    // Use default styleGuide for single slide regeneration
-    const defaultStyleGuide: GlobalStyleGuide = {
-        themeName: "Default",
-        fontFamilyTitle: "Inter",
-        fontFamilyBody: "Inter",
-        colorPalette: {
-            primary: "#10b981",
-            secondary: "#3b82f6",
-            background: "#0f172a",
-            text: "#f8fafc",
-            accentHighContrast: "#f59e0b"
-        },
-        imageStyle: "Clean",
-        layoutStrategy: "Standard"
-    };
+    const slideFacts = factsForSlide(meta, currentSlide, facts, factClusters);
+    const factsContext = slideFacts.map(f => `[${f.id}] ${f.claim}`).join('\n') || "No specific facts found.";
+    console.log(`[REGENERATE] "${meta.title}": ${slideFacts.length} fact(s)${styleGuide.slideSize ? `, ${styleGuide.slideSize}` : ''}${styleGuide.template ? `, template ${styleGuide.template.name}` : ''}${styleGuide.brandKit ? `, brand kit ${styleGuide.brandKit.name}` : ''}`);
 
-    let routerConfig = await runRouter(meta, costTracker, undefined, styleMode);
+    let routerConfig = await runRouter(meta, costTracker, undefined, styleMode, audience);
 
     // Build style hint for single slide regeneration
-    const singleSlideStyleHint: StyleAwareContentHint | undefined = styleMode ? {
+    const singleSlideStyleHint: StyleAwareContentHint | undefined = styleMode || audience ? {
         maxBullets: 3,
         maxCharsPerBullet: 70,
         styleMode,
         archetype: undefined,
         preferDiagram: styleMode === 'serendipitous',
         preferMetrics: styleMode === 'corporate',
-        avoidBullets: false
+        avoidBullets: false,
+        audience
     } : undefined;
 
     // Use typed content plan with validation for single slide regeneration
-    const rawContentPlan = await runContentPlanner(meta, "", costTracker, [], undefined, singleSlideStyleHint);
+    const rawContentPlan = await runContentPlanner(meta, factsContext, costTracker, [], undefined, singleSlideStyleHint);
     const contentPlan: ContentPlanResult = ensureValidContentPlan(rawContentPlan, meta);
 
     routerConfig = await runQwenLayoutSelector(
         meta,
         contentPlan,
         routerConfig,
-        defaultStyleGuide,
+        styleGuide,
         costTracker
     );
     const visualDesign = await runVisualDesigner(
@@ -2981,18 +3183,21 @@ export const regenerateSingleSlide = async (
         routerConfig,
         facts,
         costTracker,
-        defaultStyleGuide,
+        styleGuide,
         computeVariationBudget(0, 1, meta.type, meta.title)
     );
 
     // Generator now returns GeneratorResult, extract the slide
-    const generatorResult = await runGenerator(meta, routerConfig, contentPlan, visualDesign, facts, factClusters, defaultStyleGuide, costTracker);
+    const generatorResult = await runGenerator(meta, routerConfig, contentPlan, visualDesign, facts, factClusters, styleGuide, costTracker);
     const newSlide = generatorResult.slide;
+    // Numbered later by applyCitations() on the whole deck
+    newSlide.citations = buildSlideCitations(newSlide, slideFacts.length > 0 ? slideFacts : facts);
 
     newSlide.visualPrompt = visualDesign.prompt_with_composition;
 
-    if (newSlide.visualPrompt) {
-        const imgResult = await generateImageFromPrompt(newSlide.visualPrompt, "16:9", costTracker);
+    // A corporate master supplies the background (a full-bleed image would hide its logo and footer)
+    if (newSlide.visualPrompt && !styleGuide.template) {
+        const imgResult = await generateImageFromPrompt(newSlide.visualPrompt, imageAspectRatioFor(styleGuide.slideSize), costTracker);
         if (imgResult) {
             newSlide.backgroundImageUrl = imgResult.imageUrl;
         }
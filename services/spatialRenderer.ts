@@ -1,7 +1,9 @@
 
 
-import { TemplateComponent, VisualElement, GlobalStyleGuide, SpatialZone, LayoutVariant, SpatialStrategy, SlideNode, VisualDesignSpec, EnvironmentState } from '../types/slideTypes';
+import { TemplateComponent, VisualElement, GlobalStyleGuide, SpatialZone, LayoutVariant, SpatialStrategy, SlideNode, VisualDesignSpec, EnvironmentState, TableAlign, TableCell, tableCellGlyph, SlideSize, getSlideDimensions, DeckTemplate } from '../types/slideTypes';
 import { InfographicRenderer, normalizeColor } from './infographicRenderer';
+import { buildChartPalette } from './visual/chartGeometry';
+import { fitTable, measureTextUnits } from './TextFitter';
 
 // Serendipity layer renderers - static imports for ESM compatibility
 import * as decorativeRenderers from './decorativeRenderer';
@@ -26,8 +28,23 @@ const resolveReadableTextColor = (backgroundHex: string, fallbackTextHex: string
   return hasContrast ? fallbackTextHex : preferred;
 };
 
+/**
+ * Right-to-left decks (styleGuide.direction === 'rtl'): text is laid out from
+ * the right, so start-aligned text becomes right-aligned and end-aligned text
+ * left-aligned. Centered text and element positions are unchanged. Elements
+ * already marked rtl are left alone, so nested renders flip only once.
+ */
+export const applyTextDirection = (elements: VisualElement[], styleGuide?: GlobalStyleGuide): VisualElement[] => {
+  if (styleGuide?.direction !== 'rtl') return elements;
+  return elements.map(el => el.type !== 'text' || el.rtl ? el : {
+    ...el,
+    align: el.align === 'center' ? 'center' : el.align === 'right' ? 'left' : 'right',
+    rtl: true
+  });
+};
+
 // Predefined Spatial Templates for Layout Variants
-// Coordinates are 0-10 (X) and 0-5.625 (Y)
+// Coordinates are 0-10 (X) and 0-5.625 (Y); adaptZonesToSlide fits them to other slide sizes
 const LAYOUT_TEMPLATES: Record<string, SpatialZone[]> = {
   'split-left-text': [
     { id: 'title', x: 0.5, y: 0.5, w: 4.5, h: 1.0, purpose: 'hero', content_suggestion: 'Slide Title' },
@@ -85,6 +102,126 @@ const LAYOUT_TEMPLATES: Record<string, SpatialZone[]> = {
   ]
 };
 
+// Templates are authored on this canvas
+const BASE_SLIDE_W = 10;
+const BASE_SLIDE_H = 5.625;
+// Narrowest column a portrait slide keeps side by side; narrower rows stack
+const MIN_PORTRAIT_COLUMN_IN = 2.4;
+const PORTRAIT_STACK_GAP = 0.2;
+// Narrower title zones get room for a second line
+const PORTRAIT_TITLE_GROWTH = 1.5;
+
+const isTitleZone = (zone: SpatialZone) => zone.id === 'title' || zone.id === 'hero-title';
+
+/**
+ * Fit 16:9 template zones to another slide size.
+ * Landscape and square slides scale the template. Portrait slides reflow it:
+ * zones that overlap vertically form a row; a row of equal-top columns stays
+ * side by side while every column keeps MIN_PORTRAIT_COLUMN_IN, otherwise its
+ * zones stack at the row's full width (title first, then left to right).
+ * Vertical accent bars are dropped and accents inside a zone keep their
+ * relative position. Titles grow by PORTRAIT_TITLE_GROWTH, accents and gaps keep
+ * their height, and the other zones stretch (or shrink) to fill the slide height.
+ */
+export function adaptZonesToSlide(zones: SpatialZone[], size?: SlideSize): SpatialZone[] {
+  const { width, height } = getSlideDimensions(size);
+  if (width === BASE_SLIDE_W && height === BASE_SLIDE_H) return zones;
+  const sx = width / BASE_SLIDE_W;
+  const sy = height / BASE_SLIDE_H;
+  const round = (n: number) => Math.round(n * 1000) / 1000;
+
+  if (width >= height) {
+    return zones.map(z => ({ ...z, x: round(z.x * sx), y: round(z.y * sy), w: round(z.w * sx), h: round(z.h * sy) }));
+  }
+
+  const contains = (outer: SpatialZone, inner: SpatialZone) =>
+    inner.y + inner.h / 2 >= outer.y && inner.y + inner.h / 2 <= outer.y + outer.h &&
+    inner.x + inner.w / 2 >= outer.x && inner.x + inner.w / 2 <= outer.x + outer.w;
+  const content = zones.filter(z => z.purpose !== 'accent');
+  const accents = zones.filter(z => z.purpose === 'accent' && z.w >= z.h);
+  const nested = accents.filter(a => content.some(z => contains(z, a)));
+  const flowing = [...content, ...accents.filter(a => !nested.includes(a))].sort((a, b) => a.y - b.y);
+  const flexible = (z: SpatialZone) => z.purpose !== 'accent' && !isTitleZone(z);
+
+  // Rows of vertically overlapping zones
+  const rows: SpatialZone[][] = [];
+  flowing.forEach(zone => {
+    const row = rows[rows.length - 1];
+    const rowBottom = row ? Math.max(...row.map(z => z.y + z.h)) : -Infinity;
+    if (row && zone.y < rowBottom - 0.01) row.push(zone);
+    else rows.push([zone]);
+  });
+
+  const top = flowing.length ? flowing[0].y : 0;
+  // Stack the rows with flexible zones scaled by `stretch`; returns the placed zones and the stack bottom
+  const stack = (stretch: number) => {
+    const placed = new Map<string, SpatialZone>();
+    const heightOf = (z: SpatialZone) => flexible(z) ? z.h * stretch : isTitleZone(z) ? z.h * PORTRAIT_TITLE_GROWTH : z.h;
+    let cursor = top;
+    let prevBottom = top;
+    rows.forEach((row, r) => {
+      const rowTop = Math.min(...row.map(z => z.y));
+      if (r > 0) cursor += Math.max(0.1, rowTop - prevBottom);
+      prevBottom = Math.max(...row.map(z => z.y + z.h));
+      const sameTop = row.every(z => Math.abs(z.y - rowTop) <= 0.15);
+      if (row.length === 1 || (sameTop && row.every(z => z.w * sx >= MIN_PORTRAIT_COLUMN_IN))) {
+        row.forEach(z => placed.set(z.id, { ...z, x: z.x * sx, y: cursor + (z.y - rowTop), w: z.w * sx, h: heightOf(z) }));
+        cursor += Math.max(...row.map(z => (z.y - rowTop) + heightOf(z)));
+        return;
+      }
+      const left = Math.min(...row.map(z => z.x));
+      const right = Math.max(...row.map(z => z.x + z.w));
+      const ordered = [...row].sort((a, b) => Number(isTitleZone(b)) - Number(isTitleZone(a)) || a.x - b.x || a.y - b.y);
+      ordered.forEach((z, i) => {
+        if (i > 0) cursor += PORTRAIT_STACK_GAP;
+        placed.set(z.id, { ...z, x: left * sx, y: cursor, w: (right - left) * sx, h: heightOf(z) });
+        cursor += heightOf(z);
+      });
+    });
+    return { placed, bottom: cursor };
+  };
+
+  // Fill the slide down to the template's bottom margin
+  const bottomMargin = Math.max(0.3, BASE_SLIDE_H - Math.max(...zones.map(z => z.y + z.h)));
+  const natural = stack(1).bottom - top;
+  const flexHeight = stack(2).bottom - top - natural;
+  const stretch = flexHeight > 0 ? Math.max(0.5, 1 + (height - bottomMargin - top - natural) / flexHeight) : 1;
+  const { placed } = stack(stretch);
+
+  return zones.flatMap(zone => {
+    const own = placed.get(zone.id);
+    if (own) return [{ ...own, x: round(own.x), y: round(own.y), w: round(own.w), h: round(own.h) }];
+    const hostBase = content.find(z => nested.includes(zone) && contains(z, zone));
+    const host = hostBase && placed.get(hostBase.id);
+    if (!hostBase || !host) return [];
+    const fx = host.w / hostBase.w;
+    const fh = host.h / hostBase.h;
+    return [{ ...zone, x: round(host.x + (zone.x - hostBase.x) * fx), y: round(host.y + (zone.y - hostBase.y) * fh), w: round(zone.w * fx), h: zone.h }];
+  });
+}
+
+/**
+ * Fit zones into a corporate master's content bounds (the master's title and
+ * body placeholders), so layouts the template does not define keep clear of its
+ * logo and footer. The zones' bounding box is mapped onto the bounds.
+ */
+export function fitZonesToBounds(zones: SpatialZone[], bounds: DeckTemplate['contentBounds']): SpatialZone[] {
+  if (!bounds || zones.length === 0) return zones;
+  const left = Math.min(...zones.map(z => z.x));
+  const top = Math.min(...zones.map(z => z.y));
+  const fx = bounds.w / (Math.max(...zones.map(z => z.x + z.w)) - left);
+  const fy = bounds.h / (Math.max(...zones.map(z => z.y + z.h)) - top);
+  const round = (n: number) => Math.round(n * 1000) / 1000;
+  return zones.map(z => ({
+    ...z,
+    x: round(bounds.x + (z.x - left) * fx),
+    y: round(bounds.y + (z.y - top) * fy),
+    w: round(z.w * fx),
+    // Thin accents keep their thickness
+    h: z.purpose === 'accent' && z.h < 0.2 ? z.h : round(z.h * fy)
+  }));
+}
+
 // ============================================================================
 // PREMIUM THEME TOKENS
 // ============================================================================
@@ -180,8 +317,32 @@ export class SpatialLayoutEngine {
   // GAP 5: Track rendering warnings (truncation, overflow, etc.)
   private renderWarnings: string[] = [];
 
-  public getZonesForVariant(variant: string): SpatialZone[] {
-    return LAYOUT_TEMPLATES[variant] || LAYOUT_TEMPLATES['standard-vertical'];
+  public getZonesForVariant(variant: string, slideSize?: SlideSize, template?: DeckTemplate): SpatialZone[] {
+    // Corporate templates replace the zones of the variants their layouts map to
+    const layout = template?.layouts.find(l => l.variant === variant);
+    if (layout) return layout.zones;
+    const zones = adaptZonesToSlide(LAYOUT_TEMPLATES[variant] || LAYOUT_TEMPLATES['standard-vertical'], slideSize);
+    return template?.contentBounds ? fitZonesToBounds(zones, template.contentBounds) : zones;
+  }
+
+  /**
+   * Room for text in a variant's zones on this page, relative to the 16:9
+   * template: title width, widest text zone and total text zone height.
+   * Fit checks authored at 16:9 scale their limits by these factors.
+   */
+  public getTextCapacityScale(variant: string, slideSize?: SlideSize, template?: DeckTemplate): { titleWidth: number; width: number; height: number } {
+    const measure = (zones: SpatialZone[]) => {
+      const text = zones.filter(z => z.purpose !== 'accent' && !isTitleZone(z));
+      return {
+        titleWidth: Math.max(0, ...zones.filter(isTitleZone).map(z => z.w)),
+        width: Math.max(0, ...text.map(z => z.w)),
+        height: text.reduce((sum, z) => sum + z.h, 0)
+      };
+    };
+    const base = measure(LAYOUT_TEMPLATES[variant] || LAYOUT_TEMPLATES['standard-vertical']);
+    const page = measure(this.getZonesForVariant(variant, slideSize, template));
+    const ratio = (n: number, d: number) => d > 0 && n > 0 ? n / d : 1;
+    return { titleWidth: ratio(page.titleWidth, base.titleWidth), width: ratio(page.width, base.width), height: ratio(page.height, base.height) };
   }
 
   private addWarning(message: string): void {
@@ -199,9 +360,11 @@ export class SpatialLayoutEngine {
   public allocateComponents(
     slideTitle: string,
     components: TemplateComponent[],
-    variant: string
+    variant: string,
+    slideSize?: SlideSize,
+    template?: DeckTemplate
   ): { allocation: Map<string, any>, unplaced: TemplateComponent[] } {
-    const zones = this.getZonesForVariant(variant);
+    const zones = this.getZonesForVariant(variant, slideSize, template);
     const allocation = new Map<string, any>();
     const unplaced: TemplateComponent[] = [];
 
@@ -210,6 +373,7 @@ export class SpatialLayoutEngine {
     const componentZoneAffinity: Record<string, string[]> = {
       'text-bullets': ['text-main', 'content-top', 'content-bottom', 'hero-content', 'content-area', 'left-panel', 'main', 'panel-large', 'panel-top', 'panel-bottom'],
       'chart-frame': ['visual-right', 'visual-left', 'content-top', 'content-area', 'grid-1', 'grid-2', 'right-panel', 'main', 'panel-large'],
+      'data-table': ['content-area', 'main', 'panel-large', 'content-top', 'visual-right', 'visual-left', 'right-panel', 'text-main'],
       'metric-cards': ['grid-1', 'grid-2', 'grid-3', 'grid-4', 'card-1', 'card-2', 'card-3', 'rail', 'content-top', 'content-bottom', 'visual-right'],
       'process-flow': ['content-area', 'content-top', 'content-bottom', 'visual-right', 'visual-left', 'main', 'panel-large'],
       'icon-grid': ['grid-1', 'grid-2', 'grid-3', 'grid-4', 'rail', 'content-top', 'content-bottom', 'panel-top', 'panel-bottom'],
@@ -339,8 +503,12 @@ export class SpatialLayoutEngine {
           const purposeBonus =
             (comp.type === 'text-bullets' && zone.purpose === 'hero') ? 2 :
               (['chart-frame', 'metric-cards', 'icon-grid'].includes(comp.type) && zone.purpose === 'secondary') ? 2 : 0;
+          // Comparison tables with 4+ columns need a wide zone more than a preferred one
+          const widthBonus = comp.type === 'data-table' && (comp.headers?.length || 0) >= 4 && score > 0
+            ? Math.round(zone.w / 2)
+            : 0;
 
-          const totalScore = score + purposeBonus;
+          const totalScore = score + purposeBonus + widthBonus;
 
           if (totalScore > bestScore) {
             bestScore = totalScore;
@@ -388,25 +556,27 @@ export class SpatialLayoutEngine {
 
     const elements: VisualElement[] = [];
     const variant = slide.routerConfig?.layoutVariant || 'standard-vertical';
-    const zones = this.getZonesForVariant(variant);
-    const { allocation, unplaced } = this.allocateComponents(slide.title, slide.layoutPlan?.components || [], variant);
+    const zones = this.getZonesForVariant(variant, styleGuide.slideSize, styleGuide.template);
+    const { allocation, unplaced } = this.allocateComponents(slide.title, slide.layoutPlan?.components || [], variant, styleGuide.slideSize, styleGuide.template);
 
     // --- APPLY VISUAL DESIGN SPEC OVERRIDES ---
     // If visualDesignSpec has color_harmony, use it to override styleGuide colors
+    // (locked style guides, e.g. corporate templates, keep their own palette)
+    const colorHarmony = styleGuide.locked ? undefined : visualDesignSpec?.color_harmony;
     const baseBackground = normalizeColor(
-      visualDesignSpec?.color_harmony?.background_tone || styleGuide.colorPalette.background
+      colorHarmony?.background_tone || styleGuide.colorPalette.background
     );
     const baseText = normalizeColor(styleGuide.colorPalette.text);
     const contrastText = resolveReadableTextColor(baseBackground, baseText);
 
-    const effectiveStyleGuide: GlobalStyleGuide = visualDesignSpec?.color_harmony
+    const effectiveStyleGuide: GlobalStyleGuide = colorHarmony
       ? {
         ...styleGuide,
         colorPalette: {
           ...styleGuide.colorPalette,
           // Override with VisualDesignSpec colors if provided
-          primary: normalizeColor(visualDesignSpec.color_harmony.primary || styleGuide.colorPalette.primary),
-          accentHighContrast: normalizeColor(visualDesignSpec.color_harmony.accent || styleGuide.colorPalette.accentHighContrast),
+          primary: normalizeColor(colorHarmony.primary || styleGuide.colorPalette.primary),
+          accentHighContrast: normalizeColor(colorHarmony.accent || styleGuide.colorPalette.accentHighContrast),
           background: baseBackground,
           text: contrastText
         }
@@ -471,6 +641,15 @@ export class SpatialLayoutEngine {
         effectiveZone.y = dividerYHint;
       }
 
+      // A table may grow into an empty content zone stacked directly below it
+      if (allocated?.type === 'component-full' && allocated.component?.type === 'data-table') {
+        const below = zones.find(z =>
+          z.purpose !== 'accent' && !allocation.has(z.id) && z.x === zone.x && z.w === zone.w &&
+          z.y > zone.y && z.y - (zone.y + zone.h) < 0.5
+        );
+        if (below) effectiveZone.h = below.y + below.h - effectiveZone.y;
+      }
+
       if (!allocated) {
         // Render static accents
         if (effectiveZone.purpose === 'accent') {
@@ -540,7 +719,7 @@ export class SpatialLayoutEngine {
       console.warn(`[SPATIAL RENDERER] ${spatialWarnings.length} rendering warning(s) for slide "${slide.title}"`);
     }
 
-    return elements;
+    return applyTextDirection(elements, styleGuide);
   }
 
   /**
@@ -558,6 +737,7 @@ export class SpatialLayoutEngine {
     // At 14pt, typical character widths:
     // - Proportional (Inter, Arial): ~0.08 inches per char → ~12.5 chars/inch → 12.5 chars/unit
     // - Monospace (Fira Code, Courier): ~0.12 inches per char → ~8.3 chars/inch → 8.3 chars/unit
+    // CJK characters are about twice as wide, so lengths are measured in TextFitter units
 
     const isMonospace = fontFamily && /mono|code|courier|consolas|fira.*code|source.*code/i.test(fontFamily);
     const baseCharsPerUnit = isMonospace ? 8.3 : 12.5; // chars per unit at 14pt
@@ -571,7 +751,7 @@ export class SpatialLayoutEngine {
 
     return lines.reduce((wrappedCount, line) => {
       const visibleText = line.replace(/^•\s*/, ''); // Remove bullet
-      const wrappedLines = Math.ceil(visibleText.length / maxCharsPerLine);
+      const wrappedLines = Math.ceil(measureTextUnits(visibleText, fontFamily) / maxCharsPerLine);
       return wrappedCount + Math.max(1, wrappedLines);
     }, 0);
   }
@@ -917,6 +1097,20 @@ export class SpatialLayoutEngine {
           align: 'center',
           zIndex: 10
         });
+        // Trend arrow (top-right corner): up = success, down = danger
+        if (m.trend === 'up' || m.trend === 'down') {
+          els.push({
+            type: 'text',
+            content: m.trend === 'up' ? '▲' : '▼',
+            x: cardX + cardW - 0.45, y: cardY + spacing.xs, w: 0.4, h: 0.35,
+            fontSize: themeTokens.typography.scale.label * scale,
+            bold: true,
+            color: normalizeColor(m.trend === 'up' ? themeTokens.premiumColors.accent.success : themeTokens.premiumColors.accent.danger),
+            fontFamily: styleGuide.fontFamilyBody,
+            align: 'right',
+            zIndex: 11
+          });
+        }
         // Label
         els.push({
           type: 'text',
@@ -1066,6 +1260,8 @@ export class SpatialLayoutEngine {
       });
     } else if (comp.type === 'chart-frame') {
       els.push(...this.renderChartFrame(comp, p, x, y, w, h, styleGuide, themeTokens));
+    } else if (comp.type === 'data-table') {
+      els.push(...this.renderDataTable(comp, p, x, y, w, h, styleGuide, themeTokens));
     } else if (comp.type === 'diagram-svg') {
       // Render diagram as image from cache
       if (getDiagramUrl) {
@@ -1127,7 +1323,8 @@ export class SpatialLayoutEngine {
     return els.map(stampElement);
   }
 
-  // Helper to render a basic chart using primitives (since VisualElement doesn't support native charts yet)
+  // Helper to render a chart-frame: card frame + title + native chart element.
+  // The chart itself is a 'chart' VisualElement so PPTX export can emit an editable chart.
   private renderChartFrame(
     comp: TemplateComponent,
     p: any,
@@ -1156,49 +1353,149 @@ export class SpatialLayoutEngine {
       zIndex: 10
     });
 
-    // Chart Area (Schematic Bar Chart)
-    const chartArea = { x: x + 0.5, y: y + 1.2, w: w - 1.0, h: h - 1.5 };
-
-    if (comp.type === 'chart-frame' && comp.data && comp.data.length > 0) {
-      const maxValue = Math.max(...comp.data.map(d => d.value));
-      const barWidth = (chartArea.w / comp.data.length) * 0.6;
-      const spacing = (chartArea.w / comp.data.length) * 0.4;
-
-      comp.data.forEach((d, i) => {
-        const barHeight = (d.value / maxValue) * chartArea.h;
-        const barX = chartArea.x + (i * (barWidth + spacing)) + (spacing / 2);
-        const barY = chartArea.y + (chartArea.h - barHeight);
+    // Chart Area (below the title, inset from the frame)
+    const chartArea = {
+      x: x + themeTokens.spacing.md,
+      y: y + 0.5 + themeTokens.spacing.md,
+      w: w - themeTokens.spacing.md * 2,
+      h: h - 0.5 - themeTokens.spacing.md * 2
+    };
 
-        // Bar
-        els.push({
-          type: 'shape', shapeType: 'rect',
-          x: barX, y: barY, w: barWidth, h: barHeight,
-          fill: { color: p.primary, alpha: 0.8 },
-          zIndex: 6
-        });
+    const data = comp.type === 'chart-frame' && Array.isArray(comp.data)
+      ? comp.data.filter(d => d && typeof d.value === 'number' && Number.isFinite(d.value))
+      : [];
+
+    if (comp.type === 'chart-frame' && data.length > 0 && chartArea.w > 0 && chartArea.h > 0) {
+      const chartType = comp.chartType || 'bar';
+      const isRadial = chartType === 'pie' || chartType === 'doughnut';
+      els.push({
+        type: 'chart',
+        chartType,
+        x: chartArea.x, y: chartArea.y, w: chartArea.w, h: chartArea.h,
+        data: data.map(d => ({ label: String(d.label ?? ''), value: d.value })),
+        seriesName: comp.title || 'Series 1',
+        yAxisLabel: comp.yAxisLabel,
+        // Radial charts colour each slice; bar/line use the primary series colour
+        colors: isRadial ? buildChartPalette([p.primary, p.secondary, p.accent], data.length) : [p.primary, p.secondary, p.accent],
+        textColor: p.text,
+        gridColor: p.text,
+        showLegend: isRadial,
+        fontFamily: styleGuide.fontFamilyBody,
+        fontSize: themeTokens.typography.scale.micro,
+        zIndex: 6
+      });
+    } else {
+      els.push({ type: 'text', content: 'No Data Available', x: x, y: y + (h / 2), w, h: 0.5, fontSize: themeTokens.typography.scale.body, color: p.text, fontFamily: styleGuide.fontFamilyBody, align: 'center', zIndex: 10 });
+    }
 
-        // Value
-        els.push({
-          type: 'text', content: d.value.toString(),
-          x: barX - themeTokens.spacing.sm, y: barY - 0.3, w: barWidth + themeTokens.spacing.md, h: 0.3,
-          fontSize: themeTokens.typography.scale.micro, color: p.text, align: 'center', fontFamily: styleGuide.fontFamilyBody, zIndex: 7
-        });
+    return els;
+  }
 
-        // Label
-        els.push({
-          type: 'text', content: d.label,
-          x: barX - themeTokens.spacing.sm, y: chartArea.y + chartArea.h + 0.1, w: barWidth + themeTokens.spacing.md, h: 0.4,
-          fontSize: themeTokens.typography.scale.label, color: p.text, align: 'center', fontFamily: styleGuide.fontFamilyBody, zIndex: 7
-        });
+  // Helper to render a data-table as one native 'table' element (editable in PowerPoint).
+  // TextFitter sizes the columns and steps the font down from body to micro; rows that still
+  // do not fit the zone are dropped with a warning rather than shrunk below legibility.
+  private renderDataTable(
+    comp: TemplateComponent,
+    p: any,
+    x: number, y: number, w: number, h: number,
+    styleGuide: GlobalStyleGuide,
+    themeTokens: typeof DEFAULT_THEME_TOKENS
+  ): VisualElement[] {
+    const els: VisualElement[] = [];
+    if (comp.type !== 'data-table') return els;
+    const headers = comp.headers || [];
+    if (headers.length === 0) return els;
+
+    let tableY = y;
+    if (comp.title) {
+      els.push({
+        type: 'text',
+        content: comp.title,
+        x, y, w, h: 0.45,
+        fontSize: themeTokens.typography.scale.label,
+        bold: this.isBold(themeTokens.typography.weights.subtitle),
+        color: p.text,
+        fontFamily: styleGuide.fontFamilyTitle,
+        zIndex: 10
       });
+      tableY += 0.5;
+    }
 
-      // Axes Lines
-      els.push({ type: 'shape', shapeType: 'rect', x: chartArea.x, y: chartArea.y, w: 0.05, h: chartArea.h, fill: { color: p.text, alpha: 0.5 }, zIndex: 5 }); // Y Axis
-      els.push({ type: 'shape', shapeType: 'rect', x: chartArea.x, y: chartArea.y + chartArea.h, w: chartArea.w, h: 0.05, fill: { color: p.text, alpha: 0.5 }, zIndex: 5 }); // X Axis
-    } else {
-      els.push({ type: 'text', content: 'No Data Available', x: x, y: y + (h / 2), w, h: 0.5, fontSize: themeTokens.typography.scale.body, color: p.text, fontFamily: styleGuide.fontFamilyBody, align: 'center', zIndex: 10 });
+    // ✓ / ✗ values (yes, no, true, ...) become glyphs
+    const display = (cell: string) => {
+      const glyph = tableCellGlyph(cell);
+      return glyph === 'check' ? '✓' : glyph === 'cross' ? '✗' : cell;
+    };
+    const allRows = (comp.rows || []).map(row => headers.map((_, col) => display(row[col] ?? '')));
+    const fontFamily = styleGuide.fontFamilyBody;
+    const { body, micro } = themeTokens.typography.scale;
+
+    let rows = allRows;
+    let fit = fitTable([headers, ...rows], fontFamily, w, y + h - tableY, body, micro);
+    while (!fit.fits && rows.length > 1) {
+      rows = rows.slice(0, -1);
+      fit = fitTable([headers, ...rows], fontFamily, w, y + h - tableY, body, micro);
+    }
+    if (rows.length < allRows.length) {
+      this.addWarning(`Data table "${comp.title || 'table'}" truncated to ${rows.length} of ${comp.rows.length} rows to fit its zone.`);
     }
 
+    // Explicit alignment wins; otherwise the label column stays left, ✓/✗ columns centre
+    // and numbers read better right-aligned
+    const isNumber = (cell: string) => /^[-+($€£¥]*\d/.test(cell.trim());
+    const align = (col: number): TableAlign => {
+      const explicit = comp.columnAlign?.[col];
+      if (explicit) return explicit;
+      if (col === 0) return 'left';
+      const values = rows.map(row => row[col]).filter(cell => cell.trim());
+      if (values.length && values.every(cell => cell === '✓' || cell === '✗')) return 'center';
+      return values.length && values.every(isNumber) ? 'right' : 'left';
+    };
+    const highlightRows = new Set(comp.highlightRows || []);
+    const highlightCells = new Set((comp.highlightCells || []).map(c => `${c.row}:${c.col}`));
+    const success = normalizeColor(themeTokens.premiumColors.accent.success);
+    const danger = normalizeColor(themeTokens.premiumColors.accent.danger);
+
+    const cells: TableCell[][] = [
+      headers.map((header, col) => ({
+        text: header,
+        color: normalizeColor(themeTokens.premiumColors.text.primary),
+        fill: { color: p.primary, alpha: 1 },
+        align: align(col),
+        bold: true,
+        lines: fit.lines[0]?.[col]
+      })),
+      ...rows.map((row, r) => row.map((cell, col): TableCell => {
+        const rowHighlighted = highlightRows.has(r);
+        const cellHighlighted = highlightCells.has(`${r}:${col}`);
+        const fill = cellHighlighted ? { color: p.accent, alpha: 0.45 }
+          : rowHighlighted ? { color: p.accent, alpha: 0.22 }
+          : r % 2 === 1 ? { color: p.secondary, alpha: 0.12 }
+          : undefined;
+        return {
+          text: cell,
+          color: cell === '✓' ? success : cell === '✗' ? danger : p.text,
+          fill,
+          align: align(col),
+          bold: rowHighlighted || cellHighlighted || cell === '✓' || cell === '✗',
+          lines: fit.lines[r + 1]?.[col]
+        };
+      }))
+    ];
+
+    els.push({
+      type: 'table',
+      x, y: tableY,
+      w,
+      h: fit.rowHeights.reduce((sum, rowH) => sum + rowH, 0),
+      colW: fit.colWidths,
+      rowH: fit.rowHeights,
+      cells,
+      fontSize: fit.fontSize,
+      fontFamily,
+      borderColor: p.text,
+      zIndex: 10
+    });
     return els;
   }
 
@@ -1264,6 +1561,10 @@ function calculateZoneUtilization(zone: SpatialZone, allocated: any): number {
       case 'chart-frame':
         return 0.9; // Charts typically fill their zone
 
+      case 'data-table':
+        const tableRows = (comp.rows?.length || 0) + 1;
+        return Math.min(1.0, (tableRows * 0.4 + (comp.title ? 0.5 : 0)) / zone.h);
+
       default:
         return 0.5;
     }
@@ -1322,6 +1623,11 @@ function calculateTextDensity(components: TemplateComponent[]): number {
         totalItems += 1;
         break;
 
+      case 'data-table':
+        totalTextItems += (comp.rows?.length || 0) * (comp.headers?.length || 0); // Every cell is text
+        totalItems += (comp.rows?.length || 0);
+        break;
+
       case 'title-section':
         totalTextItems += 1 + (comp.subtitle ? 1 : 0);
         totalItems += 1 + (comp.subtitle ? 1 : 0);
@@ -1520,9 +1826,10 @@ export function renderWithLayeredComposition(
     }
   };
 
-  // Validate composition plan
-  if (!compositionPlan || !compositionPlan.layerPlan) {
-    console.warn('[renderWithLayeredComposition] Invalid composition plan, falling back to standard render');
+  // Validate composition plan (its placements are 16:9 positions that ignore a template's master;
+  // other slide sizes and corporate templates use the zone layout)
+  if (!compositionPlan || !compositionPlan.layerPlan || (styleGuide?.slideSize && styleGuide.slideSize !== '16:9') || styleGuide?.template) {
+    console.warn('[renderWithLayeredComposition] No usable composition plan, falling back to standard render');
     const engine = new SpatialLayoutEngine();
     return engine.renderWithSpatialAwareness(slide, styleGuide, getIconUrl, slide.visualDesignSpec, getDiagramUrl);
   }
@@ -1736,7 +2043,7 @@ export function renderWithLayeredComposition(
     return zA - zB;
   });
 
-  return elements;
+  return applyTextDirection(elements, styleGuide);
 }
 
 /**
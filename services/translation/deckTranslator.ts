@@ -0,0 +1,378 @@
+/**
+ * Deck Translator
+ *
+ * Translates a finished EditableSlideDeck into another language: deck and slide
+ * titles, component text, chart labels, data-table cells and speaker notes.
+ *
+ * Numbers and citations stay exactly as they are:
+ * - figures, footnote markers ([3], ¹) and URLs are masked as ⟦n⟧ placeholders
+ *   before the model sees the text and restored afterwards
+ * - a translation that loses a placeholder or changes the figures is rejected,
+ *   and that text keeps its original wording
+ * - slide citations and the knowledge sheet are not translated; applyCitations()
+ *   rebuilds the Sources slides under the target language's title
+ *
+ * Translated text runs longer (German) or wider (CJK), so every slide is fitted
+ * again: titles are measured with TextFitter against their layout zone and
+ * shortened if they no longer fit, then autoRepairSlide() re-applies the content
+ * limits. CJK, Arabic and Hebrew targets switch the style guide to fonts that
+ * carry the script; Arabic and Hebrew set styleGuide.direction to 'rtl'.
+ */
+
+import type { EditableSlideDeck, GlobalStyleGuide, SlideNode } from '../../types/slideTypes';
+import { createJsonInteraction, CostTracker, MODEL_AGENTIC } from '../interactionsClient';
+import { PROMPTS } from '../promptRegistry';
+import { extractNumericClaims } from '../validators';
+import { fitTextToContainer, maxCharsForContainer, measureText, measureTextUnits } from '../TextFitter';
+import { SpatialLayoutEngine } from '../spatialRenderer';
+import { autoRepairSlide } from '../repair/autoRepair';
+import { applyCitations } from '../citations/citationRenderer';
+import { DeckLanguage, findDeckLanguage, resolveDeckLanguage } from './languages';
+
+export interface TranslationSegment {
+    id: string;
+    text: string;
+    /** Width budget in average-character units (see measureTextUnits) */
+    maxChars?: number;
+}
+
+/** Translates a batch of segments; returns translated text by segment id. */
+export type SegmentTranslator = (segments: TranslationSegment[], language: DeckLanguage) => Promise<Record<string, string>>;
+
+export interface TranslateDeckOptions {
+    costTracker?: CostTracker;
+    /** Defaults to the model translator (translateSegmentsWithModel) */
+    translator?: SegmentTranslator;
+    onProgress?: (status: string, percent?: number) => void;
+}
+
+export interface DeckTranslation {
+    deck: EditableSlideDeck;
+    language: DeckLanguage;
+    /** Distinct texts sent for translation */
+    segmentCount: number;
+    /** Texts kept in the original language (missing translation, or figures changed) */
+    keptOriginal: string[];
+    /** Slides whose translated title was shortened to fit */
+    refittedSlides: number[];
+}
+
+export class TranslationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TranslationError';
+    }
+}
+
+const BATCH_SIZE = 40;
+// On-slide text may grow this much over the original before the budget bites
+const LENGTH_ALLOWANCE = 1.2;
+const TITLE_LINE_HEIGHT = 1.15;
+
+// Figures (with currency, %, magnitude suffix), footnote markers and URLs
+const PROTECTED_PATTERN = /https?:\/\/\S+|\[\d+(?:\s*[,–-]\s*\d+)*\]|[⁰¹²³⁴⁵⁶⁷⁸⁹]+|(?<![\p{L}\d])[$€£¥]?\d(?:[\d,.]*\d)?(?:%|(?:bn|mn|[kKmMbBtTxX×])(?!\p{L}))?/gu;
+const PLACEHOLDER_PATTERN = /⟦(\d+)⟧/g;
+
+// ============================================================================
+// PROTECTING NUMBERS AND CITATIONS
+// ============================================================================
+
+export function maskProtectedText(text: string): { masked: string; tokens: string[] } {
+    const tokens: string[] = [];
+    const masked = text.replace(PROTECTED_PATTERN, match => {
+        tokens.push(match);
+        return `⟦${tokens.length - 1}⟧`;
+    });
+    return { masked, tokens };
+}
+
+/**
+ * Put the protected tokens back. Returns undefined if the translation dropped,
+ * duplicated or invented a placeholder.
+ */
+export function restoreProtectedText(translated: string, tokens: string[]): string | undefined {
+    const seen = [...translated.matchAll(PLACEHOLDER_PATTERN)].map(m => Number(m[1]));
+    if (seen.length !== tokens.length || new Set(seen).size !== tokens.length || seen.some(i => i >= tokens.length)) {
+        return undefined;
+    }
+    return translated.replace(PLACEHOLDER_PATTERN, (_, i) => tokens[Number(i)]);
+}
+
+const figuresOf = (text: string) => extractNumericClaims(text, true).map(c => c.written).sort((a, b) => a - b);
+
+function sameFigures(original: string, translated: string): boolean {
+    const a = figuresOf(original);
+    const b = figuresOf(translated);
+    return a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+// ============================================================================
+// COLLECTING TRANSLATABLE TEXT
+// ============================================================================
+
+interface TextSlot {
+    text: string;
+    /** On-slide text gets a width budget; speaker notes do not */
+    onSlide: boolean;
+    set: (text: string) => void;
+}
+
+function collectSlideSlots(slide: SlideNode, slots: TextSlot[]): void {
+    const add = (text: unknown, set: (text: string) => void, onSlide = true) => {
+        // Nothing to translate in pure figures ("$4.2B", "2030")
+        if (typeof text === 'string' && /\p{L}/u.test(text.replace(PROTECTED_PATTERN, ''))) {
+            slots.push({ text, onSlide, set });
+        }
+    };
+    const addList = (list: unknown, onSlide = true) => {
+        if (Array.isArray(list)) list.forEach((text, i) => add(text, t => { list[i] = t; }, onSlide));
+    };
+
+    add(slide.title, t => { slide.title = t; });
+    const plan = slide.layoutPlan;
+    if (plan) {
+        add(plan.title, t => { plan.title = t; });
+        for (const comp of plan.components || []) {
+            const c = comp as any;
+            add(c.title, t => { c.title = t; });
+            add(c.intro, t => { c.intro = t; });
+            switch (comp.type) {
+                case 'title-section':
+                    add(comp.subtitle, t => { comp.subtitle = t; });
+                    break;
+                case 'text-bullets':
+                    addList(comp.content);
+                    break;
+                case 'metric-cards':
+                    // Values are figures and stay as they are
+                    comp.metrics?.forEach(m => add(m.label, t => { m.label = t; }));
+                    break;
+                case 'process-flow':
+                    comp.steps?.forEach(s => {
+                        add(s.title, t => { s.title = t; });
+                        add(s.description, t => { s.description = t; });
+                    });
+                    break;
+                case 'icon-grid':
+                    comp.items?.forEach(item => {
+                        add(item.label, t => { item.label = t; });
+                        add(item.description, t => { item.description = t; });
+                    });
+                    break;
+                case 'chart-frame':
+                    add(comp.yAxisLabel, t => { comp.yAxisLabel = t; });
+                    comp.data?.forEach(d => add(d.label, t => { d.label = t; }));
+                    break;
+                case 'data-table':
+                    addList(comp.headers);
+                    comp.rows?.forEach(row => addList(row));
+                    break;
+                case 'diagram-svg':
+                    add(comp.centralTheme, t => { comp.centralTheme = t; });
+                    comp.elements?.forEach(el => {
+                        add(el.label, t => { el.label = t; });
+                        add(el.detail, t => { el.detail = t; });
+                    });
+                    if (comp.axisLabels) {
+                        const axes = comp.axisLabels;
+                        add(axes.x, t => { axes.x = t; });
+                        add(axes.y, t => { axes.y = t; });
+                    }
+                    break;
+            }
+        }
+    }
+
+    const chart = slide.chartSpec;
+    if (chart) {
+        add(chart.title, t => { chart.title = t; });
+        add(chart.summary, t => { chart.summary = t; });
+        add(chart.yAxisLabel, t => { chart.yAxisLabel = t; });
+        chart.data?.forEach(d => add(d.label, t => { d.label = t; }));
+    }
+
+    addList(slide.speakerNotesLines, false);
+}
+
+// ============================================================================
+// MODEL TRANSLATOR
+// ============================================================================
+
+const translationSchema = {
+    type: 'object',
+    properties: {
+        translations: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: { id: { type: 'string' }, text: { type: 'string' } },
+                required: ['id', 'text']
+            }
+        }
+    },
+    required: ['translations']
+};
+
+export async function translateSegmentsWithModel(
+    segments: TranslationSegment[],
+    language: DeckLanguage,
+    costTracker?: CostTracker
+): Promise<Record<string, string>> {
+    const result = await createJsonInteraction<{ translations?: { id?: string; text?: string }[] }>(
+        MODEL_AGENTIC,
+        PROMPTS.TRANSLATOR.TASK(language.name, JSON.stringify(segments)),
+        translationSchema,
+        {
+            systemInstruction: PROMPTS.TRANSLATOR.ROLE,
+            temperature: 0.2,
+            maxOutputTokens: 8192
+        },
+        costTracker
+    );
+    const translations: Record<string, string> = {};
+    for (const entry of result?.translations || []) {
+        if (typeof entry?.id === 'string' && typeof entry.text === 'string') translations[entry.id] = entry.text;
+    }
+    return translations;
+}
+
+// ============================================================================
+// FITTING TRANSLATED SLIDES
+// ============================================================================
+
+/**
+ * Shorten a translated slide title that takes more lines than its layout zone
+ * holds (same zone and font size the SpatialLayoutEngine uses). Titles that
+ * already overflowed in the original may use as many lines as the original.
+ * Returns true if the title was shortened.
+ */
+function fitTitleToZone(slide: SlideNode, originalTitle: string, originalStyleGuide: GlobalStyleGuide, styleGuide: GlobalStyleGuide): boolean {
+    const variant = slide.routerConfig?.layoutVariant || 'standard-vertical';
+    const zone = new SpatialLayoutEngine().getZonesForVariant(variant, styleGuide.slideSize, styleGuide.template).find(z => z.id === 'title' || z.id === 'hero-title');
+    if (!zone || !slide.title || slide.title === originalTitle) return false;
+
+    const scale = styleGuide.themeTokens?.typography?.scale;
+    const fontSize = zone.purpose !== 'hero' ? (scale?.subtitle ?? 22)
+        : variant === 'hero-centered' ? (scale?.hero ?? 48)
+        : (scale?.title ?? 36);
+    // Zone sizes are inches, font sizes points
+    const width = zone.w * 72;
+    const font = styleGuide.fontFamilyTitle;
+
+    const zoneLines = Math.max(1, Math.floor((zone.h * 72) / (fontSize * TITLE_LINE_HEIGHT)));
+    const originalLines = measureText(originalTitle, originalStyleGuide.fontFamilyTitle, fontSize, width, undefined, TITLE_LINE_HEIGHT).lines;
+    const allowedLines = Math.max(zoneLines, originalLines);
+    if (measureText(slide.title, font, fontSize, width, undefined, TITLE_LINE_HEIGHT).lines <= allowedLines) return false;
+
+    const fitted = fitTextToContainer(slide.title, maxCharsForContainer(width, font, fontSize) * allowedLines, true, font);
+    if (slide.layoutPlan?.title === slide.title) slide.layoutPlan.title = fitted;
+    slide.title = fitted;
+    slide.warnings = [...(slide.warnings || []), 'Translated title shortened to fit'];
+    return true;
+}
+
+function localizeStyleGuide(styleGuide: GlobalStyleGuide, language: DeckLanguage): GlobalStyleGuide {
+    return {
+        ...styleGuide,
+        ...(language.fonts ? { fontFamilyTitle: language.fonts.title, fontFamilyBody: language.fonts.body } : {}),
+        direction: language.direction
+    };
+}
+
+// ============================================================================
+// TRANSLATE DECK
+// ============================================================================
+
+/**
+ * Translate a deck into `targetLanguage` (BCP 47, e.g. "de", "ja", "ar").
+ * The input deck is not modified. Throws UnsupportedLanguageError for unknown
+ * languages and TranslationError when a batch cannot be translated at all.
+ */
+export async function translateDeck(
+    deck: EditableSlideDeck,
+    targetLanguage: string,
+    options: TranslateDeckOptions = {}
+): Promise<DeckTranslation> {
+    const language = resolveDeckLanguage(targetLanguage);
+    const sourceLanguage = findDeckLanguage(deck.meta.language);
+    if (sourceLanguage?.code === language.code) {
+        console.log(`[TRANSLATE] Deck is already in ${language.name}`);
+        return { deck, language, segmentCount: 0, keptOriginal: [], refittedSlides: [] };
+    }
+
+    const translator = options.translator || ((segments, lang) => translateSegmentsWithModel(segments, lang, options.costTracker));
+    const translated: EditableSlideDeck = JSON.parse(JSON.stringify(deck));
+    // Sources slides are rebuilt by applyCitations below
+    translated.slides = translated.slides.filter(s => s.generatedBy !== 'citations');
+
+    const originalTitles = translated.slides.map(s => s.title);
+    const slots: TextSlot[] = [];
+    if (/\p{L}/u.test(translated.meta.title || '')) {
+        slots.push({ text: translated.meta.title, onSlide: true, set: t => { translated.meta.title = t; } });
+    }
+    translated.slides.forEach(slide => collectSlideSlots(slide, slots));
+
+    // One segment per distinct text (slide.title and layoutPlan.title usually repeat)
+    const unique = new Map<string, { segment: TranslationSegment; tokens: string[]; slots: TextSlot[] }>();
+    for (const slot of slots) {
+        const entry = unique.get(slot.text);
+        if (entry) {
+            entry.slots.push(slot);
+            continue;
+        }
+        const { masked, tokens } = maskProtectedText(slot.text);
+        const segment: TranslationSegment = { id: `t${unique.size}`, text: masked };
+        if (slot.onSlide) segment.maxChars = Math.ceil(measureTextUnits(slot.text) * LENGTH_ALLOWANCE);
+        unique.set(slot.text, { segment, tokens, slots: [slot] });
+    }
+
+    const entries = [...unique.values()];
+    console.log(`[TRANSLATE] ${sourceLanguage?.name || deck.meta.language} → ${language.name}: ${entries.length} text(s) from ${slots.length} field(s)`);
+
+    const keptOriginal: string[] = [];
+    for (let start = 0; start < entries.length; start += BATCH_SIZE) {
+        const batch = entries.slice(start, start + BATCH_SIZE);
+        options.onProgress?.(`Translating to ${language.name}...`, Math.round((start / entries.length) * 100));
+        let result: Record<string, string>;
+        try {
+            result = await translator(batch.map(e => e.segment), language);
+        } catch (e: any) {
+            throw new TranslationError(`Translation to ${language.name} failed: ${e?.message || e}`);
+        }
+
+        for (const entry of batch) {
+            const original = entry.slots[0].text;
+            const raw = result[entry.segment.id];
+            const restored = typeof raw === 'string' && raw.trim() ? restoreProtectedText(raw.trim(), entry.tokens) : undefined;
+            if (!restored || !sameFigures(original, restored)) {
+                keptOriginal.push(original);
+                continue;
+            }
+            entry.slots.forEach(slot => slot.set(restored));
+        }
+    }
+    if (keptOriginal.length > 0) {
+        console.warn(`[TRANSLATE] Kept ${keptOriginal.length} text(s) untranslated (missing translation or changed figures)`);
+    }
+
+    const styleGuide = localizeStyleGuide(translated.meta.styleGuide, language);
+    translated.meta = { ...translated.meta, language: language.code, styleGuide };
+
+    const refittedSlides: number[] = [];
+    translated.slides = translated.slides.map((slide, i) => {
+        if (fitTitleToZone(slide, originalTitles[i], deck.meta.styleGuide, styleGuide)) refittedSlides.push(i);
+        return autoRepairSlide(slide, styleGuide);
+    });
+    if (refittedSlides.length > 0) {
+        console.log(`[TRANSLATE] Shortened ${refittedSlides.length} title(s) to fit their zone`);
+    }
+
+    options.onProgress?.(`Translated to ${language.name}`, 100);
+    return {
+        deck: applyCitations(translated),
+        language,
+        segmentCount: entries.length,
+        keptOriginal,
+        refittedSlides
+    };
+}
@@ -0,0 +1,64 @@
+/**
+ * Deck Languages
+ *
+ * Languages the translation pass (deckTranslator.ts) can target, with what the
+ * renderer needs to know about each: reading direction, which fonts carry the
+ * script, and the few labels the pipeline writes itself (the Sources slide).
+ *
+ * Tags are BCP 47; only the primary subtag is matched ("ja-JP" → ja,
+ * "zh-Hans" → zh). Decks without a language are English.
+ */
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface DeckLanguage {
+    code: string;
+    /** English name, used in translation prompts and the UI */
+    name: string;
+    direction: TextDirection;
+    /**
+     * Fonts to switch the style guide to. Only set for scripts the theme fonts
+     * (Inter, Roboto, ...) do not cover; see FONT_METRICS in TextFitter.ts.
+     */
+    fonts?: { title: string; body: string };
+    /** Title of the generated Sources slide */
+    sourcesTitle: string;
+}
+
+export const DEFAULT_DECK_LANGUAGE = 'en';
+
+export const DECK_LANGUAGES: DeckLanguage[] = [
+    { code: 'en', name: 'English', direction: 'ltr', sourcesTitle: 'Sources' },
+    { code: 'de', name: 'German', direction: 'ltr', sourcesTitle: 'Quellen' },
+    { code: 'fr', name: 'French', direction: 'ltr', sourcesTitle: 'Sources' },
+    { code: 'es', name: 'Spanish', direction: 'ltr', sourcesTitle: 'Fuentes' },
+    { code: 'it', name: 'Italian', direction: 'ltr', sourcesTitle: 'Fonti' },
+    { code: 'pt', name: 'Portuguese', direction: 'ltr', sourcesTitle: 'Fontes' },
+    { code: 'nl', name: 'Dutch', direction: 'ltr', sourcesTitle: 'Bronnen' },
+    { code: 'pl', name: 'Polish', direction: 'ltr', sourcesTitle: 'Źródła' },
+    { code: 'ja', name: 'Japanese', direction: 'ltr', fonts: { title: 'Noto Sans JP', body: 'Noto Sans JP' }, sourcesTitle: '出典' },
+    { code: 'zh', name: 'Chinese (Simplified)', direction: 'ltr', fonts: { title: 'Noto Sans SC', body: 'Noto Sans SC' }, sourcesTitle: '资料来源' },
+    { code: 'ko', name: 'Korean', direction: 'ltr', fonts: { title: 'Noto Sans KR', body: 'Noto Sans KR' }, sourcesTitle: '출처' },
+    { code: 'ar', name: 'Arabic', direction: 'rtl', fonts: { title: 'Noto Sans Arabic', body: 'Noto Sans Arabic' }, sourcesTitle: 'المصادر' },
+    { code: 'he', name: 'Hebrew', direction: 'rtl', fonts: { title: 'Noto Sans Hebrew', body: 'Noto Sans Hebrew' }, sourcesTitle: 'מקורות' }
+];
+
+export class UnsupportedLanguageError extends Error {
+    constructor(tag: string) {
+        super(`Unsupported language "${tag}". Expected one of: ${DECK_LANGUAGES.map(l => l.code).join(', ')}.`);
+        this.name = 'UnsupportedLanguageError';
+    }
+}
+
+/** The language for a BCP 47 tag, or undefined if the pipeline does not support it. */
+export function findDeckLanguage(tag?: string): DeckLanguage | undefined {
+    const primary = (tag || DEFAULT_DECK_LANGUAGE).trim().toLowerCase().split(/[-_]/)[0];
+    return DECK_LANGUAGES.find(l => l.code === primary);
+}
+
+/** Like findDeckLanguage, but throws UnsupportedLanguageError for unknown tags. */
+export function resolveDeckLanguage(tag: string): DeckLanguage {
+    const language = findDeckLanguage(tag);
+    if (!language) throw new UnsupportedLanguageError(tag);
+    return language;
+}
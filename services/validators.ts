@@ -1,6 +1,7 @@
 
-import { SlideNode, ValidationResult, RenderModeSchema, VisualDesignSpec, RouterDecision, SlideLayoutPlanSchema, VisualCritiqueReportSchema, VisualCritiqueReport, PREMIUM_QUALITY_CHECKS } from "../types/slideTypes";
+import { SlideNode, ResearchFact, ValidationResult, RenderModeSchema, VisualDesignSpec, RouterDecision, SlideLayoutPlanSchema, VisualCritiqueReportSchema, VisualCritiqueReport, PREMIUM_QUALITY_CHECKS, AudienceProfile, DIAGRAM_ELEMENT_LIMITS, DiagramType, VisualElement, BrandKit } from "../types/slideTypes";
 import { CompositionPlan } from "../types/serendipityTypes";
+import { brandColorSet, brandFonts, normalizeHex } from "./brand/brandKit";
 
 // Helper for contrast check (handles hex with or without # prefix)
 const hasGoodContrast = (hex: string): boolean => {
@@ -306,7 +307,7 @@ export const validateSlide = (slide: SlideNode): ValidationResult => {
 
   // 1.5. CHECK: Unsupported or Unknown Components
   // Note: autoRepairSlide should have already mapped these, but we still check as a safety net
-  const SUPPORTED_TYPES = ['text-bullets', 'metric-cards', 'process-flow', 'icon-grid', 'chart-frame', 'diagram-svg'];
+  const SUPPORTED_TYPES = ['text-bullets', 'metric-cards', 'process-flow', 'icon-grid', 'chart-frame', 'data-table', 'diagram-svg'];
   components.forEach((c, idx) => {
     if (!SUPPORTED_TYPES.includes(c.type)) {
       // Reduced severity - autoRepairSlide should handle this, but log a warning
@@ -323,20 +324,21 @@ export const validateSlide = (slide: SlideNode): ValidationResult => {
   components.forEach((c, idx) => {
     if (c.type === 'diagram-svg') {
       const elements = (c as any).elements || [];
-      if (elements.length < 3) {
+      const limits = DIAGRAM_ELEMENT_LIMITS[(c as any).diagramType as DiagramType] || { min: 3, max: 8 };
+      if (elements.length < limits.min) {
         score -= 20;
         errors.push({
           code: "ERR_DIAGRAM_INSUFFICIENT_ELEMENTS",
-          message: `Diagram at index ${idx} has only ${elements.length} elements (min: 3)`,
+          message: `Diagram at index ${idx} has only ${elements.length} elements (min: ${limits.min})`,
           suggestedFix: "Add more elements or use icon-grid instead"
         });
       }
-      if (elements.length > 8) {
+      if (elements.length > limits.max) {
         score -= 15;
         errors.push({
           code: "WARN_DIAGRAM_TOO_COMPLEX",
-          message: `Diagram at index ${idx} has ${elements.length} elements (max: 8)`,
-          suggestedFix: "Split into multiple slides or reduce to 8 elements"
+          message: `Diagram at index ${idx} has ${elements.length} elements (max: ${limits.max})`,
+          suggestedFix: `Split into multiple slides or reduce to ${limits.max} elements`
         });
       }
       // Check element structure
@@ -385,6 +387,7 @@ export const validateSlide = (slide: SlideNode): ValidationResult => {
       if (c.type === 'metric-cards') text += (c.metrics || []).map(m => m.label || "").join(" ");
       if (c.type === 'icon-grid') text += (c.items || []).map(i => i.label || "").join(" ");
       if (c.type === 'chart-frame' && c.data) text += c.data.map(d => d.label || "").join(" ");
+      if (c.type === 'data-table') text += (c.rows || []).map(r => r.join(" ")).join(" ");
     } catch (e: any) {
       console.warn(`[VALIDATOR] Failed to read component text content: ${e?.message || e}`);
     }
@@ -845,6 +848,149 @@ export function validateContentCompleteness(slide: SlideNode): ContentCompletene
   };
 }
 
+// ============================================================================
+// NUMERIC CLAIM TRACEABILITY (Hallucination guard)
+// ============================================================================
+// Every number, percentage, currency amount and year on a slide must appear in
+// the knowledgeSheet (ResearchFact.value or .claim). The content planner can
+// invent plausible figures; this is the cheap, deterministic check for that.
+
+export type NumericClaimKind = 'percent' | 'currency' | 'number' | 'year';
+
+export interface NumericClaim {
+  /** Token as written, e.g. "$4.2B" */
+  text: string;
+  kind: NumericClaimKind;
+  /** Number as written, before any magnitude suffix (4.2) */
+  written: number;
+  /** Number with the magnitude applied (4200000000) */
+  value: number;
+  /** Decimal places as written, for rounding tolerance */
+  decimals: number;
+}
+
+export interface NumericClaimSource {
+  /** Where the text sits on the slide, e.g. "bullet 2", "metric 1" */
+  location: string;
+  text: string;
+}
+
+export interface UntraceableClaim extends NumericClaim {
+  location: string;
+  context: string;
+}
+
+export interface NumericTraceabilityResult {
+  passed: boolean;
+  score: number;
+  /** Numeric claims checked (trivial counts excluded) */
+  claimCount: number;
+  untraceable: UntraceableClaim[];
+  issues: ContentCompletenessResult['issues'];
+}
+
+const NUMERIC_CLAIM_PATTERN = /(?<![\w.,])([$€£¥]\s?)?(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?(?:\s?(%|percent\b|per cent\b|thousand\b|million\b|billion\b|trillion\b|k\b|mn\b|m\b|bn\b|b\b|t\b|x\b))?/gi;
+
+const MAGNITUDES: Record<string, number> = {
+  x: 1, thousand: 1e3, k: 1e3, million: 1e6, mn: 1e6, m: 1e6, billion: 1e9, bn: 1e9, b: 1e9, trillion: 1e12, t: 1e12
+};
+
+/**
+ * Numbers, percentages, currency amounts and years in a piece of text.
+ * Small bare counts ("3 pillars", "Top 5") are not claims and are skipped;
+ * multiples ("7.5x") are.
+ */
+export function extractNumericClaims(text: string, includeTrivial: boolean = false): NumericClaim[] {
+  const claims: NumericClaim[] = [];
+  for (const match of (text || '').matchAll(NUMERIC_CLAIM_PATTERN)) {
+    const [token, currency, integer, fraction, suffix] = match;
+    const written = Number(integer.replace(/,/g, '') + (fraction || ''));
+    const unit = suffix?.toLowerCase();
+    const isPercent = unit === '%' || unit === 'percent' || unit === 'per cent';
+    const magnitude = unit && !isPercent ? MAGNITUDES[unit] : 1;
+    const kind: NumericClaimKind = isPercent ? 'percent'
+      : currency ? 'currency'
+      : !unit && !fraction && !integer.includes(',') && written >= 1900 && written <= 2100 ? 'year'
+      : 'number';
+    if (!includeTrivial && kind === 'number' && !unit && written <= 10) continue;
+    claims.push({ text: token.trim(), kind, written, value: written * magnitude, decimals: fraction ? fraction.length - 1 : 0 });
+  }
+  return claims;
+}
+
+/** A slide figure matches a fact figure if it is the same number, allowing for rounding. */
+function matchesFactFigure(claim: NumericClaim, fact: NumericClaim): boolean {
+  if (claim.kind === 'year' || fact.kind === 'year') return claim.kind === fact.kind && claim.value === fact.value;
+  if (claim.kind !== fact.kind && claim.kind !== 'number' && fact.kind !== 'number') return false;
+  const scale = claim.value / (claim.written || 1);
+  const tolerance = (claim.decimals > 0 ? 0.5 * 10 ** -claim.decimals : 0.5) * scale;
+  // "$4.2B" compares as 4.2e9; a bare chart value of 4.2 compares with either form
+  const target = scale !== 1 ? [claim.value] : [claim.written];
+  const candidates = [fact.value, fact.written];
+  return target.some(t => candidates.some(c => Math.abs(t - c) <= Math.max(tolerance, Math.abs(c) * 0.01)));
+}
+
+/**
+ * Figures in the given texts that no research fact states.
+ */
+export function findUntraceableClaims(sources: NumericClaimSource[], facts: ResearchFact[]): UntraceableClaim[] {
+  const factFigures = facts.flatMap(f => extractNumericClaims(`${f.claim || ''} ${f.value || ''}`, true));
+  return sources.flatMap(source =>
+    extractNumericClaims(source.text)
+      .filter(claim => !factFigures.some(figure => matchesFactFigure(claim, figure)))
+      .map(claim => ({ ...claim, location: source.location, context: source.text }))
+  );
+}
+
+/** Every text on a slide that can carry a figure, labelled by location. */
+export function collectNumericClaimSources(slide: SlideNode): NumericClaimSource[] {
+  const sources: NumericClaimSource[] = [{ location: 'title', text: slide.layoutPlan?.title || slide.title || '' }];
+  (slide.layoutPlan?.components || []).forEach(comp => {
+    if (comp.type === 'text-bullets') {
+      (comp.content || []).forEach((bullet, i) => sources.push({ location: `bullet ${i + 1}`, text: bullet }));
+    } else if (comp.type === 'metric-cards') {
+      (comp.metrics || []).forEach((m, i) => sources.push({ location: `metric ${i + 1}`, text: `${m.value} ${m.label}` }));
+    } else if (comp.type === 'chart-frame') {
+      (comp.data || []).forEach((d, i) => sources.push({ location: `chart data ${i + 1}`, text: `${d.label} ${d.value}` }));
+    } else if (comp.type === 'data-table') {
+      (comp.rows || []).forEach((row, i) => sources.push({ location: `table row ${i + 1}`, text: row.join(' ') }));
+    } else if (comp.type === 'process-flow') {
+      (comp.steps || []).forEach((s, i) => sources.push({ location: `step ${i + 1}`, text: s.description }));
+    } else if (comp.type === 'icon-grid') {
+      (comp.items || []).forEach((item, i) => sources.push({ location: `item ${i + 1}`, text: item.description || '' }));
+    } else if (comp.type === 'title-section' && comp.subtitle) {
+      sources.push({ location: 'subtitle', text: comp.subtitle });
+    }
+  });
+  return sources.filter(source => typeof source.text === 'string' && source.text);
+}
+
+/**
+ * Numeric Claim Traceability Validation
+ * Flags every figure on the slide (metric values, chart data, bullets) that
+ * cannot be matched to a ResearchFact with CONTENT_UNTRACEABLE_NUMBER.
+ * Metric and chart values are what the audience remembers, so those are critical.
+ */
+export function validateNumericTraceability(slide: SlideNode, facts: ResearchFact[]): NumericTraceabilityResult {
+  const sources = collectNumericClaimSources(slide);
+  const claimCount = sources.reduce((sum, source) => sum + extractNumericClaims(source.text).length, 0);
+  const untraceable = findUntraceableClaims(sources, facts);
+
+  const issues: ContentCompletenessResult['issues'] = untraceable.map(claim => ({
+    code: 'CONTENT_UNTRACEABLE_NUMBER',
+    message: `${claim.location}: "${claim.text}" does not appear in any research fact`,
+    severity: /^(metric|chart)/.test(claim.location) ? 'critical' : 'major'
+  }));
+
+  return {
+    passed: !issues.some(i => i.severity === 'critical'),
+    score: Math.max(0, 100 - untraceable.length * 15),
+    claimCount,
+    untraceable,
+    issues
+  };
+}
+
 // ============================================================================
 // NO-PLACEHOLDER SHIPPING HARD GATE
 // ============================================================================
@@ -1103,6 +1249,10 @@ function extractSlideTextForCompleteness(slide: SlideNode): string {
     } else if (comp.type === 'chart-frame') {
       if (comp.title) parts.push(comp.title);
       (comp.data || []).forEach(d => parts.push(d.label));
+    } else if (comp.type === 'data-table') {
+      if (comp.title) parts.push(comp.title);
+      parts.push(...(comp.headers || []));
+      (comp.rows || []).forEach(row => parts.push(...row));
     } else if (comp.type === 'process-flow') {
       (comp.steps || []).forEach(s => {
         parts.push(s.title, s.description);
@@ -1496,3 +1646,186 @@ export function validateDeckCoherence(slides: SlideNode[]): CoherenceReport {
     passed: score >= 70 // 70+ is acceptable coherence
   };
 }
+
+// ============================================================================
+// READING LEVEL (Audience fit)
+// ============================================================================
+// Flesch-Kincaid grade of the prose on a slide, compared with the audience
+// profile's readingLevel. Each bullet or description counts as at least one
+// sentence, so terse fragments score low rather than being merged into one
+// long run-on. Titles, metric values and table cells are not prose and are skipped.
+
+/** Grades above the target that still pass without an issue */
+export const READING_LEVEL_TOLERANCE = 2;
+
+// Below this many words a grade says more about the formula than the slide
+const MIN_WORDS_FOR_GRADE = 12;
+
+export interface ReadingLevelResult {
+  passed: boolean;
+  score: number;
+  /** Flesch-Kincaid grade; undefined when the slide has too little prose to grade */
+  grade?: number;
+  targetGrade: number;
+  wordCount: number;
+  issues: ContentCompletenessResult['issues'];
+}
+
+/** Vowel-group syllable estimate; good to about one syllable per word. */
+export function countSyllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!w) return 0;
+  if (w.length <= 3) return 1;
+  const groups = w.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length || 0);
+}
+
+/** Flesch-Kincaid grade of a set of texts, each treated as its own sentence(s). */
+export function fleschKincaidGrade(texts: string[]): { grade?: number; words: number; sentences: number } {
+  let words = 0, sentences = 0, syllables = 0;
+  for (const text of texts) {
+    const parts = (text || '').split(/[.!?;:]+(?:\s|$)/).filter(part => /[a-z]/i.test(part));
+    for (const part of parts) {
+      const tokens = part.split(/\s+/).filter(token => /[a-z]/i.test(token));
+      if (tokens.length === 0) continue;
+      sentences++;
+      words += tokens.length;
+      syllables += tokens.reduce((sum, token) => sum + countSyllables(token), 0);
+    }
+  }
+  if (words === 0) return { words, sentences };
+  const grade = 0.39 * (words / sentences) + 11.8 * (syllables / words) - 15.59;
+  return { grade: Math.round(grade * 10) / 10, words, sentences };
+}
+
+/** The prose on a slide: bullets, step and item descriptions, subtitles. */
+function collectSlideProse(slide: SlideNode): string[] {
+  const texts: string[] = [];
+  (slide.layoutPlan?.components || []).forEach(comp => {
+    if (comp.type === 'text-bullets') {
+      texts.push(...(comp.content || []));
+    } else if (comp.type === 'process-flow') {
+      (comp.steps || []).forEach(s => texts.push(s.description));
+    } else if (comp.type === 'icon-grid') {
+      (comp.items || []).forEach(item => texts.push(item.description || ''));
+    } else if (comp.type === 'title-section' && comp.subtitle) {
+      texts.push(comp.subtitle);
+    }
+  });
+  return texts.filter(text => typeof text === 'string' && text.trim());
+}
+
+/**
+ * Reading Level Validation
+ * Scores a slide's prose against the audience's target grade. Text more than
+ * READING_LEVEL_TOLERANCE grades above the target is flagged with
+ * CONTENT_READING_LEVEL_HIGH (major once 4 or more grades past the tolerance);
+ * simpler text passes.
+ */
+export function validateReadingLevel(slide: SlideNode, audience: AudienceProfile): ReadingLevelResult {
+  const targetGrade = audience.readingLevel;
+  const { grade, words } = fleschKincaidGrade(collectSlideProse(slide));
+  if (grade === undefined || words < MIN_WORDS_FOR_GRADE) {
+    return { passed: true, score: 100, targetGrade, wordCount: words, issues: [] };
+  }
+
+  const excess = grade - (targetGrade + READING_LEVEL_TOLERANCE);
+  const issues: ContentCompletenessResult['issues'] = excess > 0 ? [{
+    code: 'CONTENT_READING_LEVEL_HIGH',
+    message: `Reads at grade ${grade.toFixed(1)}; ${audience.label} target is grade ${targetGrade}`,
+    severity: excess >= 4 ? 'major' : 'minor'
+  }] : [];
+
+  return {
+    passed: issues.length === 0,
+    score: Math.max(0, Math.round(100 - Math.max(0, excess) * 10)),
+    grade,
+    targetGrade,
+    wordCount: words,
+    issues
+  };
+}
+
+// ============================================================================
+// BRAND COMPLIANCE (Brand kit)
+// ============================================================================
+// Colours and font faces of a slide's rendered VisualElements, checked against
+// a brand kit (services/brand/brandKit.ts). Opacity is ignored, so a tint of an
+// approved colour passes, but fully transparent paint is skipped. Card shadows
+// and highlights are black and white: kits that accept them list those as
+// neutral colours. Images (logos, photos, rasterised diagrams) are not inspected.
+
+export interface BrandComplianceResult {
+  passed: boolean;
+  score: number;
+  /** Colours outside the kit ("#RRGGBB", or the raw value when it is not hex) */
+  offBrandColors: string[];
+  /** Font faces outside the kit */
+  offBrandFonts: string[];
+  issues: ContentCompletenessResult['issues'];
+}
+
+function elementColors(el: VisualElement): (string | undefined)[] {
+  switch (el.type) {
+    case 'shape': return [
+      el.fill?.alpha !== 0 ? el.fill?.color : undefined,
+      el.border?.alpha !== 0 && el.border?.width !== 0 ? el.border?.color : undefined,
+      el.text ? el.textColor : undefined
+    ];
+    case 'text': return [el.color];
+    case 'table': return [el.borderColor, ...el.cells.flat().flatMap(cell => [cell.color, cell.fill?.color])];
+    case 'chart': return [...el.colors, el.textColor, el.gridColor];
+    default: return [];
+  }
+}
+
+// First face of a CSS-style stack, without quotes
+const primaryFace = (fontFamily: string) => fontFamily.split(',')[0].trim().replace(/^["']|["']$/g, '');
+
+/**
+ * Brand Compliance Validation
+ * Reports every colour and font face on the slide that the kit does not list
+ * (BRAND_COLOR_OFF_KIT, BRAND_FONT_OFF_KIT). Elements without a font family
+ * inherit the style guide's fonts and pass.
+ */
+export function validateBrandCompliance(elements: VisualElement[], kit: BrandKit): BrandComplianceResult {
+  const approvedColors = brandColorSet(kit);
+  const approvedFonts = new Set(brandFonts(kit).map(face => face.toLowerCase()));
+  const offBrandColors = new Set<string>();
+  const offBrandFonts = new Set<string>();
+
+  for (const el of elements || []) {
+    for (const color of elementColors(el)) {
+      if (!color) continue;
+      const hex = normalizeHex(color);
+      if (!hex) offBrandColors.add(color);
+      else if (!approvedColors.has(hex)) offBrandColors.add(`#${hex}`);
+    }
+    const fontFamily = el.type === 'text' || el.type === 'table' || el.type === 'chart' ? el.fontFamily : undefined;
+    if (fontFamily && !approvedFonts.has(primaryFace(fontFamily).toLowerCase())) offBrandFonts.add(primaryFace(fontFamily));
+  }
+
+  const issues: ContentCompletenessResult['issues'] = [];
+  if (offBrandColors.size > 0) {
+    issues.push({
+      code: 'BRAND_COLOR_OFF_KIT',
+      message: `Colours outside the ${kit.name} kit: ${[...offBrandColors].join(', ')}`,
+      severity: 'major'
+    });
+  }
+  if (offBrandFonts.size > 0) {
+    issues.push({
+      code: 'BRAND_FONT_OFF_KIT',
+      message: `Fonts outside the ${kit.name} kit: ${[...offBrandFonts].join(', ')}`,
+      severity: 'major'
+    });
+  }
+
+  return {
+    passed: issues.length === 0,
+    score: Math.max(0, 100 - (offBrandColors.size + offBrandFonts.size) * 15),
+    offBrandColors: [...offBrandColors],
+    offBrandFonts: [...offBrandFonts],
+    issues
+  };
+}
@@ -0,0 +1,305 @@
+import type { VisualElement } from "../../types/slideTypes";
+
+/**
+ * Chart Geometry
+ *
+ * Vector rendering for native `chart` VisualElements.
+ * PPTX export emits a real (editable) pptxgenjs chart for these elements;
+ * the preview canvas and the SVG proxy use this module so that all three
+ * surfaces show an equivalent chart.
+ *
+ * Markup is produced in LOCAL coordinates (origin = chart top-left),
+ * scaled by `unitsPerInch` (100 matches the SVG proxy's 1000x563 viewBox).
+ */
+
+export type ChartElement = Extract<VisualElement, { type: 'chart' }>;
+
+const DEFAULT_CHART_COLORS = ['22C55E', '38BDF8', 'F59E0B', 'A78BFA', 'F472B6', '2DD4BF'];
+
+function escapeXml(text: string): string {
+    if (!text || typeof text !== 'string') return '';
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;')
+        .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
+}
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Format a data value for labels (drops trailing zeros, thousands separators).
+ */
+export function formatChartValue(value: number): string {
+    if (!Number.isFinite(value)) return '';
+    const rounded = Math.round(value * 100) / 100;
+    return rounded.toLocaleString('en-US', { maximumFractionDigits: 2 });
+}
+
+/**
+ * Resolve the colour for the i-th data point, cycling through the palette.
+ */
+export function getChartColor(chart: ChartElement, index: number): string {
+    const colors = chart.colors?.length ? chart.colors : DEFAULT_CHART_COLORS;
+    return colors[index % colors.length].replace('#', '');
+}
+
+/**
+ * Share of the total for each data point (0-100). Negative values count as 0.
+ */
+export function computeChartPercentages(data: Array<{ value: number }>): number[] {
+    const total = data.reduce((sum, d) => sum + Math.max(0, d.value), 0);
+    if (total <= 0) return data.map(() => 0);
+    return data.map(d => (Math.max(0, d.value) / total) * 100);
+}
+
+/**
+ * Format a percentage for slice labels / legends ("42%", "3.5%").
+ */
+export function formatChartPercent(percent: number): string {
+    return percent >= 10 || percent === 0 ? `${Math.round(percent)}%` : `${Math.round(percent * 10) / 10}%`;
+}
+
+/**
+ * Expand a base palette to `count` colours by appending lighter tints,
+ * so pie/doughnut slices stay distinguishable beyond the 3 brand colours.
+ */
+export function buildChartPalette(base: string[], count: number): string[] {
+    const clean = (base.length ? base : DEFAULT_CHART_COLORS).map(c => c.replace('#', '').toUpperCase());
+    const palette = [...clean];
+    const tint = (hex: string, amount: number) => {
+        const n = parseInt(hex, 16);
+        if (!Number.isFinite(n) || hex.length !== 6) return hex;
+        const channel = (shift: number) => {
+            const c = (n >> shift) & 0xff;
+            return Math.round(c + (255 - c) * amount).toString(16).padStart(2, '0');
+        };
+        return `${channel(16)}${channel(8)}${channel(0)}`.toUpperCase();
+    };
+    for (let pass = 1; palette.length < count && pass < 4; pass++) {
+        clean.forEach(c => { if (palette.length < count) palette.push(tint(c, 0.25 * pass)); });
+    }
+    return palette;
+}
+
+interface ChartRenderContext {
+    W: number;
+    H: number;
+    fontSize: number;
+    textColor: string;
+    axisColor: string;
+    fontAttr: string;
+}
+
+const text = (ctx: ChartRenderContext, x: number, y: number, content: string, anchor: 'start' | 'middle' | 'end' = 'middle', extra: string = '') =>
+    `<text x="${round(x)}" y="${round(y)}" font-size="${round(ctx.fontSize)}" fill="#${ctx.textColor}" text-anchor="${anchor}"${ctx.fontAttr}${extra}>${escapeXml(content)}</text>`;
+
+const truncateLabel = (label: string, width: number, fontSize: number) => {
+    const maxChars = Math.max(3, Math.floor(width / (fontSize * 0.55)));
+    return label.length > maxChars ? `${label.slice(0, maxChars - 1)}…` : label;
+};
+
+/**
+ * Cartesian frame shared by bar and line charts: plot area, axes, category labels, axis title.
+ * The value range always includes 0; with negative values the category axis
+ * crosses at zero, as it does in the native PowerPoint chart.
+ */
+function buildCartesianFrame(chart: ChartElement, ctx: ChartRenderContext, data: ChartElement['data']) {
+    const { W, H, fontSize } = ctx;
+    const axisTitleW = chart.yAxisLabel ? fontSize * 1.8 : 0;
+    const plot = {
+        x: axisTitleW + fontSize * 0.6,
+        y: fontSize * 1.6,
+        w: W - axisTitleW - fontSize * 1.2,
+        h: H - fontSize * 4
+    };
+    const maxValue = Math.max(...data.map(d => d.value), 0);
+    const minValue = Math.min(...data.map(d => d.value), 0);
+    const span = maxValue - minValue || 1;
+    const valueY = (value: number) => plot.y + ((maxValue - value) / span) * plot.h;
+    const zeroY = valueY(0);
+    const slot = plot.w / data.length;
+
+    let markup = '';
+    data.forEach((d, i) => {
+        markup += text(ctx, plot.x + i * slot + slot / 2, plot.y + plot.h + fontSize * 1.4, truncateLabel(d.label, slot, fontSize));
+    });
+    markup += `<line x1="${round(plot.x)}" y1="${round(plot.y)}" x2="${round(plot.x)}" y2="${round(plot.y + plot.h)}" stroke="#${ctx.axisColor}" stroke-opacity="0.5" stroke-width="1"/>`;
+    markup += `<line x1="${round(plot.x)}" y1="${round(zeroY)}" x2="${round(plot.x + plot.w)}" y2="${round(zeroY)}" stroke="#${ctx.axisColor}" stroke-opacity="0.5" stroke-width="1"/>`;
+
+    if (chart.yAxisLabel) {
+        const tx = round(fontSize);
+        const ty = round(plot.y + plot.h / 2);
+        markup += text(ctx, tx, ty, chart.yAxisLabel, 'middle', ` transform="rotate(-90 ${tx} ${ty})"`);
+    }
+
+    return { plot, valueY, zeroY, slot, markup };
+}
+
+function buildBarMarkup(chart: ChartElement, ctx: ChartRenderContext, data: ChartElement['data']): string {
+    const { plot, valueY, zeroY, slot, markup: frame } = buildCartesianFrame(chart, ctx, data);
+    if (plot.w <= 0 || plot.h <= 0) return '';
+    const barW = slot * 0.6;
+
+    let markup = '';
+    data.forEach((d, i) => {
+        // Bars grow from the zero line: up for positive values, down for negative ones
+        const endY = valueY(d.value);
+        const barY = Math.min(zeroY, endY);
+        const barH = Math.abs(endY - zeroY);
+        const barX = plot.x + i * slot + (slot - barW) / 2;
+        const labelY = d.value < 0 ? endY + ctx.fontSize * 1.1 : endY - ctx.fontSize * 0.4;
+
+        markup += `<rect x="${round(barX)}" y="${round(barY)}" width="${round(barW)}" height="${round(barH)}" fill="#${getChartColor(chart, 0)}" fill-opacity="0.85"/>`;
+        markup += text(ctx, barX + barW / 2, labelY, formatChartValue(d.value));
+    });
+    return markup + frame;
+}
+
+function buildLineMarkup(chart: ChartElement, ctx: ChartRenderContext, data: ChartElement['data']): string {
+    const { plot, valueY, slot, markup: frame } = buildCartesianFrame(chart, ctx, data);
+    if (plot.w <= 0 || plot.h <= 0) return '';
+    const color = getChartColor(chart, 0);
+
+    const points = data.map((d, i) => ({
+        x: plot.x + i * slot + slot / 2,
+        y: valueY(d.value),
+        value: d.value
+    }));
+
+    let markup = `<polyline points="${points.map(pt => `${round(pt.x)},${round(pt.y)}`).join(' ')}" fill="none" stroke="#${color}" stroke-width="${round(ctx.fontSize * 0.2)}" stroke-linejoin="round"/>`;
+    points.forEach(pt => {
+        markup += `<circle cx="${round(pt.x)}" cy="${round(pt.y)}" r="${round(ctx.fontSize * 0.3)}" fill="#${color}"/>`;
+        markup += text(ctx, pt.x, pt.y - ctx.fontSize * 0.6, formatChartValue(pt.value));
+    });
+    return markup + frame;
+}
+
+/**
+ * Pie and doughnut: slices with percentage labels plus a legend
+ * (right-hand column on wide areas, bottom row otherwise).
+ */
+function buildRadialMarkup(chart: ChartElement, ctx: ChartRenderContext, data: ChartElement['data']): string {
+    const { W, H, fontSize } = ctx;
+    const percentages = computeChartPercentages(data);
+    if (percentages.every(p => p === 0)) {
+        return text(ctx, W / 2, H / 2, 'No Data Available');
+    }
+
+    const showLegend = chart.showLegend !== false;
+    const legendRight = W / H > 1.3;
+    const rowH = fontSize * 1.5;
+    const legendW = showLegend && legendRight ? Math.min(W * 0.42, fontSize * 14) : 0;
+    const legendH = showLegend && !legendRight ? rowH * Math.ceil(data.length / 2) + fontSize * 0.5 : 0;
+
+    const areaW = W - legendW;
+    const areaH = H - legendH;
+    const r = Math.max(0, Math.min(areaW, areaH) / 2 - fontSize * 0.5);
+    if (r <= 0) return '';
+    const cx = areaW / 2;
+    const cy = areaH / 2;
+    const innerR = chart.chartType === 'doughnut' ? r * 0.55 : 0;
+
+    const polar = (radius: number, angle: number) => ({
+        x: cx + radius * Math.cos(angle),
+        y: cy + radius * Math.sin(angle)
+    });
+
+    let markup = '';
+    let angle = -Math.PI / 2;
+    data.forEach((d, i) => {
+        const pct = percentages[i];
+        if (pct <= 0) return;
+        const sweep = (pct / 100) * Math.PI * 2;
+        const color = getChartColor(chart, i);
+
+        if (pct >= 99.99) {
+            // Single full slice: arcs can't start and end on the same point
+            markup += `<circle cx="${round(cx)}" cy="${round(cy)}" r="${round(r)}" fill="#${color}"/>`;
+        } else {
+            const large = sweep > Math.PI ? 1 : 0;
+            const o0 = polar(r, angle);
+            const o1 = polar(r, angle + sweep);
+            if (innerR > 0) {
+                const i0 = polar(innerR, angle + sweep);
+                const i1 = polar(innerR, angle);
+                markup += `<path d="M${round(o0.x)} ${round(o0.y)} A${round(r)} ${round(r)} 0 ${large} 1 ${round(o1.x)} ${round(o1.y)} L${round(i0.x)} ${round(i0.y)} A${round(innerR)} ${round(innerR)} 0 ${large} 0 ${round(i1.x)} ${round(i1.y)} Z" fill="#${color}"/>`;
+            } else {
+                markup += `<path d="M${round(cx)} ${round(cy)} L${round(o0.x)} ${round(o0.y)} A${round(r)} ${round(r)} 0 ${large} 1 ${round(o1.x)} ${round(o1.y)} Z" fill="#${color}"/>`;
+            }
+        }
+
+        // Percentage label at the slice centroid (skip slivers that can't hold text)
+        if (pct >= 4) {
+            const labelR = innerR > 0 ? (r + innerR) / 2 : r * 0.62;
+            const pos = polar(labelR, angle + sweep / 2);
+            markup += `<text x="${round(pos.x)}" y="${round(pos.y + fontSize * 0.35)}" font-size="${round(fontSize)}" fill="#FFFFFF" text-anchor="middle" font-weight="bold"${ctx.fontAttr}>${formatChartPercent(pct)}</text>`;
+        }
+        angle += sweep;
+    });
+
+    if (innerR > 0) {
+        const total = data.reduce((sum, d) => sum + Math.max(0, d.value), 0);
+        markup += `<text x="${round(cx)}" y="${round(cy + fontSize * 0.5)}" font-size="${round(fontSize * 1.5)}" fill="#${ctx.textColor}" text-anchor="middle" font-weight="bold"${ctx.fontAttr}>${escapeXml(formatChartValue(total))}</text>`;
+    }
+
+    if (showLegend) {
+        const swatch = fontSize * 0.8;
+        data.forEach((d, i) => {
+            const colW = legendRight ? legendW : W / 2;
+            const lx = legendRight ? areaW + fontSize * 0.5 : (i % 2) * colW + fontSize * 0.5;
+            const ly = legendRight
+                ? cy - (data.length * rowH) / 2 + i * rowH
+                : areaH + fontSize * 0.5 + Math.floor(i / 2) * rowH;
+            const labelW = colW - swatch - fontSize * 1.5;
+            const entry = `${truncateLabel(d.label, labelW - fontSize * 3, fontSize)} (${formatChartValue(d.value)})`;
+            markup += `<rect x="${round(lx)}" y="${round(ly)}" width="${round(swatch)}" height="${round(swatch)}" fill="#${getChartColor(chart, i)}"/>`;
+            markup += text(ctx, lx + swatch + fontSize * 0.4, ly + swatch * 0.85, entry, 'start');
+        });
+    }
+
+    return markup;
+}
+
+/**
+ * Build SVG markup (no <svg> wrapper) for a chart element.
+ */
+export function buildChartSvgMarkup(chart: ChartElement, unitsPerInch: number = 100): string {
+    const data = (chart.data || []).filter(d => d && Number.isFinite(d.value));
+    const fontSize = ((chart.fontSize || 10) / 72) * unitsPerInch;
+    const textColor = (chart.textColor || 'F1F5F9').replace('#', '');
+    const ctx: ChartRenderContext = {
+        W: chart.w * unitsPerInch,
+        H: chart.h * unitsPerInch,
+        fontSize,
+        textColor,
+        axisColor: (chart.gridColor || textColor).replace('#', ''),
+        fontAttr: chart.fontFamily ? ` font-family="${escapeXml(chart.fontFamily)}"` : ''
+    };
+
+    if (data.length === 0) {
+        return text(ctx, ctx.W / 2, ctx.H / 2, 'No Data Available');
+    }
+
+    switch (chart.chartType) {
+        case 'line':
+            return buildLineMarkup(chart, ctx, data);
+        case 'pie':
+        case 'doughnut':
+            return buildRadialMarkup(chart, ctx, data);
+        case 'bar':
+        default:
+            return buildBarMarkup(chart, ctx, data);
+    }
+}
+
+/**
+ * Build a standalone SVG document for a chart element (used by the preview canvas).
+ */
+export function buildChartSvg(chart: ChartElement, unitsPerInch: number = 100): string {
+    const W = round(chart.w * unitsPerInch);
+    const H = round(chart.h * unitsPerInch);
+    return `<svg viewBox="0 0 ${W} ${H}" width="100%" height="100%" xmlns="http://www.w3.org/2000/svg">${buildChartSvgMarkup(chart, unitsPerInch)}</svg>`;
+}
@@ -1,5 +1,7 @@
-import { SlideNode, GlobalStyleGuide, TemplateComponent } from "../../types/slideTypes";
+import { SlideNode, GlobalStyleGuide, TemplateComponent, getSlideDimensions } from "../../types/slideTypes";
 import { SpatialLayoutEngine } from "../spatialRenderer";
+import { buildChartSvgMarkup } from "./chartGeometry";
+import { buildTableSvgMarkup } from "./tableGeometry";
 
 /**
  * Escape XML entities and sanitize text for SVG inclusion.
@@ -54,7 +56,7 @@ function buildComponentManifest(components: TemplateComponent[]): string {
 /**
  * Generate content-aware SVG proxy from SlideNode for visual critique.
  * Compiles slide to VisualElements using the same rendering pipeline as PPTX export.
- * SVG viewBox: 1000x563 for 16:9 aspect ratio (0-10 coordinates × 100).
+ * SVG viewBox: slide inches × 100 (1000x563 for 16:9, 1000x750 for 4:3, 827x1169 for A4 portrait).
  * 
  * CRITICAL: SVG elements include data-component-id attributes that map back to
  * actual SlideNode component indices for Visual Architect repair application.
@@ -81,14 +83,17 @@ export function generateSvgProxy(
         slide.visualDesignSpec
     );
 
-    // SVG viewBox: 1000x563 for 16:9 (100x multiplier for 0-10 coordinate system)
-    let svg = `<svg viewBox="0 0 1000 563" xmlns="http://www.w3.org/2000/svg">\n`;
+    // SVG viewBox: 100x multiplier on the slide's inch coordinates
+    const dims = getSlideDimensions(styleGuide.slideSize);
+    const viewW = Math.round(dims.width * 100);
+    const viewH = Math.round(dims.height * 100);
+    let svg = `<svg viewBox="0 0 ${viewW} ${viewH}" xmlns="http://www.w3.org/2000/svg">\n`;
 
-    // Background (use visualDesignSpec color if available)
-    const bgColor = slide.visualDesignSpec?.color_harmony?.background_tone ||
+    // Background (use visualDesignSpec color if available; locked style guides keep theirs)
+    const bgColor = (!styleGuide.locked && slide.visualDesignSpec?.color_harmony?.background_tone) ||
                     styleGuide.colorPalette.background || '#0f172a';
     const normalizedBg = bgColor.replace('#', '');
-    svg += `  <rect x="0" y="0" width="1000" height="563" fill="#${normalizedBg}" id="bg"/>\n`;
+    svg += `  <rect x="0" y="0" width="${viewW}" height="${viewH}" fill="#${normalizedBg}" id="bg"/>\n`;
 
     // Metadata: component counts and density
     const componentTypes = components.map(c => c.type);
@@ -135,6 +140,8 @@ export function generateSvgProxy(
             } else if (el.type === 'shape') {
                 priority += 4; // Shapes help show layout
                 if (el.text) priority += 2; // Shapes with text (metrics, etc.)
+            } else if (el.type === 'chart' || el.type === 'table') {
+                priority += 6; // Charts and tables carry the slide's data story
             }
 
             // Size priority (larger elements are more impactful)
@@ -190,7 +197,9 @@ export function generateSvgProxy(
             // Orphan element (not mapped to a component) - use element type
             const elTypeKey = el.type === 'text' && el.bold ? 'title' :
                               el.type === 'text' ? 'text' :
-                              el.type === 'shape' ? 'shape' : 'element';
+                              el.type === 'shape' ? 'shape' :
+                              el.type === 'chart' ? 'chart' :
+                              el.type === 'table' ? 'table' : 'element';
             elementId = `orphan-${elTypeKey}-${originalIdx}`;
             componentIdAttr = '';
         }
@@ -220,6 +229,13 @@ export function generateSvgProxy(
             // Include id and data-component-id for Visual Architect repair mapping
             elementSvg = `  <rect id="${elementId}"${componentIdAttr} x="${x}" y="${y}" width="${w}" height="${h}" fill="#${fill}" fill-opacity="${opacity}"/>\n`;
         }
+        else if (el.type === 'chart') {
+            // Same vector geometry as the preview canvas, positioned via group transform
+            elementSvg = `  <g id="${elementId}"${componentIdAttr} data-chart-type="${el.chartType}" transform="translate(${x} ${y})">${buildChartSvgMarkup(el, 100)}</g>\n`;
+        }
+        else if (el.type === 'table') {
+            elementSvg = `  <g id="${elementId}"${componentIdAttr} data-table-rows="${el.cells.length}" transform="translate(${x} ${y})">${buildTableSvgMarkup(el, 100)}</g>\n`;
+        }
 
         // Check size limit before adding
         if (currentSize + elementSvg.length > MAX_SVG_SIZE) {
@@ -0,0 +1,89 @@
+import type { VisualElement } from "../../types/slideTypes";
+
+/**
+ * Table Geometry
+ *
+ * Vector rendering for native `table` VisualElements.
+ * PPTX export emits a real (editable) pptxgenjs table for these elements;
+ * the preview canvas, the SVG proxy and the HTML exports use this module so
+ * that every surface shows the same cells, fills and wrapped lines.
+ *
+ * Markup is produced in LOCAL coordinates (origin = table top-left),
+ * scaled by `unitsPerInch` (100 matches the SVG proxy's 1000x563 viewBox).
+ */
+
+export type TableElement = Extract<VisualElement, { type: 'table' }>;
+
+function escapeXml(text: string): string {
+    if (!text || typeof text !== 'string') return '';
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;')
+        .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
+}
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+// Matches TextFitter.fitTable's default cell inset
+const CELL_PADDING_IN = 0.08;
+
+/**
+ * Cell rects, fills, wrapped text and the grid lines between rows, as SVG
+ * children (no outer <svg>).
+ */
+export function buildTableSvgMarkup(table: TableElement, unitsPerInch: number = 100): string {
+    const fontSize = (table.fontSize / 72) * unitsPerInch;
+    const lineH = fontSize * 1.2;
+    const pad = CELL_PADDING_IN * unitsPerInch;
+    const fontAttr = table.fontFamily ? ` font-family="${escapeXml(table.fontFamily)}"` : '';
+    const border = (table.borderColor || 'FFFFFF').replace('#', '');
+    const W = table.w * unitsPerInch;
+
+    // Cell edges are rounded once so neighbouring fills meet without overlapping
+    const edges = (sizes: number[]) => sizes.reduce((acc, size) => [...acc, round(acc[acc.length - 1] + size * unitsPerInch)], [0]);
+    const colX = edges(table.colW);
+    const rowY = edges(table.rowH);
+
+    let markup = '';
+    table.cells.forEach((row, r) => {
+        const y = rowY[r];
+        const rowH = round(rowY[r + 1] - y);
+        // Neighbouring cells with the same fill share one rect (no anti-aliased seams)
+        const fillKey = (c: number) => row[c]?.fill ? `${row[c].fill!.color}:${row[c].fill!.alpha}` : '';
+        row.forEach((cell, c) => {
+            if (!cell.fill || fillKey(c) === fillKey(c - 1)) return;
+            let end = c + 1;
+            while (end < row.length && fillKey(end) === fillKey(c)) end++;
+            markup += `<rect x="${colX[c]}" y="${y}" width="${round(colX[end] - colX[c])}" height="${rowH}" fill="#${cell.fill.color.replace('#', '')}" fill-opacity="${cell.fill.alpha}"/>`;
+        });
+        row.forEach((cell, c) => {
+            const x = colX[c];
+            const colW = round(colX[c + 1] - x);
+            const lines = cell.lines && cell.lines.length ? cell.lines : [cell.text];
+            const anchor = cell.align === 'center' ? 'middle' : cell.align === 'right' ? 'end' : 'start';
+            const textX = cell.align === 'center' ? x + colW / 2 : cell.align === 'right' ? x + colW - pad : x + pad;
+            // Vertically centre the block of lines in the row
+            const firstBaseline = y + (rowH - lines.length * lineH) / 2 + fontSize;
+            lines.forEach((line, i) => {
+                markup += `<text x="${round(textX)}" y="${round(firstBaseline + i * lineH)}" font-size="${round(fontSize)}"${fontAttr} ` +
+                    `fill="#${cell.color.replace('#', '')}" text-anchor="${anchor}" font-weight="${cell.bold ? 'bold' : 'normal'}">${escapeXml(line)}</text>`;
+            });
+        });
+        if (r < table.cells.length - 1) {
+            markup += `<line x1="0" y1="${rowY[r + 1]}" x2="${round(W)}" y2="${rowY[r + 1]}" stroke="#${border}" stroke-opacity="${r === 0 ? 0.6 : 0.2}" stroke-width="1"/>`;
+        }
+    });
+    return markup;
+}
+
+/**
+ * Standalone SVG for a table element (preview canvas, HTML slides).
+ */
+export function buildTableSvg(table: TableElement, unitsPerInch: number = 100): string {
+    const W = round(table.w * unitsPerInch);
+    const H = round(table.h * unitsPerInch);
+    return `<svg viewBox="0 0 ${W} ${H}" width="100%" height="100%" xmlns="http://www.w3.org/2000/svg">${buildTableSvgMarkup(table, unitsPerInch)}</svg>`;
+}
@@ -83,6 +83,7 @@
  */
 
 import { CostTracker } from './interactionsClient';
+import { replayableFetch } from './replay/llmReplay';
 import {
     QWEN_PERSONAS,
     VISUAL_CRITIQUE_PROMPT,
@@ -135,8 +136,8 @@ export type RenderFidelity = 'svg-proxy' | 'pptx-render';
  * - Node.js: Works correctly, fast rasterization
  * - Browser: Throws error (native modules not available)
  *
- * @param svgString - SVG markup (should have viewBox="0 0 1000 563")
- * @param width - Output width in pixels (default 1920 for high quality)
+ * @param svgString - SVG markup (viewBox = slide inches × 100, e.g. "0 0 1000 563")
+ * @param width - Output width in pixels (default 1920 for high quality; see rasterSizeForSvg)
  * @param height - Output height in pixels (default 1080)
  * @returns PNG buffer as Base64 string
  * @throws Error if not in Node.js environment
@@ -165,6 +166,20 @@ export async function svgToPngBase64(
     }
 }
 
+/**
+ * Pixel size to rasterize an SVG proxy at: its viewBox aspect with the long
+ * edge at `longEdge` (1920x1080 for 16:9, 1080x1920 for 9:16).
+ * Qwen-VL bounding boxes are normalized to this image.
+ */
+export function rasterSizeForSvg(svgString: string, longEdge: number = 1920): { width: number; height: number } {
+    const match = svgString.match(/viewBox="\s*[-\d.]+\s+[-\d.]+\s+([\d.]+)\s+([\d.]+)\s*"/);
+    const viewW = match ? parseFloat(match[1]) : 1000;
+    const viewH = match ? parseFloat(match[2]) : 562.5;
+    if (!(viewW > 0) || !(viewH > 0)) return { width: longEdge, height: Math.round(longEdge * 9 / 16) };
+    const scale = longEdge / Math.max(viewW, viewH);
+    return { width: Math.round(viewW * scale), height: Math.round(viewH * scale) };
+}
+
 /**
  * Visual critique result from Qwen-VL
  */
@@ -247,7 +262,7 @@ class QwenVLClient {
         const requestConfig = getQwenRequestConfig('critique');
 
         try {
-            const response = await fetch(`${QWEN_API_BASE}/chat/completions`, {
+            const response = await replayableFetch('qwen-vl', `${QWEN_API_BASE}/chat/completions`, {
                 method: 'POST',
                 headers: {
                     'Authorization': `Bearer ${this.apiKey}`,
@@ -332,7 +347,7 @@ class QwenVLClient {
         const requestConfig = getQwenRequestConfig('repair');
 
         try {
-            const response = await fetch(`${QWEN_API_BASE}/chat/completions`, {
+            const response = await replayableFetch('qwen-vl', `${QWEN_API_BASE}/chat/completions`, {
                 method: 'POST',
                 headers: {
                     'Authorization': `Bearer ${this.apiKey}`,
@@ -437,7 +452,7 @@ async function callQwenProxy<T = any>(
         throw new Error('QWEN_VL_PROXY_URL is not configured');
     }
 
-    const response = await fetch(`${QWEN_VL_PROXY_URL}${endpoint}`, {
+    const response = await replayableFetch('qwen-proxy', `${QWEN_VL_PROXY_URL}${endpoint}`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(payload)
@@ -486,6 +501,7 @@ export async function getVisualCritiqueFromSvg(
         input.replace(/&(?!amp;|lt;|gt;|quot;|apos;|#\d+;|#x[a-fA-F0-9]+;)/g, '&amp;');
 
     const safeSvg = sanitizeSvg(svgString);
+    const raster = rasterSizeForSvg(safeSvg);
 
     if (!qwenVLClient.isAvailable()) {
         if (!QWEN_VL_PROXY_URL) {
@@ -504,7 +520,7 @@ export async function getVisualCritiqueFromSvg(
             console.log('[QWEN-VL] Proxy path: SVG → Qwen-VL via backend');
             const critique = await callQwenProxy<VisualCritiqueResult>(
                 '/api/qwen/critique',
-                { svgString: safeSvg, slideWidth: 1920, slideHeight: 1080 },
+                { svgString: safeSvg, slideWidth: raster.width, slideHeight: raster.height },
                 costTracker
             );
 
@@ -521,12 +537,12 @@ export async function getVisualCritiqueFromSvg(
         const svgRasterizeStart = Date.now();
 
         // Step 1: Rasterize SVG to PNG using Node-only rasterizer (dynamic import)
-        const pngBase64 = await svgToPngBase64(safeSvg, 1920, 1080);
+        const pngBase64 = await svgToPngBase64(safeSvg, raster.width, raster.height);
         const svgRasterizeDuration = Date.now() - svgRasterizeStart;
         console.log(`[QWEN-VL] SVG rasterization complete in ${svgRasterizeDuration}ms`);
 
         // Step 2: Send to Qwen-VL
-        const critique = await qwenVLClient.getVisualCritique(pngBase64, 1920, 1080, costTracker);
+        const critique = await qwenVLClient.getVisualCritique(pngBase64, raster.width, raster.height, costTracker);
 
         // Step 3: Add render fidelity contract
         console.log('[QWEN-VL] Fast path complete, returning critique with svg-proxy fidelity');
@@ -658,6 +674,7 @@ export async function getStyleAwareCritiqueFromSvg(
         input.replace(/&(?!amp;|lt;|gt;|quot;|apos;|#\d+;|#x[a-fA-F0-9]+;)/g, '&amp;');
 
     const safeSvg = sanitizeSvg(svgString);
+    const raster = rasterSizeForSvg(safeSvg);
 
     if (!qwenVLClient.isAvailable()) {
         if (!QWEN_VL_PROXY_URL) {
@@ -677,7 +694,7 @@ export async function getStyleAwareCritiqueFromSvg(
             console.log(`[QWEN-VL] Style-aware proxy path: SVG → Qwen-VL (mode: ${styleMode})`);
             const critique = await callQwenProxy<VisualCritiqueResult>(
                 '/api/qwen/critique',
-                { svgString: safeSvg, slideWidth: 1920, slideHeight: 1080, styleMode },
+                { svgString: safeSvg, slideWidth: raster.width, slideHeight: raster.height, styleMode },
                 costTracker
             );
 
@@ -703,7 +720,7 @@ export async function getStyleAwareCritiqueFromSvg(
         const svgRasterizeStart = Date.now();
 
         // Step 1: Rasterize SVG to PNG
-        const pngBase64 = await svgToPngBase64(safeSvg, 1920, 1080);
+        const pngBase64 = await svgToPngBase64(safeSvg, raster.width, raster.height);
         const svgRasterizeDuration = Date.now() - svgRasterizeStart;
         console.log(`[QWEN-VL] SVG rasterization complete in ${svgRasterizeDuration}ms`);
 
@@ -725,7 +742,7 @@ export async function getStyleAwareCritiqueFromSvg(
         const requestConfig = getQwenRequestConfig('critique');
 
         // Step 3: Call Qwen-VL with style-aware prompt
-        const response = await fetch(`${QWEN_API_BASE}/chat/completions`, {
+        const response = await replayableFetch('qwen-vl', `${QWEN_API_BASE}/chat/completions`, {
             method: 'POST',
             headers: {
                 'Authorization': `Bearer ${qwenVLClient['apiKey']}`,
@@ -801,6 +818,7 @@ export async function getStyleAwareRepairsFromSvg(
         input.replace(/&(?!amp;|lt;|gt;|quot;|apos;|#\d+;|#x[a-fA-F0-9]+;)/g, '&amp;');
 
     const safeSvg = sanitizeSvg(svgString);
+    const raster = rasterSizeForSvg(safeSvg);
 
     if (!qwenVLClient.isAvailable() && !QWEN_VL_PROXY_URL) {
         console.warn('[QWEN-VL] Skipping style-aware repairs - API not configured');
@@ -833,7 +851,7 @@ export async function getStyleAwareRepairsFromSvg(
     try {
         console.log(`[QWEN-VL] Style-aware repair: SVG → PNG → Qwen-VL (mode: ${styleMode})`);
 
-        const pngBase64 = await svgToPngBase64(safeSvg, 1920, 1080);
+        const pngBase64 = await svgToPngBase64(safeSvg, raster.width, raster.height);
         const styleAwareRepairPrompt = buildStyleAwareRepairPrompt(styleMode);
         const thinkingMode = getStyleAwareThinkingMode(styleMode, 'repair');
 
@@ -849,7 +867,7 @@ export async function getStyleAwareRepairsFromSvg(
 
         const requestConfig = getQwenRequestConfig('repair');
 
-        const response = await fetch(`${QWEN_API_BASE}/chat/completions`, {
+        const response = await replayableFetch('qwen-vl', `${QWEN_API_BASE}/chat/completions`, {
             method: 'POST',
             headers: {
                 'Authorization': `Bearer ${qwenVLClient['apiKey']}`,
@@ -986,7 +1004,7 @@ export async function analyzeSlideLayoutSpatial(
 
         const requestConfig = getQwenRequestConfig('critique');
 
-        const response = await fetch(`${QWEN_API_BASE}/chat/completions`, {
+        const response = await replayableFetch('qwen-vl', `${QWEN_API_BASE}/chat/completions`, {
             method: 'POST',
             headers: {
                 'Authorization': `Bearer ${qwenVLClient['apiKey']}`,
@@ -1220,6 +1238,7 @@ export async function getLayoutScoreFast(
         input.replace(/&(?!amp;|lt;|gt;|quot;|apos;|#\d+;|#x[a-fA-F0-9]+;)/g, '&amp;');
 
     const safeSvg = sanitizeSvg(svgString);
+    const raster = rasterSizeForSvg(safeSvg);
     const isBrowser = typeof window !== 'undefined';
 
     try {
@@ -1231,7 +1250,7 @@ export async function getLayoutScoreFast(
             console.log('[QWEN-VL] Fast score: SVG → Qwen-VL via proxy');
             const result = await callQwenProxy<LayoutScoreResult>(
                 '/api/qwen/layout-score',
-                { svgString: safeSvg },
+                { svgString: safeSvg, slideWidth: raster.width, slideHeight: raster.height },
                 costTracker
             );
             return result;
@@ -1239,7 +1258,7 @@ export async function getLayoutScoreFast(
 
         // Node path: rasterize and score
         console.log('[QWEN-VL] Fast score: SVG → PNG → Qwen-VL');
-        const pngBase64 = await svgToPngBase64(safeSvg, 1920, 1080);
+        const pngBase64 = await svgToPngBase64(safeSvg, raster.width, raster.height);
         
         const messages = buildQwenMessage(
             QWEN_PERSONAS.LAYOUT_SELECTOR,
@@ -1249,7 +1268,7 @@ export async function getLayoutScoreFast(
 
         const requestConfig = getQwenRequestConfig('layout_select');
 
-        const response = await fetch(`${QWEN_API_BASE}/chat/completions`, {
+        const response = await replayableFetch('qwen-vl', `${QWEN_API_BASE}/chat/completions`, {
             method: 'POST',
             headers: {
                 'Authorization': `Bearer ${qwenVLClient['apiKey']}`,
@@ -1462,6 +1481,7 @@ import type {
     RepairAction,
     VisualArchitectResult
 } from '../types/slideTypes';
+import { getSlideDimensions } from '../types/slideTypes';
 
 /**
  * Parse component ID from Qwen-VL output.
@@ -1587,15 +1607,13 @@ function applyRepairsToSlide(
     // COORDINATE SCALING (Fixed 2026-01-28)
     // ============================================================================
     // Qwen-VL returns normalized coordinates (0-1 range)
-    // Spatial renderer uses slide coordinates:
-    //   X: 0-10 (width)
-    //   Y: 0-5.625 (height, 16:9 aspect ratio)
+    // Spatial renderer uses slide coordinates in inches (styleGuide.slideSize):
+    //   X: 0-10 (width), Y: 0-5.625 (height) for 16:9; 0-8.27 x 0-11.69 for A4 portrait
     //
     // IMPORTANT: Raw repairs like y=0.12 mean "12% from top"
-    // Must multiply by 5.625 to get actual slide coordinate: 0.12 * 5.625 = 0.675
+    // On 16:9, multiply by 5.625 to get actual slide coordinate: 0.12 * 5.625 = 0.675
     // ============================================================================
-    const SLIDE_WIDTH = 10;
-    const SLIDE_HEIGHT = 5.625;
+    const { width: SLIDE_WIDTH, height: SLIDE_HEIGHT } = getSlideDimensions(styleGuide?.slideSize);
     
     const scaleCoordinate = (normalized: number, axis: 'x' | 'y'): number => {
         const scale = axis === 'x' ? SLIDE_WIDTH : SLIDE_HEIGHT;
@@ -1621,7 +1639,7 @@ function applyRepairsToSlide(
         if (parsedId.isTitle) {
             // Title repairs affect the slide title styling
             if (action === 'reposition' && params?.y !== undefined) {
-                // Scale normalized coordinate (0-1) to slide coordinate (0-5.625)
+                // Scale normalized coordinate (0-1) to slide coordinate (0-SLIDE_HEIGHT)
                 const scaledY = scaleCoordinate(params.y, 'y');
                 console.log(`[REPAIR] Setting title top margin hint: ${params.y} → scaled: ${scaledY.toFixed(2)} (${reason})`);
                 updatedSlide.layoutPlan._titleMarginTop = scaledY;
@@ -1650,7 +1668,7 @@ function applyRepairsToSlide(
         if (parsedId.isDivider || parsedId.isLine) {
             // Divider/line repairs - store all as hints since these are rendered separately
             if (action === 'reposition' && params?.y !== undefined) {
-                // Scale normalized coordinate (0-1) to slide coordinate (0-5.625)
+                // Scale normalized coordinate (0-1) to slide coordinate (0-SLIDE_HEIGHT)
                 const scaledY = scaleCoordinate(params.y, 'y');
                 console.log(`[REPAIR] Setting divider position hint: y=${params.y} → scaled: ${scaledY.toFixed(2)} (${reason})`);
                 updatedSlide.layoutPlan._dividerY = scaledY;
@@ -2011,6 +2029,7 @@ export async function runQwenVisualArchitectLoop(
             console.log('[VISUAL ARCHITECT] Generating SVG proxy...');
             const { generateSvgProxy } = await import('./visual/svgProxy');
             const svgString = await generateSvgProxy(currentSlide, styleGuide);
+            const raster = rasterSizeForSvg(svgString);
 
             // RENDER-DIFF GATE: Check if SVG changed from previous round
             const currentSvgHash = hashSvg(svgString);
@@ -2038,20 +2057,20 @@ export async function runQwenVisualArchitectLoop(
                 console.log('[VISUAL ARCHITECT] Proxy path: SVG → Qwen-VL (repairs)');
                 critiqueResult = await callQwenProxy<any>(
                     '/api/qwen/critique-repairs',
-                    { svgString, slideWidth: 1920, slideHeight: 1080, components },
+                    { svgString, slideWidth: raster.width, slideHeight: raster.height, components },
                     costTracker
                 );
             } else {
                 // Node path: rasterize SVG → PNG locally
                 console.log('[VISUAL ARCHITECT] Rasterizing SVG to PNG...');
-                const pngBase64 = await svgToPngBase64(svgString, 1920, 1080);
+                const pngBase64 = await svgToPngBase64(svgString, raster.width, raster.height);
 
                 // Call Qwen-VL with repair-enabled critique
                 console.log('[VISUAL ARCHITECT] Sending to Qwen-VL for critique...');
                 critiqueResult = await qwenVLClient.getVisualCritiqueWithRepairs(
                     pngBase64,
-                    1920,
-                    1080,
+                    raster.width,
+                    raster.height,
                     components,
                     costTracker
                 );
@@ -10,7 +10,10 @@ import {
     RouterDecision,
     VisualDesignSpec,
     VisualDesignSpecSchema,
-    ResearchFact
+    ResearchFact,
+    SlideSize,
+    DeckTemplate,
+    BrandKit
 } from "../types/slideTypes";
 import { PROMPTS } from "./promptRegistry";
 import {
@@ -26,6 +29,7 @@ import {
     validateRepairResponse
 } from "./validators";
 import { SpatialLayoutEngine } from "./spatialRenderer";
+import { brandPalette, nearestBrandColor } from "./brand/brandKit";
 
 // Visual Designer: Spatial reasoning is an agentic task → MODEL_AGENTIC (3 Flash)
 // Phil Schmid: Flash beats Pro on agentic benchmarks (78% vs 76.2% SWE-bench)
@@ -108,20 +112,32 @@ function enforceVisualFocusInSpec(spec: VisualDesignSpec, visualFocus?: string):
     return spec;
 }
 
+// Brand kits: colour harmony snaps onto the nearest approved colours
+function enforceBrandKitInSpec(spec: VisualDesignSpec, brandKit?: BrandKit): VisualDesignSpec {
+    if (!brandKit || !spec.color_harmony) return spec;
+    const harmony = spec.color_harmony;
+    spec.color_harmony = {
+        primary: nearestBrandColor(harmony.primary, brandKit),
+        accent: nearestBrandColor(harmony.accent, brandKit),
+        background_tone: nearestBrandColor(harmony.background_tone, brandKit)
+    };
+    return spec;
+}
+
 export const runVisualDesigner = async (
     slideTitle: string,
     contentPlan: any,
     routerConfig: RouterDecision,
     facts: ResearchFact[],
     tracker: CostTracker,
-    styleGuide?: { styleDNA?: any },
+    styleGuide?: { styleDNA?: any; slideSize?: SlideSize; template?: DeckTemplate; brandKit?: BrandKit },
     variationBudget?: number
 ): Promise<VisualDesignSpec> => {
     const MAX_ATTEMPTS = 2;
     const layoutEngine = new SpatialLayoutEngine();
 
     // STEP 1: Analyze spatial requirements
-    const zones = layoutEngine.getZonesForVariant(routerConfig.layoutVariant);
+    const zones = layoutEngine.getZonesForVariant(routerConfig.layoutVariant, styleGuide?.slideSize, styleGuide?.template);
     const spatialStrategy = {
         zones,
         compositional_hierarchy: "Derived from layout template",
@@ -180,6 +196,7 @@ export const runVisualDesigner = async (
                 densityContext: routerConfig.densityBudget,
                 styleGuide: "Modern Professional",
                 styleDNA: styleGuide?.styleDNA,
+                brandKit: styleGuide?.brandKit,
                 variationBudget: typeof variationBudget === 'number'
                     ? Math.max(0, Math.min(1, variationBudget))
                     : undefined
@@ -211,6 +228,7 @@ export const runVisualDesigner = async (
 
             // STEP 2.5: Enforce visual focus cues deterministically before validation
             visualPrompt = enforceVisualFocusInSpec(visualPrompt, routerConfig.visualFocus);
+            visualPrompt = enforceBrandKitInSpec(visualPrompt, styleGuide?.brandKit);
 
             // STEP 3: Schema Validation (Hard Parse)
             const parseResult = VisualDesignSpecSchema.safeParse(visualPrompt);
@@ -263,10 +281,14 @@ export const runVisualDesigner = async (
 
     // Build an ABSTRACT BACKGROUND fallback prompt - NO text, diagrams, or icons
     // All content is rendered separately by SpatialLayoutEngine
+    const brandColors = styleGuide?.brandKit ? brandPalette(styleGuide.brandKit) : undefined;
+    const gradient = brandColors
+        ? `Gradient from ${brandColors.background} to ${brandColors.secondary}`
+        : 'Dark gradient from #0f172a to #1e293b';
     const contextAwareFallbackPrompt = `
 Abstract background gradient for professional presentation slide.
 Theme: ${routerConfig.visualFocus || 'Corporate Technology'}.
-Style: Dark gradient from #0f172a to #1e293b with subtle ${routerConfig.visualFocus ? routerConfig.visualFocus.toLowerCase() : 'blue'} accent glow.
+Style: ${gradient} with subtle ${routerConfig.visualFocus ? routerConfig.visualFocus.toLowerCase() : 'blue'} accent glow.
 Mood: Modern, premium, sophisticated.
 Texture: Soft ambient lighting, subtle ${styleGuide?.styleDNA?.texture || 'geometric'} patterns fading into background.
 IMPORTANT: No text, no icons, no diagrams, no charts - abstract gradient ONLY.
@@ -278,7 +300,9 @@ IMPORTANT: No text, no icons, no diagrams, no charts - abstract gradient ONLY.
         foreground_elements: [], // Deprecated - not used for rendering
         background_treatment: "Gradient",
         negative_space_allocation: "20%",
-        color_harmony: { primary: "#10b981", accent: "#f59e0b", background_tone: "#0f172a" }
+        color_harmony: brandColors
+            ? { primary: brandColors.primary, accent: brandColors.accentHighContrast, background_tone: brandColors.background }
+            : { primary: "#10b981", accent: "#f59e0b", background_tone: "#0f172a" }
     };
 };
 
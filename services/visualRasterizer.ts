@@ -26,7 +26,7 @@ import { Resvg } from '@resvg/resvg-js';
  * IMPORTANT: This function ONLY works in Node.js environments.
  * It will fail in browser contexts due to native module dependencies.
  *
- * @param svgString - SVG markup (should have viewBox="0 0 1000 563")
+ * @param svgString - SVG markup (viewBox = slide inches × 100, e.g. "0 0 1000 563")
  * @param width - Output width in pixels (default 1920 for high quality)
  * @param height - Output height in pixels (default 1080)
  * @returns PNG buffer as Base64 string
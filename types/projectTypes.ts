@@ -0,0 +1,88 @@
+
+import { z } from "zod";
+import { OutlineSchema, SlideNodeSchema, StyleModeSchema } from "./slideTypes";
+
+// ============================================================================
+// PROJECT FILE FORMAT
+// ============================================================================
+// A saved InfographIQ project: the EditableSlideDeck plus everything needed to
+// reopen it without re-running (and re-paying for) generation.
+//
+// Version history:
+//   v1 - bare EditableSlideDeck JSON (pre-project exports, CLI `.deck.json`), assets inline
+//   v2 - versioned envelope, generated assets extracted into `assets` and referenced by id
+// Migrations live in services/project/projectFile.ts.
+
+export const PROJECT_FILE_FORMAT = 'infographiq-project';
+export const PROJECT_FILE_VERSION = 2;
+export const PROJECT_FILE_EXTENSION = '.iqproj.json';
+
+/** Slide fields that point at an entry in `assets` use this prefix. */
+export const PROJECT_ASSET_REF_PREFIX = 'asset:';
+
+export const DeckMetricsSchema = z.object({
+  totalDurationMs: z.number(),
+  retries: z.number(),
+  totalCost: z.number().optional(),
+  avgQualityScore: z.number().optional(),
+  fallbackSlides: z.number(),
+  visualAlignmentFirstPassSuccess: z.number(),
+  totalVisualDesignAttempts: z.number(),
+  rerouteCount: z.number(),
+  visualCritiqueAttempts: z.number(),
+  visualRepairSuccess: z.number(),
+  system2Cost: z.number().optional(),
+  system2TokensInput: z.number().optional(),
+  system2TokensOutput: z.number().optional(),
+  coherenceScore: z.number().optional(),
+  coherenceIssues: z.number().optional(),
+  visualArchitectMetrics: z.any().optional()
+}).passthrough();
+
+export const ProjectAssetSchema = z.object({
+  id: z.string(),
+  kind: z.enum(['background-image']),
+  mimeType: z.string(),
+  data: z.string(),                 // Full data URL (data:<mime>;base64,...)
+  slideOrder: z.number().optional() // First slide that used the asset (informational)
+});
+
+// Persisted outlines may have been edited after generation, so the architect's
+// 4-12 slide bound is not enforced when reopening a project.
+export const ProjectOutlineSchema = OutlineSchema.extend({
+  slides: z.array(OutlineSchema.shape.slides.element)
+});
+
+// Layout plans are edited in the builder after generation, so the generation-time
+// length/count limits of TemplateComponentSchema are not enforced on reopen either.
+export const ProjectLayoutPlanSchema = z.object({
+  title: z.string(),
+  components: z.array(z.object({ type: z.string() }).passthrough()),
+  background: z.enum(['solid', 'gradient', 'image']).optional()
+}).passthrough();
+
+export const ProjectSlideSchema = SlideNodeSchema.extend({
+  layoutPlan: ProjectLayoutPlanSchema.optional()
+}).passthrough();
+
+export const ProjectDeckSchema = z.object({
+  id: z.string(),
+  topic: z.string(),
+  meta: ProjectOutlineSchema,
+  slides: z.array(ProjectSlideSchema),
+  metrics: DeckMetricsSchema
+});
+
+export const ProjectFileSchema = z.object({
+  format: z.literal(PROJECT_FILE_FORMAT),
+  version: z.literal(PROJECT_FILE_VERSION),
+  savedAt: z.string(),
+  generation: z.object({
+    styleMode: StyleModeSchema.optional()
+  }).default({}),
+  deck: ProjectDeckSchema,
+  assets: z.record(ProjectAssetSchema).default({})
+});
+
+export type ProjectAsset = z.infer<typeof ProjectAssetSchema>;
+export type ProjectFile = z.infer<typeof ProjectFileSchema>;
@@ -1,6 +1,6 @@
 
 import { z } from "zod";
-import { CompositionPlanSchema } from "./serendipityTypes";
+import { CompositionPlanSchema, DecorativeTypeSchema, CardStyleSchema } from "./serendipityTypes";
 
 export const SLIDE_TYPES = {
   TITLE: 'title-slide',
@@ -570,6 +570,122 @@ export function getVisualThresholdsForStyle(style: StyleProfile): VisualThreshol
 
 export type VisualThreshold = typeof VISUAL_THRESHOLDS[keyof typeof VISUAL_THRESHOLDS];
 
+// ============================================================================
+// AUDIENCE PROFILES
+// ============================================================================
+// Who the deck is for. StyleMode decides how slides look; the audience decides
+// what they say: how plainly, with how much jargon, over how many slides, and
+// what the closing slide asks for. The architect, router and content planner
+// prompts all receive it, and validateReadingLevel scores each slide against it.
+
+export const AudiencePresetSchema = z.enum(['executives', 'engineers', 'investors', 'students', 'custom']);
+export type AudiencePreset = z.infer<typeof AudiencePresetSchema>;
+
+/**
+ * JargonTolerance: how much domain vocabulary the audience accepts
+ * - 'none': plain language only, define every term
+ * - 'low': common business terms, define anything technical
+ * - 'medium': field terms are fine, spell out acronyms once
+ * - 'high': full technical vocabulary, no definitions needed
+ */
+export const JargonToleranceSchema = z.enum(['none', 'low', 'medium', 'high']);
+export type JargonTolerance = z.infer<typeof JargonToleranceSchema>;
+
+export const AudienceProfileSchema = z.object({
+  preset: AudiencePresetSchema,
+  label: z.string(),
+  /** Target US school grade (Flesch-Kincaid) of slide text; validators allow ±2 */
+  readingLevel: z.number().min(4).max(20),
+  jargonTolerance: JargonToleranceSchema,
+  /** Used by the architect when the topic does not ask for a slide count */
+  preferredSlideCount: z.number().min(4).max(12),
+  /** What the closing slide should ask the audience to do */
+  callToAction: z.string(),
+  /** Voice for the content planner, e.g. "direct, outcome-first" */
+  tone: z.string().optional()
+});
+export type AudienceProfile = z.infer<typeof AudienceProfileSchema>;
+
+export const AUDIENCE_PROFILES: Record<Exclude<AudiencePreset, 'custom'>, AudienceProfile> = {
+  executives: {
+    preset: 'executives',
+    label: 'Executives',
+    readingLevel: 10,
+    jargonTolerance: 'low',
+    preferredSlideCount: 6,
+    callToAction: 'Approve the recommendation and name an owner',
+    tone: 'direct, outcome-first, lead with the decision'
+  },
+  engineers: {
+    preset: 'engineers',
+    label: 'Engineers',
+    readingLevel: 14,
+    jargonTolerance: 'high',
+    preferredSlideCount: 9,
+    callToAction: 'Review the design and pick up the first implementation task',
+    tone: 'precise and concrete, show how it works'
+  },
+  investors: {
+    preset: 'investors',
+    label: 'Investors',
+    readingLevel: 12,
+    jargonTolerance: 'medium',
+    preferredSlideCount: 10,
+    callToAction: 'Schedule a follow-up to discuss terms',
+    tone: 'confident, market- and traction-led'
+  },
+  students: {
+    preset: 'students',
+    label: 'Students',
+    readingLevel: 8,
+    jargonTolerance: 'none',
+    preferredSlideCount: 8,
+    callToAction: 'Try the exercise and bring questions to the next session',
+    tone: 'friendly and explanatory, build from examples'
+  }
+};
+
+/**
+ * Get AudienceProfile for a preset. 'custom' (or no preset) starts from the
+ * executives profile so the editor has values to adjust.
+ */
+export function getAudienceProfile(preset: AudiencePreset | undefined): AudienceProfile {
+  if (!preset || preset === 'custom') return { ...AUDIENCE_PROFILES.executives, preset: 'custom', label: 'Custom' };
+  return AUDIENCE_PROFILES[preset];
+}
+
+// --- SLIDE SIZE ---
+
+/**
+ * Deck page size. Layout templates are authored at 16:9 (10 x 5.625in) and
+ * adapted to the others by SpatialLayoutEngine; every exporter reads the
+ * dimensions from getSlideDimensions.
+ */
+export const SlideSizeSchema = z.enum(['16:9', '4:3', 'a4-portrait', '1:1', '9:16']);
+export type SlideSize = z.infer<typeof SlideSizeSchema>;
+
+export interface SlideDimensions {
+  label: string;
+  /** Inches */
+  width: number;
+  height: number;
+}
+
+export const SLIDE_SIZES: Record<SlideSize, SlideDimensions> = {
+  '16:9': { label: 'Widescreen 16:9', width: 10, height: 5.625 },
+  '4:3': { label: 'Standard 4:3', width: 10, height: 7.5 },
+  'a4-portrait': { label: 'A4 portrait', width: 8.27, height: 11.69 },
+  '1:1': { label: 'Square 1:1', width: 7.5, height: 7.5 },
+  '9:16': { label: 'Vertical 9:16', width: 5.625, height: 10 }
+};
+
+/**
+ * Dimensions for a deck's slide size; decks without one are 16:9.
+ */
+export function getSlideDimensions(size?: SlideSize | null): SlideDimensions {
+  return SLIDE_SIZES[size || '16:9'] || SLIDE_SIZES['16:9'];
+}
+
 // --- VISUAL & SPATIAL SCHEMAS (NEW) ---
 
 export const SpatialZoneSchema = z.object({
@@ -634,6 +750,11 @@ export const ContentPlanSchema = z.object({
       value: z.number(),
       color: z.string().optional()
     }))
+  }).optional(),
+  // Comparison / feature matrix: first column names the attribute, one column per option
+  tableSpec: z.object({
+    headers: z.array(z.string()).min(2).max(6),
+    rows: z.array(z.array(z.string())).min(1).max(12)
   }).optional()
 });
 
@@ -646,16 +767,31 @@ export const CitationSchema = z.object({
   id: z.string(),
   claim: z.string(),
   source: z.string().optional(),
-  factId: z.string().optional() // Link back to the FactCluster ID
+  factId: z.string().optional(), // Link back to the FactCluster ID
+  number: z.number().optional() // Deck-wide footnote number (assigned by services/citations/citationRenderer.ts)
 });
 
+// How footers and the generated Sources slide format a citation
+export const CitationStyleSchema = z.enum(['numeric', 'author-date', 'url-only']);
+
+// Which sources agree with a fact and which facts state a different figure for the same metric
+export const FactCorroborationSchema = z.object({
+  sources: z.array(z.string()),
+  conflictsWith: z.array(z.string()).optional()
+});
+
+// How strongly a reviewed fact should be used: high facts lead every fact context, low facts close it
+export const FactWeightSchema = z.enum(['high', 'normal', 'low']);
+
 export const ResearchFactSchema = z.object({
   id: z.string(),
   category: z.string(),
   claim: z.string(),
   value: z.string().optional(),
   source: z.string().optional(),
-  confidence: z.enum(['high', 'medium', 'low'])
+  confidence: z.enum(['high', 'medium', 'low']),
+  weight: FactWeightSchema.optional(), // Reviewer emphasis (services/review/researchReview.ts); default normal
+  corroboration: FactCorroborationSchema.optional() // Set by services/research/corroboration.ts
 });
 
 export const FactClusterSchema = z.object({
@@ -679,6 +815,50 @@ export const ChartSpecSchema = z.object({
   yAxisLabel: z.string().optional()
 });
 
+export const TableAlignSchema = z.enum(['left', 'center', 'right']);
+export type TableAlign = z.infer<typeof TableAlignSchema>;
+
+// Cell values drawn as ✓ / ✗ glyphs in feature-matrix tables (whole cell, case-insensitive).
+// A bare "x" is left alone: some tables use it for "has it", others for "doesn't".
+export const TABLE_CHECK_VALUES = ['✓', '✔', '✅', '☑', 'yes', 'y', 'true', 'included', 'supported'];
+export const TABLE_CROSS_VALUES = ['✗', '✘', '❌', '✕', 'no', 'n', 'false', 'not included', 'unsupported'];
+
+export function tableCellGlyph(value: string): 'check' | 'cross' | undefined {
+  const key = (value || '').trim().toLowerCase();
+  if (TABLE_CHECK_VALUES.includes(key)) return 'check';
+  if (TABLE_CROSS_VALUES.includes(key)) return 'cross';
+  return undefined;
+}
+
+// Deterministic diagram library (services/diagramBuilder.ts)
+export const DIAGRAM_TYPES = [
+  'circular-ecosystem', // Center theme + outer ring of elements
+  'timeline',           // Milestones in order; detail = date
+  'hierarchy',          // Org / tree; parentId links elements
+  'cycle',              // Closed loop of stages with arrows
+  'funnel',             // Narrowing stages, widest first; detail = count
+  'pyramid',            // Tiers, apex first
+  'matrix-2x2',         // Quadrants TL, TR, BL, BR; axisLabels name the axes
+  'venn',               // 2-3 overlapping sets; centralTheme = the overlap
+  'hub-spoke'           // Central hub with labelled spokes
+] as const;
+
+export const DiagramTypeSchema = z.enum(DIAGRAM_TYPES);
+export type DiagramType = z.infer<typeof DiagramTypeSchema>;
+
+// Element counts each diagram type can lay out legibly
+export const DIAGRAM_ELEMENT_LIMITS: Record<DiagramType, { min: number; max: number }> = {
+  'circular-ecosystem': { min: 3, max: 8 },
+  'timeline': { min: 3, max: 8 },
+  'hierarchy': { min: 3, max: 8 },
+  'cycle': { min: 3, max: 8 },
+  'funnel': { min: 3, max: 6 },
+  'pyramid': { min: 3, max: 6 },
+  'matrix-2x2': { min: 4, max: 4 },
+  'venn': { min: 2, max: 3 },
+  'hub-spoke': { min: 3, max: 8 }
+};
+
 export const TemplateComponentSchema = z.discriminatedUnion('type', [
   z.object({
     type: z.literal('title-section'),
@@ -729,17 +909,32 @@ export const TemplateComponentSchema = z.discriminatedUnion('type', [
       label: z.string(),
       value: z.number(),
     })),
+    yAxisLabel: z.string().max(40).optional(),
+  }),
+  z.object({
+    type: z.literal('data-table'),
+    title: z.string().max(80).optional(),
+    headers: z.array(z.string()).min(1).max(6),
+    rows: z.array(z.array(z.string())).min(1).max(12),
+    // Per column; missing columns: label column left, numbers right, ✓/✗ centred
+    columnAlign: z.array(TableAlignSchema).max(6).optional(),
+    // Indices into rows (0 = first body row) and single cells to emphasise, e.g. the recommended option
+    highlightRows: z.array(z.number().int().min(0)).optional(),
+    highlightCells: z.array(z.object({ row: z.number().int().min(0), col: z.number().int().min(0) })).optional(),
   }),
   z.object({
     type: z.literal('diagram-svg'),
     title: z.string().max(60).optional(),
-    diagramType: z.literal('circular-ecosystem'),
+    diagramType: DiagramTypeSchema,
     elements: z.array(z.object({
       id: z.string(),
       label: z.string().max(30),
-      icon: z.string().optional()
-    })).min(3).max(8),
-    centralTheme: z.string().max(40).optional()
+      icon: z.string().optional(),
+      detail: z.string().max(40).optional(),   // Date, count or sub-label
+      parentId: z.string().optional()          // hierarchy only
+    })).min(2).max(8),
+    centralTheme: z.string().max(40).optional(),
+    axisLabels: z.object({ x: z.string().max(30), y: z.string().max(30) }).optional() // matrix-2x2 only
   }),
 ]);
 
@@ -772,6 +967,76 @@ export const AgentLayoutSchema = z.object({
   designIntent: z.string().optional(),
 });
 
+// --- CORPORATE TEMPLATES (services/import/templateImporter.ts) ---
+// Geometry is in deck inches: the template page is scaled onto its slideSize
+
+const TemplateBoxSchema = z.object({ x: z.number(), y: z.number(), w: z.number(), h: z.number() });
+
+// Fixed element of the template's slide master (logo, footer text, rule)
+export const TemplateShapeSchema = z.discriminatedUnion('type', [
+  TemplateBoxSchema.extend({ type: z.literal('image'), data: z.string() }),
+  TemplateBoxSchema.extend({
+    type: z.literal('text'),
+    text: z.string(),
+    fontSize: z.number(),
+    color: z.string(),
+    fontFamily: z.string().optional(),
+    bold: z.boolean().optional(),
+    align: z.enum(['left', 'center', 'right']).optional()
+  }),
+  TemplateBoxSchema.extend({ type: z.literal('rect'), fill: z.string() })
+]);
+
+export const DeckTemplateSchema = z.object({
+  name: z.string(),
+  background: z.object({ color: z.string().optional(), image: z.string().optional() }),
+  shapes: z.array(TemplateShapeSchema),
+  // Slide number field of the master
+  slideNumber: TemplateBoxSchema.extend({ fontSize: z.number(), color: z.string(), align: z.enum(['left', 'center', 'right']).optional() }).optional(),
+  // Union of the master's title and body placeholders; variants without a template layout are fitted into it
+  contentBounds: TemplateBoxSchema.optional(),
+  // Placeholder regions of the slide layouts, keyed by the layout variant they replace
+  layouts: z.array(z.object({
+    name: z.string(),
+    variant: z.string(),
+    zones: z.array(SpatialZoneSchema)
+  }))
+});
+
+// --- BRAND KITS (services/brand/brandKit.ts) ---
+// The approved visual identity; generation is constrained to it and validateBrandCompliance reports anything outside it
+
+export const BrandColorRoleSchema = z.enum(['primary', 'secondary', 'accent', 'background', 'text', 'neutral']);
+
+export const BrandLogoSchema = z.object({
+  data: z.string(),                                                      // Image data URL
+  placement: z.enum(['top-left', 'top-right', 'bottom-left', 'bottom-right']),
+  width: z.number().positive(),                                          // Inches
+  height: z.number().positive(),
+  margin: z.number().min(0).optional(),                                  // Clear space to the slide edges (default 0.3in)
+  background: z.enum(['light', 'dark']).optional()                       // Variant for light or dark backgrounds; unset = either
+});
+
+export const BrandKitSchema = z.object({
+  name: z.string().min(1),
+  colors: z.array(z.object({
+    hex: z.string().regex(/^#?[0-9A-Fa-f]{6}$/),
+    role: BrandColorRoleSchema,
+    name: z.string().optional()
+  })).min(1),
+  fonts: z.object({
+    title: z.string().min(1),
+    body: z.string().min(1),
+    allowed: z.array(z.string()).optional()                              // Further approved faces (e.g. a mono for code)
+  }),
+  logos: z.array(BrandLogoSchema).optional(),
+  bannedDecorations: z.array(DecorativeTypeSchema).optional(),
+  allowedCardStyles: z.array(CardStyleSchema).min(1).optional()          // Unset = every card style
+}).refine(
+  kit => ['primary', 'background', 'text'].every(role => kit.colors.some(c => c.role === role)),
+  { message: 'A brand kit needs a primary, a background and a text colour', path: ['colors'] }
+);
+
 export const StyleGuideSchema = z.object({
   themeName: z.string(),
   fontFamilyTitle: z.string(),
@@ -782,6 +1047,15 @@ export const StyleGuideSchema = z.object({
   imageStyle: z.string(),
   layoutStrategy: z.string(),
   styleDNA: SlideStyleDNASchema.optional(),
+  // Reading direction of the deck text; 'rtl' right-aligns text in SpatialLayoutEngine (set by services/translation)
+  direction: z.enum(['ltr', 'rtl']).optional(),
+  // Page size of the deck (see SLIDE_SIZES); unset means 16:9
+  slideSize: SlideSizeSchema.optional(),
+  // Corporate master the deck is built on; locked style guides keep their palette and fonts through generation
+  template: DeckTemplateSchema.optional(),
+  locked: z.boolean().optional(),
+  // Brand kit the deck was generated under (services/brand/brandKit.ts); implies locked
+  brandKit: BrandKitSchema.optional(),
   // NEW: Rendering constraints for Director control
   rendering: z.object({
     // Safety multiplier for DOM-to-PPTX text height (1.0-1.5)
@@ -889,7 +1163,10 @@ export const SlideNodeSchema = z.object({
   environmentSnapshot: z.object({
     elements: z.array(z.any()),
     zones: z.array(z.any())
-  }).optional()
+  }).optional(),
+
+  // Set on slides appended by a deck-level pass; that pass replaces them when it re-runs
+  generatedBy: z.enum(['citations']).optional()
 });
 
 // 4. THE ENVIRONMENT (Critique 2: Context as Environment)
@@ -899,13 +1176,18 @@ export const OutlineSchema = z.object({
   knowledgeSheet: KnowledgeSheetSchema,
   factClusters: z.array(FactClusterSchema).optional(), // The Librarian's Index
   styleGuide: StyleGuideSchema,
+  citationStyle: CitationStyleSchema.optional(), // Default: numeric
+  language: z.string().optional(), // BCP 47 tag of the deck text, e.g. 'de', 'ja'; default English
+  audience: AudienceProfileSchema.optional(), // Who the deck was written for; default: no audience steering
   slides: z.array(z.object({
     order: z.number(),
     type: z.nativeEnum(SLIDE_TYPES),
     title: z.string(),
     purpose: z.string(),
     relevantFactIds: z.array(z.string()).optional(), // Legacy
-    relevantClusterIds: z.array(z.string()).optional() // RLM
+    relevantClusterIds: z.array(z.string()).optional(), // RLM
+    contentHints: z.array(z.string()).optional(), // Points from a user outline, in the author's order
+    fixedTitle: z.boolean().optional() // Title from a user outline; agents keep it verbatim
   })).min(4).max(12)
 });
 
@@ -1008,10 +1290,18 @@ export type RouterDecision = z.infer<typeof RouterDecisionSchema>;
 export type LayoutVariant = z.infer<typeof LayoutVariantSchema>;
 export type ValidationResult = z.infer<typeof ValidationResultSchema>;
 export type ResearchFact = z.infer<typeof ResearchFactSchema>;
+export type Citation = z.infer<typeof CitationSchema>;
+export type CitationStyle = z.infer<typeof CitationStyleSchema>;
 export type AgentLayout = z.infer<typeof AgentLayoutSchema>;
 export type FactCluster = z.infer<typeof FactClusterSchema>;
+export type FactWeight = z.infer<typeof FactWeightSchema>;
 export type VisualDesignSpec = z.infer<typeof VisualDesignSpecSchema>;
 export type SpatialZone = z.infer<typeof SpatialZoneSchema>;
+export type TemplateShape = z.infer<typeof TemplateShapeSchema>;
+export type DeckTemplate = z.infer<typeof DeckTemplateSchema>;
+export type BrandColorRole = z.infer<typeof BrandColorRoleSchema>;
+export type BrandLogo = z.infer<typeof BrandLogoSchema>;
+export type BrandKit = z.infer<typeof BrandKitSchema>;
 export type SpatialStrategy = z.infer<typeof SpatialStrategySchema>;
 export type SlideStyleDNA = z.infer<typeof SlideStyleDNASchema>;
 
@@ -1054,6 +1344,15 @@ export interface EnvironmentState {
   errors_count: number;
 }
 
+export interface TableCell {
+  text: string;
+  color: string;           // Hex, no '#'
+  fill?: { color: string; alpha: number };
+  align: TableAlign;
+  bold?: boolean;
+  lines?: string[];        // Wrapped lines for renderers that can't wrap (SVG); PPTX wraps itself
+}
+
 export type VisualElement =
   | {
     type: 'shape';
@@ -1083,6 +1382,7 @@ export type VisualElement =
     bold?: boolean;
     italic?: boolean;
     align?: "left" | "center" | "right";
+    rtl?: boolean; // Right-to-left paragraph (Arabic, Hebrew)
     rotation?: number;
     zIndex?: number;
     // Premium typography enhancements
@@ -1100,6 +1400,42 @@ export type VisualElement =
     h: number;
     zIndex?: number;
     transparency?: number;
+  }
+  | {
+    // Native table: exported with pptxgenjs addTable so cells stay editable,
+    // drawn as cell rects + text in the preview, SVG proxy and HTML (see services/visual/tableGeometry.ts)
+    type: 'table';
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+    colW: number[];        // Column widths in inches (sum = w)
+    rowH: number[];        // Row heights in inches, header first (sum = h)
+    cells: TableCell[][];  // Row 0 is the header
+    fontSize: number;      // Points
+    fontFamily?: string;
+    borderColor?: string;  // Hex, no '#'
+    zIndex?: number;
+  }
+  | {
+    // Native data chart: exported as an editable pptxgenjs chart (with embedded data sheet),
+    // drawn as vector geometry in the preview and SVG proxy (see services/visual/chartGeometry.ts)
+    type: 'chart';
+    chartType: 'bar' | 'line' | 'pie' | 'doughnut';
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+    data: Array<{ label: string; value: number }>;
+    seriesName?: string;
+    yAxisLabel?: string;
+    colors: string[];      // Palette hex values (no '#'), cycled per data point / series
+    textColor: string;
+    gridColor?: string;
+    showLegend?: boolean;  // Pie/doughnut legends (category + value)
+    fontFamily?: string;
+    fontSize?: number;     // Axis/value label size in points
+    zIndex?: number;
   };
 
 // --- VISUAL ARCHITECT SCHEMAS (Qwen-VL3 Integration) ---
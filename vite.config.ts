@@ -4,6 +4,12 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, '.', '');
+  // Search credentials stay with the CLI: an endpoint with user:password in the
+  // URL is left out of the bundle, and ELASTICSEARCH_API_KEY is never inlined
+  const browserSearchProvider = env.SEARCH_PROVIDER && !/\/\/[^/@]*@/.test(env.SEARCH_PROVIDER) ? env.SEARCH_PROVIDER : undefined;
+  if (env.SEARCH_PROVIDER && !browserSearchProvider) {
+    console.warn('[vite] SEARCH_PROVIDER carries credentials and is not passed to the browser build; use a proxy URL for the builder');
+  }
   return {
     server: {
       port: 3000,
@@ -15,7 +21,8 @@ export default defineConfig(({ mode }) => {
       'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
       'process.env.DASHSCOPE_API_KEY': JSON.stringify(env.DASHSCOPE_API_KEY),
       'process.env.QWEN_API_KEY': JSON.stringify(env.QWEN_API_KEY),
-      'process.env.QWEN_VL_PROXY_URL': JSON.stringify(env.QWEN_VL_PROXY_URL)
+      'process.env.QWEN_VL_PROXY_URL': JSON.stringify(env.QWEN_VL_PROXY_URL),
+      'process.env.SEARCH_PROVIDER': JSON.stringify(browserSearchProvider)
     },
     resolve: {
       alias: {
@@ -31,7 +38,9 @@ export default defineConfig(({ mode }) => {
     build: {
       rollupOptions: {
         external: [
-          '@resvg/resvg-js' // Prevent bundling native module
+          '@resvg/resvg-js', // Prevent bundling native module
+          'node:fs/promises', // LLM fixture store (services/replay): Node.js only
+          'node:path'
         ]
       }
     }